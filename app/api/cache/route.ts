@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { createLogger } from '@/lib/logger';
+import { getResponseCacheStats } from '@/lib/responseCache';
+
+// Whether the cache stats are served (on by default outside production)
+const RESPONSE_CACHE_API = (process.env.RESPONSE_CACHE_API || (process.env.NODE_ENV === 'production' ? 'false' : 'true')) === 'true';
+
+const log = createLogger('api/cache');
+
+/**
+ * Response cache hit-rate stats since the server started.
+ * Returns 404 unless RESPONSE_CACHE_API allows it.
+ */
+export async function GET() {
+  if (!RESPONSE_CACHE_API) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  try {
+    return NextResponse.json(await getResponseCacheStats());
+  } catch (error) {
+    log.error('Error in cache API:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load cache stats',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { toErrorResponse } from '@/lib/errors';
+import { getCreditCards } from '@/lib/data';
+
+/**
+ * Returns one card's full record: the raw catalog columns plus the typed schema fields
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const catalog = await getCreditCards();
+    const card = catalog.find(item => item.id === params.id);
+
+    if (!card) {
+      return NextResponse.json({ error: 'Card not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(card);
+  } catch (error) {
+    console.error('Error in cards API:', error);
+    const { status, headers, body } = toErrorResponse(error, 'Failed to load card');
+    return NextResponse.json(body, { status, headers });
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { toErrorResponse } from '@/lib/errors';
+import { browseCards, parseCardListQuery } from '@/lib/cardCatalog';
+import { getCreditCards } from '@/lib/data';
+
+/**
+ * Browses the card catalog: keyword search, filters, sorting, pagination and facets
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const query = parseCardListQuery(request.nextUrl.searchParams);
+    const catalog = await getCreditCards();
+    const result = browseCards(catalog, query);
+
+    console.log(`[CARDS] ${result.total} of ${catalog.length} cards match${query.q ? ` "${query.q}"` : ''}, page ${result.page}/${result.totalPages}`);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error in cards API:', error);
+    const { status, headers, body } = toErrorResponse(error, 'Failed to load cards');
+    return NextResponse.json(body, { status, headers });
+  }
+}
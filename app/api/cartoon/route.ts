@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { AppError, toErrorResponse } from '@/lib/errors';
+import { enforceRateLimit, getClientIp } from '@/lib/rateLimit';
 
 /**
  * Detects if the request is from a mobile device based on User-Agent
@@ -19,6 +21,8 @@ function isMobileDevice(userAgent: string | null): boolean {
  */
 export async function GET(request: NextRequest) {
   try {
+    await enforceRateLimit('cartoon', { ip: getClientIp(request.headers) });
+
     // Get already shown cartoons from query parameter
     const { searchParams } = new URL(request.url);
     const shownCartoonsParam = searchParams.get('shown');
@@ -192,6 +196,10 @@ export async function GET(request: NextRequest) {
     });
   } catch (error) {
     console.error('Error fetching cartoon:', error);
+    if (error instanceof AppError) {
+      const { status, headers, body } = toErrorResponse(error);
+      return NextResponse.json(body, { status, headers });
+    }
     return NextResponse.json(
       {
         error: 'Failed to fetch cartoon',
@@ -1,15 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
-import { getGoogleSheetsData, filterCreditCards } from '@/lib/googleSheets';
-
-function getOpenAIClient() {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY is not set. Please check your .env.local file.');
-  }
-  return new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-  });
-}
+import { getLLMProvider, MODELS } from '@/lib/llm';
+import { getGoogleSheetsData, filterCreditCards, CreditCard } from '@/lib/googleSheets';
+import { createCardNameResolver } from '@/lib/cardResolver';
+import { buildTooManyCardsMessage, extractComparisonCardNames, MAX_COMPARE_CARDS } from '@/lib/comparisonQuery';
+import { AppError, toErrorResponse } from '@/lib/errors';
+import { enforceRateLimit, getClientIp, validateInputLimits } from '@/lib/rateLimit';
+import { buildPrivacyNotice, redactUserText } from '@/lib/pii';
 
 const CATEGORIES = {
   RECOMMENDATIONS: 'Wants credit card recommendations',
@@ -22,19 +18,21 @@ const CATEGORIES = {
 
 export async function POST(request: NextRequest) {
   try {
-    const { message } = await request.json();
+    await enforceRateLimit('chat', { ip: getClientIp(request.headers) });
+    const body = await request.json();
 
-    if (!message) {
+    if (!body.message || typeof body.message !== 'string') {
       return NextResponse.json({ error: 'Message is required' }, { status: 400 });
     }
+    validateInputLimits({ message: body.message });
 
-    // Initialize OpenAI client
-    const openai = getOpenAIClient();
+    // Personal data is replaced with placeholders before the message reaches the model
+    const { text: message, redacted } = redactUserText(body.message, '/api/chat');
+    const privacyNotice = buildPrivacyNotice(redacted);
 
     // Step 1: Classify the question
-    const classificationResponse = await openai.chat.completions.create({
-      model: 'gpt-4',
-      messages: [
+    const classificationResponse = await getLLMProvider().chat(
+      [
         {
           role: 'system',
           content: `You are a question classifier. Classify the user's question into one of these exact categories:
@@ -52,10 +50,10 @@ Respond with ONLY the exact category name from the list above.`,
           content: message,
         },
       ],
-      temperature: 0.3,
-    });
+      { model: MODELS.classifier, temperature: 0.3, usageStep: 'chat_classification' }
+    );
 
-    const category = classificationResponse.choices[0].message.content?.trim() || CATEGORIES.UNRELATED;
+    const category = classificationResponse.content?.trim() || CATEGORIES.UNRELATED;
 
     // Step 2: Get Google Sheets data
     const sheetsData = await getGoogleSheetsData();
@@ -66,6 +64,7 @@ Respond with ONLY the exact category name from the list above.`,
       message: '',
       creditCards: [],
       recommendedQuestions: [],
+      ...(privacyNotice ? { privacyNotice } : {}),
     };
 
     if (category === CATEGORIES.SITE_INFO) {
@@ -74,9 +73,8 @@ Respond with ONLY the exact category name from the list above.`,
       response.message = "I love credit cards, but don't know much else about the world.";
     } else if (category === CATEGORIES.ATTRIBUTES) {
       // Use OpenAI to answer attribute questions
-      const attributeResponse = await openai.chat.completions.create({
-        model: 'gpt-4',
-        messages: [
+      const attributeResponse = await getLLMProvider().chat(
+        [
           {
             role: 'system',
             content: 'You are a helpful credit card expert. Answer questions about credit card attributes, terms, and concepts in 1-3 conversational sentences. Be clear and helpful.',
@@ -86,9 +84,9 @@ Respond with ONLY the exact category name from the list above.`,
             content: message,
           },
         ],
-        temperature: 0.7,
-      });
-      response.message = attributeResponse.choices[0].message.content || '';
+        { model: MODELS.classifier, temperature: 0.7, usageStep: 'chat_attributes' }
+      );
+      response.message = attributeResponse.content || '';
     } else if (category === CATEGORIES.RECOMMENDATIONS) {
       // Filter credit cards based on query
       const filteredCards = filterCreditCards(sheetsData, message);
@@ -98,9 +96,8 @@ Respond with ONLY the exact category name from the list above.`,
       const cardsToUse = topCards.length > 0 ? topCards : sheetsData.slice(0, 3);
 
       // Generate conversational response
-      const recommendationResponse = await openai.chat.completions.create({
-        model: 'gpt-4',
-        messages: [
+      const recommendationResponse = await getLLMProvider().chat(
+        [
           {
             role: 'system',
             content: `You are a helpful credit card expert. Provide a conversational 2-3 sentence response about credit card recommendations based on the user's query. Be friendly and helpful. The user asked: "${message}". ${cardsToUse.length > 0 ? `Here are some relevant cards: ${cardsToUse.map(c => c.credit_card_name).join(', ')}` : ''}`,
@@ -110,28 +107,30 @@ Respond with ONLY the exact category name from the list above.`,
             content: message,
           },
         ],
-        temperature: 0.7,
-      });
+        { model: MODELS.classifier, temperature: 0.7, usageStep: 'chat_recommendations' }
+      );
 
-      response.message = recommendationResponse.choices[0].message.content || '';
+      response.message = recommendationResponse.content || '';
       response.creditCards = cardsToUse.map(card => ({
         name: card.credit_card_name || 'Credit Card',
         url: card.url || '#',
         highlights: card.card_highlights || 'No highlights available.',
       }));
     } else if (category === CATEGORIES.SPECIFIC_CARD) {
-      // Try to find the card in sheets first
+      // Resolve the card in sheets first (aliases, nicknames, typos)
       const cardName = extractCardName(message);
-      const matchingCard = sheetsData.find(card =>
-        card.credit_card_name?.toLowerCase().includes(cardName.toLowerCase()) ||
-        cardName.toLowerCase().includes(card.credit_card_name?.toLowerCase() || '')
-      );
+      const { matches, didYouMean } = resolveSheetCards(sheetsData, [cardName]);
+      const matchingCard = matches[0];
 
-      if (matchingCard) {
+      if (didYouMean[cardName]) {
+        // Several cards match equally well: ask instead of guessing
+        response.message = `I found a few cards that could match "${cardName}". Did you mean one of these?`;
+        response.didYouMean = didYouMean;
+        response.recommendedQuestions = didYouMean[cardName].map(name => `Tell me about the ${name}`);
+      } else if (matchingCard) {
         // Use sheet data
-        const specificResponse = await openai.chat.completions.create({
-          model: 'gpt-4',
-          messages: [
+        const specificResponse = await getLLMProvider().chat(
+          [
             {
               role: 'system',
               content: `You are a helpful credit card expert. Answer the user's question about a specific credit card in 1-3 conversational sentences. Use the following information if relevant: ${JSON.stringify(matchingCard)}`,
@@ -141,14 +140,13 @@ Respond with ONLY the exact category name from the list above.`,
               content: message,
             },
           ],
-          temperature: 0.7,
-        });
-        response.message = specificResponse.choices[0].message.content || '';
+          { model: MODELS.classifier, temperature: 0.7, usageStep: 'chat_specific_card' }
+        );
+        response.message = specificResponse.content || '';
       } else {
         // Use web search via OpenAI
-        const webResponse = await openai.chat.completions.create({
-          model: 'gpt-4',
-          messages: [
+        const webResponse = await getLLMProvider().chat(
+          [
             {
               role: 'system',
               content: 'You are a helpful credit card expert. Answer questions about specific credit cards in 1-3 conversational sentences. If you need current information, use your knowledge base.',
@@ -158,49 +156,60 @@ Respond with ONLY the exact category name from the list above.`,
               content: message,
             },
           ],
-          temperature: 0.7,
-        });
-        response.message = webResponse.choices[0].message.content || '';
+          { model: MODELS.classifier, temperature: 0.7, usageStep: 'chat_web_search' }
+        );
+        response.message = webResponse.content || '';
       }
     } else if (category === CATEGORIES.COMPARE_CARDS) {
-      // Extract card names and find them in sheets
-      const cardNames = extractCardNames(message);
-      const matchingCards = sheetsData.filter(card =>
-        cardNames.some(name =>
-          card.credit_card_name?.toLowerCase().includes(name.toLowerCase()) ||
-          name.toLowerCase().includes(card.credit_card_name?.toLowerCase() || '')
-        )
-      ).slice(0, 3);
+      // Extract card names and resolve them in sheets
+      const cardNames = extractComparisonCardNames(message);
+      const { matches: matchingCards, didYouMean } = resolveSheetCards(sheetsData, cardNames.slice(0, MAX_COMPARE_CARDS));
+      const ambiguousNames = Object.keys(didYouMean);
 
-      const compareResponse = await openai.chat.completions.create({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: `You are a helpful credit card expert. Compare credit cards in 1-3 conversational sentences. Use this data if relevant: ${JSON.stringify(matchingCards)}`,
-          },
-          {
-            role: 'user',
-            content: message,
-          },
-        ],
-        temperature: 0.7,
-      });
+      if (cardNames.length > MAX_COMPARE_CARDS) {
+        response.message = buildTooManyCardsMessage(cardNames);
+      } else if (ambiguousNames.length > 0) {
+        response.message = ambiguousNames
+          .map(name => `I found a few cards that could match "${name}": ${didYouMean[name].join(', ')}.`)
+          .concat('Which ones did you mean?')
+          .join(' ');
+        response.didYouMean = didYouMean;
+      } else {
+        const compareResponse = await getLLMProvider().chat(
+          [
+            {
+              role: 'system',
+              content: `You are a helpful credit card expert. Compare credit cards in 1-3 conversational sentences. Use this data if relevant: ${JSON.stringify(matchingCards)}`,
+            },
+            {
+              role: 'user',
+              content: message,
+            },
+          ],
+          { model: MODELS.classifier, temperature: 0.7, usageStep: 'chat_compare' }
+        );
 
-      response.message = compareResponse.choices[0].message.content || '';
-      response.creditCards = matchingCards.map(card => ({
-        name: card.credit_card_name,
-        url: card.url,
-        highlights: card.card_highlights || '',
-      }));
+        response.message = compareResponse.content || '';
+        response.creditCards = matchingCards.map(card => ({
+          name: card.credit_card_name,
+          url: card.url,
+          highlights: card.card_highlights || '',
+        }));
+      }
     }
 
-    // Generate recommended questions
-    response.recommendedQuestions = await generateRecommendedQuestions(category, message);
+    // Generate recommended questions (did-you-mean replies already suggest the candidates)
+    if (response.recommendedQuestions.length === 0) {
+      response.recommendedQuestions = await generateRecommendedQuestions(category, message);
+    }
 
     return NextResponse.json(response);
   } catch (error: any) {
     console.error('Error in chat API:', error);
+    if (error instanceof AppError) {
+      const { status, headers, body } = toErrorResponse(error);
+      return NextResponse.json(body, { status, headers });
+    }
     return NextResponse.json(
       { error: 'Failed to process request', details: error.message },
       { status: 500 }
@@ -209,33 +218,36 @@ Respond with ONLY the exact category name from the list above.`,
 }
 
 function extractCardName(message: string): string {
-  // Simple extraction - look for common card name patterns
-  const patterns = [
-    /(?:chase|amex|american express|capital one|citi|discover|bank of america)\s+([a-z\s]+)/i,
-    /([a-z\s]+)\s+(?:card|credit card)/i,
-  ];
+  // Simple extraction - look for common card name patterns (the issuer is kept, it tells cards apart)
+  const issuerMatch = message.match(/(?:chase|amex|american express|capital one|citi|discover|bank of america)\s+[a-z\s]+/i);
+  if (issuerMatch) return issuerMatch[0].trim();
 
-  for (const pattern of patterns) {
-    const match = message.match(pattern);
-    if (match) return match[1] || match[0];
-  }
+  const cardMatch = message.match(/([a-z\s]+)\s+(?:card|credit card)/i);
+  if (cardMatch) return cardMatch[1].trim();
 
   return message;
 }
 
-function extractCardNames(message: string): string[] {
-  const cards: string[] = [];
-  const commonIssuers = ['chase', 'amex', 'american express', 'capital one', 'citi', 'discover'];
-  
-  for (const issuer of commonIssuers) {
-    if (message.toLowerCase().includes(issuer)) {
-      const regex = new RegExp(`${issuer}\\s+([a-z\\s]+)`, 'i');
-      const match = message.match(regex);
-      if (match) cards.push(match[1] || match[0]);
+/**
+ * Resolves card names against the sheet rows with the shared resolver (see lib/cardResolver.ts).
+ * Names that match several cards equally well are returned with their suggestions instead;
+ * the same card named twice is only returned once.
+ */
+function resolveSheetCards(cards: CreditCard[], names: string[]): { matches: CreditCard[]; didYouMean: Record<string, string[]> } {
+  const resolver = createCardNameResolver(cards, card => card.credit_card_name || '');
+  const matches: CreditCard[] = [];
+  const didYouMean: Record<string, string[]> = {};
+
+  for (const name of names) {
+    const resolution = resolver.resolve(name);
+    if (resolution.match) {
+      if (!matches.includes(resolution.match.item)) matches.push(resolution.match.item);
+    } else if (resolution.ambiguous) {
+      didYouMean[name] = resolution.didYouMean;
     }
   }
 
-  return cards.length > 0 ? cards : [message];
+  return { matches, didYouMean };
 }
 
 async function generateRecommendedQuestions(category: string, originalMessage: string): Promise<string[]> {
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { toErrorResponse } from '@/lib/errors';
+import { compareCards } from '@/lib/compare';
+import { buildTooManyCardsMessage, extractComparisonCardNames, MAX_COMPARE_CARDS, MIN_COMPARE_CARDS } from '@/lib/comparisonQuery';
+import { isLLMConfigured } from '@/lib/llm';
+import { createLogger } from '@/lib/logger';
+import { buildPrivacyNotice, redactUserText } from '@/lib/pii';
+import { enforceRateLimit, getClientIp, validateInputLimits } from '@/lib/rateLimit';
+import { CompareRequest } from '@/types';
+
+const log = createLogger('api/compare');
+
+export async function POST(request: NextRequest) {
+  try {
+    await enforceRateLimit('compare', { ip: getClientIp(request.headers) });
+    const body: CompareRequest = await request.json();
+    validateInputLimits({ message: body.message, cardNames: body.cardNames });
+
+    // Personal data is replaced with placeholders before the question reaches the model
+    const redaction = typeof body.message === 'string' ? redactUserText(body.message, '/api/compare') : null;
+    const message = redaction?.text;
+
+    const cardNames = Array.isArray(body.cardNames)
+      ? body.cardNames.filter(name => typeof name === 'string' && name.trim()).map(name => name.trim())
+      : message !== undefined
+        ? extractComparisonCardNames(message)
+        : [];
+
+    if (cardNames.length < MIN_COMPARE_CARDS) {
+      return NextResponse.json(
+        { error: `Provide between ${MIN_COMPARE_CARDS} and ${MAX_COMPARE_CARDS} card names to compare` },
+        { status: 400 }
+      );
+    }
+    if (cardNames.length > MAX_COMPARE_CARDS) {
+      return NextResponse.json(
+        { error: buildTooManyCardsMessage(cardNames), extra: cardNames.slice(MAX_COMPARE_CARDS) },
+        { status: 400 }
+      );
+    }
+
+    // Validate OpenAI API key (not needed when replaying recorded fixtures)
+    if (!isLLMConfigured()) {
+      log.error('OPENAI_API_KEY is not set in environment variables');
+      return NextResponse.json(
+        { error: 'OpenAI API key not configured. Please set OPENAI_API_KEY in your Vercel environment variables.' },
+        { status: 500 }
+      );
+    }
+
+    const comparison = await compareCards(cardNames, message?.trim());
+
+    if (comparison.cards.length < MIN_COMPARE_CARDS) {
+      return NextResponse.json(
+        {
+          error: `Could not find enough of these cards to compare: ${comparison.unresolved.join(', ')}`,
+          unresolved: comparison.unresolved,
+          didYouMean: comparison.didYouMean,
+        },
+        { status: 404 }
+      );
+    }
+
+    const privacyNotice = buildPrivacyNotice(redaction?.redacted || []);
+    return NextResponse.json(privacyNotice ? { ...comparison, privacyNotice } : comparison);
+  } catch (error) {
+    log.error('Error in compare API:', error);
+    const { status, headers, body } = toErrorResponse(error, 'Failed to compare cards');
+    return NextResponse.json(body, { status, headers });
+  }
+}
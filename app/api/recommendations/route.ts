@@ -1,10 +1,74 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { generateRecommendations } from '@/lib/rag';
+import { isLLMConfigured } from '@/lib/llm';
+import { toErrorResponse } from '@/lib/errors';
+import { createLogger } from '@/lib/logger';
+import { newTraceId, parseTraceparent, runWithTrace, Span } from '@/lib/tracing';
+import { normalizeSpendProfile } from '@/lib/cardValue';
+import { enforceRateLimit, getClientIp, validateInputLimits } from '@/lib/rateLimit';
+import { isValidSessionId } from '@/lib/sessions';
+import { createRecommendationEventStream, generateSessionResponse } from '@/lib/recommendationStream';
 import { RecommendationsRequest, RecommendationsResponse } from '@/types';
 
+const FALLBACK_ERROR_MESSAGE = 'Failed to generate recommendations';
+
+// Whether requests may ask for the pipeline decision trace (on by default outside production)
+const PIPELINE_DEBUG = (process.env.PIPELINE_DEBUG || (process.env.NODE_ENV === 'production' ? 'false' : 'true')) === 'true';
+
+const log = createLogger('api/recommendations');
+
+/**
+ * Clients opt into SSE with `Accept: text/event-stream` or `?stream=1`
+ */
+function wantsEventStream(request: NextRequest): boolean {
+  const accept = request.headers.get('accept') || '';
+  return accept.includes('text/event-stream') || request.nextUrl.searchParams.get('stream') === '1';
+}
+
+/**
+ * Streams pipeline progress and results as Server-Sent Events. The stream
+ * outlives the request span, so it is traced as its own child span.
+ */
+function createEventStreamResponse(body: RecommendationsRequest, trace: { traceId: string; parentSpanId: string }): Response {
+  const stream = createRecommendationEventStream(body, (run) => runWithTrace('recommendations.stream', trace, run));
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Trace-Id': trace.traceId,
+    },
+  });
+}
+
+/**
+ * Each request is a trace. A W3C traceparent header continues the caller's trace;
+ * the trace ID is returned in X-Trace-Id either way.
+ */
 export async function POST(request: NextRequest) {
+  const parent = parseTraceparent(request.headers.get('traceparent'));
+  const traceOptions = {
+    traceId: parent?.traceId || newTraceId(),
+    parentSpanId: parent?.parentSpanId,
+    attributes: { 'http.request.method': 'POST', 'http.route': '/api/recommendations' },
+  };
+
+  return runWithTrace('POST /api/recommendations', traceOptions, async span => {
+    const response = await handleRecommendationsRequest(request, span);
+    response.headers.set('X-Trace-Id', span.traceId);
+    span.setAttribute('http.response.status_code', response.status);
+    return response;
+  });
+}
+
+async function handleRecommendationsRequest(request: NextRequest, span: Span): Promise<Response> {
   try {
     const body: RecommendationsRequest = await request.json();
+
+    await enforceRateLimit('recommendations', {
+      ip: getClientIp(request.headers),
+      sessionId: isValidSessionId(body.sessionId) ? body.sessionId : undefined,
+    });
     
     if (!body.message || typeof body.message !== 'string' || body.message.trim().length === 0) {
       return NextResponse.json(
@@ -12,10 +76,11 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       );
     }
+    validateInputLimits(body);
     
-    // Validate OpenAI API key
-    if (!process.env.OPENAI_API_KEY) {
-      console.error('OPENAI_API_KEY is not set in environment variables');
+    // Validate OpenAI API key (not needed when replaying recorded fixtures)
+    if (!isLLMConfigured()) {
+      log.error('OPENAI_API_KEY is not set in environment variables');
       return NextResponse.json(
         { 
           error: 'OpenAI API key not configured. Please set OPENAI_API_KEY in your Vercel environment variables.',
@@ -27,45 +92,33 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    // Generate recommendations using RAG with conversation history
-    const result: RecommendationsResponse = await generateRecommendations(
-      body.message.trim(),
-      undefined, // topN uses default
-      body.conversationHistory, // Pass conversation history
-      body.previousRecommendations // Pass previous recommendations
-    );
+    // Drop unknown categories and invalid amounts from the spend profile
+    body.spendProfile = normalizeSpendProfile(body.spendProfile);
+
+    // The decision trace includes the full prompt, so it is only returned where PIPELINE_DEBUG allows
+    body.debug = body.debug === true && PIPELINE_DEBUG;
+
+    if (wantsEventStream(request)) {
+      return createEventStreamResponse(body, { traceId: span.traceId, parentSpanId: span.spanId });
+    }
+
+    // Generate recommendations using RAG with the session's conversation history
+    const result: RecommendationsResponse = await generateSessionResponse(body);
     
     return NextResponse.json(result);
   } catch (error) {
-    console.error('Error in recommendations API:', error);
+    log.error('Error in recommendations API:', error);
     
-    // Provide more detailed error information
-    let errorMessage = 'Failed to generate recommendations';
-    let errorDetails = '';
-    
-    if (error instanceof Error) {
-      errorMessage = error.message;
-      errorDetails = error.stack || '';
-      
-      // Check for specific error types
-      if (error.message.includes('API key') || error.message.includes('OPENAI_API_KEY')) {
-        errorMessage = 'OpenAI API key error. Please configure OPENAI_API_KEY in Vercel environment variables.';
-      } else if (error.message.includes('fetch')) {
-        errorMessage = 'Failed to fetch data from Google Sheets. Please check the sheet ID and ensure it is public.';
-      } else if (error.message.includes('timeout') || error.message.includes('time')) {
-        errorMessage = 'Request timed out. This may happen on the first request while generating embeddings. Please try again in a few moments.';
-      } else if (error.message.includes('embeddings') || error.message.includes('embedding')) {
-        errorMessage = 'Error generating embeddings. This may take a moment on first request. Please try again.';
-      }
-    }
+    // Typed errors (lib/errors.ts) carry their own status; anything else is a 500
+    const { status, headers, body } = toErrorResponse(error, FALLBACK_ERROR_MESSAGE);
+    const errorDetails = error instanceof Error ? error.stack || '' : '';
     
     return NextResponse.json(
       {
-        error: errorMessage,
+        ...body,
         details: process.env.NODE_ENV === 'development' ? errorDetails : undefined,
-        message: error instanceof Error ? error.message : 'Unknown error',
       },
-      { status: 500 }
+      { status, headers }
     );
   }
 }
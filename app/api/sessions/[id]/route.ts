@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/logger';
+import { getSessionStore, isValidSessionId } from '@/lib/sessions';
+
+const log = createLogger('api/sessions');
+
+/**
+ * Returns a session's messages and last shown cards so the UI can restore the conversation
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    if (!isValidSessionId(params.id)) {
+      return NextResponse.json({ error: 'Invalid session ID' }, { status: 400 });
+    }
+
+    const session = await getSessionStore().get(params.id);
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found or expired' }, { status: 404 });
+    }
+
+    return NextResponse.json(session);
+  } catch (error) {
+    log.error('Error in sessions API:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load session',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,16 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
+import { getLLMProvider, isLLMConfigured, MODELS } from '@/lib/llm';
+import { AppError, toErrorResponse } from '@/lib/errors';
+import { enforceRateLimit, getClientIp, validateInputLimits } from '@/lib/rateLimit';
+import { redactConversationHistory, redactUserText } from '@/lib/pii';
 
-function getOpenAIClient() {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY is not set. Please check your .env.local file.');
-  }
-  return new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-  });
-}
-
-const CHAT_MODEL = process.env.CHAT_MODEL || 'gpt-3.5-turbo';
+const CHAT_MODEL = MODELS.chat;
 
 // Helper function to calculate similarity between two strings
 function calculateSimilarity(str1: string, str2: string): number {
@@ -30,26 +24,30 @@ function calculateSimilarity(str1: string, str2: string): number {
 
 export async function POST(request: NextRequest) {
   try {
+    await enforceRateLimit('suggestions', { ip: getClientIp(request.headers) });
     const body = await request.json();
-    const { userQuestion, conversationHistory, recommendations, summary } = body;
+    const { recommendations, summary } = body;
 
-    if (!userQuestion || typeof userQuestion !== 'string') {
+    if (!body.userQuestion || typeof body.userQuestion !== 'string') {
       return NextResponse.json(
         { error: 'User question is required' },
         { status: 400 }
       );
     }
+    validateInputLimits({ message: body.userQuestion, conversationHistory: body.conversationHistory });
+
+    // Personal data is replaced with placeholders before the text reaches the model
+    const userQuestion = redactUserText(body.userQuestion, '/api/suggestions').text;
+    const conversationHistory = redactConversationHistory(body.conversationHistory, '/api/suggestions').history;
 
     // Validate OpenAI API key
-    if (!process.env.OPENAI_API_KEY) {
+    if (!isLLMConfigured()) {
       return NextResponse.json(
         { error: 'OpenAI API key not configured' },
         { status: 500 }
       );
     }
 
-    const openai = getOpenAIClient();
-
     // Build context from conversation history if provided
     const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
       {
@@ -145,15 +143,14 @@ The remaining questions should be diverse and cover different topics (different
 Avoid similar or overlapping questions. These must be questions the user would type, NOT questions for the user. Return JSON.`,
     });
 
-    const completion = await openai.chat.completions.create({
+    const completion = await getLLMProvider().chatJSON(messages, {
       model: CHAT_MODEL,
-      messages: messages,
+      usageStep: 'suggestions',
       temperature: 0.8, // Slightly higher temperature for more diversity
-      max_tokens: 200, // Increased to allow for 4 distinct questions
-      response_format: { type: 'json_object' },
+      maxTokens: 200, // Increased to allow for 4 distinct questions
     });
 
-    const responseText = completion.choices[0]?.message?.content || '{}';
+    const responseText = completion.content || '{}';
     const parsed = JSON.parse(responseText);
     const suggestions = parsed.suggestions || [];
 
@@ -235,6 +232,10 @@ Avoid similar or overlapping questions. These must be questions the user would t
     return NextResponse.json({ suggestions: processedSuggestions.slice(0, 4) });
   } catch (error) {
     console.error('Error generating suggestions:', error);
+    if (error instanceof AppError) {
+      const { status, headers, body } = toErrorResponse(error);
+      return NextResponse.json(body, { status, headers });
+    }
     return NextResponse.json(
       { error: 'Failed to generate suggestions', details: error instanceof Error ? error.message : 'Unknown error' },
       { status: 500 }
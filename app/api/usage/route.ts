@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/logger';
+import { getDailyUsageReport, getRecentUsageReports } from '@/lib/usage';
+
+const MAX_REPORT_DAYS = 31;
+
+// Whether the spend reports are served (on by default outside production)
+const USAGE_API = (process.env.USAGE_API || (process.env.NODE_ENV === 'production' ? 'false' : 'true')) === 'true';
+
+const log = createLogger('api/usage');
+
+/**
+ * Daily LLM token and cost reports by step and model.
+ * ?date=YYYY-MM-DD for one day (default today), or ?days=N for the last N days.
+ * Returns 404 unless USAGE_API allows it.
+ */
+export async function GET(request: NextRequest) {
+  if (!USAGE_API) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  try {
+    const date = request.nextUrl.searchParams.get('date');
+    const days = request.nextUrl.searchParams.get('days');
+
+    if (date) {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return NextResponse.json({ error: 'date must be YYYY-MM-DD' }, { status: 400 });
+      }
+      return NextResponse.json(await getDailyUsageReport(date));
+    }
+
+    if (days) {
+      const count = parseInt(days, 10);
+      if (!(count >= 1 && count <= MAX_REPORT_DAYS)) {
+        return NextResponse.json({ error: `days must be between 1 and ${MAX_REPORT_DAYS}` }, { status: 400 });
+      }
+      return NextResponse.json({ reports: await getRecentUsageReports(count) });
+    }
+
+    return NextResponse.json(await getDailyUsageReport());
+  } catch (error) {
+    log.error('Error in usage API:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load usage report',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,133 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { ArrowLeft, Check, ExternalLink, MessageCircle, Star } from 'lucide-react';
+import { getCardDetails } from '@/lib/cardDetails';
+
+interface CardPageProps {
+  params: { id: string };
+}
+
+// Rendered per request so the page follows the live catalog
+export const dynamic = 'force-dynamic';
+
+export async function generateMetadata({ params }: CardPageProps): Promise<Metadata> {
+  const details = await getCardDetails(params.id);
+  if (!details) {
+    return { title: 'Card not found' };
+  }
+
+  const { card } = details;
+  return {
+    title: `${card.credit_card_name} | Credit Card Recommendation Chatbot`,
+    description: String(card.card_summary || `Fees, rewards and perks of the ${card.credit_card_name}.`),
+  };
+}
+
+export default async function CardPage({ params }: CardPageProps) {
+  const details = await getCardDetails(params.id);
+  if (!details) {
+    notFound();
+  }
+
+  const { card, attributes, highlights, similarCards } = details;
+  const askHref = `/?ask=${encodeURIComponent(`Tell me about the ${card.credit_card_name}`)}`;
+
+  return (
+    <main className="min-h-screen bg-background">
+      <div className="max-w-4xl mx-auto px-4 py-8 md:py-12 space-y-8">
+        <Link href="/" className="inline-flex items-center text-sm font-semibold text-slate-600 hover:text-primary">
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to chat
+        </Link>
+
+        <section className="rounded-2xl bg-card border border-border shadow-card p-6 md:p-8 space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            {card.issuer && (
+              <span className="px-3 py-1 rounded-lg text-xs font-semibold bg-slate-100 text-slate-700">{card.issuer}</span>
+            )}
+            {card.network && (
+              <span className="px-3 py-1 rounded-lg text-xs font-semibold bg-slate-100 text-slate-700">{card.network}</span>
+            )}
+            {card.top_card && (
+              <span className="inline-flex items-center px-3 py-1 rounded-lg text-xs font-semibold bg-amber-50 text-amber-700 border border-amber-200">
+                <Star className="w-3 h-3 mr-1" />
+                Top card
+              </span>
+            )}
+          </div>
+          <h1 className="font-heading text-3xl md:text-4xl font-bold text-foreground">{card.credit_card_name}</h1>
+          {card.card_summary ? (
+            <p className="text-slate-600 leading-relaxed">{String(card.card_summary)}</p>
+          ) : null}
+          <div className="flex flex-wrap gap-3 pt-2">
+            <a
+              href={card.url_application}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center justify-center rounded-xl bg-gradient-to-r from-primary to-primary/90 text-white px-6 py-3 text-sm font-semibold shadow-lg shadow-primary/30 hover:shadow-xl hover:shadow-primary/40 transition-all"
+            >
+              Apply with issuer
+              <ExternalLink className="w-4 h-4 ml-2" />
+            </a>
+            <Link
+              href={askHref}
+              className="inline-flex items-center justify-center rounded-xl border border-primary/30 text-primary px-6 py-3 text-sm font-semibold hover:bg-secondary transition-all"
+            >
+              <MessageCircle className="w-4 h-4 mr-2" />
+              Ask about this card
+            </Link>
+          </div>
+        </section>
+
+        {highlights.length > 0 && (
+          <section className="rounded-2xl bg-card border border-border shadow-card p-6 md:p-8 space-y-3">
+            <h2 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Key Benefits</h2>
+            {highlights.map((highlight, index) => (
+              <div key={index} className="flex items-start gap-3">
+                <div className="flex-shrink-0 w-5 h-5 rounded-full bg-primary/10 flex items-center justify-center mt-0.5">
+                  <Check className="w-3 h-3 text-primary" strokeWidth={3} />
+                </div>
+                <p className="text-sm text-slate-700 leading-relaxed flex-1">{highlight}</p>
+              </div>
+            ))}
+          </section>
+        )}
+
+        {attributes.length > 0 && (
+          <section className="rounded-2xl bg-card border border-border shadow-card p-6 md:p-8">
+            <h2 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-4">Card Details</h2>
+            <dl className="divide-y divide-border">
+              {attributes.map(attribute => (
+                <div key={attribute.key} className="grid grid-cols-1 md:grid-cols-3 gap-1 md:gap-4 py-3">
+                  <dt className="text-sm font-semibold text-slate-500">{attribute.label}</dt>
+                  <dd className="md:col-span-2 text-sm text-slate-700 whitespace-pre-line">{attribute.value}</dd>
+                </div>
+              ))}
+            </dl>
+          </section>
+        )}
+
+        {similarCards.length > 0 && (
+          <section className="space-y-3">
+            <h2 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Similar Cards</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {similarCards.map(similar => (
+                <Link
+                  key={similar.id}
+                  href={`/cards/${similar.id}`}
+                  className="rounded-xl bg-card border border-border shadow-card p-4 hover:shadow-card-hover hover:border-primary/30 transition-all"
+                >
+                  <p className="font-semibold text-foreground">{similar.credit_card_name}</p>
+                  {similar.annual_fee ? (
+                    <p className="text-sm text-slate-500 mt-1">Annual fee: {String(similar.annual_fee)}</p>
+                  ) : null}
+                </Link>
+              ))}
+            </div>
+          </section>
+        )}
+      </div>
+    </main>
+  );
+}
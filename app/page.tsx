@@ -1,9 +1,16 @@
 'use client';
 
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { Recommendation } from '@/types';
+import { CardComparison, ConversationSession, PipelineDebugTrace, PrivacyNotice, Recommendation, RecommendationsRequest, SpendProfile, WalletPlan } from '@/types';
+import { fetchComparison, fetchRecommendationsStream, fetchSession } from '@/lib/recommendationsClient';
+import { buildTooManyCardsMessage, extractComparisonCardNames, isComparisonQuery, MAX_COMPARE_CARDS } from '@/lib/comparisonQuery';
 import SwipeToLoad from '@/components/SwipeToLoad';
 import CartoonDisplay from '@/components/CartoonDisplay';
+import ComparisonTable from '@/components/ComparisonTable';
+import SpendProfilePanel from '@/components/SpendProfilePanel';
+import EstimatedValue from '@/components/EstimatedValue';
+import WalletTable from '@/components/WalletTable';
+import PipelineDebugPanel from '@/components/PipelineDebugPanel';
 import ReactMarkdown from 'react-markdown';
 import { Plane, ShoppingCart, Shield, User, Sparkles, CreditCard, Search, ChevronLeft, ChevronRight, ChevronDown, ChevronUp, Check, Star, ExternalLink, TrendingUp, Send } from 'lucide-react';
 
@@ -12,6 +19,11 @@ interface Message {
   content: string;
   recommendations?: Recommendation[];
   summary?: string; // Summary with card links for user messages
+  comparison?: CardComparison; // Side-by-side table for "X vs Y" questions
+  wallet?: WalletPlan; // Per-category card plan for "which cards should I carry together" questions
+  debug?: PipelineDebugTrace; // Pipeline decision trace, in debug mode only
+  latencyMs?: Record<string, number>;
+  privacyNotice?: PrivacyNotice; // Personal data the server removed from this message
 }
 
 type SuggestedQuestion = {
@@ -57,12 +69,44 @@ const FUN_LOADING_MESSAGES = [
   "One moment—your question is making me pinky-promise I'll answer thoughtfully.",
 ];
 
+const SPEND_PROFILE_STORAGE_KEY = 'spendProfile';
+const SESSION_ID_STORAGE_KEY = 'sessionId';
+const DEBUG_MODE_STORAGE_KEY = 'pipelineDebug';
+// /api/suggestions only reads the last few messages, and rejects long histories
+const SUGGESTIONS_HISTORY_MESSAGES = 4;
+
+/**
+ * Rebuilds chat messages from a server-side session: the answer to each question
+ * becomes the question's summary, and answers with cards add an assistant message
+ */
+function messagesFromSession(session: ConversationSession): Message[] {
+  const restored: Message[] = [];
+  session.messages.forEach((msg, idx) => {
+    if (msg.role !== 'user') return;
+    const answer = session.messages[idx + 1]?.role === 'assistant' ? session.messages[idx + 1] : undefined;
+    restored.push({
+      role: 'user',
+      content: msg.content,
+      summary: answer?.content || '',
+      recommendations: answer?.recommendations || [],
+    });
+    if (answer?.recommendations && answer.recommendations.length > 0) {
+      restored.push({ role: 'assistant', content: '', recommendations: answer.recommendations });
+    }
+  });
+  return restored;
+}
+
 export default function Home() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [loadingStepName, setLoadingStepName] = useState<string | null>(null);
   const [recommendationTitle, setRecommendationTitle] = useState('AI Recommendations');
   const [dynamicSuggestions, setDynamicSuggestions] = useState<string[]>([]);
+  const [spendProfile, setSpendProfile] = useState<SpendProfile>({});
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [debugMode, setDebugMode] = useState(false);
   const [currentCartoon, setCurrentCartoon] = useState<{ imageUrl: string; source?: string } | null>(null);
   const [shownCartoons, setShownCartoons] = useState<string[]>([]);
   // Initialize carousel index to center position
@@ -2548,6 +2592,153 @@ export default function Home() {
     prevIsLoadingRef.current = isLoading;
   }, [isLoading]); // Only depend on isLoading, use ref for shownCartoons
 
+  // Restore the spend profile saved from a previous visit
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem(SPEND_PROFILE_STORAGE_KEY);
+      if (saved) setSpendProfile(JSON.parse(saved));
+    } catch (error) {
+      console.warn('Could not restore spend profile:', error);
+    }
+  }, []);
+
+  // Resume the server-side conversation from a previous visit, if it hasn't expired
+  useEffect(() => {
+    let savedSessionId: string | null = null;
+    try {
+      savedSessionId = localStorage.getItem(SESSION_ID_STORAGE_KEY);
+    } catch (error) {
+      console.warn('Could not read session ID:', error);
+    }
+    if (!savedSessionId) return;
+
+    fetchSession(savedSessionId).then((session) => {
+      if (!session) {
+        localStorage.removeItem(SESSION_ID_STORAGE_KEY);
+        return;
+      }
+      setSessionId(session.id);
+      // Don't overwrite a conversation the user started while the session was loading
+      setMessages((current) => (current.length > 0 ? current : messagesFromSession(session)));
+    });
+  }, []);
+
+  // Developers turn on the pipeline debug panel with ?debug=1 (and off with ?debug=0); the choice is remembered
+  useEffect(() => {
+    try {
+      const param = new URLSearchParams(window.location.search).get('debug');
+      if (param !== null) localStorage.setItem(DEBUG_MODE_STORAGE_KEY, param === '1' ? 'true' : 'false');
+      setDebugMode(localStorage.getItem(DEBUG_MODE_STORAGE_KEY) === 'true');
+    } catch (error) {
+      console.warn('Could not read debug mode:', error);
+    }
+  }, []);
+
+  // Card pages link here with ?ask=... to start a chat about that card
+  useEffect(() => {
+    const question = new URLSearchParams(window.location.search).get('ask')?.trim();
+    if (!question) return;
+    window.history.replaceState(null, '', window.location.pathname);
+    handleSuggestedQuestion(question);
+  }, []);
+
+  const updateSessionId = (id: string | undefined) => {
+    if (!id || id === sessionId) return;
+    setSessionId(id);
+    try {
+      localStorage.setItem(SESSION_ID_STORAGE_KEY, id);
+    } catch (error) {
+      console.warn('Could not save session ID:', error);
+    }
+  };
+
+  const updateSpendProfile = (profile: SpendProfile) => {
+    setSpendProfile(profile);
+    try {
+      localStorage.setItem(SPEND_PROFILE_STORAGE_KEY, JSON.stringify(profile));
+    } catch (error) {
+      console.warn('Could not save spend profile:', error);
+    }
+  };
+
+  /**
+   * Requests recommendations over SSE and renders partial results as they arrive:
+   * the title updates the cards panel, the summary fills in on the user message
+   * and cards appear one by one on the assistant message. Returns the final response once the stream completes.
+   */
+  const streamRecommendationsIntoMessages = async (
+    request: RecommendationsRequest,
+    newMessages: Message[]
+  ) => {
+    let streamedSummary = '';
+    const streamedRecommendations: Recommendation[] = [];
+
+    const renderPartial = () => {
+      const partialUserMessages = newMessages.map((msg, idx) =>
+        idx === newMessages.length - 1 && msg.role === 'user'
+          ? { ...msg, summary: streamedSummary }
+          : msg
+      );
+      setMessages(
+        streamedRecommendations.length > 0
+          ? [...partialUserMessages, { role: 'assistant', content: '', recommendations: [...streamedRecommendations] }]
+          : partialUserMessages
+      );
+    };
+
+    try {
+      return await fetchRecommendationsStream(request, {
+        onStep: (step) => {
+          console.log(`[STREAM] Step ${step.step} - ${step.stepName}`);
+          setLoadingStepName(step.stepName);
+        },
+        onTitle: (title) => setRecommendationTitle(title),
+        onRecommendation: (recommendation, index) => {
+          streamedRecommendations[index] = recommendation;
+          renderPartial();
+        },
+        onSummary: (_delta, summarySoFar) => {
+          streamedSummary = summarySoFar;
+          renderPartial();
+        },
+      });
+    } finally {
+      setLoadingStepName(null);
+    }
+  };
+
+  /**
+   * Answers "X vs Y" questions with a comparison table (verdict as the summary).
+   * Returns false when the question isn't a comparison or the cards couldn't be
+   * resolved, so the caller falls back to regular recommendations.
+   */
+  const showComparisonIfRequested = async (question: string, newMessages: Message[]) => {
+    if (!isComparisonQuery(question)) return false;
+
+    // Too many cards: say which ones to leave out instead of comparing only some
+    const cardNames = extractComparisonCardNames(question);
+    if (cardNames.length > MAX_COMPARE_CARDS) {
+      setMessages(newMessages.map((msg, idx) =>
+        idx === newMessages.length - 1 && msg.role === 'user'
+          ? { ...msg, summary: buildTooManyCardsMessage(cardNames) }
+          : msg
+      ));
+      return true;
+    }
+
+    setLoadingStepName('Comparing Cards');
+    const comparison = await fetchComparison(question);
+    setLoadingStepName(null);
+    if (!comparison) return false;
+
+    setMessages(newMessages.map((msg, idx) =>
+      idx === newMessages.length - 1 && msg.role === 'user'
+        ? { ...msg, summary: comparison.verdict, comparison, privacyNotice: comparison.privacyNotice }
+        : msg
+    ));
+    return true;
+  };
+
   const handleSend = async () => {
     if (!input.trim() || isLoading) return;
 
@@ -2563,42 +2754,30 @@ export default function Home() {
     setMessages(newMessages);
 
     try {
-      // Prepare conversation history (exclude recommendations from assistant messages)
+      if (await showComparisonIfRequested(userMessage, newMessages)) {
+        return;
+      }
+
+      // Conversation history for follow-up suggestions (the server keeps its own copy in the session)
       const conversationHistory = newMessages
         .filter((msg) => msg.role === 'user' || msg.role === 'assistant')
         .map((msg) => ({
           role: msg.role,
           content: msg.content,
-        }));
-
-      // Find the most recent assistant message with recommendations (previous cards shown)
-      const mostRecentAssistantMessage = [...messages]
-        .reverse()
-        .find((msg) => msg.role === 'assistant' && msg.recommendations && msg.recommendations.length > 0);
-      const previousRecommendations = mostRecentAssistantMessage?.recommendations || [];
-
-      const response = await fetch('/api/recommendations', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ 
-          message: userMessage,
-          conversationHistory: conversationHistory,
-          previousRecommendations: previousRecommendations,
-        }),
-      });
+        }))
+        .slice(-SUGGESTIONS_HISTORY_MESSAGES);
 
-      const data = await response.json();
-      
-      // Check if the response contains an error
-      if (!response.ok || data.error) {
-        const errorMessage = data.error || 'Failed to get recommendations';
-        const errorDetails = data.details ? `\n\n${data.details}` : '';
-        const fullError = `${errorMessage}${errorDetails}`;
-        console.error('API Error:', { error: errorMessage, details: data.details, status: response.status });
-        throw new Error(fullError);
-      }
+      // Stream the response so the summary and cards render as they arrive
+      const data = await streamRecommendationsIntoMessages(
+        {
+          message: userMessage,
+          sessionId: sessionId || undefined,
+          spendProfile: spendProfile,
+          debug: debugMode || undefined,
+        },
+        newMessages
+      );
+      updateSessionId(data.sessionId);
       
       const hasValidRecommendations = data.recommendations && Array.isArray(data.recommendations) && data.recommendations.length > 0;
       console.log('API Response data:', {
@@ -2630,6 +2809,10 @@ Reason: ${data.metadata.reason || 'N/A'}
             ...msg,
             summary: data.summary || '',
             recommendations: data.recommendations || [],
+            wallet: data.wallet,
+            debug: data.metadata?.debug,
+            latencyMs: data.metadata?.latencyMs,
+            privacyNotice: data.privacyNotice,
           };
         }
         return msg;
@@ -2834,42 +3017,30 @@ Reason: ${data.metadata.reason || 'N/A'}
     setMessages(newMessages);
 
     try {
-      // Prepare conversation history
+      if (await showComparisonIfRequested(question, newMessages)) {
+        return;
+      }
+
+      // Conversation history for follow-up suggestions (the server keeps its own copy in the session)
       const conversationHistory = newMessages
         .filter((msg) => msg.role === 'user' || msg.role === 'assistant')
         .map((msg) => ({
           role: msg.role,
           content: msg.content,
-        }));
-
-      // Find the most recent assistant message with recommendations (previous cards shown)
-      const mostRecentAssistantMessage = [...messages]
-        .reverse()
-        .find((msg) => msg.role === 'assistant' && msg.recommendations && msg.recommendations.length > 0);
-      const previousRecommendations = mostRecentAssistantMessage?.recommendations || [];
-
-      const response = await fetch('/api/recommendations', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ 
-          message: question,
-          conversationHistory: conversationHistory,
-          previousRecommendations: previousRecommendations,
-        }),
-      });
+        }))
+        .slice(-SUGGESTIONS_HISTORY_MESSAGES);
 
-      const data = await response.json();
-      
-      // Check if the response contains an error
-      if (!response.ok || data.error) {
-        const errorMessage = data.error || 'Failed to get recommendations';
-        const errorDetails = data.details ? `\n\n${data.details}` : '';
-        const fullError = `${errorMessage}${errorDetails}`;
-        console.error('API Error:', { error: errorMessage, details: data.details, status: response.status });
-        throw new Error(fullError);
-      }
+      // Stream the response so the summary and cards render as they arrive
+      const data = await streamRecommendationsIntoMessages(
+        {
+          message: question,
+          sessionId: sessionId || undefined,
+          spendProfile: spendProfile,
+          debug: debugMode || undefined,
+        },
+        newMessages
+      );
+      updateSessionId(data.sessionId);
       
       const hasValidRecommendations = data.recommendations && Array.isArray(data.recommendations) && data.recommendations.length > 0;
       console.log('API Response data:', {
@@ -2901,6 +3072,10 @@ Reason: ${data.metadata.reason || 'N/A'}
             ...msg,
             summary: data.summary || '',
             recommendations: data.recommendations || [],
+            wallet: data.wallet,
+            debug: data.metadata?.debug,
+            latencyMs: data.metadata?.latencyMs,
+            privacyNotice: data.privacyNotice,
           };
         }
         return msg;
@@ -3135,6 +3310,7 @@ Reason: ${data.metadata.reason || 'N/A'}
                       <span className="hidden md:inline text-sm font-medium">Search</span>
                     </button>
                   </div>
+                  <SpendProfilePanel profile={spendProfile} onChange={updateSpendProfile} />
                   {/* Trust indicators - Desktop only */}
                   <div className="flex items-center justify-center gap-6 text-sm text-muted-foreground">
                     <div className="flex items-center gap-2">
@@ -3478,6 +3654,7 @@ Reason: ${data.metadata.reason || 'N/A'}
                   <span className="hidden md:inline text-sm font-medium">Search</span>
                 </button>
               </div>
+              <SpendProfilePanel profile={spendProfile} onChange={updateSpendProfile} />
               <div className="text-center text-sm text-muted-foreground flex flex-col sm:flex-row gap-2 sm:gap-4 justify-center">
                 <span>✓ Enter to send</span>
                 <span>✨ Instant AI recommendations</span>
@@ -3691,6 +3868,26 @@ Reason: ${data.metadata.reason || 'N/A'}
                                       )}
                                     </div>
                                   )}
+                                  {message.privacyNotice && (
+                                    <div className="ml-12 mt-4 px-4 py-3 bg-amber-50 border border-amber-200 rounded-xl text-sm text-amber-800">
+                                      {message.privacyNotice.message}
+                                    </div>
+                                  )}
+                                  {message.comparison && (
+                                    <div className="ml-12">
+                                      <ComparisonTable comparison={message.comparison} />
+                                    </div>
+                                  )}
+                                  {message.wallet && (
+                                    <div className="ml-12">
+                                      <WalletTable wallet={message.wallet} />
+                                    </div>
+                                  )}
+                                  {message.debug && (
+                                    <div className="ml-12">
+                                      <PipelineDebugPanel trace={message.debug} latencyMs={message.latencyMs} />
+                                    </div>
+                                  )}
                                 </div>
                                 
                                 {/* Disclaimer after every chatbot response */}
@@ -3768,6 +3965,8 @@ Reason: ${data.metadata.reason || 'N/A'}
                                               </p>
                                             </div>
                                           )}
+
+                                          {rec.estimated_value && <EstimatedValue value={rec.estimated_value} />}
                                           
                                           {/* Card Highlights as Checkmarks */}
                                           {rec.card_highlights && (
@@ -3812,6 +4011,14 @@ Reason: ${data.metadata.reason || 'N/A'}
                                             View Details
                                             <ExternalLink className="w-4 h-4 ml-2" />
                                           </a>
+                                          {rec.card_id && (
+                                            <a
+                                              href={`/cards/${rec.card_id}`}
+                                              className="inline-flex items-center justify-center text-sm font-semibold text-primary underline decoration-2 decoration-primary/30 hover:decoration-primary"
+                                            >
+                                              Full card details
+                                            </a>
+                                          )}
                                         </div>
                                       )}
                                     </div>
@@ -4137,6 +4344,24 @@ Reason: ${data.metadata.reason || 'N/A'}
                               )}
                             </div>
                           )}
+
+                          {message.privacyNotice && (
+                            <div className="mt-4 px-4 py-3 bg-amber-50 border border-amber-200 rounded-xl text-sm text-amber-800">
+                              {message.privacyNotice.message}
+                            </div>
+                          )}
+
+                          {message.comparison && (
+                            <ComparisonTable comparison={message.comparison} />
+                          )}
+
+                          {message.wallet && (
+                            <WalletTable wallet={message.wallet} />
+                          )}
+
+                          {message.debug && (
+                            <PipelineDebugPanel trace={message.debug} latencyMs={message.latencyMs} />
+                          )}
                           
                           {/* Disclaimer after every chatbot response - Mobile */}
                           {message.summary && (
@@ -4214,7 +4439,7 @@ Reason: ${data.metadata.reason || 'N/A'}
                           </div>
                           <div className="bg-white rounded-2xl p-5 shadow-sm border border-slate-200/60 max-w-[30.6rem]">
                             <div className="flex items-center gap-2">
-                              <span className="text-slate-600 text-xl lg:text-2xl tracking-tight">Thinking</span>
+                              <span className="text-slate-600 text-xl lg:text-2xl tracking-tight">{loadingStepName || 'Thinking'}</span>
                               <div className="flex gap-1.5">
                                 <div className="w-2 h-2 bg-teal-500 rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></div>
                                 <div className="w-2 h-2 bg-teal-500 rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></div>
@@ -4288,6 +4513,8 @@ Reason: ${data.metadata.reason || 'N/A'}
                                 </p>
                               </div>
                             )}
+
+                            {rec.estimated_value && <EstimatedValue value={rec.estimated_value} />}
                             
                             {/* Card Highlights as Checkmarks */}
                             {rec.card_highlights && (
@@ -4332,6 +4559,14 @@ Reason: ${data.metadata.reason || 'N/A'}
                               View Details
                               <ExternalLink className="w-4 h-4 ml-2" />
                             </a>
+                            {rec.card_id && (
+                              <a
+                                href={`/cards/${rec.card_id}`}
+                                className="inline-flex items-center justify-center text-sm font-semibold text-primary underline decoration-2 decoration-primary/30 hover:decoration-primary"
+                              >
+                                Full card details
+                              </a>
+                            )}
                           </div>
                         )}
                       </div>
@@ -4734,6 +4969,8 @@ Reason: ${data.metadata.reason || 'N/A'}
                                       </p>
                                     </div>
                                   )}
+
+                                  {rec.estimated_value && <EstimatedValue value={rec.estimated_value} />}
                                   
                                   {/* Card Highlights - ALWAYS show if it exists */}
                                   {rec.card_highlights && String(rec.card_highlights).trim().length > 0 && (
@@ -4822,6 +5059,14 @@ Reason: ${data.metadata.reason || 'N/A'}
                                     View Details
                                     <ExternalLink className="w-4 h-4 ml-2" />
                                   </a>
+                                  {rec.card_id && (
+                                    <a
+                                      href={`/cards/${rec.card_id}`}
+                                      className="inline-flex items-center justify-center text-sm font-semibold text-primary underline decoration-2 decoration-primary/30 hover:decoration-primary"
+                                    >
+                                      Full card details
+                                    </a>
+                                  )}
                                 </div>
                               )}
                             </div>
@@ -4904,6 +5149,9 @@ Reason: ${data.metadata.reason || 'N/A'}
                   </button>
                 </div>
               </div>
+              <div className="w-[90%] mx-auto">
+                <SpendProfilePanel profile={spendProfile} onChange={updateSpendProfile} />
+              </div>
 
               {dynamicSuggestions.length > 0 && messages.length > 0 && !isLoading && (
                 <div className="rounded-xl border border-white/60 bg-white/80 px-4 py-3 shadow-md shadow-primary/10 backdrop-blur">
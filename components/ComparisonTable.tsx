@@ -0,0 +1,70 @@
+'use client';
+
+import { CardComparison } from '@/types';
+import { Check } from 'lucide-react';
+
+interface ComparisonTableProps {
+  comparison: CardComparison;
+}
+
+export default function ComparisonTable({ comparison }: ComparisonTableProps) {
+  const { cards, rows, unresolved } = comparison;
+
+  return (
+    <div className="mt-4 bg-white rounded-2xl shadow-md border border-slate-200 overflow-hidden">
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left border-collapse">
+          <thead>
+            <tr className="bg-slate-50 border-b border-slate-200">
+              <th className="px-4 py-3 font-semibold text-slate-600 w-32">&nbsp;</th>
+              {cards.map((card) => (
+                <th key={card.id} className="px-4 py-3 font-semibold text-foreground min-w-[10rem] align-top">
+                  {card.apply_url ? (
+                    <a
+                      href={card.apply_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-primary hover:underline"
+                    >
+                      {card.credit_card_name}
+                    </a>
+                  ) : (
+                    card.credit_card_name
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.key} className="border-b border-slate-100 last:border-b-0">
+                <th scope="row" className="px-4 py-3 font-medium text-slate-600 align-top whitespace-nowrap">
+                  {row.label}
+                </th>
+                {row.values.map((value, index) => {
+                  const isBest = row.bestIndices?.includes(index);
+                  return (
+                    <td
+                      key={cards[index]?.id || index}
+                      className={`px-4 py-3 align-top text-slate-800 break-words ${isBest ? 'bg-emerald-50 font-semibold' : ''}`}
+                    >
+                      <span className="inline-flex items-start gap-1">
+                        {isBest && <Check className="w-4 h-4 mt-0.5 text-emerald-600 flex-shrink-0" />}
+                        {value ?? <span className="text-slate-400">—</span>}
+                      </span>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {unresolved.length > 0 && (
+        <p className="px-4 py-3 text-sm text-slate-500 border-t border-slate-200">
+          Couldn't find: {unresolved.join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
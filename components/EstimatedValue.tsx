@@ -0,0 +1,29 @@
+'use client';
+
+import { CardValueEstimate } from '@/types';
+
+interface EstimatedValueProps {
+  value: CardValueEstimate;
+}
+
+export default function EstimatedValue({ value }: EstimatedValueProps) {
+  const formatDollars = (amount: number) =>
+    amount < 0 ? `-$${Math.abs(amount).toLocaleString('en-US')}` : `$${amount.toLocaleString('en-US')}`;
+
+  return (
+    <div className="pt-2">
+      <p className="text-xs font-semibold text-slate-500 md:text-muted-foreground uppercase md:tracking-wider mb-1">Estimated Value</p>
+      <div className="flex flex-wrap gap-2 mb-1">
+        <span className={`px-2 py-0.5 rounded-md text-sm font-semibold ${value.ongoing >= 0 ? 'bg-emerald-50 text-emerald-700' : 'bg-red-50 text-red-700'}`}>
+          {formatDollars(value.ongoing)}/year
+        </span>
+        {value.first_year !== value.ongoing && (
+          <span className="px-2 py-0.5 rounded-md text-sm bg-slate-100 text-slate-700">
+            {formatDollars(value.first_year)} first year
+          </span>
+        )}
+      </div>
+      <p className="text-sm text-slate-600 md:text-muted-foreground">{value.explanation}</p>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+'use client';
+
+import { PipelineDebugTrace } from '@/types';
+
+interface PipelineDebugPanelProps {
+  trace: PipelineDebugTrace;
+  latencyMs?: Record<string, number>;
+}
+
+const DROP_STAGE_LABELS: Record<PipelineDebugTrace['droppedCards'][number]['stage'], string> = {
+  no_fee_candidates: 'No-fee candidate filter',
+  not_a_candidate: 'Not a candidate',
+  duplicate_cobranded: 'Duplicate co_branded',
+  top_card_replacement: 'Replaced by top_card',
+};
+
+function Section({ title, count, children }: { title: string; count?: number; children: React.ReactNode }) {
+  return (
+    <details className="border-t border-slate-200 first:border-t-0">
+      <summary className="px-4 py-2 cursor-pointer select-none font-semibold text-slate-700 hover:bg-slate-50">
+        {title}
+        {count !== undefined && <span className="ml-2 text-xs font-normal text-slate-500">({count})</span>}
+      </summary>
+      <div className="px-4 pb-3">{children}</div>
+    </details>
+  );
+}
+
+function Empty({ text }: { text: string }) {
+  return <p className="text-slate-500">{text}</p>;
+}
+
+/**
+ * Developer view of metadata.debug: how the pipeline reached its answer
+ */
+export default function PipelineDebugPanel({ trace, latencyMs }: PipelineDebugPanelProps) {
+  const filterEntries = Object.entries(trace.filters || {});
+
+  return (
+    <div className="mt-4 bg-white rounded-2xl shadow-md border border-amber-300 overflow-hidden text-sm">
+      <div className="px-4 py-2 bg-amber-50 border-b border-amber-200 text-amber-800 font-semibold">
+        Pipeline debug
+        {latencyMs?.total !== undefined && <span className="ml-2 font-normal">{latencyMs.total}ms</span>}
+      </div>
+
+      <Section title="Routing">
+        {trace.routing ? (
+          <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-slate-700">
+            <dt className="text-slate-500">Intent</dt>
+            <dd>{trace.routing.intent}</dd>
+            <dt className="text-slate-500">Source</dt>
+            <dd>{trace.routing.source}</dd>
+            {trace.routing.reason && (
+              <>
+                <dt className="text-slate-500">Reason</dt>
+                <dd>{trace.routing.reason}</dd>
+              </>
+            )}
+            {trace.routing.cardNames.length > 0 && (
+              <>
+                <dt className="text-slate-500">Card names</dt>
+                <dd>{trace.routing.cardNames.join(', ')}</dd>
+              </>
+            )}
+            {trace.routing.previousCardIndices.length > 0 && (
+              <>
+                <dt className="text-slate-500">Previous cards</dt>
+                <dd>{trace.routing.previousCardIndices.join(', ')}</dd>
+              </>
+            )}
+            {trace.webSearchNeeded !== undefined && (
+              <>
+                <dt className="text-slate-500">Web search</dt>
+                <dd>{trace.webSearchNeeded ? 'needed' : 'not needed'}</dd>
+              </>
+            )}
+          </dl>
+        ) : (
+          <Empty text="The question was not routed." />
+        )}
+      </Section>
+
+      <Section title="Filters" count={trace.filterPasses.length}>
+        {filterEntries.length === 0 ? (
+          <Empty text="No filters extracted." />
+        ) : (
+          <>
+            <pre className="mb-2 p-2 bg-slate-50 rounded text-xs overflow-x-auto">{JSON.stringify(trace.filters, null, 2)}</pre>
+            <table className="w-full text-left">
+              <thead>
+                <tr className="text-slate-500">
+                  <th className="py-1 font-medium">Filter</th>
+                  <th className="py-1 font-medium">Value</th>
+                  <th className="py-1 font-medium text-right">Cards</th>
+                </tr>
+              </thead>
+              <tbody>
+                {trace.filterPasses.map((pass, index) => (
+                  <tr key={index} className="border-t border-slate-100">
+                    <td className="py-1 text-slate-700">{pass.filter}</td>
+                    <td className="py-1 text-slate-600">{pass.value}</td>
+                    <td className="py-1 text-right text-slate-700">{pass.before} → {pass.after}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {trace.filteredCardCount !== undefined && (
+              <p className="mt-2 text-slate-600">{trace.filteredCardCount} cards left for vector search</p>
+            )}
+          </>
+        )}
+      </Section>
+
+      <Section title="Retrieval" count={trace.retrieval.length}>
+        {trace.retrieval.length === 0 ? (
+          <Empty text="No vector search." />
+        ) : (
+          <table className="w-full text-left">
+            <thead>
+              <tr className="text-slate-500">
+                <th className="py-1 font-medium">#</th>
+                <th className="py-1 font-medium">Card</th>
+                <th className="py-1 font-medium text-right">Similarity</th>
+              </tr>
+            </thead>
+            <tbody>
+              {trace.retrieval.map((result, index) => (
+                <tr key={result.credit_card_name} className="border-t border-slate-100">
+                  <td className="py-1 text-slate-500">{index + 1}</td>
+                  <td className="py-1 text-slate-700">
+                    {result.credit_card_name}
+                    {result.top_card && <span className="ml-2 text-xs text-amber-700">top_card</span>}
+                  </td>
+                  <td className="py-1 text-right text-slate-700">{result.similarity.toFixed(4)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </Section>
+
+      <Section title="Injected cards" count={trace.injectedCards.length}>
+        {trace.injectedCards.length === 0 ? (
+          <Empty text="No cards injected." />
+        ) : (
+          <ul className="space-y-1">
+            {trace.injectedCards.map((card, index) => (
+              <li key={index} className="text-slate-700">
+                <span className="font-medium">{card.credit_card_name}</span>
+                <span className="ml-2 text-xs text-slate-500">into {card.stage}</span>
+                <div className="text-slate-500">{card.reason}</div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </Section>
+
+      <Section title="Dropped cards" count={trace.droppedCards.length}>
+        {trace.droppedCards.length === 0 ? (
+          <Empty text="No cards dropped." />
+        ) : (
+          <ul className="space-y-1">
+            {trace.droppedCards.map((card, index) => (
+              <li key={index} className="text-slate-700">
+                <span className="font-medium">{card.credit_card_name}</span>
+                <span className="ml-2 text-xs text-slate-500">{DROP_STAGE_LABELS[card.stage]}</span>
+                <div className="text-slate-500">{card.reason}</div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </Section>
+
+      <Section title="Prompt" count={trace.prompt?.messages.length}>
+        {trace.prompt ? (
+          <div className="space-y-2">
+            <p className="text-slate-500">Model: {trace.prompt.model}</p>
+            {trace.prompt.messages.map((message, index) => (
+              <div key={index}>
+                <div className="text-xs font-semibold uppercase text-slate-500">{message.role}</div>
+                <pre className="p-2 bg-slate-50 rounded text-xs whitespace-pre-wrap max-h-96 overflow-y-auto">{message.content}</pre>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <Empty text="No recommendations prompt was sent." />
+        )}
+      </Section>
+    </div>
+  );
+}
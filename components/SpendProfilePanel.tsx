@@ -0,0 +1,83 @@
+'use client';
+
+import { useState } from 'react';
+import { SpendCategory, SpendProfile } from '@/types';
+import { ChevronDown, TrendingUp } from 'lucide-react';
+
+interface SpendProfilePanelProps {
+  profile: SpendProfile;
+  onChange: (profile: SpendProfile) => void;
+}
+
+const CATEGORIES: { key: SpendCategory; label: string }[] = [
+  { key: 'dining', label: 'Dining' },
+  { key: 'groceries', label: 'Groceries' },
+  { key: 'gas', label: 'Gas' },
+  { key: 'travel', label: 'Travel' },
+  { key: 'other', label: 'Everything else' },
+];
+
+export default function SpendProfilePanel({ profile, onChange }: SpendProfilePanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const monthlyTotal = CATEGORIES.reduce((sum, { key }) => sum + (profile[key] || 0), 0);
+
+  const updateCategory = (category: SpendCategory, rawValue: string) => {
+    const value = parseFloat(rawValue);
+    const next = { ...profile };
+    if (Number.isFinite(value) && value > 0) {
+      next[category] = value;
+    } else {
+      delete next[category];
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="border border-slate-200 rounded-xl bg-white/80">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-4 py-2 flex items-center justify-between gap-2 text-sm text-slate-700 hover:text-primary transition-colors"
+      >
+        <span className="flex items-center gap-2">
+          <TrendingUp className="w-4 h-4" />
+          {monthlyTotal > 0
+            ? `Ranking by value for $${monthlyTotal.toLocaleString('en-US')}/month of spending`
+            : 'Add your monthly spending to rank cards by value'}
+        </span>
+        <ChevronDown className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 pt-1 grid grid-cols-2 sm:grid-cols-5 gap-3 border-t border-slate-100">
+          {CATEGORIES.map(({ key, label }) => (
+            <label key={key} className="flex flex-col gap-1 text-xs font-medium text-slate-500">
+              {label}
+              <div className="relative">
+                <span className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-400">$</span>
+                <input
+                  type="number"
+                  min={0}
+                  inputMode="decimal"
+                  value={profile[key] ?? ''}
+                  onChange={(e) => updateCategory(key, e.target.value)}
+                  placeholder="0"
+                  className="w-full py-1.5 pl-5 pr-2 text-sm text-foreground border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+              </div>
+            </label>
+          ))}
+          {monthlyTotal > 0 && (
+            <button
+              type="button"
+              onClick={() => onChange({})}
+              className="col-span-2 sm:col-span-5 justify-self-start text-xs text-slate-500 hover:text-primary underline"
+            >
+              Clear spending
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+'use client';
+
+import { SpendCategory, WalletPlan } from '@/types';
+
+interface WalletTableProps {
+  wallet: WalletPlan;
+}
+
+const CATEGORY_LABELS: Record<SpendCategory, string> = {
+  dining: 'Dining',
+  groceries: 'Groceries',
+  gas: 'Gas',
+  travel: 'Travel',
+  other: 'Everything else',
+};
+
+export default function WalletTable({ wallet }: WalletTableProps) {
+  const formatDollars = (amount: number) =>
+    amount < 0 ? `-$${Math.abs(amount).toLocaleString('en-US')}` : `$${amount.toLocaleString('en-US')}`;
+
+  return (
+    <div className="mt-4 bg-white rounded-2xl shadow-md border border-slate-200 overflow-hidden">
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left border-collapse">
+          <thead>
+            <tr className="bg-slate-50 border-b border-slate-200 text-slate-600">
+              <th className="px-4 py-3 font-semibold">Category</th>
+              <th className="px-4 py-3 font-semibold">Monthly spend</th>
+              <th className="px-4 py-3 font-semibold">Use this card</th>
+              <th className="px-4 py-3 font-semibold text-right">Rewards / year</th>
+            </tr>
+          </thead>
+          <tbody>
+            {wallet.assignments.map((assignment) => (
+              <tr key={assignment.category} className="border-b border-slate-100">
+                <td className="px-4 py-3 font-medium text-slate-700">{CATEGORY_LABELS[assignment.category]}</td>
+                <td className="px-4 py-3 text-slate-600">{formatDollars(wallet.spendProfile[assignment.category] || 0)}</td>
+                <td className="px-4 py-3 text-slate-800">
+                  {assignment.credit_card_name}
+                  {assignment.rate && <span className="ml-2 text-xs text-slate-500">{assignment.rate}</span>}
+                </td>
+                <td className="px-4 py-3 text-right text-slate-800">{formatDollars(assignment.annual_rewards)}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot className="bg-slate-50 text-slate-700">
+            <tr>
+              <td colSpan={3} className="px-4 py-2">Annual fees ({wallet.cards.length} {wallet.cards.length === 1 ? 'card' : 'cards'})</td>
+              <td className="px-4 py-2 text-right">-{formatDollars(wallet.total_annual_fee)}</td>
+            </tr>
+            <tr className="font-semibold">
+              <td colSpan={3} className="px-4 py-2">Net value per year</td>
+              <td className="px-4 py-2 text-right text-emerald-700">{formatDollars(wallet.ongoing)}</td>
+            </tr>
+            {wallet.first_year !== wallet.ongoing && (
+              <tr>
+                <td colSpan={3} className="px-4 py-2">First year (with welcome bonuses)</td>
+                <td className="px-4 py-2 text-right">{formatDollars(wallet.first_year)}</td>
+              </tr>
+            )}
+          </tfoot>
+        </table>
+      </div>
+      {wallet.assumedSpendProfile && (
+        <p className="px-4 py-3 text-sm text-slate-500 border-t border-slate-200">
+          Based on a typical household budget. Add your monthly spending to personalize this.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { browseCards, getFeeBand, parseCardListQuery } from './cardCatalog';
+import { toTypedCard } from './cardSchema';
+import { CreditCard } from '@/types';
+
+function makeCard(id: string, fields: Record<string, unknown>): CreditCard {
+  const row: Record<string, unknown> = {
+    id,
+    credit_card_name: `Card ${id}`,
+    url_application: `https://example.com/${id}`,
+    ...fields,
+  };
+  return toTypedCard(row) as CreditCard;
+}
+
+const catalog = [
+  makeCard('sapphire', { issuer: 'Chase', annual_fee: '$95', rewards: '3x on dining, 2x on travel, 1x on everything else', card_type: 'Travel' }),
+  makeCard('freedom', { issuer: 'Chase', annual_fee: '$0', rewards: '5% on travel, 1.5% on everything else', top_card: 'yes' }),
+  makeCard('gold', { issuer: 'American Express', annual_fee: '$325', rewards: '4x on dining, 4x on groceries', card_type: 'Travel, Dining' }),
+  makeCard('platinum', { issuer: 'American Express', annual_fee: '$695', rewards: '5x on flights', top_card: 'yes' }),
+  makeCard('double', { issuer: 'Citi', annual_fee: '$0', rewards: '2% cash back on everything' }),
+];
+
+const browse = (query: string) => browseCards(catalog, parseCardListQuery(new URLSearchParams(query)));
+const ids = (query: string) => browse(query).cards.map(card => card.id);
+
+describe('parseCardListQuery', () => {
+  it('should map parameters to CardFilters and fall back to defaults', () => {
+    const query = parseCardListQuery(new URLSearchParams('issuer=Chase,Citi&annualFee=no-fee&page=0&pageSize=500&sort=bogus'));
+    expect(query.filters).toEqual({ issuer: ['Chase', 'Citi'], annualFee: 'no-fee' });
+    expect(query.page).toBe(1);
+    expect(query.pageSize).toBe(100);
+    expect(query.sort).toBe('top_card');
+  });
+
+  it('should sort by relevance when searching', () => {
+    expect(parseCardListQuery(new URLSearchParams('q=dining')).sort).toBe('relevance');
+  });
+});
+
+describe('browseCards', () => {
+  it('should filter no-fee cards the same way as chat', () => {
+    expect(ids('annualFee=no-fee&sort=name')).toEqual(['double', 'freedom']);
+  });
+
+  it('should filter by fee band', () => {
+    expect(getFeeBand(catalog[0])).toBe('up-to-100');
+    expect(ids('feeBand=101-400,over-400&sort=name')).toEqual(['gold', 'platinum']);
+  });
+
+  it('should sort by annual fee and best reward rate', () => {
+    expect(ids('sort=annual_fee')).toEqual(['double', 'freedom', 'sapphire', 'gold', 'platinum']);
+    expect(ids('sort=rewards_rate')[0]).toBe('freedom');
+  });
+
+  it('should put top cards first by default', () => {
+    expect(ids('').slice(0, 2)).toEqual(['freedom', 'platinum']);
+  });
+
+  it('should search card fields', () => {
+    expect(ids('q=groceries')).toEqual(['gold']);
+  });
+
+  it('should page results', () => {
+    const page = browse('sort=name&pageSize=2&page=3');
+    expect(page.cards.map(card => card.id)).toEqual(['sapphire']);
+    expect(page.total).toBe(5);
+    expect(page.totalPages).toBe(3);
+  });
+
+  it('should count facets over the matching cards', () => {
+    const { facets } = browse('issuer=American Express');
+    expect(facets.issuer).toEqual([{ value: 'American Express', count: 2 }]);
+    expect(facets.card_type).toEqual([{ value: 'Dining', count: 1 }, { value: 'Travel', count: 1 }]);
+    expect(facets.fee_band).toEqual([{ value: '101-400', count: 1 }, { value: 'over-400', count: 1 }]);
+  });
+});
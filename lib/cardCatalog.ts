@@ -0,0 +1,230 @@
+/**
+ * Catalog browsing for /api/cards.
+ *
+ * Filters with the same applyFilters/CardFilters logic as chat, so "no annual
+ * fee" means the same thing in both places. Adds keyword search (the BM25
+ * index used by hybrid retrieval), sorting, pagination and facet counts.
+ */
+
+import { CardListResponse, CardSortField, CatalogFacets, CreditCard, FacetCount, FeeBand } from '@/types';
+import { applyFilters, CardFilters } from './filters';
+import { BM25Index, buildBM25Index, cardToDocument, searchBM25 } from './lexicalSearch';
+
+export interface CardListQuery {
+  q?: string; // Keyword search
+  filters: CardFilters;
+  feeBand?: FeeBand[];
+  sort: CardSortField;
+  order: 'asc' | 'desc';
+  page: number; // 1-based
+  pageSize: number;
+}
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export const FEE_BANDS: FeeBand[] = ['no-fee', 'up-to-100', '101-400', 'over-400', 'unknown'];
+const SORT_FIELDS: CardSortField[] = ['relevance', 'annual_fee', 'rewards_rate', 'top_card', 'name'];
+
+// Query parameters that map straight onto CardFilters lists
+const LIST_FILTER_PARAMS: Array<[string, 'issuer' | 'network' | 'cardType' | 'targetConsumer' | 'rewardsType' | 'spendingCategories']> = [
+  ['issuer', 'issuer'],
+  ['network', 'network'],
+  ['cardType', 'cardType'],
+  ['targetConsumer', 'targetConsumer'],
+  ['rewardsType', 'rewardsType'],
+  ['category', 'spendingCategories'],
+];
+
+/**
+ * Values of a repeatable, comma-separated parameter (?issuer=Chase&issuer=Citi or ?issuer=Chase,Citi)
+ */
+function listParam(params: URLSearchParams, name: string): string[] {
+  return params.getAll(name)
+    .flatMap(value => value.split(','))
+    .map(value => value.trim())
+    .filter(Boolean);
+}
+
+function positiveInt(value: string | null, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Reads /api/cards query parameters; unknown or malformed values fall back to defaults
+ */
+export function parseCardListQuery(params: URLSearchParams): CardListQuery {
+  const filters: CardFilters = {};
+
+  const annualFee = params.get('annualFee');
+  if (annualFee === 'no-fee' || annualFee === 'low-fee') {
+    filters.annualFee = annualFee;
+  }
+  const annualFeeMax = parseFloat(params.get('annualFeeMax') || '');
+  if (Number.isFinite(annualFeeMax) && annualFeeMax >= 0) {
+    filters.annualFeeMax = annualFeeMax;
+  }
+  for (const [param, field] of LIST_FILTER_PARAMS) {
+    const values = listParam(params, param);
+    if (values.length > 0) filters[field] = values;
+  }
+  if (params.get('hasWelcomeBonus') === 'true') filters.hasWelcomeBonus = true;
+  if (params.get('noForeignTransactionFee') === 'true') filters.hasNoForeignTransactionFee = true;
+
+  const feeBand = listParam(params, 'feeBand').filter((band): band is FeeBand => FEE_BANDS.includes(band as FeeBand));
+  const q = params.get('q')?.trim() || undefined;
+
+  const requestedSort = params.get('sort') as CardSortField | null;
+  const sort = requestedSort && SORT_FIELDS.includes(requestedSort)
+    ? requestedSort
+    : q ? 'relevance' : 'top_card';
+  const requestedOrder = params.get('order');
+  // Cheapest fee first; highest rewards and top cards first
+  const defaultOrder = sort === 'annual_fee' || sort === 'name' ? 'asc' : 'desc';
+  const order = requestedOrder === 'asc' || requestedOrder === 'desc' ? requestedOrder : defaultOrder;
+
+  return {
+    q,
+    filters,
+    ...(feeBand.length > 0 ? { feeBand } : {}),
+    sort,
+    order,
+    page: positiveInt(params.get('page'), 1),
+    pageSize: Math.min(MAX_PAGE_SIZE, positiveInt(params.get('pageSize'), DEFAULT_PAGE_SIZE)),
+  };
+}
+
+/**
+ * Annual fee band, using the same typed fields as the no-fee filter
+ */
+export function getFeeBand(card: CreditCard): FeeBand {
+  if (card.has_annual_fee === false) return 'no-fee';
+  const fee = card.annual_fee_amount;
+  if (fee === null) return 'unknown';
+  if (fee <= 100) return 'up-to-100';
+  if (fee <= 400) return '101-400';
+  return 'over-400';
+}
+
+/**
+ * Highest reward multiplier across categories, or null if the card's rewards couldn't be parsed
+ */
+export function getBestRewardRate(card: CreditCard): number | null {
+  const rates = Object.values(card.reward_multipliers || {}).filter((rate): rate is number => typeof rate === 'number');
+  return rates.length > 0 ? Math.max(...rates) : null;
+}
+
+/**
+ * Splits a free-text column like "travel, business" into facet values
+ */
+function facetValues(value: unknown): string[] {
+  if (typeof value !== 'string') return [];
+  return value.split(/[,;|/]/).map(part => part.trim()).filter(Boolean);
+}
+
+function countFacet(cards: CreditCard[], valuesOf: (card: CreditCard) => string[]): FacetCount[] {
+  // Keyed case-insensitively; the first spelling seen is shown
+  const counts = new Map<string, FacetCount>();
+  for (const card of cards) {
+    for (const value of Array.from(new Set(valuesOf(card)))) {
+      const key = value.toLowerCase();
+      const facet = counts.get(key);
+      if (facet) facet.count++;
+      else counts.set(key, { value, count: 1 });
+    }
+  }
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+/**
+ * Facet counts over a set of cards
+ */
+export function computeFacets(cards: CreditCard[]): CatalogFacets {
+  const feeBandCounts = countFacet(cards, card => [getFeeBand(card)]);
+  return {
+    issuer: countFacet(cards, card => (card.issuer ? [card.issuer] : [])),
+    network: countFacet(cards, card => (card.network ? [card.network] : [])),
+    card_type: countFacet(cards, card => facetValues(card.card_type)),
+    target_consumer: countFacet(cards, card => facetValues(card.target_consumer)),
+    // Fee bands in their natural order rather than by count
+    fee_band: FEE_BANDS
+      .map(band => feeBandCounts.find(facet => facet.value === band))
+      .filter((facet): facet is FacetCount => facet !== undefined),
+  };
+}
+
+/**
+ * Compares two nullable numbers, always putting nulls last
+ */
+function compareNullable(a: number | null, b: number | null, direction: number): number {
+  if (a === null && b === null) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  return (a - b) * direction;
+}
+
+function sortCards(cards: CreditCard[], sort: CardSortField, order: 'asc' | 'desc', relevance: Map<string, number>): CreditCard[] {
+  const direction = order === 'asc' ? 1 : -1;
+  const byName = (a: CreditCard, b: CreditCard) => a.credit_card_name.localeCompare(b.credit_card_name);
+
+  const comparators: Record<CardSortField, (a: CreditCard, b: CreditCard) => number> = {
+    relevance: (a, b) => ((relevance.get(a.id) || 0) - (relevance.get(b.id) || 0)) * direction,
+    annual_fee: (a, b) => compareNullable(
+      a.has_annual_fee === false ? 0 : a.annual_fee_amount,
+      b.has_annual_fee === false ? 0 : b.annual_fee_amount,
+      direction
+    ),
+    rewards_rate: (a, b) => compareNullable(getBestRewardRate(a), getBestRewardRate(b), direction),
+    top_card: (a, b) => (Number(a.top_card) - Number(b.top_card)) * direction,
+    name: (a, b) => byName(a, b) * direction,
+  };
+
+  return [...cards].sort((a, b) => comparators[sort](a, b) || byName(a, b));
+}
+
+/**
+ * Keyword index for the catalog, rebuilt when the catalog changes
+ */
+let searchIndex: { cards: CreditCard[]; index: BM25Index } | null = null;
+
+function getSearchIndex(cards: CreditCard[]): BM25Index {
+  if (!searchIndex || searchIndex.cards !== cards) {
+    searchIndex = { cards, index: buildBM25Index(cards.map(card => cardToDocument(card))) };
+  }
+  return searchIndex.index;
+}
+
+/**
+ * Searches, filters, sorts and pages the catalog
+ */
+export function browseCards(catalog: CreditCard[], query: CardListQuery): CardListResponse {
+  let cards = applyFilters(catalog, query.filters);
+
+  if (query.feeBand && query.feeBand.length > 0) {
+    const bands = new Set(query.feeBand);
+    cards = cards.filter(card => bands.has(getFeeBand(card)));
+  }
+
+  const relevance = new Map<string, number>();
+  if (query.q) {
+    const results = searchBM25(getSearchIndex(catalog), query.q, new Set(cards.map(card => card.id)));
+    results.forEach(result => relevance.set(result.id, result.score));
+    cards = cards.filter(card => relevance.has(card.id));
+  }
+
+  const sorted = sortCards(cards, query.sort, query.order, relevance);
+  const totalPages = Math.max(1, Math.ceil(sorted.length / query.pageSize));
+  const start = (query.page - 1) * query.pageSize;
+
+  return {
+    cards: sorted.slice(start, start + query.pageSize),
+    total: sorted.length,
+    page: query.page,
+    pageSize: query.pageSize,
+    totalPages,
+    sort: query.sort,
+    order: query.order,
+    facets: computeFacets(sorted),
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * Data for the /cards/[id] detail pages: every attribute of a card, its
+ * highlights and the most similar cards in the catalog.
+ */
+
+import { CreditCard } from '@/types';
+import { getCreditCards } from './data';
+import { findSimilarCards, loadEmbeddings } from './embeddings';
+import { buildCardHighlights } from './rag';
+import { createLogger } from './logger';
+
+const log = createLogger('cardDetails');
+
+export interface CardAttribute {
+  key: string;
+  label: string;
+  value: string;
+}
+
+export interface CardDetails {
+  card: CreditCard;
+  attributes: CardAttribute[];
+  highlights: string[];
+  similarCards: CreditCard[];
+}
+
+const SIMILAR_CARD_COUNT = 4;
+
+// Shown elsewhere on the page, or derived from the columns that are listed
+const HIDDEN_ATTRIBUTES = new Set([
+  'id', 'credit_card_name', 'url_application', 'card_highlights', 'card_summary',
+  'annual_fee_amount', 'has_annual_fee', 'intro_apr_months', 'reward_multipliers', 'reward_unit', 'top_card',
+]);
+
+const ATTRIBUTE_LABELS: Record<string, string> = {
+  annual_fee: 'Annual Fee',
+  intro_offer: 'Intro Offer',
+  rewards_rate: 'Rewards',
+  credit_score_needed: 'Credit Score Needed',
+  co_branded: 'Co-Branded Partner',
+  intro_apr: 'Intro APR',
+};
+
+function labelFor(key: string): string {
+  return ATTRIBUTE_LABELS[key] || key
+    .split('_')
+    .map(word => (word ? word[0].toUpperCase() + word.slice(1) : word))
+    .join(' ');
+}
+
+/**
+ * The card's catalog columns as label/value pairs, skipping empty values
+ */
+export function getCardAttributes(card: CreditCard): CardAttribute[] {
+  return Object.entries(card)
+    .filter(([key, value]) => !HIDDEN_ATTRIBUTES.has(key) && (typeof value === 'string' || typeof value === 'number'))
+    .map(([key, value]) => ({ key, label: labelFor(key), value: String(value).trim() }))
+    .filter(attribute => attribute.value && !['na', 'n/a', 'none'].includes(attribute.value.toLowerCase()));
+}
+
+/**
+ * Nearest cards by embedding, or none if embeddings aren't available
+ */
+async function getSimilarCards(card: CreditCard): Promise<CreditCard[]> {
+  try {
+    const store = await loadEmbeddings();
+    const own = store.embeddings.find(item => item.cardId === card.id);
+    if (!own) return [];
+
+    const similar = await findSimilarCards(own.embedding, SIMILAR_CARD_COUNT + 1);
+    return similar
+      .filter(item => item.cardId !== card.id)
+      .slice(0, SIMILAR_CARD_COUNT)
+      .map(item => item.card);
+  } catch (error) {
+    log.error(`[CARD PAGE] Could not load similar cards for ${card.id}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Looks up a card by ID, or null if it isn't in the catalog
+ */
+export async function getCardDetails(id: string): Promise<CardDetails | null> {
+  const catalog = await getCreditCards();
+  const card = catalog.find(item => item.id === id);
+  if (!card) return null;
+
+  return {
+    card,
+    attributes: getCardAttributes(card),
+    highlights: buildCardHighlights(card)
+      .split('\n')
+      .map(highlight => highlight.replace(/^[•\-*\s]+/, '').trim())
+      .filter(Boolean),
+    similarCards: await getSimilarCards(card),
+  };
+}
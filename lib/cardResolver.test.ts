@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { createCardNameResolver, editDistance, expandCardAliases, normalizeCardName } from './cardResolver';
+
+const catalog = [
+  'American Express® Gold Card',
+  'The Platinum Card® from American Express',
+  'Chase Sapphire Preferred® Card',
+  'Chase Sapphire Reserve®',
+  'Capital One Venture X Rewards Credit Card',
+  'Capital One Venture Rewards Credit Card',
+  'Citi Double Cash® Card',
+  'Citi Strata Premier℠ Card',
+  'Blue Cash Everyday® Card from American Express',
+  'Blue Cash Preferred® Card from American Express',
+];
+
+const resolver = createCardNameResolver(catalog, name => name);
+
+describe('normalizeCardName', () => {
+  it('should strip trademark symbols and punctuation', () => {
+    expect(normalizeCardName('Chase Sapphire Preferred® Card')).toBe('chase sapphire preferred card');
+    expect(normalizeCardName('Citi Strata Premier℠  Card')).toBe('citi strata premier card');
+    expect(normalizeCardName('Marriott Bonvoy Boundless™ (Chase)')).toBe('marriott bonvoy boundless chase');
+  });
+});
+
+describe('expandCardAliases', () => {
+  it('should expand abbreviations and issuer nicknames', () => {
+    expect(expandCardAliases('CSP')).toBe('chase sapphire preferred');
+    expect(expandCardAliases('Amex Gold card')).toBe('american express gold');
+    expect(expandCardAliases('BofA Customized Cash')).toBe('bank of america customized cash');
+  });
+});
+
+describe('editDistance', () => {
+  it('should count single-character edits', () => {
+    expect(editDistance('sapphire', 'saphire')).toBe(1);
+    expect(editDistance('venture', 'ventrue')).toBe(2);
+    expect(editDistance('gold', 'platinum', 2)).toBe(3);
+  });
+});
+
+describe('createCardNameResolver', () => {
+  it('should resolve aliases to catalog cards', () => {
+    expect(resolver.resolve('Amex Gold').match?.name).toBe('American Express® Gold Card');
+    expect(resolver.resolve('CSP').match?.name).toBe('Chase Sapphire Preferred® Card');
+    expect(resolver.resolve('Venture X').match?.name).toBe('Capital One Venture X Rewards Credit Card');
+    expect(resolver.resolve('amex plat').match?.name).toBe('The Platinum Card® from American Express');
+    expect(resolver.resolve('Citi Premier').match?.name).toBe('Citi Strata Premier℠ Card');
+  });
+
+  it('should tolerate typos', () => {
+    const resolution = resolver.resolve('chase saphire prefered');
+    expect(resolution.match?.name).toBe('Chase Sapphire Preferred® Card');
+    expect(resolution.match?.confidence).toBeGreaterThan(0.6);
+  });
+
+  it('should give exact names full confidence', () => {
+    expect(resolver.resolve('Citi Double Cash Card').match?.confidence).toBe(1);
+  });
+
+  it('should suggest cards instead of guessing when the name is ambiguous', () => {
+    const resolution = resolver.resolve('Chase Sapphire');
+    expect(resolution.match).toBeNull();
+    expect(resolution.ambiguous).toBe(true);
+    expect(resolution.didYouMean).toEqual(expect.arrayContaining([
+      'Chase Sapphire Preferred® Card',
+      'Chase Sapphire Reserve®',
+    ]));
+  });
+
+  it('should return no match for unknown cards', () => {
+    const resolution = resolver.resolve('Discover it Miles');
+    expect(resolution.match).toBeNull();
+    expect(resolution.ambiguous).toBe(false);
+  });
+});
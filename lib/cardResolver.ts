@@ -0,0 +1,240 @@
+/**
+ * Card name entity resolution.
+ *
+ * Resolves what users and the model call a card ("Amex Plat", "CSP",
+ * "Venture X") to catalog entries. Names are normalized the same way
+ * everywhere, expanded through an alias table (abbreviations, old product
+ * names, issuer nicknames) and scored by token matching with edit distance.
+ * Resolutions come back as ranked candidates with a confidence; when the
+ * top candidates are too close to call, no match is picked and the caller
+ * gets a "did you mean" list instead.
+ */
+
+export interface CardCandidate<T> {
+  item: T;
+  name: string;
+  confidence: number; // 0-1
+}
+
+export interface CardResolution<T> {
+  query: string;
+  match: CardCandidate<T> | null; // Set when one candidate is confident and clearly ahead
+  candidates: CardCandidate<T>[]; // Best first
+  ambiguous: boolean;
+  didYouMean: string[]; // Card names to suggest when there is no match
+}
+
+export interface CardNameResolver<T> {
+  resolve(query: string): CardResolution<T>;
+}
+
+// Below this, a candidate is not a match
+const MIN_MATCH_CONFIDENCE = 0.6;
+// Below this, a candidate is not worth suggesting
+const MIN_SUGGESTION_CONFIDENCE = 0.4;
+// Top two candidates closer than this are ambiguous
+const AMBIGUITY_MARGIN = 0.08;
+const MAX_CANDIDATES = 5;
+
+// Words that don't tell cards apart
+const FILLER_TOKENS = new Set(['the', 'card', 'cards', 'credit', 'from', 'by', 'a', 'an', 'of', 'my']);
+
+/**
+ * Whole-name aliases: abbreviations and old or informal product names.
+ * Values are the words of the catalog name they stand for.
+ */
+export const CARD_NAME_ALIASES: Record<string, string> = {
+  csp: 'chase sapphire preferred',
+  csr: 'chase sapphire reserve',
+  cfu: 'chase freedom unlimited',
+  cff: 'chase freedom flex',
+  cic: 'chase ink business cash',
+  ciu: 'chase ink business unlimited',
+  cip: 'chase ink business preferred',
+  'sapphire preferred': 'chase sapphire preferred',
+  'sapphire reserve': 'chase sapphire reserve',
+  'freedom unlimited': 'chase freedom unlimited',
+  'freedom flex': 'chase freedom flex',
+  'amex plat': 'american express platinum',
+  'amex platinum': 'american express platinum',
+  platinum: 'american express platinum',
+  'amex gold': 'american express gold',
+  'amex green': 'american express green',
+  bce: 'blue cash everyday',
+  bcp: 'blue cash preferred',
+  vx: 'capital one venture x',
+  'venture x': 'capital one venture x',
+  'cap one venture': 'capital one venture',
+  quicksilver: 'capital one quicksilver',
+  savorone: 'capital one savor',
+  'savor one': 'capital one savor',
+  dc: 'citi double cash',
+  'double cash': 'citi double cash',
+  'citi premier': 'citi strata premier',
+  'thankyou premier': 'citi strata premier',
+  'custom cash': 'citi custom cash',
+  'discover it': 'discover it cash back',
+  'bilt card': 'bilt mastercard',
+  'costco card': 'costco anywhere visa',
+  'costco visa': 'costco anywhere visa',
+};
+
+/**
+ * Issuer nicknames, expanded wherever they appear in a name
+ */
+export const ISSUER_NICKNAMES: Record<string, string> = {
+  amex: 'american express',
+  cap1: 'capital one',
+  capone: 'capital one',
+  'cap one': 'capital one',
+  boa: 'bank of america',
+  bofa: 'bank of america',
+  citibank: 'citi',
+  usb: 'u s bank',
+  wf: 'wells fargo',
+};
+
+/**
+ * Normalizes a card name for comparisons: lowercase, no trademark symbols or punctuation
+ * "Chase Sapphire Preferred® Card" → "chase sapphire preferred card"
+ */
+export function normalizeCardName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[®™©℠]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function tokensOf(normalized: string): string[] {
+  return normalized.split(' ').filter(token => token && !FILLER_TOKENS.has(token));
+}
+
+/**
+ * Expands issuer nicknames and whole-name aliases ("amex plat card" → "american express platinum")
+ */
+export function expandCardAliases(name: string): string {
+  const normalized = normalizeCardName(name);
+  const withoutFiller = tokensOf(normalized).join(' ');
+
+  if (CARD_NAME_ALIASES[withoutFiller]) {
+    return CARD_NAME_ALIASES[withoutFiller];
+  }
+
+  let expanded = ` ${withoutFiller} `;
+  for (const [nickname, issuer] of Object.entries(ISSUER_NICKNAMES)) {
+    expanded = expanded.replace(new RegExp(` ${nickname} `, 'g'), ` ${issuer} `);
+  }
+  expanded = expanded.trim();
+
+  return CARD_NAME_ALIASES[expanded] || expanded;
+}
+
+/**
+ * Levenshtein distance, stopping early once it exceeds maxDistance
+ */
+export function editDistance(a: string, b: string, maxDistance = Infinity): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * How well a query word matches a name word: exact, prefix ("plat" → "platinum") or a typo
+ */
+function tokenSimilarity(queryToken: string, nameToken: string): number {
+  if (queryToken === nameToken) return 1;
+  if (queryToken.length >= 3 && nameToken.startsWith(queryToken)) return 0.9;
+  if (queryToken.length >= 4) {
+    const allowed = queryToken.length >= 7 ? 2 : 1;
+    if (editDistance(queryToken, nameToken, allowed) <= allowed) return 0.8;
+  }
+  return 0;
+}
+
+/**
+ * Confidence that the query names the card: mostly how much of the query matches,
+ * partly how much of the card name is covered
+ */
+export function scoreCardName(queryTokens: string[], nameTokens: string[]): number {
+  if (queryTokens.length === 0 || nameTokens.length === 0) return 0;
+  if (queryTokens.join(' ') === nameTokens.join(' ')) return 1;
+
+  const usedNameTokens = new Set<number>();
+  let matched = 0;
+  for (const queryToken of queryTokens) {
+    let best = 0;
+    let bestIndex = -1;
+    nameTokens.forEach((nameToken, index) => {
+      if (usedNameTokens.has(index)) return;
+      const similarity = tokenSimilarity(queryToken, nameToken);
+      if (similarity > best) {
+        best = similarity;
+        bestIndex = index;
+      }
+    });
+    if (bestIndex !== -1) {
+      usedNameTokens.add(bestIndex);
+      matched += best;
+    }
+  }
+
+  const queryCoverage = matched / queryTokens.length;
+  const nameCoverage = usedNameTokens.size / nameTokens.length;
+  // Never reach 1 without an exact match
+  return Math.min(0.99, 0.7 * queryCoverage + 0.3 * nameCoverage);
+}
+
+/**
+ * Builds a resolver over a set of cards (or anything with a card name)
+ */
+export function createCardNameResolver<T>(items: T[], getName: (item: T) => string): CardNameResolver<T> {
+  const entries = items.map(item => {
+    const name = getName(item);
+    return { item, name, tokens: tokensOf(expandCardAliases(name)) };
+  });
+
+  return {
+    resolve(query) {
+      const queryTokens = tokensOf(expandCardAliases(query));
+
+      const candidates = entries
+        .map(entry => ({ item: entry.item, name: entry.name, confidence: scoreCardName(queryTokens, entry.tokens), length: entry.tokens.length }))
+        .filter(candidate => candidate.confidence >= MIN_SUGGESTION_CONFIDENCE)
+        // Shorter names first on ties: "Venture X" before "Venture X Business"
+        .sort((a, b) => b.confidence - a.confidence || a.length - b.length)
+        .slice(0, MAX_CANDIDATES)
+        .map(({ item, name, confidence }) => ({ item, name, confidence: Math.round(confidence * 100) / 100 }));
+
+      const [top, second] = candidates;
+      const confident = top !== undefined && top.confidence >= MIN_MATCH_CONFIDENCE;
+      const ambiguous = confident && top.confidence < 1 &&
+        second !== undefined && top.confidence - second.confidence < AMBIGUITY_MARGIN;
+      const match = confident && !ambiguous ? top : null;
+
+      return {
+        query,
+        match,
+        candidates,
+        ambiguous,
+        didYouMean: match ? [] : candidates.map(candidate => candidate.name),
+      };
+    },
+  };
+}
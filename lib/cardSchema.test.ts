@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseAnnualFee,
+  parseIntroAprMonths,
+  parseRewardMultipliers,
+  parseTopCard,
+  toTypedCard,
+  validateCardRow,
+} from './cardSchema';
+
+const COLUMNS = { name: 'credit_card_name', url: 'url_application' };
+
+describe('parseAnnualFee', () => {
+  it('should parse dollar amounts', () => {
+    expect(parseAnnualFee('$95')).toBe(95);
+    expect(parseAnnualFee('$1,000')).toBe(1000);
+    expect(parseAnnualFee('0')).toBe(0);
+  });
+
+  it('should treat no-fee text as zero', () => {
+    expect(parseAnnualFee('No annual fee')).toBe(0);
+    expect(parseAnnualFee('None')).toBe(0);
+  });
+
+  it('should use the ongoing fee after an intro period', () => {
+    expect(parseAnnualFee('$0 intro annual fee for the first year, then $95')).toBe(95);
+  });
+
+  it('should return null for missing and undefined for malformed values', () => {
+    expect(parseAnnualFee('N/A')).toBeNull();
+    expect(parseAnnualFee('varies')).toBeUndefined();
+  });
+});
+
+describe('parseIntroAprMonths', () => {
+  it('should extract months from descriptive text', () => {
+    expect(parseIntroAprMonths('0% for 15 months on purchases')).toBe(15);
+    expect(parseIntroAprMonths('0% intro APR for 21 billing cycles')).toBe(21);
+    expect(parseIntroAprMonths('18')).toBe(18);
+  });
+
+  it('should return null when there is no intro APR', () => {
+    expect(parseIntroAprMonths('None')).toBeNull();
+    expect(parseIntroAprMonths('Not offered')).toBeNull();
+  });
+
+  it('should flag values with digits but no period', () => {
+    expect(parseIntroAprMonths('0%')).toBeUndefined();
+  });
+});
+
+describe('parseRewardMultipliers', () => {
+  it('should map rates to categories', () => {
+    const result = parseRewardMultipliers('3x on dining, 2x on travel, 1x on everything else');
+
+    expect(result.multipliers).toEqual({ dining: 3, travel: 2, other: 1 });
+    expect(result.unit).toBe('x');
+  });
+
+  it('should handle cash back percentages and leading categories', () => {
+    expect(parseRewardMultipliers('5% cash back on groceries; 1% on all other purchases')).toEqual({
+      multipliers: { groceries: 5, other: 1 },
+      unit: '%',
+    });
+    expect(parseRewardMultipliers('Dining: 4x, Gas: 3x').multipliers).toEqual({ dining: 4, gas: 3 });
+  });
+
+  it('should not treat merchant-specific rates as the base rate', () => {
+    expect(parseRewardMultipliers('4% on gas, 2% at Costco, 1% on everything else').multipliers).toEqual({ gas: 4, other: 1 });
+    expect(parseRewardMultipliers('2% cash back on everything').multipliers).toEqual({ other: 2 });
+  });
+
+  it('should ignore welcome bonus amounts', () => {
+    expect(parseRewardMultipliers('60,000 points after $4,000 spend').multipliers).toEqual({});
+  });
+});
+
+describe('parseTopCard', () => {
+  it('should accept common flag formats', () => {
+    expect(parseTopCard('1')).toBe(true);
+    expect(parseTopCard('TRUE')).toBe(true);
+    expect(parseTopCard('0')).toBe(false);
+    expect(parseTopCard('maybe')).toBeUndefined();
+  });
+});
+
+describe('validateCardRow', () => {
+  it('should build a typed card from a raw row', () => {
+    const { card, issues } = validateCardRow(
+      {
+        credit_card_name: 'Chase Sapphire Preferred® Card',
+        url_application: 'https://example.com/apply',
+        annual_fee: '$95',
+        points_multipliers: '3x dining, 2x travel',
+        network: 'visa',
+        top_card: '1',
+      },
+      1,
+      COLUMNS
+    );
+
+    expect(issues).toEqual([]);
+    expect(card).toMatchObject({
+      id: 'chase-sapphire-preferred-card',
+      annual_fee_amount: 95,
+      has_annual_fee: true,
+      reward_multipliers: { dining: 3, travel: 2 },
+      network: 'Visa',
+      issuer: 'Chase',
+      top_card: true,
+    });
+  });
+
+  it('should skip rows missing required columns with an error issue', () => {
+    const { card, issues } = validateCardRow({ credit_card_name: 'No URL Card' }, 4, COLUMNS);
+
+    expect(card).toBeNull();
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ row: 4, severity: 'error', cardName: 'No URL Card' });
+  });
+
+  it('should report malformed values as warnings and keep the row', () => {
+    const { card, issues } = validateCardRow(
+      {
+        credit_card_name: 'Mystery Card',
+        url_application: 'https://example.com',
+        annual_fee: 'varies',
+        top_card: 'maybe',
+      },
+      2,
+      COLUMNS
+    );
+
+    expect(card?.annual_fee_amount).toBeNull();
+    expect(card?.top_card).toBe(false);
+    expect(issues.map(issue => issue.field)).toEqual(['annual_fee', 'top_card']);
+    expect(issues.every(issue => issue.severity === 'warning')).toBe(true);
+  });
+
+  it('should prefer annual_fee_score for has_annual_fee', () => {
+    const { card } = validateCardRow(
+      { credit_card_name: 'Score Card', url_application: 'https://example.com', annual_fee_score: '0' },
+      1,
+      COLUMNS
+    );
+
+    expect(card?.has_annual_fee).toBe(false);
+    expect(card?.annual_fee_amount).toBe(0);
+  });
+});
+
+describe('toTypedCard', () => {
+  it('should derive schema fields for cards without them', () => {
+    const legacyCard: Record<string, unknown> = { credit_card_name: 'Old Card', annual_fee: '$0', top_card: '1' };
+    const typed = toTypedCard(legacyCard);
+
+    expect(typed.annual_fee_amount).toBe(0);
+    expect(typed.top_card).toBe(true);
+  });
+});
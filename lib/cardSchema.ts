@@ -0,0 +1,381 @@
+import {
+  CardNetwork,
+  CardValidationIssue,
+  CreditCard,
+  CreditCardSchemaFields,
+  RewardCategory,
+  RewardMultipliers,
+} from '@/types';
+
+/**
+ * Card schema layer.
+ *
+ * Maps raw sheet columns (which vary in naming and format, e.g. "$95",
+ * "0% for 15 months", "3x on dining") to the typed fields in
+ * CreditCardSchemaFields, and reports values that could not be parsed.
+ */
+
+/**
+ * Column name variations accepted for each typed field (first non-empty wins)
+ */
+const COLUMN_ALIASES = {
+  annualFee: ['annual_fee', 'annualFee', 'Annual Fee', 'AnnualFee', 'fee', 'Fee', 'yearly_fee', 'yearlyFee'],
+  annualFeeScore: ['annual_fee_score', 'annualFeeScore'],
+  introApr: ['intro_apr_months', 'intro_apr_period', 'intro_apr', 'introApr', 'Intro APR', 'intro_purchase_apr'],
+  rewards: ['points_multipliers', 'rewards_rate', 'reward_rate', 'rewards'],
+  network: ['network', 'card_network', 'Network'],
+  issuer: ['issuer', 'card_issuer', 'bank', 'Issuer'],
+  topCard: ['top_card', 'topCard', 'Top Card', 'Top_Card', 'top card', 'TOP_CARD'],
+};
+
+const NO_FEE_TEXT = ['none', 'no fee', 'no annual fee', 'free', 'zero', '$0 annual fee', '0 annual fee', 'waived', 'waived first year'];
+const MISSING_TEXT = ['', 'n/a', 'na', 'null', 'undefined', '-'];
+
+const NETWORKS: Array<{ network: CardNetwork; pattern: RegExp }> = [
+  { network: 'Visa', pattern: /\bvisa\b/i },
+  { network: 'Mastercard', pattern: /\bmaster\s?card\b/i },
+  { network: 'American Express', pattern: /\bamerican express\b|\bamex\b/i },
+  { network: 'Discover', pattern: /\bdiscover\b/i },
+];
+
+const ISSUERS: Array<{ issuer: string; pattern: RegExp }> = [
+  { issuer: 'American Express', pattern: /\bamerican express\b|\bamex\b/i },
+  { issuer: 'Chase', pattern: /\bchase\b/i },
+  { issuer: 'Capital One', pattern: /\bcapital one\b/i },
+  { issuer: 'Citi', pattern: /\bciti(bank)?\b/i },
+  { issuer: 'Bank of America', pattern: /\bbank of america\b|\bbankamericard\b/i },
+  { issuer: 'Wells Fargo', pattern: /\bwells fargo\b/i },
+  { issuer: 'Discover', pattern: /\bdiscover\b/i },
+  { issuer: 'U.S. Bank', pattern: /\bu\.?s\.? bank\b/i },
+  { issuer: 'Barclays', pattern: /\bbarclays\b/i },
+  { issuer: 'Synchrony', pattern: /\bsynchrony\b/i },
+  { issuer: 'PNC', pattern: /\bpnc\b/i },
+  { issuer: 'TD Bank', pattern: /\btd bank\b/i },
+  { issuer: 'Navy Federal', pattern: /\bnavy federal\b/i },
+  { issuer: 'Apple', pattern: /\bapple card\b/i },
+  { issuer: 'Bilt', pattern: /\bbilt\b/i },
+];
+
+const CATEGORY_PATTERNS: Array<{ category: RewardCategory; pattern: RegExp }> = [
+  { category: 'dining', pattern: /dining|restaurant|food delivery/i },
+  { category: 'groceries', pattern: /grocer|supermarket/i },
+  { category: 'gas', pattern: /\bgas\b|fuel|ev charging/i },
+  { category: 'travel', pattern: /travel|flight|airline|airfare|hotel|rental car/i },
+  { category: 'streaming', pattern: /streaming/i },
+  { category: 'online_shopping', pattern: /online|amazon/i },
+  { category: 'other', pattern: /everything else|all other|other purchases|every purchase|all purchases|everywhere|on purchases|base/i },
+];
+
+// Rates above this are amounts (bonuses, credits) rather than multipliers
+const MAX_REWARD_RATE = 25;
+
+type RawCard = Record<string, unknown>;
+
+/**
+ * Returns the first non-empty value among the given column names
+ */
+function pickColumn(row: RawCard, columns: string[]): { column: string; value: string } | null {
+  for (const column of columns) {
+    const value = row[column];
+    if (value !== undefined && value !== null && String(value).trim() !== '') {
+      return { column, value: String(value).trim() };
+    }
+  }
+  return null;
+}
+
+function isMissingText(value: string): boolean {
+  return MISSING_TEXT.includes(value.trim().toLowerCase());
+}
+
+/**
+ * Parses an annual fee like "$95", "0", "No annual fee" or
+ * "$0 intro annual fee for the first year, then $95" (ongoing fee wins).
+ * Returns undefined when the value is present but malformed.
+ */
+export function parseAnnualFee(value: string): number | null | undefined {
+  const text = value.trim().toLowerCase();
+
+  if (isMissingText(text)) return null;
+  if (NO_FEE_TEXT.includes(text) || text.includes('no annual fee') || text.includes('no fee')) return 0;
+
+  const thenMatch = text.match(/then\s+\$?\s*(\d[\d,]*(?:\.\d+)?)/);
+  if (thenMatch) return parseFloat(thenMatch[1].replace(/,/g, ''));
+
+  const amountMatch = text.match(/\$?\s*(\d[\d,]*(?:\.\d+)?)/);
+  if (amountMatch) return parseFloat(amountMatch[1].replace(/,/g, ''));
+
+  return undefined;
+}
+
+/**
+ * Parses an intro APR period like "0% for 15 months", "12 billing cycles" or "18".
+ * Returns undefined when the value is present but malformed.
+ */
+export function parseIntroAprMonths(value: string): number | null | undefined {
+  const text = value.trim().toLowerCase();
+
+  if (isMissingText(text) || text === 'none' || text === 'no') return null;
+
+  const monthsMatch = text.match(/(\d+)\s*(?:months?|mos?\b|billing cycles?)/);
+  if (monthsMatch) return parseInt(monthsMatch[1], 10);
+
+  if (/^\d+$/.test(text)) return parseInt(text, 10);
+
+  // Text without any digits (e.g. "None on purchases") means there is no intro APR
+  if (!/\d/.test(text)) return null;
+
+  return undefined;
+}
+
+/**
+ * Parses reward multipliers from free text such as
+ * "3x on dining, 2x on travel, 1x on everything else" or
+ * "5% cash back on groceries; 1% on all other purchases".
+ * The highest rate seen for each category wins.
+ */
+export function parseRewardMultipliers(value: string): { multipliers: RewardMultipliers; unit: 'x' | '%' | null } {
+  const multipliers: RewardMultipliers = {};
+  const unmatchedRates: number[] = [];
+  let unit: 'x' | '%' | null = null;
+
+  // Lookbehind skips the tail of large numbers like "60,000 points" (welcome bonuses)
+  const rateRegex = /(?<![\d,.$])(\d+(?:\.\d+)?)\s*(x|%|points?|miles?)(?![a-z])/gi;
+  const matches = Array.from(value.matchAll(rateRegex))
+    .filter((match) => parseFloat(match[1]) <= MAX_REWARD_RATE);
+
+  matches.forEach((match, i) => {
+    const rate = parseFloat(match[1]);
+    const matchUnit = match[2] === '%' ? '%' : 'x';
+    const segmentEnd = i + 1 < matches.length ? matches[i + 1].index! : value.length;
+    const segment = value.substring(match.index! + match[0].length, segmentEnd);
+    // Also handle "Dining: 3x" style, where the category precedes the rate
+    const segmentStart = i > 0 ? matches[i - 1].index! + matches[i - 1][0].length : 0;
+    const leadingSegment = value.substring(segmentStart, match.index!).split(/[,;|\n]/).pop() || '';
+
+    const findCategories = (text: string) => CATEGORY_PATTERNS
+      .filter(({ pattern }) => pattern.test(text))
+      .map(({ category }) => category);
+    let categories = findCategories(segment.split(/[,;|\n]/)[0]);
+    if (categories.length === 0) {
+      categories = findCategories(leadingSegment);
+    }
+
+    if (categories.length === 0) {
+      // Merchant-specific or rotating rates ("2% at Costco") - only used as the base rate if none is stated
+      unmatchedRates.push(rate);
+    }
+    for (const category of categories) {
+      if (multipliers[category] === undefined || rate > multipliers[category]!) {
+        multipliers[category] = rate;
+      }
+    }
+    unit = unit || matchUnit;
+  });
+
+  if (multipliers.other === undefined && unmatchedRates.length > 0) {
+    multipliers.other = Math.min(...unmatchedRates);
+  }
+
+  return { multipliers, unit };
+}
+
+export function parseNetwork(value: string): CardNetwork | null {
+  return NETWORKS.find(({ pattern }) => pattern.test(value))?.network || null;
+}
+
+export function parseIssuer(value: string): string | null {
+  return ISSUERS.find(({ pattern }) => pattern.test(value))?.issuer || null;
+}
+
+/**
+ * Parses top_card flags: "1", 1, "1.0", "TRUE", true, "yes"
+ * Returns undefined when the value is present but malformed.
+ */
+export function parseTopCard(value: string): boolean | undefined {
+  const text = value.trim().toLowerCase();
+  if (['1', '1.0', 'true', 'yes', 'y'].includes(text)) return true;
+  if (['0', '0.0', 'false', 'no', 'n', ''].includes(text)) return false;
+  return undefined;
+}
+
+/**
+ * Derives the typed schema fields for a raw row.
+ * Malformed values are reported through `issues` and set to null.
+ */
+export function deriveSchemaFields(
+  row: RawCard,
+  onIssue: (field: string, value: string, message: string) => void = () => {}
+): CreditCardSchemaFields {
+  const cardName = String(row.credit_card_name || '');
+
+  // Annual fee
+  let annualFeeAmount: number | null = null;
+  const feeColumn = pickColumn(row, COLUMN_ALIASES.annualFee);
+  if (feeColumn) {
+    const parsed = parseAnnualFee(feeColumn.value);
+    if (parsed === undefined) {
+      onIssue(feeColumn.column, feeColumn.value, 'Could not parse annual fee amount');
+    } else {
+      annualFeeAmount = parsed;
+    }
+  }
+
+  // annual_fee_score is the most reliable indicator: 0 = no fee, > 0 = has fee
+  let hasAnnualFee: boolean | null = annualFeeAmount === null ? null : annualFeeAmount > 0;
+  const scoreColumn = pickColumn(row, COLUMN_ALIASES.annualFeeScore);
+  if (scoreColumn) {
+    const score = parseFloat(scoreColumn.value);
+    if (isNaN(score)) {
+      onIssue(scoreColumn.column, scoreColumn.value, 'annual_fee_score is not a number');
+    } else {
+      hasAnnualFee = score > 0;
+      if (score === 0 && annualFeeAmount === null) {
+        annualFeeAmount = 0;
+      }
+    }
+  }
+
+  // Intro APR
+  let introAprMonths: number | null = null;
+  const aprColumn = pickColumn(row, COLUMN_ALIASES.introApr);
+  if (aprColumn) {
+    const parsed = parseIntroAprMonths(aprColumn.value);
+    if (parsed === undefined) {
+      onIssue(aprColumn.column, aprColumn.value, 'Could not parse intro APR period in months');
+    } else {
+      introAprMonths = parsed;
+    }
+  }
+
+  // Reward multipliers (first column that yields any rate)
+  let rewardMultipliers: RewardMultipliers = {};
+  let rewardUnit: 'x' | '%' | null = null;
+  const rewardColumns = COLUMN_ALIASES.rewards
+    .map((column) => pickColumn(row, [column]))
+    .filter((column): column is { column: string; value: string } => column !== null);
+  for (const column of rewardColumns) {
+    const parsed = parseRewardMultipliers(column.value);
+    if (Object.keys(parsed.multipliers).length > 0) {
+      rewardMultipliers = parsed.multipliers;
+      rewardUnit = parsed.unit;
+      break;
+    }
+  }
+  if (rewardColumns.length > 0 && Object.keys(rewardMultipliers).length === 0 && /\d/.test(rewardColumns[0].value)) {
+    onIssue(rewardColumns[0].column, rewardColumns[0].value, 'Could not parse reward multipliers');
+  }
+
+  // Network: explicit column, else inferred from the name (Amex/Discover issue their own network)
+  let network: CardNetwork | null = null;
+  const networkColumn = pickColumn(row, COLUMN_ALIASES.network);
+  if (networkColumn && !isMissingText(networkColumn.value)) {
+    network = parseNetwork(networkColumn.value);
+    if (!network) {
+      onIssue(networkColumn.column, networkColumn.value, 'Unknown card network');
+    }
+  } else if (/american express|amex|discover/i.test(cardName)) {
+    network = parseNetwork(cardName);
+  }
+
+  // Issuer: normalize known issuers, keep unknown names as-is, else infer from the card name
+  let issuer: string | null = null;
+  const issuerColumn = pickColumn(row, COLUMN_ALIASES.issuer);
+  if (issuerColumn && !isMissingText(issuerColumn.value)) {
+    issuer = parseIssuer(issuerColumn.value) || issuerColumn.value;
+  } else {
+    issuer = parseIssuer(cardName);
+  }
+
+  // Top card flag
+  let topCard = false;
+  const topCardColumn = pickColumn(row, COLUMN_ALIASES.topCard);
+  if (topCardColumn) {
+    const parsed = parseTopCard(topCardColumn.value);
+    if (parsed === undefined) {
+      onIssue(topCardColumn.column, topCardColumn.value, 'top_card should be 1/0 or true/false');
+    } else {
+      topCard = parsed;
+    }
+  }
+
+  return {
+    annual_fee_amount: annualFeeAmount,
+    has_annual_fee: hasAnnualFee,
+    intro_apr_months: introAprMonths,
+    reward_multipliers: rewardMultipliers,
+    reward_unit: rewardUnit,
+    network,
+    issuer,
+    top_card: topCard,
+  };
+}
+
+/**
+ * Returns the card with typed schema fields, deriving them if missing
+ * (e.g. cards loaded from an embeddings.json written before the schema existed)
+ */
+export function toTypedCard<T extends RawCard>(card: T): T & CreditCardSchemaFields {
+  if (card.reward_multipliers !== undefined && typeof card.top_card === 'boolean') {
+    return card as T & CreditCardSchemaFields;
+  }
+  return { ...card, ...deriveSchemaFields(card) };
+}
+
+/**
+ * Validates a raw row and builds a typed CreditCard.
+ * Returns null (with an error issue) when required columns are missing.
+ */
+export function validateCardRow(
+  row: RawCard,
+  rowNumber: number,
+  columns: { name: string; url: string }
+): { card: CreditCard | null; issues: CardValidationIssue[] } {
+  const issues: CardValidationIssue[] = [];
+  const cardName = row[columns.name] ? String(row[columns.name]).trim() : '';
+
+  if (!cardName) {
+    issues.push({
+      row: rowNumber,
+      field: columns.name,
+      value: '',
+      message: 'Missing card name',
+      severity: 'error',
+    });
+    return { card: null, issues };
+  }
+
+  // Check for URL - try configured column first, then fallback to common names
+  const urlColumn = pickColumn(row, [columns.url, 'url', 'URL', 'application_url', 'apply_url']);
+  if (!urlColumn) {
+    issues.push({
+      row: rowNumber,
+      cardName,
+      field: columns.url,
+      value: '',
+      message: `Missing application URL (tried: ${columns.url}, url, URL, application_url, apply_url)`,
+      severity: 'error',
+    });
+    return { card: null, issues };
+  }
+
+  // Generate a simple ID from the card name
+  const id = cardName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+
+  const schemaFields = deriveSchemaFields({ ...row, credit_card_name: cardName }, (field, value, message) => {
+    issues.push({ row: rowNumber, cardName, field, value, message, severity: 'warning' });
+  });
+
+  const card: CreditCard = {
+    ...row, // Include all other columns
+    id,
+    credit_card_name: cardName,
+    url_application: urlColumn.value,
+    ...schemaFields,
+  };
+
+  return { card, issues };
+}
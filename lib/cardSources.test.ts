@@ -0,0 +1,93 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CardRow, createLocalCSVSource, createLocalJSONSource, parseCSVRows, serializeCatalog } from './cardSources';
+
+function tempFile(name: string, contents: string): string {
+  const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'card-sources-test-')), name);
+  fs.writeFileSync(file, contents);
+  return file;
+}
+
+describe('parseCSVRows', () => {
+  it('should key each row by the header and keep quoted commas, quotes and newlines', () => {
+    const csv = [
+      'credit_card_name,annual_fee,card_highlights',
+      '"Chase Sapphire Preferred® Card",$95,"3x on dining, 2x on travel"',
+      '"The ""Gold"" Card",$250,"Line one',
+      'Line two"',
+      '',
+    ].join('\n');
+
+    expect(parseCSVRows(csv)).toEqual([
+      { credit_card_name: 'Chase Sapphire Preferred® Card', annual_fee: '$95', card_highlights: '3x on dining, 2x on travel' },
+      { credit_card_name: 'The "Gold" Card', annual_fee: '$250', card_highlights: 'Line one\nLine two' },
+    ]);
+  });
+
+  it('should skip empty lines and map columns by header, not position', () => {
+    const rows = parseCSVRows('annual_fee,credit_card_name\n\n$0,Citi Double Cash\n');
+    expect(rows).toEqual([{ annual_fee: '$0', credit_card_name: 'Citi Double Cash' }]);
+  });
+});
+
+describe('createLocalJSONSource', () => {
+  it('should load an array of rows or a { cards } object, flattening values', async () => {
+    const row = { credit_card_name: 'Venture X', annual_fee: 395, top_card: true, perks: ['Lounges'], intro_offer: null };
+    const expected = { credit_card_name: 'Venture X', annual_fee: 395, top_card: 1, perks: '["Lounges"]', intro_offer: '' };
+
+    await expect(createLocalJSONSource(tempFile('cards.json', JSON.stringify([row]))).load()).resolves.toEqual([expected]);
+    await expect(createLocalJSONSource(tempFile('cards.json', JSON.stringify({ cards: [row] }))).load()).resolves.toEqual([expected]);
+  });
+
+  it('should reject other shapes', async () => {
+    await expect(createLocalJSONSource(tempFile('cards.json', '{"rows": []}')).load()).rejects.toThrow(/expected an array or \{ cards/);
+  });
+});
+
+describe('serializeCatalog', () => {
+  const rows: CardRow[] = [
+    { credit_card_name: 'Chase Sapphire Preferred® Card', annual_fee: '$95', card_highlights: '3x on dining, 2x on travel\nTransfer partners' },
+    { credit_card_name: 'The "Gold" Card', annual_fee: 250, card_highlights: '' },
+  ];
+
+  it('should write JSON with the source and export time', () => {
+    const json = JSON.parse(serializeCatalog(rows, 'data/cards.json', 'Google Sheet abc', new Date('2026-03-01T00:00:00Z')));
+    expect(json).toEqual({ exportedAt: '2026-03-01T00:00:00.000Z', source: 'Google Sheet abc', cards: rows });
+  });
+
+  it('should round-trip through the local CSV and JSON sources', async () => {
+    const csvRows = await createLocalCSVSource(tempFile('cards.csv', serializeCatalog(rows, 'cards.csv', 'test'))).load();
+    // CSV has no number type
+    expect(csvRows).toEqual(rows.map(row => ({ ...row, annual_fee: String(row.annual_fee) })));
+
+    const jsonRows = await createLocalJSONSource(tempFile('cards.json', serializeCatalog(rows, 'cards.json', 'test'))).load();
+    expect(jsonRows).toEqual(rows);
+  });
+});
+
+describe('getCardSource', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  // CARD_SOURCE is read when the module loads
+  async function loadWithEnv(env: Record<string, string>) {
+    for (const [name, value] of Object.entries(env)) vi.stubEnv(name, value);
+    vi.resetModules();
+    return (await import('./cardSources')).getCardSource();
+  }
+
+  it('should select the source from CARD_SOURCE and CARD_SOURCE_PATH', async () => {
+    expect((await loadWithEnv({ CARD_SOURCE: 'csv', CARD_SOURCE_PATH: 'data/cards.csv' })).type).toBe('csv');
+    expect((await loadWithEnv({ CARD_SOURCE: 'json', CARD_SOURCE_PATH: 'data/cards.json' })).type).toBe('json');
+    expect((await loadWithEnv({ CARD_SOURCE: 'google-sheet', GOOGLE_SHEET_ID: 'sheet-1' })).description).toBe('Google Sheet sheet-1');
+  });
+
+  it('should fall back to the Google Sheet for unknown sources and require a path for files', async () => {
+    expect((await loadWithEnv({ CARD_SOURCE: 'ftp' })).type).toBe('google-sheet');
+    await expect(loadWithEnv({ CARD_SOURCE: 'json', CARD_SOURCE_PATH: '' })).rejects.toThrow('requires CARD_SOURCE_PATH');
+  });
+});
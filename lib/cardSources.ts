@@ -0,0 +1,166 @@
+import Papa from 'papaparse';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CatalogUnavailableError } from './errors';
+import { createLogger } from './logger';
+
+/**
+ * Card catalog sources.
+ *
+ * A CardSource returns raw catalog rows (one object per card, keyed by column
+ * name). lib/data.ts turns rows into CreditCard objects, so every source goes
+ * through the same validation. Select a source with CARD_SOURCE:
+ * - `google-sheet` (default): the public Google Sheet in GOOGLE_SHEET_ID
+ * - `csv`: a local CSV file at CARD_SOURCE_PATH
+ * - `json`: a local JSON file at CARD_SOURCE_PATH (array of rows, or { cards: [...] })
+ */
+
+const log = createLogger('cardSources');
+
+export type CardRow = Record<string, string | number>;
+
+export type CardSourceType = 'google-sheet' | 'csv' | 'json';
+
+export interface CardSource {
+  type: CardSourceType;
+  /** Human-readable location, used in logs */
+  description: string;
+  load(): Promise<CardRow[]>;
+}
+
+/**
+ * Configuration for card sources
+ */
+const GOOGLE_SHEET_ID = process.env.GOOGLE_SHEET_ID || '19ioGC8Oj8ej7QP_MG87FyMuAC3AdgGwRrEuKk5wZHZI';
+const CARD_SOURCE = process.env.CARD_SOURCE || 'google-sheet';
+const CARD_SOURCE_PATH = process.env.CARD_SOURCE_PATH || '';
+
+/**
+ * Parses CSV text (with a header row) into rows
+ */
+export function parseCSVRows(csvText: string): CardRow[] {
+  const parsed = Papa.parse<CardRow>(csvText, {
+    header: true,
+    skipEmptyLines: true,
+  });
+
+  return parsed.data || [];
+}
+
+/**
+ * Coerces JSON values to the string/number values used by CSV rows
+ */
+function normalizeJSONRow(row: Record<string, unknown>): CardRow {
+  const normalized: CardRow = {};
+  for (const [key, value] of Object.entries(row)) {
+    if (typeof value === 'number' || typeof value === 'string') {
+      normalized[key] = value;
+    } else if (typeof value === 'boolean') {
+      normalized[key] = value ? 1 : 0;
+    } else if (value === null || value === undefined) {
+      normalized[key] = '';
+    } else {
+      normalized[key] = JSON.stringify(value);
+    }
+  }
+  return normalized;
+}
+
+function resolvePath(filePath: string): string {
+  return path.isAbsolute(filePath) ? filePath : path.join(process.cwd(), filePath);
+}
+
+/**
+ * The public Google Sheet, fetched through its CSV export
+ */
+export function createGoogleSheetSource(sheetId: string = GOOGLE_SHEET_ID): CardSource {
+  const url = `https://docs.google.com/spreadsheets/d/${sheetId}/export?format=csv`;
+
+  return {
+    type: 'google-sheet',
+    description: `Google Sheet ${sheetId}`,
+    async load() {
+      let response: Response;
+      try {
+        response = await fetch(url);
+      } catch (error) {
+        throw new CatalogUnavailableError(`Failed to fetch Google Sheet: ${error instanceof Error ? error.message : error}`, error);
+      }
+
+      if (!response.ok) {
+        throw new CatalogUnavailableError(`Failed to fetch Google Sheet: ${response.statusText}`);
+      }
+
+      return parseCSVRows(await response.text());
+    },
+  };
+}
+
+/**
+ * A local CSV file with the same columns as the Google Sheet
+ */
+export function createLocalCSVSource(filePath: string): CardSource {
+  const fullPath = resolvePath(filePath);
+
+  return {
+    type: 'csv',
+    description: `CSV file ${fullPath}`,
+    async load() {
+      const csvText = await fs.promises.readFile(fullPath, 'utf-8');
+      return parseCSVRows(csvText);
+    },
+  };
+}
+
+/**
+ * A local JSON file: an array of rows, or an object with a `cards` array
+ */
+export function createLocalJSONSource(filePath: string): CardSource {
+  const fullPath = resolvePath(filePath);
+
+  return {
+    type: 'json',
+    description: `JSON file ${fullPath}`,
+    async load() {
+      const data = JSON.parse(await fs.promises.readFile(fullPath, 'utf-8'));
+      const rows = Array.isArray(data) ? data : data?.cards;
+
+      if (!Array.isArray(rows)) {
+        throw new Error(`Invalid card catalog JSON in ${fullPath}: expected an array or { cards: [...] }`);
+      }
+
+      return rows.map((row: Record<string, unknown>) => normalizeJSONRow(row));
+    },
+  };
+}
+
+/**
+ * Catalog snapshot written by scripts/exportCatalog.ts: CSV for a .csv path,
+ * otherwise JSON with the rows under `cards`. Both load back with the local sources.
+ */
+export function serializeCatalog(rows: CardRow[], filePath: string, sourceDescription: string, exportedAt: Date = new Date()): string {
+  return filePath.endsWith('.csv')
+    ? Papa.unparse(rows)
+    : JSON.stringify({ exportedAt: exportedAt.toISOString(), source: sourceDescription, cards: rows }, null, 2);
+}
+
+/**
+ * Returns the card source selected by CARD_SOURCE / CARD_SOURCE_PATH
+ */
+export function getCardSource(): CardSource {
+  switch (CARD_SOURCE) {
+    case 'csv':
+    case 'json':
+      if (!CARD_SOURCE_PATH) {
+        throw new Error(`CARD_SOURCE=${CARD_SOURCE} requires CARD_SOURCE_PATH to be set`);
+      }
+      return CARD_SOURCE === 'csv'
+        ? createLocalCSVSource(CARD_SOURCE_PATH)
+        : createLocalJSONSource(CARD_SOURCE_PATH);
+    case 'google-sheet':
+      return createGoogleSheetSource();
+    default:
+      log.warn(`Unknown CARD_SOURCE "${CARD_SOURCE}", using google-sheet`);
+      return createGoogleSheetSource();
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { computeCardValue, normalizeSpendProfile, parseWelcomeBonusValue, rankByCardValue } from './cardValue';
+import { toTypedCard } from './cardSchema';
+import { CreditCard } from '@/types';
+
+function makeCard(name: string, fields: Record<string, unknown>): CreditCard {
+  const row: Record<string, unknown> = {
+    id: name.toLowerCase().replace(/\s+/g, '-'),
+    credit_card_name: name,
+    url_application: 'https://example.com',
+    ...fields,
+  };
+  return toTypedCard(row) as CreditCard;
+}
+
+describe('parseWelcomeBonusValue', () => {
+  it('should value points at the given cents per point', () => {
+    expect(parseWelcomeBonusValue('60,000 points after $4,000 spend', 1)).toBe(600);
+    expect(parseWelcomeBonusValue('75,000 miles', 1.5)).toBe(1125);
+  });
+
+  it('should read cash bonuses', () => {
+    expect(parseWelcomeBonusValue('$200 cash back after $500 spend')).toBe(200);
+  });
+
+  it('should return 0 for offers without an amount', () => {
+    expect(parseWelcomeBonusValue('Cashback Match at the end of year one')).toBe(0);
+  });
+});
+
+describe('computeCardValue', () => {
+  it('should compute cash back value per category', () => {
+    const card = makeCard('Gas Card', { annual_fee: '$0', rewards: '4% cash back on gas, 1% on everything else' });
+    const value = computeCardValue(card, { gas: 100, other: 500 });
+
+    expect(value.rewards_by_category.gas).toBe(48);
+    expect(value.rewards_by_category.other).toBe(60);
+    expect(value.ongoing).toBe(108);
+  });
+
+  it('should subtract the annual fee and add the welcome bonus in year one', () => {
+    const card = makeCard('Dining Card', {
+      annual_fee: '$95',
+      rewards: '3x on dining, 1x on everything else',
+      intro_offer: '60,000 points',
+    });
+    const value = computeCardValue(card, { dining: 500 }, 1);
+
+    expect(value.annual_rewards).toBe(180);
+    expect(value.ongoing).toBe(85);
+    expect(value.first_year).toBe(685);
+    expect(value.explanation).toContain('$85/year');
+  });
+});
+
+describe('rankByCardValue', () => {
+  it('should put the card worth the most first', () => {
+    const cards = [
+      makeCard('Flat Card', { annual_fee: '$0', rewards: '2% cash back on everything' }),
+      makeCard('Grocery Card', { annual_fee: '$0', rewards: '6% at U.S. supermarkets, 1% on everything else' }),
+    ];
+    const ranked = rankByCardValue(cards, card => card, { groceries: 800, other: 200 });
+
+    expect(ranked[0].item.credit_card_name).toBe('Grocery Card');
+  });
+});
+
+describe('normalizeSpendProfile', () => {
+  it('should keep only known categories with positive amounts', () => {
+    expect(normalizeSpendProfile({ dining: '250', gas: -5, rent: 1000 })).toEqual({ dining: 250 });
+    expect(normalizeSpendProfile({})).toBeUndefined();
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Net-value engine: what a card is worth to a user in dollars.
+ *
+ * Turns a monthly spend profile and the card's parsed reward multipliers,
+ * annual fee and intro offer into a first-year and an ongoing annual value.
+ * Points and miles are valued at POINT_VALUE_CENTS each.
+ */
+
+import { CardValueEstimate, CreditCard, SpendCategory, SpendProfile } from '@/types';
+import { toTypedCard } from './cardSchema';
+
+export const SPEND_CATEGORIES: SpendCategory[] = ['dining', 'groceries', 'gas', 'travel', 'other'];
+
+// Cents per point/mile; 1 cent is a conservative cash-out value for most programs
+const POINT_VALUE_CENTS = parseFloat(process.env.POINT_VALUE_CENTS || '1');
+// Largest monthly amount accepted per category, to keep typos from dominating rankings
+const MAX_MONTHLY_SPEND = 100000;
+
+/**
+ * Cleans a spend profile from a request body: keeps known categories with
+ * non-negative numbers. Returns undefined when nothing usable is left.
+ */
+export function normalizeSpendProfile(input: unknown): SpendProfile | undefined {
+  if (!input || typeof input !== 'object') return undefined;
+
+  const profile: SpendProfile = {};
+  for (const category of SPEND_CATEGORIES) {
+    const value = Number((input as Record<string, unknown>)[category]);
+    if (Number.isFinite(value) && value > 0) {
+      profile[category] = Math.min(value, MAX_MONTHLY_SPEND);
+    }
+  }
+
+  return Object.keys(profile).length > 0 ? profile : undefined;
+}
+
+/**
+ * Whether a profile has any spend to value cards against
+ */
+export function hasSpendProfile(profile?: SpendProfile): profile is SpendProfile {
+  return !!profile && SPEND_CATEGORIES.some(category => (profile[category] || 0) > 0);
+}
+
+/**
+ * Dollar value of an intro offer: "$200 cash back" → 200, "60,000 points" → 600 at 1 cent/point
+ */
+export function parseWelcomeBonusValue(text: string, pointValueCents: number = POINT_VALUE_CENTS): number {
+  if (!text) return 0;
+
+  const points = text.match(/([\d,]+)\s*(?:bonus\s+)?(?:points|miles|pts)\b/i);
+  if (points) {
+    const amount = parseInt(points[1].replace(/,/g, ''), 10);
+    return Number.isFinite(amount) ? Math.round((amount * pointValueCents) / 100) : 0;
+  }
+
+  const dollars = text.match(/\$\s*([\d,]+(?:\.\d+)?)/);
+  if (dollars) {
+    const amount = parseFloat(dollars[1].replace(/,/g, ''));
+    return Number.isFinite(amount) ? Math.round(amount) : 0;
+  }
+
+  return 0;
+}
+
+/**
+ * Whether the first year's annual fee is waived ("$0 intro annual fee for the first year")
+ */
+function isFirstYearFeeWaived(text: string): boolean {
+  return /\$0\s*(intro(ductory)?\s*)?annual fee\s*(for\s*)?(the\s*)?first year/i.test(text);
+}
+
+function formatDollars(amount: number): string {
+  return amount < 0 ? `-$${Math.abs(amount).toLocaleString('en-US')}` : `$${amount.toLocaleString('en-US')}`;
+}
+
+/**
+ * Computes first-year and ongoing value of a card for a spend profile
+ */
+export function computeCardValue(
+  card: CreditCard,
+  profile: SpendProfile,
+  pointValueCents: number = POINT_VALUE_CENTS
+): CardValueEstimate {
+  const typedCard = toTypedCard(card);
+  const multipliers = typedCard.reward_multipliers || {};
+  // Cards without a parsed base rate are assumed to earn 1x / 1% on everything else
+  const baseRate = multipliers.other ?? 1;
+
+  const rewardsByCategory = {} as Record<SpendCategory, number>;
+  let annualRewards = 0;
+
+  for (const category of SPEND_CATEGORIES) {
+    const annualSpend = (profile[category] || 0) * 12;
+    const rate = multipliers[category] ?? baseRate;
+    const value = typedCard.reward_unit === '%'
+      ? (annualSpend * rate) / 100
+      : (annualSpend * rate * pointValueCents) / 100;
+
+    rewardsByCategory[category] = Math.round(value);
+    annualRewards += value;
+  }
+
+  annualRewards = Math.round(annualRewards);
+  const annualFee = typedCard.annual_fee_amount ?? 0;
+  const offerText = String(card.intro_offer || card.welcome_bonus || card.sign_up_bonus || card.intro_bonus || '');
+  const welcomeBonus = parseWelcomeBonusValue(offerText, pointValueCents);
+  const firstYearFee = isFirstYearFeeWaived(`${card.annual_fee || ''} ${offerText}`) ? 0 : annualFee;
+
+  const firstYear = annualRewards + welcomeBonus - firstYearFee;
+  const ongoing = annualRewards - annualFee;
+
+  const feePart = annualFee > 0 ? ` minus the ${formatDollars(annualFee)} annual fee` : '';
+  const bonusPart = firstYear !== ongoing ? `, ${formatDollars(firstYear)} in the first year` : '';
+  const explanation = `Worth about ${formatDollars(ongoing)}/year for your spending (${formatDollars(annualRewards)} in rewards${feePart})${bonusPart}.`;
+
+  return {
+    annual_rewards: annualRewards,
+    annual_fee: annualFee,
+    welcome_bonus: welcomeBonus,
+    first_year: firstYear,
+    ongoing,
+    rewards_by_category: rewardsByCategory,
+    explanation,
+  };
+}
+
+/**
+ * Sorts items by the value of their card, best first (stable for ties).
+ * Ranks by ongoing value by default, or by first-year value.
+ */
+export function rankByCardValue<T>(
+  items: T[],
+  getCard: (item: T) => CreditCard,
+  profile: SpendProfile,
+  basis: 'ongoing' | 'first_year' = 'ongoing'
+): { item: T; value: CardValueEstimate }[] {
+  return items
+    .map((item, index) => ({ item, index, value: computeCardValue(getCard(item), profile) }))
+    .sort((a, b) => b.value[basis] - a.value[basis] || a.index - b.index)
+    .map(({ item, value }) => ({ item, value }));
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { extractNumericClaims, verifyResponseClaims } from './claimVerifier';
+import { toTypedCard } from './cardSchema';
+import { CreditCard, RecommendationsResponse } from '@/types';
+
+function makeCard(id: string, fields: Record<string, unknown>): CreditCard {
+  const row: Record<string, unknown> = {
+    id,
+    url_application: `https://example.com/${id}`,
+    ...fields,
+  };
+  return toTypedCard(row) as CreditCard;
+}
+
+const catalog = [
+  makeCard('sapphire', {
+    credit_card_name: 'Chase Sapphire Preferred® Card',
+    annual_fee: '$95',
+    rewards: '3x on dining, 2x on travel, 1x on everything else',
+    intro_offer: '60,000 bonus points after you spend $4,000 in the first 3 months',
+  }),
+  makeCard('double', {
+    credit_card_name: 'Citi Double Cash® Card',
+    annual_fee: '$0',
+    rewards: '2% cash back on everything',
+  }),
+];
+
+const statuses = (report: ReturnType<typeof verifyResponseClaims>['report'], source: string) =>
+  report.claims.filter(claim => claim.source === source).map(claim => `${claim.claim}:${claim.status}`);
+
+describe('extractNumericClaims', () => {
+  it('should find fees, percentages, multipliers and bonuses', () => {
+    const claims = extractNumericClaims('No annual fee, 2% cash back, 3x on dining and a 60k points bonus worth $600');
+    expect(claims.map(claim => [claim.kind, claim.value])).toEqual([
+      ['dollar_amount', 600],
+      ['annual_fee', 0],
+      ['percentage', 2],
+      ['multiplier', 3],
+      ['bonus_amount', 60000],
+    ]);
+  });
+});
+
+describe('verifyResponseClaims', () => {
+  const response: RecommendationsResponse = {
+    recommendations: [
+      {
+        credit_card_name: 'Chase Sapphire Preferred',
+        apply_url: 'https://example.com/wrong',
+        reason: 'Earns 3x on dining and 5x on groceries',
+        annual_fee: '$0',
+        intro_offer: '60,000 bonus points after $4,000 spend',
+      },
+      {
+        credit_card_name: 'Citi Double Cash® Card',
+        apply_url: 'https://example.com/double',
+        reason: 'Flat 2% back with no annual fee',
+        rewards_rate: '2% cash back on everything',
+      },
+      {
+        credit_card_name: 'Imaginary Rewards Card',
+        apply_url: 'https://example.com/imaginary',
+        reason: 'Made up',
+      },
+    ],
+    summary: 'The [Chase Sapphire Preferred® Card](https://example.com/nope) earns 4x on dining. The Citi Double Cash® Card has no annual fee.',
+  };
+
+  const { response: verified, report } = verifyResponseClaims(response, catalog, ['I spend $500 a month']);
+
+  it('should correct structured fields from the catalog', () => {
+    const [sapphire] = verified.recommendations;
+    expect(sapphire.credit_card_name).toBe('Chase Sapphire Preferred® Card');
+    expect(sapphire.apply_url).toBe('https://example.com/sapphire');
+    expect(sapphire.annual_fee).toBe('$95');
+    expect(sapphire.intro_offer).toBe('60,000 bonus points after $4,000 spend');
+    expect(statuses(report, 'recommendations[0].annual_fee')).toEqual(['$0:corrected']);
+  });
+
+  it('should flag unsupported claims in free text', () => {
+    expect(statuses(report, 'recommendations[0].reason')).toEqual(['3x:verified', '5x:flagged']);
+    expect(statuses(report, 'recommendations[1].reason')).toEqual(['no annual fee:verified', '2%:verified']);
+  });
+
+  it('should flag cards that are not in the catalog', () => {
+    expect(statuses(report, 'recommendations[2].credit_card_name')).toEqual(['Imaginary Rewards Card:flagged']);
+    expect(verified.recommendations[2]).toEqual(response.recommendations[2]);
+  });
+
+  it('should fix summary links and check summary numbers per card', () => {
+    expect(verified.summary).toContain('[Chase Sapphire Preferred® Card](https://example.com/sapphire)');
+    expect(statuses(report, 'summary')).toEqual([
+      'https://example.com/nope:corrected',
+      '4x:flagged',
+      'no annual fee:verified',
+    ]);
+  });
+
+  it('should count claims by status', () => {
+    expect(report.checked).toBe(report.verified + report.corrected + report.flagged);
+    expect(report.flagged).toBe(3);
+  });
+});
@@ -0,0 +1,333 @@
+/**
+ * Grounded claim verification for generated answers.
+ *
+ * Pulls facts out of each recommendation and the summary (card names, URLs,
+ * annual fees, dollar amounts, percentages, multipliers, bonus amounts) and
+ * checks them against the catalog row of the card they are about:
+ * - structured fields (name, apply URL, annual fee, intro offer, rewards
+ *   rate) that don't match are replaced with the catalog value
+ * - free text (reason, card summary, highlights, the summary) can't be
+ *   safely rewritten, so unsupported claims are flagged
+ * Every claim ends up in a VerificationReport for the response metadata.
+ */
+
+import { ClaimCheck, CreditCard, Recommendation, RecommendationsResponse, VerificationReport } from '@/types';
+import { CardNameResolver, createCardNameResolver, normalizeCardName } from './cardResolver';
+
+type NumericKind = 'annual_fee' | 'dollar_amount' | 'percentage' | 'multiplier' | 'bonus_amount';
+
+export interface NumericClaim {
+  kind: NumericKind;
+  text: string;
+  value: number;
+}
+
+interface CardFacts {
+  dollars: Set<number>;
+  percentages: Set<number>;
+  multipliers: Set<number>;
+  bonuses: Set<number>;
+}
+
+const DOLLAR_PATTERN = /\$\s?(\d[\d,]*(?:\.\d+)?)\s?(k\b)?/gi;
+const PERCENT_PATTERN = /(\d+(?:\.\d+)?)\s?%/g;
+const MULTIPLIER_PATTERN = /\b(\d+(?:\.\d+)?)\s?x\b/gi;
+const BONUS_PATTERN = /\b(\d[\d,]*(?:\.\d+)?)\s?(k)?\s+(?:bonus\s+|welcome\s+bonus\s+)?(?:points|miles)\b/gi;
+const NO_FEE_PATTERN = /\b(no|\$0|zero) annual fee\b/i;
+const MARKDOWN_LINK_PATTERN = /\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+// Recommendation fields with a catalog counterpart, and the catalog columns they come from
+const STRUCTURED_FIELDS: Array<{ field: 'annual_fee' | 'intro_offer' | 'rewards_rate'; columns: string[] }> = [
+  { field: 'annual_fee', columns: ['annual_fee', 'fee'] },
+  { field: 'intro_offer', columns: ['intro_offer', 'welcome_bonus', 'sign_up_bonus', 'intro_bonus'] },
+  { field: 'rewards_rate', columns: ['rewards_rate', 'rewards', 'reward_rate'] },
+];
+
+// Recommendation fields that are free text
+const FREE_TEXT_FIELDS: Array<'reason' | 'card_summary' | 'card_highlights'> = ['reason', 'card_summary', 'card_highlights'];
+
+function parseAmount(digits: string, thousands?: string): number {
+  const value = parseFloat(digits.replace(/,/g, ''));
+  return thousands ? value * 1000 : value;
+}
+
+/**
+ * Numeric claims in a piece of text: "$95", "3%", "5x", "60,000 points", "no annual fee"
+ */
+export function extractNumericClaims(text: string, options: { annualFeeField?: boolean } = {}): NumericClaim[] {
+  const claims: NumericClaim[] = [];
+
+  for (const match of Array.from(text.matchAll(DOLLAR_PATTERN))) {
+    claims.push({
+      kind: options.annualFeeField ? 'annual_fee' : 'dollar_amount',
+      text: match[0].trim(),
+      value: parseAmount(match[1], match[2]),
+    });
+  }
+  const noFee = text.match(NO_FEE_PATTERN);
+  if (noFee && !claims.some(claim => claim.value === 0)) {
+    claims.push({ kind: 'annual_fee', text: noFee[0], value: 0 });
+  }
+  for (const match of Array.from(text.matchAll(PERCENT_PATTERN))) {
+    claims.push({ kind: 'percentage', text: match[0], value: parseFloat(match[1]) });
+  }
+  for (const match of Array.from(text.matchAll(MULTIPLIER_PATTERN))) {
+    claims.push({ kind: 'multiplier', text: match[0], value: parseFloat(match[1]) });
+  }
+  for (const match of Array.from(text.matchAll(BONUS_PATTERN))) {
+    claims.push({ kind: 'bonus_amount', text: match[0], value: parseAmount(match[1], match[2]) });
+  }
+
+  return claims;
+}
+
+function emptyFacts(): CardFacts {
+  return { dollars: new Set(), percentages: new Set(), multipliers: new Set(), bonuses: new Set() };
+}
+
+function addFacts(facts: CardFacts, text: string): void {
+  for (const claim of extractNumericClaims(text)) {
+    if (claim.kind === 'dollar_amount' || claim.kind === 'annual_fee') facts.dollars.add(claim.value);
+    else if (claim.kind === 'percentage') facts.percentages.add(claim.value);
+    else if (claim.kind === 'multiplier') facts.multipliers.add(claim.value);
+    else facts.bonuses.add(claim.value);
+  }
+}
+
+/**
+ * Every number stated anywhere in the card's catalog row
+ */
+function collectCardFacts(card: CreditCard, groundingTexts: string[]): CardFacts {
+  const facts = emptyFacts();
+  for (const [field, value] of Object.entries(card)) {
+    if (field === 'url_application' || field === 'id') continue;
+    if (typeof value === 'string' || typeof value === 'number') addFacts(facts, String(value));
+  }
+  if (card.annual_fee_amount !== null) facts.dollars.add(card.annual_fee_amount);
+  // Numbers the user gave (spend amounts, fee budgets) are grounded too
+  groundingTexts.forEach(text => addFacts(facts, text));
+  return facts;
+}
+
+function mergeFacts(all: CardFacts[]): CardFacts {
+  const merged = emptyFacts();
+  for (const facts of all) {
+    (Object.keys(merged) as Array<keyof CardFacts>).forEach(key => facts[key].forEach(value => merged[key].add(value)));
+  }
+  return merged;
+}
+
+function isSupported(claim: NumericClaim, facts: CardFacts, card: CreditCard | null): boolean {
+  switch (claim.kind) {
+    case 'annual_fee':
+      if (claim.value === 0 && card) return card.has_annual_fee === false || facts.dollars.has(0);
+      return facts.dollars.has(claim.value);
+    case 'dollar_amount':
+      return facts.dollars.has(claim.value);
+    case 'percentage':
+      return facts.percentages.has(claim.value);
+    case 'multiplier':
+      return facts.multipliers.has(claim.value);
+    case 'bonus_amount':
+      return facts.bonuses.has(claim.value);
+  }
+}
+
+function catalogValue(card: CreditCard, columns: string[]): string {
+  for (const column of columns) {
+    const value = String(card[column] ?? '').trim();
+    if (value) return value;
+  }
+  return '';
+}
+
+function summarize(claims: ClaimCheck[]): VerificationReport {
+  return {
+    checked: claims.length,
+    verified: claims.filter(claim => claim.status === 'verified').length,
+    corrected: claims.filter(claim => claim.status === 'corrected').length,
+    flagged: claims.filter(claim => claim.status === 'flagged').length,
+    claims,
+  };
+}
+
+/**
+ * Checks a recommendation against its catalog row, returning the corrected recommendation
+ */
+function verifyRecommendation(
+  rec: Recommendation,
+  index: number,
+  byName: Map<string, CreditCard>,
+  resolver: CardNameResolver<CreditCard>,
+  groundingTexts: string[],
+  claims: ClaimCheck[]
+): Recommendation {
+  const source = (field: string) => `recommendations[${index}].${field}`;
+  const card = byName.get(normalizeCardName(rec.credit_card_name)) || resolver.resolve(rec.credit_card_name).match?.item;
+
+  if (!card) {
+    claims.push({ kind: 'card_name', source: source('credit_card_name'), card: null, claim: rec.credit_card_name, status: 'flagged' });
+    return rec;
+  }
+
+  const corrected: Recommendation = { ...rec };
+  const nameMatches = normalizeCardName(rec.credit_card_name) === normalizeCardName(card.credit_card_name);
+  claims.push({
+    kind: 'card_name',
+    source: source('credit_card_name'),
+    card: card.credit_card_name,
+    claim: rec.credit_card_name,
+    status: nameMatches ? 'verified' : 'corrected',
+    ...(nameMatches ? {} : { expected: card.credit_card_name }),
+  });
+  if (!nameMatches) corrected.credit_card_name = card.credit_card_name;
+
+  if (card.url_application && rec.apply_url) {
+    const urlMatches = rec.apply_url.trim() === card.url_application.trim();
+    claims.push({
+      kind: 'url',
+      source: source('apply_url'),
+      card: card.credit_card_name,
+      claim: rec.apply_url,
+      status: urlMatches ? 'verified' : 'corrected',
+      ...(urlMatches ? {} : { expected: card.url_application }),
+    });
+    if (!urlMatches) corrected.apply_url = card.url_application;
+  }
+
+  const facts = collectCardFacts(card, groundingTexts);
+
+  for (const { field, columns } of STRUCTURED_FIELDS) {
+    const text = rec[field];
+    if (!text) continue;
+    const expected = catalogValue(card, columns);
+    const fieldFacts = emptyFacts();
+    addFacts(fieldFacts, expected);
+    if (field === 'annual_fee' && card.annual_fee_amount !== null) fieldFacts.dollars.add(card.annual_fee_amount);
+
+    const fieldClaims = extractNumericClaims(text, { annualFeeField: field === 'annual_fee' });
+    const mismatched = fieldClaims.filter(claim => !isSupported(claim, fieldFacts, card));
+    for (const claim of fieldClaims) {
+      const ok = !mismatched.includes(claim);
+      claims.push({
+        kind: claim.kind,
+        source: source(field),
+        card: card.credit_card_name,
+        claim: claim.text,
+        // Without a catalog value there is nothing to correct to
+        status: ok ? 'verified' : expected ? 'corrected' : 'flagged',
+        ...(ok ? {} : { expected: expected || 'not in catalog' }),
+      });
+    }
+    if (mismatched.length > 0 && expected) corrected[field] = expected;
+  }
+
+  for (const field of FREE_TEXT_FIELDS) {
+    const text = rec[field];
+    if (!text) continue;
+    for (const claim of extractNumericClaims(text)) {
+      const ok = isSupported(claim, facts, card);
+      claims.push({
+        kind: claim.kind,
+        source: source(field),
+        card: card.credit_card_name,
+        claim: claim.text,
+        status: ok ? 'verified' : 'flagged',
+      });
+    }
+  }
+
+  return corrected;
+}
+
+/**
+ * Checks links and numbers in the summary. Numbers are checked sentence by
+ * sentence against the cards each sentence mentions; sentences that mention
+ * no card are left alone.
+ */
+function verifySummary(
+  summary: string,
+  recommendations: Recommendation[],
+  byName: Map<string, CreditCard>,
+  resolver: CardNameResolver<CreditCard>,
+  groundingTexts: string[],
+  claims: ClaimCheck[]
+): string {
+  const resolve = (name: string) => byName.get(normalizeCardName(name)) || resolver.resolve(name).match?.item || null;
+
+  // Links: the URL must be the linked card's application URL
+  let corrected = summary.replace(MARKDOWN_LINK_PATTERN, (link, text: string, url: string) => {
+    const card = resolve(text);
+    if (!card) {
+      // Only link text that looks like a card name is a card claim
+      if (/\bcard\b|®|™/i.test(text)) {
+        claims.push({ kind: 'card_name', source: 'summary', card: null, claim: text, status: 'flagged' });
+      }
+      return link;
+    }
+    if (!card.url_application || url === card.url_application) {
+      claims.push({ kind: 'url', source: 'summary', card: card.credit_card_name, claim: url, status: 'verified' });
+      return link;
+    }
+    claims.push({ kind: 'url', source: 'summary', card: card.credit_card_name, claim: url, status: 'corrected', expected: card.url_application });
+    return `[${text}](${card.url_application})`;
+  });
+
+  const recommendedCards = recommendations
+    .map(rec => resolve(rec.credit_card_name))
+    .filter((card): card is CreditCard => card !== null);
+
+  for (const sentence of corrected.split(/(?<=[.!?])\s+|\n+/)) {
+    const normalizedSentence = ` ${normalizeCardName(sentence)} `;
+    const linked = Array.from(sentence.matchAll(MARKDOWN_LINK_PATTERN))
+      .map(match => resolve(match[1]))
+      .filter((card): card is CreditCard => card !== null);
+    const named = recommendedCards.filter(card => normalizedSentence.includes(` ${normalizeCardName(card.credit_card_name)} `));
+    const mentioned = Array.from(new Set([...linked, ...named]));
+    if (mentioned.length === 0) continue;
+
+    const facts = mergeFacts(mentioned.map(card => collectCardFacts(card, groundingTexts)));
+    const card = mentioned.length === 1 ? mentioned[0] : null;
+    // Don't read numbers out of the URLs
+    for (const claim of extractNumericClaims(sentence.replace(/\]\([^)]*\)/g, ']'))) {
+      claims.push({
+        kind: claim.kind,
+        source: 'summary',
+        card: card ? card.credit_card_name : mentioned.map(item => item.credit_card_name).join(', '),
+        claim: claim.text,
+        status: isSupported(claim, facts, card) ? 'verified' : 'flagged',
+      });
+    }
+  }
+
+  return corrected;
+}
+
+/**
+ * Verifies a response's recommendations and summary against the catalog.
+ * groundingTexts are other trusted sources of numbers, such as the user's question.
+ */
+export function verifyResponseClaims(
+  response: RecommendationsResponse,
+  catalog: CreditCard[],
+  groundingTexts: string[] = []
+): { response: RecommendationsResponse; report: VerificationReport } {
+  const byName = new Map(catalog.map(card => [normalizeCardName(card.credit_card_name), card]));
+  const resolver = createCardNameResolver(catalog, card => card.credit_card_name);
+  const claims: ClaimCheck[] = [];
+
+  const recommendations = (response.recommendations || []).map((rec, index) => {
+    // Value estimates are computed from the user's spend profile
+    const grounding = rec.estimated_value ? [...groundingTexts, rec.estimated_value.explanation] : groundingTexts;
+    return verifyRecommendation(rec, index, byName, resolver, grounding, claims);
+  });
+
+  const summary = response.summary
+    ? verifySummary(response.summary, recommendations, byName, resolver, groundingTexts, claims)
+    : response.summary;
+
+  return {
+    response: { ...response, recommendations, summary },
+    report: summarize(claims),
+  };
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { buildComparisonRows, buildFallbackVerdict } from './compare';
+import { toTypedCard } from './cardSchema';
+import { CreditCard } from '@/types';
+
+function makeCard(id: string, fields: Record<string, unknown>): CreditCard {
+  const row: Record<string, unknown> = {
+    id,
+    credit_card_name: `Card ${id}`,
+    url_application: `https://example.com/${id}`,
+    ...fields,
+  };
+  return toTypedCard(row) as CreditCard;
+}
+
+describe('buildComparisonRows', () => {
+  const cards = [
+    makeCard('a', { annual_fee: '$95', rewards: '3x on dining, 1x on everything else' }),
+    makeCard('b', { annual_fee: '$0', rewards: '2x on dining, 1x on everything else' }),
+  ];
+  const rows = buildComparisonRows(cards);
+  const row = (key: string) => rows.find(r => r.key === key);
+
+  it('should mark the lowest annual fee as best', () => {
+    expect(row('annual_fee')?.values).toEqual(['$95', '$0']);
+    expect(row('annual_fee')?.bestIndices).toEqual([1]);
+  });
+
+  it('should rank rewards by category', () => {
+    expect(row('rewards_dining')?.values).toEqual(['3x', '2x']);
+    expect(row('rewards_dining')?.bestIndices).toEqual([0]);
+  });
+
+  it('should leave out attributes no card has', () => {
+    expect(row('perks')).toBeUndefined();
+  });
+});
+
+describe('buildFallbackVerdict', () => {
+  it('should name the winner of each ranked attribute', () => {
+    const cards = [makeCard('a', { annual_fee: '$95' }), makeCard('b', { annual_fee: '$0' })];
+    const verdict = buildFallbackVerdict(['Card a', 'Card b'], buildComparisonRows(cards));
+    expect(verdict).toContain('Card b has the lowest annual fee ($0)');
+  });
+});
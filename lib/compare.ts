@@ -0,0 +1,234 @@
+/**
+ * Side-by-side card comparison for /api/compare.
+ *
+ * Resolves 2-4 card names against the catalog, builds an attribute matrix
+ * from the typed card fields (fees, rewards by category, intro offers,
+ * credit score, perks) and asks the model for a short verdict.
+ */
+
+import { CardComparison, ComparisonRow, CreditCard, RewardCategory } from '@/types';
+import { resolveCard } from './rag';
+import { toTypedCard } from './cardSchema';
+import { getLLMProvider, MODELS } from './llm';
+import { MAX_COMPARE_CARDS } from './comparisonQuery';
+import { createLogger } from './logger';
+
+const log = createLogger('compare');
+
+const REWARD_CATEGORY_LABELS: Record<RewardCategory, string> = {
+  dining: 'Dining',
+  groceries: 'Groceries',
+  gas: 'Gas',
+  travel: 'Travel',
+  streaming: 'Streaming',
+  online_shopping: 'Online Shopping',
+  other: 'Everything Else',
+};
+
+function textField(card: CreditCard, fields: string[]): string | null {
+  for (const field of fields) {
+    const value = String(card[field] ?? '').trim();
+    if (value) return value;
+  }
+  return null;
+}
+
+/**
+ * Indices of the best numeric values (lowest or highest); empty if fewer than two values can be ranked
+ */
+function bestIndices(values: (number | null)[], direction: 'min' | 'max'): number[] {
+  const ranked = values.filter((value): value is number => value !== null);
+  if (ranked.length < 2) return [];
+
+  const best = direction === 'min' ? Math.min(...ranked) : Math.max(...ranked);
+  // Don't highlight anything when every card ties
+  if (ranked.length === values.length && ranked.every(value => value === best)) return [];
+
+  return values.flatMap((value, index) => (value === best ? [index] : []));
+}
+
+/**
+ * Builds the attribute-by-attribute matrix. Rows where no card has data are left out.
+ */
+export function buildComparisonRows(cards: CreditCard[]): ComparisonRow[] {
+  const typedCards = cards.map(card => toTypedCard(card));
+  const rows: ComparisonRow[] = [];
+
+  // Annual fee - lower is better
+  const fees = typedCards.map(card => card.annual_fee_amount);
+  rows.push({
+    key: 'annual_fee',
+    label: 'Annual Fee',
+    values: typedCards.map((card, i) =>
+      fees[i] !== null ? `$${fees[i]}` : textField(card, ['annual_fee', 'fee'])
+    ),
+    bestIndices: bestIndices(fees, 'min'),
+  });
+
+  // Rewards by category - only ranked when every card earns in the same unit (points vs. cash back)
+  const units = new Set(typedCards.map(card => card.reward_unit).filter(unit => unit !== null));
+  for (const category of Object.keys(REWARD_CATEGORY_LABELS) as RewardCategory[]) {
+    const rates = typedCards.map(card => card.reward_multipliers?.[category] ?? null);
+    if (rates.every(rate => rate === null)) continue;
+
+    rows.push({
+      key: `rewards_${category}`,
+      label: `Rewards: ${REWARD_CATEGORY_LABELS[category]}`,
+      values: rates.map((rate, i) =>
+        rate === null ? null : typedCards[i].reward_unit === '%' ? `${rate}%` : `${rate}x`
+      ),
+      bestIndices: units.size <= 1 ? bestIndices(rates, 'max') : [],
+    });
+  }
+
+  rows.push({
+    key: 'rewards_rate',
+    label: 'Rewards',
+    values: typedCards.map(card => textField(card, ['rewards_rate', 'rewards', 'reward_rate'])),
+  });
+
+  rows.push({
+    key: 'intro_offer',
+    label: 'Intro Offer',
+    values: typedCards.map(card => textField(card, ['intro_offer', 'welcome_bonus', 'sign_up_bonus', 'intro_bonus'])),
+  });
+
+  // Intro APR - longer is better
+  const introMonths = typedCards.map(card => card.intro_apr_months);
+  rows.push({
+    key: 'intro_apr',
+    label: 'Intro APR',
+    values: typedCards.map((card, i) =>
+      introMonths[i] !== null ? `0% for ${introMonths[i]} months` : textField(card, ['intro_apr'])
+    ),
+    bestIndices: bestIndices(introMonths, 'max'),
+  });
+
+  rows.push({
+    key: 'credit_score_needed',
+    label: 'Credit Score',
+    values: typedCards.map(card => textField(card, ['credit_score_needed', 'credit_score', 'min_credit_score', 'credit_score_required'])),
+  });
+
+  rows.push({
+    key: 'perks',
+    label: 'Perks',
+    values: typedCards.map(card => textField(card, ['perks', 'benefits', 'card_perks'])),
+  });
+
+  rows.push({
+    key: 'network',
+    label: 'Network',
+    values: typedCards.map(card => card.network),
+  });
+
+  rows.push({
+    key: 'issuer',
+    label: 'Issuer',
+    values: typedCards.map(card => card.issuer),
+  });
+
+  return rows.filter(row => row.values.some(value => value !== null));
+}
+
+/**
+ * Verdict built from the matrix alone, used when the model is unavailable
+ */
+export function buildFallbackVerdict(cardNames: string[], rows: ComparisonRow[]): string {
+  const sentences: string[] = [];
+
+  for (const row of rows) {
+    if (!row.bestIndices || row.bestIndices.length !== 1) continue;
+    const winner = cardNames[row.bestIndices[0]];
+
+    if (row.key === 'annual_fee') {
+      sentences.push(`${winner} has the lowest annual fee (${row.values[row.bestIndices[0]]}).`);
+    } else if (row.key === 'intro_apr') {
+      sentences.push(`${winner} has the longest intro APR period.`);
+    } else if (row.key.startsWith('rewards_')) {
+      const category = row.label.replace('Rewards: ', '').toLowerCase();
+      sentences.push(`${winner} earns the most on ${category} (${row.values[row.bestIndices[0]]}).`);
+    }
+  }
+
+  if (sentences.length === 0) {
+    return `${cardNames.join(' and ')} are closely matched - compare the perks and rewards below to see which fits your spending.`;
+  }
+  return sentences.join(' ');
+}
+
+/**
+ * Asks the model for a short verdict grounded in the comparison matrix
+ */
+async function generateComparisonVerdict(
+  cardNames: string[],
+  rows: ComparisonRow[],
+  userQuery?: string
+): Promise<string> {
+  const matrix = rows
+    .map(row => `${row.label}: ${row.values.map((value, i) => `${cardNames[i]} = ${value ?? 'N/A'}`).join('; ')}`)
+    .join('\n');
+
+  try {
+    const result = await getLLMProvider().chat(
+      [
+        {
+          role: 'system',
+          content: `You are a credit card expert comparing cards side by side. Using ONLY the comparison data provided, write a 2-4 sentence verdict explaining which card is better for which kind of user (e.g. frequent travelers, people who want no annual fee, big grocery spenders). Mention each card by its exact name. Do not invent fees, rates or perks that are not in the data. Do not use markdown headings or lists.`,
+        },
+        {
+          role: 'user',
+          content: `${userQuery ? `User question: ${userQuery}\n\n` : ''}Comparison data:\n${matrix}`,
+        },
+      ],
+      { model: MODELS.fast, temperature: 0.3, maxTokens: 300, usageStep: 'compare' }
+    );
+
+    const verdict = result.content.trim();
+    if (verdict) return verdict;
+  } catch (error) {
+    log.error('[COMPARE] Error generating verdict, using fallback:', error);
+  }
+
+  return buildFallbackVerdict(cardNames, rows);
+}
+
+/**
+ * Resolves the requested names and compares the matching cards.
+ * Names that don't match a card are listed in `unresolved`, with close
+ * matches in `didYouMean`; the same card requested twice is only compared once.
+ */
+export async function compareCards(cardNames: string[], userQuery?: string): Promise<CardComparison> {
+  const cards: CreditCard[] = [];
+  const unresolved: string[] = [];
+  const didYouMean: Record<string, string[]> = {};
+
+  for (const name of cardNames.slice(0, MAX_COMPARE_CARDS)) {
+    const resolution = await resolveCard(name);
+    const match = resolution.match?.item;
+    if (!match) {
+      unresolved.push(name);
+      if (resolution.didYouMean.length > 0) didYouMean[name] = resolution.didYouMean;
+    } else if (!cards.some(card => card.id === match.card.id)) {
+      cards.push(match.card);
+    }
+  }
+
+  log.info(`[COMPARE] Resolved ${cards.length} of ${cardNames.length} cards: ${cards.map(card => card.credit_card_name).join(', ')}`);
+
+  const rows = buildComparisonRows(cards);
+  const resolvedNames = cards.map(card => card.credit_card_name);
+  const verdict = cards.length >= 2 ? await generateComparisonVerdict(resolvedNames, rows, userQuery) : '';
+
+  return {
+    cards: cards.map(card => ({
+      id: card.id,
+      credit_card_name: card.credit_card_name,
+      apply_url: String(card.url_application || ''),
+    })),
+    rows,
+    verdict,
+    unresolved,
+    ...(Object.keys(didYouMean).length > 0 ? { didYouMean } : {}),
+  };
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { buildTooManyCardsMessage, extractComparisonCardNames, isComparisonQuery } from './comparisonQuery';
+
+describe('extractComparisonCardNames', () => {
+  it('should split "vs" questions', () => {
+    expect(extractComparisonCardNames('Chase Sapphire Preferred vs Amex Gold?')).toEqual([
+      'Chase Sapphire Preferred',
+      'Amex Gold',
+    ]);
+  });
+
+  it('should handle "compare" lists with commas and "and"', () => {
+    expect(extractComparisonCardNames('Compare the Amex Gold, Sapphire Preferred and Venture X')).toEqual([
+      'Amex Gold',
+      'Sapphire Preferred',
+      'Venture X',
+    ]);
+  });
+
+  it('should return every card, past the comparison limit too', () => {
+    expect(extractComparisonCardNames('compare A1, B2, C3, D4, E5, F6')).toEqual(['A1', 'B2', 'C3', 'D4', 'E5', 'F6']);
+  });
+});
+
+describe('buildTooManyCardsMessage', () => {
+  it('should name the cards past the limit', () => {
+    expect(buildTooManyCardsMessage(['A1', 'B2', 'C3', 'D4', 'E5', 'F6']))
+      .toBe('I can compare up to 4 cards at a time. Please leave out E5, F6, or compare them separately.');
+    expect(buildTooManyCardsMessage(['A1', 'B2', 'C3', 'D4', 'E5'])).toContain('leave out E5, or compare it separately');
+  });
+});
+
+describe('isComparisonQuery', () => {
+  it('should detect comparisons of named cards', () => {
+    expect(isComparisonQuery('Compare Chase Freedom Unlimited to Citi Double Cash')).toBe(true);
+    expect(isComparisonQuery('Venture X versus Sapphire Reserve')).toBe(true);
+  });
+
+  it('should ignore questions without two cards', () => {
+    expect(isComparisonQuery('Compare travel cards')).toBe(false);
+    expect(isComparisonQuery('What is the best card for groceries and gas?')).toBe(false);
+  });
+});
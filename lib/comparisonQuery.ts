@@ -0,0 +1,48 @@
+/**
+ * Detection of side-by-side comparison questions ("Amex Gold vs Sapphire
+ * Preferred"). Has no server dependencies so the chat UI can use it too.
+ */
+
+export const MIN_COMPARE_CARDS = 2;
+export const MAX_COMPARE_CARDS = 4;
+
+const COMPARISON_PATTERN = /\b(compare|comparison|vs\.?|versus)(?=\s|$)/i;
+
+// Phrases stripped before splitting the question into card names
+const LEADING_PHRASES = /^(can you |please |could you )?(compare|comparison of|comparing|what'?s the difference between|difference between|which is better[,:]?|which is better between)\s+(the\s+)?/i;
+const TRAILING_PHRASES = /\s+(cards?|credit cards?)?\s*(side by side|for me|please)?[?.!]*$/i;
+const NAME_SEPARATORS = /\s*,\s*(?:and\s+|or\s+)?|\s+(?:vs\.?|versus|or|and|to)\s+/i;
+
+/**
+ * Whether a question asks to compare specific cards
+ */
+export function isComparisonQuery(message: string): boolean {
+  if (!COMPARISON_PATTERN.test(message)) return false;
+  const names = extractComparisonCardNames(message);
+  return names.length >= MIN_COMPARE_CARDS;
+}
+
+/**
+ * Splits a comparison question into every card name it mentions (callers check the MAX_COMPARE_CARDS limit)
+ * "Compare the Amex Gold, Sapphire Preferred and Venture X" → ["Amex Gold", "Sapphire Preferred", "Venture X"]
+ */
+export function extractComparisonCardNames(message: string): string[] {
+  const stripped = message
+    .trim()
+    .replace(LEADING_PHRASES, '')
+    .replace(TRAILING_PHRASES, '')
+    .trim();
+
+  return stripped
+    .split(NAME_SEPARATORS)
+    .map(name => name.replace(/^(the|my)\s+/i, '').replace(/[?.!]+$/, '').trim())
+    .filter(name => name.length > 1);
+}
+
+/**
+ * Reply for a comparison of more than MAX_COMPARE_CARDS cards, naming the ones past the limit
+ */
+export function buildTooManyCardsMessage(cardNames: string[]): string {
+  const extra = cardNames.slice(MAX_COMPARE_CARDS);
+  return `I can compare up to ${MAX_COMPARE_CARDS} cards at a time. Please leave out ${extra.join(', ')}, or compare ${extra.length === 1 ? 'it' : 'them'} separately.`;
+}
@@ -1,10 +1,13 @@
-import Papa from 'papaparse';
-import { CreditCard } from '@/types';
+import { CatalogValidationReport, CardValidationIssue, CreditCard } from '@/types';
+import { CardRow, getCardSource } from './cardSources';
+import { validateCardRow } from './cardSchema';
+import { createLogger } from './logger';
+
+const log = createLogger('data');
 
 /**
  * Configuration for data fetching
  */
-const GOOGLE_SHEET_ID = process.env.GOOGLE_SHEET_ID || '19ioGC8Oj8ej7QP_MG87FyMuAC3AdgGwRrEuKk5wZHZI';
 const CARD_NAME_COLUMN = process.env.CARD_NAME_COLUMN || 'credit_card_name';
 const CARD_URL_COLUMN = process.env.CARD_URL_COLUMN || 'url_application';
 
@@ -16,97 +19,64 @@ let cacheTimestamp: number | null = null;
 const CACHE_TTL = 1000 * 60 * 60; // 1 hour
 
 /**
- * Fetches CSV data from Google Sheets and parses it
+ * Validation report for the most recent catalog load
  */
-async function fetchCSVFromGoogleSheets(): Promise<string> {
-  const url = `https://docs.google.com/spreadsheets/d/${GOOGLE_SHEET_ID}/export?format=csv`;
-  const response = await fetch(url);
-  
-  if (!response.ok) {
-    throw new Error(`Failed to fetch Google Sheet: ${response.statusText}`);
-  }
-  
-  return response.text();
-}
+let lastValidationReport: CatalogValidationReport | null = null;
 
 /**
- * Parses CSV data into CreditCard objects
+ * Converts catalog rows into typed CreditCard objects (see lib/cardSchema.ts)
+ * Rows with missing required columns are skipped and recorded in the validation report
  */
-function parseCSVToCards(csvText: string): CreditCard[] {
-  const parsed = Papa.parse(csvText, {
-    header: true,
-    skipEmptyLines: true,
-  });
-
-  if (!parsed.data || parsed.data.length === 0) {
-    throw new Error('No data found in CSV');
+function parseRowsToCards(rows: CardRow[], sourceDescription: string): CreditCard[] {
+  if (!rows || rows.length === 0) {
+    throw new Error('No data found in card source');
   }
 
   // Log available columns from first row (for debugging)
-  if (parsed.data.length > 0) {
-    const firstRow = parsed.data[0] as any;
-    const columns = Object.keys(firstRow);
-    console.log(`📊 Available columns in Google Sheet (${columns.length} total):`, columns.join(', '));
-    
-    // Check for top_card column variations
-    const topCardVariations = ['top_card', 'topCard', 'Top Card', 'Top_Card', 'top card', 'TOP_CARD'];
-    const foundTopCardColumn = topCardVariations.find(col => columns.includes(col));
-    if (foundTopCardColumn) {
-      console.log(`✅ Found top_card column: "${foundTopCardColumn}"`);
-      // Count how many cards have top_card = 1
-      const topCardCount = (parsed.data as any[]).filter(row => {
-        const value = row[foundTopCardColumn];
-        const normalized = String(value || '').trim().toLowerCase();
-        return normalized === '1' || normalized === '1.0' || normalized === 'true' || value === 1 || value === true;
-      }).length;
-      console.log(`✅ Found ${topCardCount} cards with top_card = 1`);
-    } else {
-      console.warn(`⚠️  No top_card column found. Available columns: ${columns.join(', ')}`);
-    }
-  }
+  const columns = Object.keys(rows[0]);
+  log.debug(`Available columns in card source (${columns.length} total):`, columns.join(', '));
 
   const cards: CreditCard[] = [];
-  
-  for (const row of parsed.data as any[]) {
-    // Check for card name (required)
-    const cardName = row[CARD_NAME_COLUMN];
-    if (!cardName) {
-      console.warn(`Skipping row missing card name:`, Object.keys(row));
-      continue;
-    }
+  const issues: CardValidationIssue[] = [];
 
-    // Check for URL - try configured column first, then fallback to 'url'
-    let cardUrl = row[CARD_URL_COLUMN];
-    if (!cardUrl) {
-      cardUrl = row['url'] || row['URL'] || row['application_url'] || row['apply_url'];
-    }
-    
-    if (!cardUrl) {
-      console.warn(`Skipping row missing URL column (tried: ${CARD_URL_COLUMN}, url, URL, application_url, apply_url):`, cardName);
-      continue;
+  rows.forEach((row, index) => {
+    const result = validateCardRow(row, index + 1, { name: CARD_NAME_COLUMN, url: CARD_URL_COLUMN });
+    issues.push(...result.issues);
+    if (result.card) {
+      cards.push(result.card);
     }
+  });
 
-    // Generate a simple ID from the card name
-    const id = String(cardName)
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, '-')
-      .replace(/^-|-$/g, '');
-
-    const card: CreditCard = {
-      id,
-      credit_card_name: String(cardName),
-      url_application: String(cardUrl),
-      ...row, // Include all other columns
-    };
-
-    cards.push(card);
+  lastValidationReport = {
+    source: sourceDescription,
+    generatedAt: new Date().toISOString(),
+    totalRows: rows.length,
+    validCards: cards.length,
+    skippedRows: rows.length - cards.length,
+    issues,
+  };
+
+  const topCardCount = cards.filter(card => card.top_card).length;
+  log.info(`Found ${topCardCount} cards with top_card = 1`);
+
+  const warningCount = issues.filter(issue => issue.severity === 'warning').length;
+  if (lastValidationReport.skippedRows > 0 || warningCount > 0) {
+    log.warn(`Catalog validation: ${lastValidationReport.skippedRows} rows skipped, ${warningCount} malformed values (see getCatalogValidationReport())`);
   }
 
   return cards;
 }
 
 /**
- * Fetches and parses credit card data from Google Sheets
+ * Returns the validation report for the most recent catalog load, or null if nothing was loaded yet
+ */
+export function getCatalogValidationReport(): CatalogValidationReport | null {
+  return lastValidationReport;
+}
+
+/**
+ * Loads and parses credit card data from the configured card source
+ * (Google Sheet by default, see lib/cardSources.ts)
  * Uses in-memory cache to avoid re-fetching on every request
  */
 export async function getCreditCards(forceRefresh = false): Promise<CreditCard[]> {
@@ -121,8 +91,10 @@ export async function getCreditCards(forceRefresh = false): Promise<CreditCard[]
   }
 
   try {
-    const csvText = await fetchCSVFromGoogleSheets();
-    const cards = parseCSVToCards(csvText);
+    const source = getCardSource();
+    const rows = await source.load();
+    const cards = parseRowsToCards(rows, source.description);
+    log.info(`Loaded ${cards.length} cards from ${source.description}`);
     
     // Update cache
     cachedCards = cards;
@@ -132,7 +104,7 @@ export async function getCreditCards(forceRefresh = false): Promise<CreditCard[]
   } catch (error) {
     // If we have cached data, return it even if expired
     if (cachedCards) {
-      console.warn('Failed to refresh data, using stale cache:', error);
+      log.warn('Failed to refresh data, using stale cache:', error);
       return cachedCards;
     }
     
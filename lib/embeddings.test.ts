@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { hashCardContent, planEmbeddingsRefresh } from './embeddings';
+import { toTypedCard } from './cardSchema';
+import { CreditCard, EmbeddingsStore } from '@/types';
+
+function makeCard(id: string, annualFee: string): CreditCard {
+  const row: Record<string, unknown> = {
+    id,
+    credit_card_name: `Card ${id}`,
+    url_application: `https://example.com/${id}`,
+    annual_fee: annualFee,
+  };
+  return toTypedCard(row) as CreditCard;
+}
+
+function makeStore(cards: CreditCard[], model?: string): EmbeddingsStore {
+  return {
+    cards,
+    embeddings: cards.map(card => ({
+      cardId: card.id,
+      embedding: [1, 0],
+      card,
+      contentHash: hashCardContent(card),
+    })),
+    generatedAt: '2024-01-01T00:00:00.000Z',
+    model,
+  };
+}
+
+describe('planEmbeddingsRefresh', () => {
+  it('should embed every card when there is no store', () => {
+    const plan = planEmbeddingsRefresh(null, [makeCard('a', '$0'), makeCard('b', '$95')], 'model-1');
+
+    expect(plan.toEmbed.map(card => card.id)).toEqual(['a', 'b']);
+    expect(plan.report.added).toEqual(['Card a', 'Card b']);
+    expect(plan.report.previousModel).toBeNull();
+  });
+
+  it('should only embed added and changed cards and report removed ones', () => {
+    const store = makeStore([makeCard('a', '$0'), makeCard('b', '$95'), makeCard('c', '$0')], 'model-1');
+    const cards = [makeCard('a', '$0'), makeCard('b', '$250'), makeCard('d', '$0')];
+
+    const plan = planEmbeddingsRefresh(store, cards, 'model-1');
+
+    expect(plan.toEmbed.map(card => card.id)).toEqual(['b', 'd']);
+    expect(plan.reused.map(item => item.cardId)).toEqual(['a']);
+    expect(plan.report.added).toEqual(['Card d']);
+    expect(plan.report.updated).toEqual(['Card b']);
+    expect(plan.report.removed).toEqual(['Card c']);
+    expect(plan.report.unchanged).toBe(1);
+  });
+
+  it('should hash stored cards that predate content hashes', () => {
+    const store = makeStore([makeCard('a', '$0')]);
+    delete store.embeddings[0].contentHash;
+
+    const plan = planEmbeddingsRefresh(store, [makeCard('a', '$0')], 'text-embedding-3-small');
+
+    expect(plan.toEmbed).toHaveLength(0);
+    expect(plan.report.modelChanged).toBe(false);
+  });
+
+  it('should re-embed everything when the model changes', () => {
+    const store = makeStore([makeCard('a', '$0')], 'model-1');
+
+    const plan = planEmbeddingsRefresh(store, [makeCard('a', '$0')], 'model-2');
+
+    expect(plan.report.modelChanged).toBe(true);
+    expect(plan.report.previousModel).toBe('model-1');
+    expect(plan.toEmbed.map(card => card.id)).toEqual(['a']);
+    expect(plan.report.unchanged).toBe(0);
+  });
+});
@@ -1,71 +1,210 @@
-import OpenAI from 'openai';
-import { CreditCard, CardEmbedding, EmbeddingsStore } from '@/types';
+import { CreditCard, CardEmbedding, EmbeddingsStore, EmbeddingsRefreshReport } from '@/types';
 import { getCreditCards, cardToText } from './data';
+import { getLLMProvider, MODELS } from './llm';
+import { toTypedCard } from './cardSchema';
+import { BM25Index, buildBM25Index, cardToDocument, reciprocalRankFusion, searchBM25 } from './lexicalSearch';
+import { createHash } from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
+import { createLogger } from './logger';
+import { withSpan, withSpanSync } from './tracing';
+
+const log = createLogger('embeddings');
+
+const EMBEDDINGS_MODEL = MODELS.embedding;
+const EMBEDDINGS_FILE = path.resolve(process.cwd(), process.env.EMBEDDINGS_PATH || path.join('data', 'embeddings.json'));
+// Model used before the store recorded its model name
+const LEGACY_EMBEDDINGS_MODEL = 'text-embedding-3-small';
+// How often a loaded store is checked against the catalog (set EMBEDDINGS_AUTO_REFRESH=false to disable)
+const EMBEDDINGS_AUTO_REFRESH = process.env.EMBEDDINGS_AUTO_REFRESH !== 'false';
+const CATALOG_CHECK_INTERVAL = 1000 * 60 * 60; // 1 hour
+// Share of the fused ranking given to keyword (BM25) matches: 0 = vector only, 1 = keyword only
+const HYBRID_LEXICAL_WEIGHT = parseFloat(process.env.HYBRID_LEXICAL_WEIGHT || '0.4');
+// Reciprocal rank fusion constant (higher = flatter rank contributions)
+const RRF_K = parseInt(process.env.RRF_K || '60', 10);
+
+/**
+ * In-memory cache for embeddings
+ */
+let cachedEmbeddings: EmbeddingsStore | null = null;
+let lastCatalogCheck: number | null = null;
 
 /**
- * Lazy-loaded OpenAI client to ensure environment variables are loaded first
+ * Keyword index for the cached store, rebuilt when the store changes
  */
-function getOpenAIClient() {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY is not set. Please check your .env.local file.');
+let lexicalIndex: { store: EmbeddingsStore; index: BM25Index } | null = null;
+
+function getLexicalIndex(store: EmbeddingsStore): BM25Index {
+  if (!lexicalIndex || lexicalIndex.store !== store) {
+    lexicalIndex = {
+      store,
+      index: buildBM25Index(store.embeddings.map(item => cardToDocument(item.card))),
+    };
   }
-  return new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-  });
+  return lexicalIndex.index;
 }
 
-const EMBEDDINGS_MODEL = 'text-embedding-3-small';
-const EMBEDDINGS_FILE = path.join(process.cwd(), 'data', 'embeddings.json');
+/**
+ * Content hash of the text that gets embedded for a card
+ */
+export function hashCardContent(card: CreditCard): string {
+  return createHash('sha256').update(cardToText(card)).digest('hex').substring(0, 16);
+}
 
 /**
- * In-memory cache for embeddings
+ * Plan for bringing a store up to date with the catalog
  */
-let cachedEmbeddings: EmbeddingsStore | null = null;
+export interface EmbeddingsPlan {
+  toEmbed: CreditCard[]; // Added or changed cards
+  reused: CardEmbedding[]; // Unchanged cards, with card data refreshed from the catalog
+  report: Omit<EmbeddingsRefreshReport, 'embedded'>;
+}
 
 /**
- * Generates embeddings for all credit cards
+ * Compares an existing store against the current catalog.
+ * Cards are matched by id and compared by content hash; a model change re-embeds everything.
  */
-export async function generateEmbeddings(): Promise<EmbeddingsStore> {
+export function planEmbeddingsRefresh(
+  existing: EmbeddingsStore | null,
+  cards: CreditCard[],
+  model: string = EMBEDDINGS_MODEL
+): EmbeddingsPlan {
+  const previousModel = existing ? existing.model || LEGACY_EMBEDDINGS_MODEL : null;
+  const modelChanged = previousModel !== null && previousModel !== model;
+
+  const existingById = new Map<string, CardEmbedding>();
+  if (existing && !modelChanged) {
+    for (const item of existing.embeddings) {
+      existingById.set(item.cardId, item);
+    }
+  }
+
+  const toEmbed: CreditCard[] = [];
+  const reused: CardEmbedding[] = [];
+  const added: string[] = [];
+  const updated: string[] = [];
+
+  for (const card of cards) {
+    const contentHash = hashCardContent(card);
+    const previous = existingById.get(card.id);
+
+    if (!previous) {
+      toEmbed.push(card);
+      if (!modelChanged) added.push(card.credit_card_name);
+      continue;
+    }
+
+    const previousHash = previous.contentHash || hashCardContent(previous.card);
+    if (previousHash === contentHash) {
+      reused.push({ ...previous, card, contentHash });
+    } else {
+      toEmbed.push(card);
+      updated.push(card.credit_card_name);
+    }
+  }
+
+  const currentIds = new Set(cards.map(card => card.id));
+  const removed = (existing?.embeddings || [])
+    .filter(item => !currentIds.has(item.cardId))
+    .map(item => item.card.credit_card_name);
+
+  return {
+    toEmbed,
+    reused,
+    report: {
+      model,
+      previousModel,
+      modelChanged,
+      added,
+      updated,
+      removed,
+      unchanged: reused.length,
+    },
+  };
+}
+
+/**
+ * Reads the store from disk, or null if missing/unreadable
+ */
+function readEmbeddingsFile(): EmbeddingsStore | null {
+  if (!fs.existsSync(EMBEDDINGS_FILE)) {
+    return null;
+  }
+
+  try {
+    const fileContent = fs.readFileSync(EMBEDDINGS_FILE, 'utf-8');
+    const store = JSON.parse(fileContent) as EmbeddingsStore;
+
+    // Validate structure
+    if (store.cards && store.embeddings && store.embeddings.length > 0) {
+      // Files written before the card schema existed lack the typed fields
+      store.cards = store.cards.map(card => toTypedCard(card));
+      store.embeddings = store.embeddings.map(item => ({ ...item, card: toTypedCard(item.card) }));
+      return store;
+    }
+  } catch (error) {
+    log.warn('Failed to load embeddings from disk:', error);
+  }
+
+  return null;
+}
+
+/**
+ * Embeds only added or changed cards and drops removed ones.
+ * Pass full: true to ignore the existing store and re-embed everything.
+ */
+export async function refreshEmbeddings(
+  options: { full?: boolean } = {}
+): Promise<{ store: EmbeddingsStore; report: EmbeddingsRefreshReport }> {
   const cards = await getCreditCards(true); // Force refresh
-  
-  console.log(`Generating embeddings for ${cards.length} cards...`);
-  
-  const embeddings: CardEmbedding[] = [];
-  
+  const existing = options.full ? null : cachedEmbeddings || readEmbeddingsFile();
+  const plan = planEmbeddingsRefresh(existing, cards);
+
+  if (plan.report.modelChanged) {
+    log.warn(`[EMBEDDINGS] Model changed from ${plan.report.previousModel} to ${EMBEDDINGS_MODEL} - re-embedding all cards`);
+  }
+  log.info(`Embedding ${plan.toEmbed.length} of ${cards.length} cards (${plan.reused.length} unchanged)...`);
+
+  const embeddedById = new Map<string, CardEmbedding>();
+  for (const item of plan.reused) {
+    embeddedById.set(item.cardId, item);
+  }
+
   // Process in batches to avoid rate limits
   const batchSize = 100;
-  for (let i = 0; i < cards.length; i += batchSize) {
-    const batch = cards.slice(i, i + batchSize);
+  for (let i = 0; i < plan.toEmbed.length; i += batchSize) {
+    const batch = plan.toEmbed.slice(i, i + batchSize);
     const texts = batch.map(card => cardToText(card));
     
     try {
-      const openai = getOpenAIClient();
-      const response = await openai.embeddings.create({
-        model: EMBEDDINGS_MODEL,
-        input: texts,
-      });
+      const response = await getLLMProvider().embed(texts, { model: EMBEDDINGS_MODEL, usageStep: 'indexing' });
       
       for (let j = 0; j < batch.length; j++) {
-        embeddings.push({
+        embeddedById.set(batch[j].id, {
           cardId: batch[j].id,
-          embedding: response.data[j].embedding,
+          embedding: response.embeddings[j],
           card: batch[j],
+          contentHash: hashCardContent(batch[j]),
         });
       }
       
-      console.log(`Processed ${Math.min(i + batchSize, cards.length)}/${cards.length} cards`);
+      log.debug(`Processed ${Math.min(i + batchSize, plan.toEmbed.length)}/${plan.toEmbed.length} cards`);
     } catch (error) {
-      console.error(`Error generating embeddings for batch ${i}:`, error);
+      log.error(`Error generating embeddings for batch ${i}:`, error);
       throw error;
     }
   }
   
+  // Keep catalog order; cards with duplicate ids keep a single embedding
+  const embeddings = cards
+    .map(card => embeddedById.get(card.id))
+    .filter((item, index, all): item is CardEmbedding => !!item && all.indexOf(item) === index);
+
   const store: EmbeddingsStore = {
     cards,
     embeddings,
     generatedAt: new Date().toISOString(),
+    model: EMBEDDINGS_MODEL,
   };
   
   // Save to disk for local dev
@@ -74,53 +213,94 @@ export async function generateEmbeddings(): Promise<EmbeddingsStore> {
     if (!fs.existsSync(dataDir)) {
       fs.mkdirSync(dataDir, { recursive: true });
     }
-    fs.writeFileSync(EMBEDDINGS_FILE, JSON.stringify(store, null, 2));
-    console.log(`Saved embeddings to ${EMBEDDINGS_FILE}`);
+    fs.writeFileSync(EMBEDDINGS_FILE, JSON.stringify(store));
+    log.info(`Saved embeddings to ${EMBEDDINGS_FILE}`);
   } catch (error) {
-    console.warn('Could not save embeddings to disk:', error);
+    log.warn('Could not save embeddings to disk:', error);
   }
   
   // Update cache
   cachedEmbeddings = store;
+  lastCatalogCheck = Date.now();
   
+  return { store, report: { ...plan.report, embedded: plan.toEmbed.length } };
+}
+
+/**
+ * Generates embeddings for all credit cards, re-using unchanged ones
+ */
+export async function generateEmbeddings(): Promise<EmbeddingsStore> {
+  const { store } = await refreshEmbeddings();
+  return store;
+}
+
+/**
+ * Checks a loaded store against the model and catalog, refreshing it if stale.
+ * Falls back to the loaded store if the catalog can't be checked.
+ */
+async function ensureEmbeddingsCurrent(store: EmbeddingsStore): Promise<EmbeddingsStore> {
+  const storeModel = store.model || LEGACY_EMBEDDINGS_MODEL;
+  if (storeModel !== EMBEDDINGS_MODEL) {
+    // Query vectors from a different model can't be compared with the stored ones
+    log.warn(`[EMBEDDINGS] Stored embeddings use ${storeModel} but EMBEDDINGS_MODEL is ${EMBEDDINGS_MODEL} - regenerating`);
+    return (await refreshEmbeddings()).store;
+  }
+
+  if (!EMBEDDINGS_AUTO_REFRESH) {
+    return store;
+  }
+
+  try {
+    const cards = await getCreditCards();
+    lastCatalogCheck = Date.now();
+    const { toEmbed, report } = planEmbeddingsRefresh(store, cards);
+
+    if (toEmbed.length > 0 || report.removed.length > 0) {
+      log.info(`[EMBEDDINGS] Catalog changed since ${store.generatedAt} (${report.added.length} added, ${report.updated.length} updated, ${report.removed.length} removed) - refreshing`);
+      return (await refreshEmbeddings()).store;
+    }
+  } catch (error) {
+    log.warn('[EMBEDDINGS] Could not check catalog for changes, using stored embeddings:', error);
+  }
+
   return store;
 }
 
 /**
  * Loads embeddings from disk or generates new ones
+ * Stale stores (different model, or catalog changed) are refreshed incrementally
  */
 export async function loadEmbeddings(forceRegenerate = false): Promise<EmbeddingsStore> {
-  // Return cached embeddings if available
-  if (cachedEmbeddings && !forceRegenerate) {
+  if (forceRegenerate) {
+    return (await refreshEmbeddings({ full: true })).store;
+  }
+
+  // Return cached embeddings if available (re-checked against the catalog periodically)
+  if (cachedEmbeddings) {
+    if (lastCatalogCheck && Date.now() - lastCatalogCheck < CATALOG_CHECK_INTERVAL) {
+      return cachedEmbeddings;
+    }
+    cachedEmbeddings = await ensureEmbeddingsCurrent(cachedEmbeddings);
     return cachedEmbeddings;
   }
   
   // Try to load from disk first
-  if (!forceRegenerate && fs.existsSync(EMBEDDINGS_FILE)) {
-    try {
-      const fileContent = fs.readFileSync(EMBEDDINGS_FILE, 'utf-8');
-      const store = JSON.parse(fileContent) as EmbeddingsStore;
-      
-      // Validate structure
-      if (store.cards && store.embeddings && store.embeddings.length > 0) {
-        cachedEmbeddings = store;
-        console.log(`Loaded ${store.embeddings.length} embeddings from disk`);
-        return store;
-      }
-    } catch (error) {
-      console.warn('Failed to load embeddings from disk:', error);
-    }
+  const store = readEmbeddingsFile();
+  if (store) {
+    log.info(`Loaded ${store.embeddings.length} embeddings from disk`);
+    cachedEmbeddings = await ensureEmbeddingsCurrent(store);
+    return cachedEmbeddings;
   }
   
   // Generate new embeddings
-  console.log('Generating new embeddings...');
+  log.info('Generating new embeddings...');
   return generateEmbeddings();
 }
 
 /**
  * Computes cosine similarity between two vectors
  */
-function cosineSimilarity(a: number[], b: number[]): number {
+export function cosineSimilarity(a: number[], b: number[]): number {
   if (a.length !== b.length) {
     throw new Error('Vectors must have the same length');
   }
@@ -141,22 +321,42 @@ function cosineSimilarity(a: number[], b: number[]): number {
 /**
  * Finds the top N most similar cards to a query embedding
  * If filteredCardIds is provided, only searches within those cards
+ * If queryText is provided, vector results are fused with keyword (BM25) results
  */
 export async function findSimilarCards(
   queryEmbedding: number[],
   topN: number = 20,
-  filteredCardIds?: string[]
+  filteredCardIds?: string[],
+  queryText?: string
+): Promise<CardEmbedding[]> {
+  return withSpan('retrieval.vector_search', {
+    'retrieval.top_n': topN,
+    'retrieval.filtered_cards': filteredCardIds?.length,
+    'retrieval.hybrid': !!queryText && HYBRID_LEXICAL_WEIGHT > 0,
+  }, async span => {
+    const cards = await searchSimilarCards(queryEmbedding, topN, filteredCardIds, queryText);
+    span.setAttribute('retrieval.results', cards.length);
+    return cards;
+  });
+}
+
+async function searchSimilarCards(
+  queryEmbedding: number[],
+  topN: number,
+  filteredCardIds?: string[],
+  queryText?: string
 ): Promise<CardEmbedding[]> {
   const store = await loadEmbeddings();
 
   // Filter embeddings if filteredCardIds is provided
   let embeddingsToSearch = store.embeddings;
+  let cardIdSet: Set<string> | undefined;
   if (filteredCardIds && filteredCardIds.length > 0) {
-    const cardIdSet = new Set(filteredCardIds);
-    embeddingsToSearch = store.embeddings.filter(e => cardIdSet.has(e.cardId));
-    console.log(`[VECTOR SEARCH] Searching within ${embeddingsToSearch.length} filtered cards (out of ${store.embeddings.length} total)`);
+    cardIdSet = new Set(filteredCardIds);
+    embeddingsToSearch = store.embeddings.filter(e => cardIdSet!.has(e.cardId));
+    log.debug(`[VECTOR SEARCH] Searching within ${embeddingsToSearch.length} filtered cards (out of ${store.embeddings.length} total)`);
   } else {
-    console.log(`[VECTOR SEARCH] Searching all ${embeddingsToSearch.length} cards`);
+    log.debug(`[VECTOR SEARCH] Searching all ${embeddingsToSearch.length} cards`);
   }
 
   // Compute similarity scores
@@ -165,22 +365,63 @@ export async function findSimilarCards(
     similarity: cosineSimilarity(queryEmbedding, cardEmbedding.embedding),
   }));
 
-  // Sort by similarity (descending) and take top N
+  // Sort by similarity (descending)
   similarities.sort((a, b) => b.similarity - a.similarity);
 
-  return similarities.slice(0, topN).map(item => item.cardEmbedding);
+  if (!queryText || HYBRID_LEXICAL_WEIGHT <= 0) {
+    return similarities.slice(0, topN).map(item => item.cardEmbedding);
+  }
+
+  // Hybrid: fuse the vector ranking with a keyword ranking over all card fields
+  const lexicalResults = searchBM25(getLexicalIndex(store), queryText, cardIdSet);
+  const fused = reciprocalRankFusion(
+    similarities.map(item => item.cardEmbedding.cardId),
+    lexicalResults.map(result => result.id),
+    HYBRID_LEXICAL_WEIGHT,
+    RRF_K
+  );
+
+  const byId = new Map(embeddingsToSearch.map(item => [item.cardId, item]));
+  log.debug(`[HYBRID SEARCH] ${lexicalResults.length} keyword matches, lexical weight ${HYBRID_LEXICAL_WEIGHT}`);
+  if (lexicalResults.length > 0) {
+    const topKeyword = lexicalResults.slice(0, 3).map(result => byId.get(result.id)?.card.credit_card_name);
+    log.debug(`[HYBRID SEARCH] Top keyword matches: ${topKeyword.join(', ')}`);
+  }
+
+  return fused
+    .slice(0, topN)
+    .map(result => byId.get(result.id))
+    .filter((item): item is CardEmbedding => !!item);
+}
+
+/**
+ * Keyword-only (BM25) search, used when the query can't be embedded
+ */
+export async function findCardsByKeyword(
+  queryText: string,
+  topN: number = 20,
+  filteredCardIds?: string[]
+): Promise<CardEmbedding[]> {
+  const store = await loadEmbeddings();
+  const cardIdSet = filteredCardIds && filteredCardIds.length > 0 ? new Set(filteredCardIds) : undefined;
+  const byId = new Map(store.embeddings.map(item => [item.cardId, item]));
+
+  return withSpanSync('retrieval.keyword_search', { 'retrieval.top_n': topN, 'retrieval.filtered_cards': cardIdSet?.size }, span => {
+    const cards = searchBM25(getLexicalIndex(store), queryText, cardIdSet)
+      .slice(0, topN)
+      .map(result => byId.get(result.id))
+      .filter((item): item is CardEmbedding => !!item);
+    span.setAttribute('retrieval.results', cards.length);
+    return cards;
+  });
 }
 
 /**
  * Generates an embedding for a user query
  */
 export async function embedQuery(query: string): Promise<number[]> {
-  const openai = getOpenAIClient();
-  const response = await openai.embeddings.create({
-    model: EMBEDDINGS_MODEL,
-    input: query,
-  });
+  const response = await getLLMProvider().embed([query], { model: EMBEDDINGS_MODEL, usageStep: 'retrieval' });
   
-  return response.data[0].embedding;
+  return response.embeddings[0];
 }
 
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { CatalogUnavailableError, isLLMUnavailableError, LLMBudgetExceededError, LLMConfigurationError, LLMRateLimitError, LLMTimeoutError, RateLimitExceededError, toErrorResponse } from './errors';
+
+describe('toErrorResponse', () => {
+  it('should use the typed error status, code and user message', () => {
+    expect(toErrorResponse(new LLMTimeoutError('chat timed out after 30000ms'))).toEqual({
+      status: 504,
+      headers: {},
+      body: { error: 'The request timed out. Please try again in a few moments.', code: 'llm_timeout', message: 'chat timed out after 30000ms' },
+    });
+    expect(toErrorResponse(new CatalogUnavailableError('Failed to fetch Google Sheet: Not Found')).status).toBe(502);
+  });
+
+  it('should send Retry-After for rate limits', () => {
+    const response = toErrorResponse(new LLMRateLimitError('rate limited', 7));
+    expect(response.status).toBe(429);
+    expect(response.headers).toEqual({ 'Retry-After': '7' });
+
+    const limited = toErrorResponse(new RateLimitExceededError('ip bucket empty', 12));
+    expect(limited.status).toBe(429);
+    expect(limited.headers).toEqual({ 'Retry-After': '12' });
+    expect(limited.body.code).toBe('rate_limited');
+  });
+
+  it('should treat untyped errors as 500s with the fallback message', () => {
+    expect(toErrorResponse(new Error('boom'), 'Failed to compare cards')).toEqual({
+      status: 500,
+      headers: {},
+      body: { error: 'Failed to compare cards', code: 'internal_error', message: 'boom' },
+    });
+  });
+});
+
+describe('isLLMUnavailableError', () => {
+  it('should only match errors that call for degraded mode', () => {
+    expect(isLLMUnavailableError(new LLMTimeoutError('slow'))).toBe(true);
+    expect(isLLMUnavailableError(new LLMBudgetExceededError('over budget'))).toBe(true);
+    expect(isLLMUnavailableError(new LLMConfigurationError('no key'))).toBe(false);
+    expect(isLLMUnavailableError(new Error('other'))).toBe(false);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Typed errors for the API routes.
+ *
+ * Each error carries the HTTP status and a stable code for the response, so
+ * routes map failures with toErrorResponse instead of matching on messages.
+ */
+
+export class AppError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly userMessage: string; // Safe to show in the chat UI
+
+  constructor(message: string, options: { status: number; code: string; userMessage?: string; cause?: unknown }) {
+    super(message);
+    this.name = new.target.name;
+    this.status = options.status;
+    this.code = options.code;
+    this.userMessage = options.userMessage || message;
+    if (options.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+}
+
+export class ValidationError extends AppError {
+  constructor(message: string) {
+    super(message, { status: 400, code: 'invalid_request' });
+  }
+}
+
+/**
+ * OPENAI_API_KEY is missing or was rejected
+ */
+export class LLMConfigurationError extends AppError {
+  constructor(message: string, cause?: unknown) {
+    super(message, {
+      status: 500,
+      code: 'llm_not_configured',
+      userMessage: 'OpenAI API key error. Please configure OPENAI_API_KEY in Vercel environment variables.',
+      cause,
+    });
+  }
+}
+
+export class LLMTimeoutError extends AppError {
+  constructor(message: string, cause?: unknown) {
+    super(message, {
+      status: 504,
+      code: 'llm_timeout',
+      userMessage: 'The request timed out. Please try again in a few moments.',
+      cause,
+    });
+  }
+}
+
+export class LLMRateLimitError extends AppError {
+  readonly retryAfterSeconds?: number;
+
+  constructor(message: string, retryAfterSeconds?: number, cause?: unknown) {
+    super(message, {
+      status: 429,
+      code: 'llm_rate_limited',
+      userMessage: 'Too many requests right now. Please wait a moment and try again.',
+      cause,
+    });
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/**
+ * A client used up its request allowance for a route (see lib/rateLimit.ts)
+ */
+export class RateLimitExceededError extends AppError {
+  readonly retryAfterSeconds: number;
+
+  constructor(message: string, retryAfterSeconds: number) {
+    super(message, {
+      status: 429,
+      code: 'rate_limited',
+      userMessage: `You're sending requests too quickly. Please wait ${retryAfterSeconds} second${retryAfterSeconds === 1 ? '' : 's'} and try again.`,
+    });
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/**
+ * The LLM returned a server error, could not be reached, or its circuit breaker is open
+ */
+export class LLMUnavailableError extends AppError {
+  constructor(message: string, cause?: unknown) {
+    super(message, {
+      status: 503,
+      code: 'llm_unavailable',
+      userMessage: 'The AI service is temporarily unavailable. Please try again shortly.',
+      cause,
+    });
+  }
+}
+
+/**
+ * The LLM rejected the request (a 4xx other than auth or rate limiting)
+ */
+export class LLMRequestError extends AppError {
+  constructor(message: string, cause?: unknown) {
+    super(message, {
+      status: 502,
+      code: 'llm_error',
+      userMessage: 'The AI service could not process this request. Please try rephrasing your question.',
+      cause,
+    });
+  }
+}
+
+/**
+ * Today's LLM spend passed LLM_DAILY_HARD_LIMIT_USD (see lib/usage.ts)
+ */
+export class LLMBudgetExceededError extends AppError {
+  constructor(message: string) {
+    super(message, {
+      status: 503,
+      code: 'llm_budget_exceeded',
+      userMessage: 'The AI service has reached its usage limit for today. Please try again tomorrow.',
+    });
+  }
+}
+
+export class CatalogUnavailableError extends AppError {
+  constructor(message: string, cause?: unknown) {
+    super(message, {
+      status: 502,
+      code: 'catalog_unavailable',
+      userMessage: 'Failed to fetch data from Google Sheets. Please check the sheet ID and ensure it is public.',
+      cause,
+    });
+  }
+}
+
+/**
+ * Errors that mean the LLM can't answer right now; the pipeline falls back to degraded mode
+ */
+export function isLLMUnavailableError(error: unknown): boolean {
+  return (
+    error instanceof LLMUnavailableError ||
+    error instanceof LLMTimeoutError ||
+    error instanceof LLMRateLimitError ||
+    error instanceof LLMBudgetExceededError
+  );
+}
+
+export interface ErrorResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: { error: string; code: string; message: string };
+}
+
+/**
+ * HTTP status, headers and JSON body for an error. Untyped errors are 500s.
+ */
+export function toErrorResponse(error: unknown, fallbackMessage: string = 'Something went wrong'): ErrorResponse {
+  if (error instanceof AppError) {
+    const retryAfterSeconds =
+      error instanceof LLMRateLimitError || error instanceof RateLimitExceededError ? error.retryAfterSeconds : undefined;
+    const headers: Record<string, string> =
+      retryAfterSeconds !== undefined ? { 'Retry-After': String(retryAfterSeconds) } : {};
+    return {
+      status: error.status,
+      headers,
+      body: { error: error.userMessage, code: error.code, message: error.message },
+    };
+  }
+
+  return {
+    status: 500,
+    headers: {},
+    body: {
+      error: fallbackMessage,
+      code: 'internal_error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    },
+  };
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { buildEvalReport, diffEvalReports, evaluateCase, EvalCase, parseGoldenSet } from './evals';
+import { toTypedCard } from './cardSchema';
+import { CreditCard, RecommendationsResponse } from '@/types';
+
+function makeCard(fields: Record<string, unknown>): CreditCard {
+  const row: Record<string, unknown> = { id: String(fields.credit_card_name), url_application: 'https://example.com', ...fields };
+  return toTypedCard(row) as CreditCard;
+}
+
+const catalog = [
+  makeCard({ credit_card_name: 'Citi Double Cash Card', issuer: 'Citi', annual_fee: '$0', top_card: 1, co_branded: 'NA' }),
+  makeCard({ credit_card_name: 'Chase Sapphire Preferred® Card', issuer: 'Chase', annual_fee: '$95', top_card: 0, co_branded: 'NA' }),
+  makeCard({ credit_card_name: 'Delta SkyMiles Gold American Express Card', issuer: 'American Express', annual_fee: '$150', co_branded: 'Delta' }),
+  makeCard({ credit_card_name: 'Delta SkyMiles Platinum American Express Card', issuer: 'American Express', annual_fee: '$350', co_branded: 'Delta' }),
+];
+
+function respond(names: string[], stepName = 'Credit Card Recommendations'): RecommendationsResponse {
+  return {
+    recommendations: names.map(name => ({ credit_card_name: name, apply_url: 'https://example.com', reason: 'Good fit' })),
+    summary: '',
+    metadata: { step: 5, stepName, usedWebSearch: false },
+  };
+}
+
+function run(expectation: EvalCase['expect'], response: RecommendationsResponse) {
+  return evaluateCase({ id: 'case', query: 'question', expect: expectation }, response, catalog);
+}
+
+describe('evaluateCase', () => {
+  it('should pass when every expectation holds', () => {
+    const result = run(
+      { stepName: 'Credit Card Recommendations', noAnnualFee: true, issuer: 'citi', includesTopCard: true, noHallucinatedCards: true },
+      respond(['Citi Double Cash Card'])
+    );
+
+    expect(result.passed).toBe(true);
+    expect(result.assertions).toHaveLength(5);
+  });
+
+  it('should report cards with fees, other issuers and no top card', () => {
+    const result = run({ noAnnualFee: true, issuer: 'Citi', includesTopCard: true }, respond(['Chase Sapphire Preferred Card']));
+
+    expect(result.passed).toBe(false);
+    expect(result.assertions.find(a => a.name === 'noAnnualFee')?.detail).toContain('Chase Sapphire Preferred Card');
+    expect(result.assertions.find(a => a.name === 'issuer')?.detail).toContain('Chase');
+    expect(result.assertions.find(a => a.name === 'includesTopCard')?.passed).toBe(false);
+  });
+
+  it('should flag duplicate co-brands and names missing from the catalog', () => {
+    const result = run(
+      { noDuplicateCoBrands: true, noHallucinatedCards: true },
+      respond(['Delta SkyMiles Gold American Express Card', 'Delta SkyMiles Platinum American Express Card', 'Imaginary Rewards Card'])
+    );
+
+    expect(result.assertions.find(a => a.name === 'noDuplicateCoBrands')?.passed).toBe(false);
+    expect(result.assertions.find(a => a.name === 'noHallucinatedCards')?.detail).toBe('not in catalog: Imaginary Rewards Card');
+  });
+
+  it('should check the routed step', () => {
+    const result = run({ stepName: 'Specific Card Question' }, respond([], 'General Attribute Question'));
+    expect(result.assertions[0]).toEqual({ name: 'stepName', passed: false, detail: 'routed to General Attribute Question' });
+  });
+});
+
+describe('parseGoldenSet', () => {
+  it('should reject duplicate case IDs', () => {
+    const cases = [{ id: 'a', query: 'q', expect: {} }, { id: 'a', query: 'q2', expect: {} }];
+    expect(() => parseGoldenSet({ version: 1, cases })).toThrow('Duplicate golden case ID: a');
+  });
+});
+
+describe('diffEvalReports', () => {
+  it('should list regressions, fixes, added and removed cases', () => {
+    const goldenSet = { version: 1, cases: [] };
+    const passing = (id: string) => ({ id, query: id, passed: true, stepName: null, recommendations: [], assertions: [] });
+    const failing = (id: string) => ({ ...passing(id), passed: false });
+
+    const previous = buildEvalReport(goldenSet, [passing('a'), failing('b'), passing('c')]);
+    const current = buildEvalReport(goldenSet, [failing('a'), passing('b'), passing('d')]);
+
+    expect(diffEvalReports(previous, current)).toEqual({ regressions: ['a'], fixes: ['b'], added: ['d'], removed: ['c'] });
+  });
+});
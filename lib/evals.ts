@@ -0,0 +1,250 @@
+/**
+ * Offline evaluation of generateRecommendations against a golden query set.
+ *
+ * Each golden case is a question plus the properties its answer must have
+ * (routed step, no-fee cards only, issuer, top card included, no duplicate
+ * co-brands, no card names outside the catalog). scripts/runEvals.ts replays
+ * the cases through the pipeline and uses these helpers to check the
+ * responses, build a report and diff it against the previous run.
+ */
+
+import { ConversationMessage, CreditCard, RecommendationsResponse } from '@/types';
+import { toTypedCard } from './cardSchema';
+import { normalizeCardName } from './cardResolver';
+
+export interface EvalExpectation {
+  stepName?: string; // metadata.stepName the question should route to
+  noAnnualFee?: boolean; // Every recommended card has no annual fee
+  issuer?: string; // Every recommended card comes from this issuer
+  includesTopCard?: boolean; // At least one recommended card is a top_card
+  noDuplicateCoBrands?: boolean; // No two recommended cards share a co_branded partner
+  noHallucinatedCards?: boolean; // Every recommended card exists in the catalog
+  minRecommendations?: number;
+}
+
+export interface EvalCase {
+  id: string;
+  query: string;
+  conversationHistory?: ConversationMessage[];
+  expect: EvalExpectation;
+}
+
+export interface GoldenSet {
+  version: number;
+  description?: string;
+  cases: EvalCase[];
+}
+
+export interface EvalAssertionResult {
+  name: keyof EvalExpectation;
+  passed: boolean;
+  detail?: string; // Why it failed
+}
+
+export interface EvalCaseResult {
+  id: string;
+  query: string;
+  passed: boolean;
+  stepName: string | null;
+  recommendations: string[];
+  assertions: EvalAssertionResult[];
+  error?: string;
+}
+
+export interface EvalReport {
+  goldenSetVersion: number;
+  passed: number;
+  failed: number;
+  cases: EvalCaseResult[]; // Sorted by ID so reports diff cleanly
+}
+
+export interface EvalReportDiff {
+  regressions: string[]; // Passed before, fail now
+  fixes: string[]; // Failed before, pass now
+  added: string[];
+  removed: string[];
+}
+
+const isNoCoBrand = (value: string) => !value || value === 'na' || value === 'n/a' || value === 'none';
+
+/**
+ * Validates the golden set file, throwing on cases the runner can't use
+ */
+export function parseGoldenSet(data: unknown): GoldenSet {
+  const set = data as GoldenSet;
+  if (!set || typeof set.version !== 'number' || !Array.isArray(set.cases)) {
+    throw new Error('Golden set must have a numeric "version" and a "cases" array');
+  }
+
+  const ids = new Set<string>();
+  for (const testCase of set.cases) {
+    if (!testCase.id || typeof testCase.query !== 'string' || !testCase.expect) {
+      throw new Error(`Golden case ${JSON.stringify(testCase.id)} needs an id, a query and expectations`);
+    }
+    if (ids.has(testCase.id)) {
+      throw new Error(`Duplicate golden case ID: ${testCase.id}`);
+    }
+    ids.add(testCase.id);
+  }
+
+  return set;
+}
+
+/**
+ * Checks one response against its case's expectations
+ */
+export function evaluateCase(
+  testCase: EvalCase,
+  response: RecommendationsResponse,
+  catalog: CreditCard[]
+): EvalCaseResult {
+  const cardsByName = new Map(catalog.map(card => [normalizeCardName(card.credit_card_name), card]));
+  const recommendations = response.recommendations || [];
+  const names = recommendations.map(rec => rec.credit_card_name);
+  const matched = names
+    .map(name => ({ name, card: cardsByName.get(normalizeCardName(name)) }))
+    .filter((item): item is { name: string; card: CreditCard } => item.card !== undefined);
+  const stepName = response.metadata?.stepName ?? null;
+  const expect = testCase.expect;
+  const assertions: EvalAssertionResult[] = [];
+
+  const check = (name: keyof EvalExpectation, failures: string[]) => {
+    assertions.push(failures.length === 0 ? { name, passed: true } : { name, passed: false, detail: failures.join('; ') });
+  };
+
+  if (expect.stepName !== undefined) {
+    check('stepName', stepName === expect.stepName ? [] : [`routed to ${stepName ?? 'no step'}`]);
+  }
+
+  if (expect.minRecommendations !== undefined) {
+    check('minRecommendations', names.length >= expect.minRecommendations ? [] : [`got ${names.length}`]);
+  }
+
+  if (expect.noHallucinatedCards) {
+    check('noHallucinatedCards', names
+      .filter(name => !cardsByName.has(normalizeCardName(name)))
+      .map(name => `not in catalog: ${name}`));
+  }
+
+  if (expect.noAnnualFee) {
+    check('noAnnualFee', matched
+      .filter(({ card }) => {
+        const typedCard = toTypedCard(card);
+        return typedCard.has_annual_fee !== false && typedCard.annual_fee_amount !== 0;
+      })
+      .map(({ name, card }) => `${name} has a fee (${String(card.annual_fee ?? 'unknown')})`));
+  }
+
+  if (expect.issuer !== undefined) {
+    const issuer = expect.issuer.toLowerCase();
+    check('issuer', matched
+      .filter(({ card }) => toTypedCard(card).issuer?.toLowerCase() !== issuer)
+      .map(({ name, card }) => `${name} is from ${toTypedCard(card).issuer ?? 'an unknown issuer'}`));
+  }
+
+  if (expect.includesTopCard) {
+    check('includesTopCard', matched.some(({ card }) => toTypedCard(card).top_card) ? [] : ['no top card recommended']);
+  }
+
+  if (expect.noDuplicateCoBrands) {
+    const seen = new Map<string, string>();
+    const duplicates: string[] = [];
+    for (const { name, card } of matched) {
+      const coBrand = String(card.co_branded ?? '').trim().toLowerCase();
+      if (isNoCoBrand(coBrand)) continue;
+      const first = seen.get(coBrand);
+      if (first) {
+        duplicates.push(`${first} and ${name} are both ${String(card.co_branded)}`);
+      } else {
+        seen.set(coBrand, name);
+      }
+    }
+    check('noDuplicateCoBrands', duplicates);
+  }
+
+  return {
+    id: testCase.id,
+    query: testCase.query,
+    passed: assertions.every(assertion => assertion.passed),
+    stepName,
+    recommendations: names,
+    assertions,
+  };
+}
+
+/**
+ * Result for a case whose pipeline run threw
+ */
+export function erroredCase(testCase: EvalCase, error: unknown): EvalCaseResult {
+  return {
+    id: testCase.id,
+    query: testCase.query,
+    passed: false,
+    stepName: null,
+    recommendations: [],
+    assertions: [],
+    error: error instanceof Error ? error.message : String(error),
+  };
+}
+
+export function buildEvalReport(goldenSet: GoldenSet, results: EvalCaseResult[]): EvalReport {
+  const cases = [...results].sort((a, b) => a.id.localeCompare(b.id));
+  const passed = cases.filter(result => result.passed).length;
+  return {
+    goldenSetVersion: goldenSet.version,
+    passed,
+    failed: cases.length - passed,
+    cases,
+  };
+}
+
+/**
+ * Compares two reports by case ID
+ */
+export function diffEvalReports(previous: EvalReport, current: EvalReport): EvalReportDiff {
+  const before = new Map(previous.cases.map(result => [result.id, result]));
+  const after = new Map(current.cases.map(result => [result.id, result]));
+  const diff: EvalReportDiff = { regressions: [], fixes: [], added: [], removed: [] };
+
+  after.forEach((result, id) => {
+    const old = before.get(id);
+    if (!old) diff.added.push(id);
+    else if (old.passed && !result.passed) diff.regressions.push(id);
+    else if (!old.passed && result.passed) diff.fixes.push(id);
+  });
+  before.forEach((_result, id) => {
+    if (!after.has(id)) diff.removed.push(id);
+  });
+
+  return diff;
+}
+
+/**
+ * Plain-text summary for the console
+ */
+export function formatEvalReport(report: EvalReport, diff?: EvalReportDiff): string {
+  const lines = report.cases.map(result => {
+    if (result.passed) return `✅ ${result.id}`;
+    const reasons = result.error
+      ? [`error: ${result.error}`]
+      : result.assertions.filter(assertion => !assertion.passed).map(assertion => `${assertion.name}: ${assertion.detail}`);
+    return `❌ ${result.id} - ${reasons.join(' | ')}`;
+  });
+
+  lines.push('', `${report.passed}/${report.cases.length} cases passed (golden set v${report.goldenSetVersion})`);
+
+  if (diff) {
+    const changes: Array<[string, string[]]> = [
+      ['Regressions', diff.regressions],
+      ['Fixed', diff.fixes],
+      ['New cases', diff.added],
+      ['Removed cases', diff.removed],
+    ];
+    const changed = changes.filter(([, ids]) => ids.length > 0);
+    lines.push(changed.length > 0
+      ? changed.map(([label, ids]) => `${label}: ${ids.join(', ')}`).join('\n')
+      : 'No changes since the previous report');
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { applyFilters } from './filters';
+import { toTypedCard } from './cardSchema';
+import { CreditCard, FilterPass } from '@/types';
+
+function makeCard(id: string, fields: Record<string, unknown>): CreditCard {
+  return toTypedCard({ id, credit_card_name: `Card ${id}`, url_application: `https://example.com/${id}`, ...fields }) as CreditCard;
+}
+
+const catalog = [
+  makeCard('sapphire', { issuer: 'Chase', annual_fee: '$95', network: 'Visa' }),
+  makeCard('freedom', { issuer: 'Chase', annual_fee: '$0', network: 'Visa' }),
+  makeCard('gold', { issuer: 'American Express', annual_fee: '$325', network: 'American Express' }),
+  makeCard('double', { issuer: 'Citi', annual_fee: '$0', network: 'Mastercard' }),
+];
+
+describe('applyFilters', () => {
+  it('should report the cards left before and after each filter', () => {
+    const passes: FilterPass[] = [];
+    const cards = applyFilters(catalog, { annualFee: 'no-fee', issuer: ['Chase', 'Citi'], network: ['Visa'] }, pass => passes.push(pass));
+
+    expect(cards.map(card => card.id)).toEqual(['freedom']);
+    expect(passes).toEqual([
+      { filter: 'annualFee', value: 'no-fee', before: 4, after: 2 },
+      { filter: 'issuer', value: 'Chase, Citi', before: 2, after: 2 },
+      { filter: 'network', value: 'Visa', before: 2, after: 1 },
+    ]);
+  });
+
+  it('should report nothing when there are no filters', () => {
+    const passes: FilterPass[] = [];
+    expect(applyFilters(catalog, {}, pass => passes.push(pass))).toBe(catalog);
+    expect(passes).toEqual([]);
+  });
+});
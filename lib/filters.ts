@@ -1,16 +1,10 @@
-import OpenAI from 'openai';
+import { FAST_CALL_TIMEOUT_MS, getLLMProvider, MODELS } from './llm';
+import { toTypedCard } from './cardSchema';
+import { createLogger } from './logger';
+import { withSpanSync } from './tracing';
+import { CreditCard, FilterPass } from '@/types';
 
-/**
- * Lazy-loaded OpenAI client
- */
-function getOpenAIClient() {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY is not set');
-  }
-  return new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-  });
-}
+const log = createLogger('filters');
 
 /**
  * Structured filters that can be extracted from user queries
@@ -29,16 +23,9 @@ export interface CardFilters {
 }
 
 /**
- * Extracts structured filters from a user query using LLM
+ * CardFilters fields as described to the model (shared with the intent router)
  */
-export async function extractFilters(query: string): Promise<CardFilters> {
-  const openai = getOpenAIClient();
-
-  const systemPrompt = `You are a filter extraction system for credit card queries.
-Analyze the user query and extract any filtering criteria they specify.
-
-Return a JSON object with these optional fields:
-- annualFee: "no-fee" (user wants $0 fee), "low-fee" (wants low/reasonable fee), or "any" (doesn't care)
+export const FILTER_FIELDS_PROMPT = `- annualFee: "no-fee" (user wants $0 fee), "low-fee" (wants low/reasonable fee), or "any" (doesn't care)
 - annualFeeMax: number (if user specifies max annual fee like "under $100")
 - cardType: array of strings like ["travel", "cashback", "business", "rewards", "balance-transfer", "secured"]
 - issuer: array of bank names like ["Chase", "American Express", "Citi", "Capital One", "Discover", "Bank of America"]
@@ -47,7 +34,17 @@ Return a JSON object with these optional fields:
 - spendingCategories: array like ["dining", "travel", "groceries", "gas", "online-shopping", "restaurants"]
 - targetConsumer: array like ["business", "student", "excellent-credit", "fair-credit", "premium"]
 - hasWelcomeBonus: boolean (if user specifically wants welcome bonus)
-- hasNoForeignTransactionFee: boolean (if user mentions international travel or no foreign transaction fees)
+- hasNoForeignTransactionFee: boolean (if user mentions international travel or no foreign transaction fees)`;
+
+/**
+ * Extracts structured filters from a user query using LLM
+ */
+export async function extractFilters(query: string): Promise<CardFilters> {
+  const systemPrompt = `You are a filter extraction system for credit card queries.
+Analyze the user query and extract any filtering criteria they specify.
+
+Return a JSON object with these optional fields:
+${FILTER_FIELDS_PROMPT}
 
 Examples:
 
@@ -84,17 +81,15 @@ Output: {}
 Only include fields where the user explicitly specifies criteria. If query is general or doesn't specify filters, return empty object.`;
 
   try {
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini', // Fast and cheap for classification
-      messages: [
+    const response = await getLLMProvider().chatJSON(
+      [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: query }
       ],
-      response_format: { type: 'json_object' },
-      temperature: 0,
-    });
+      { model: MODELS.fast, temperature: 0, timeoutMs: FAST_CALL_TIMEOUT_MS, usageStep: 'filter_extraction' } // Fast and cheap for classification
+    );
 
-    const content = response.choices[0].message.content;
+    const content = response.content;
     if (!content) {
       return {};
     }
@@ -102,157 +97,203 @@ Only include fields where the user explicitly specifies criteria. If query is ge
     const filters = JSON.parse(content) as CardFilters;
 
     // Log extracted filters for debugging
-    console.log('[FILTER EXTRACTION]', {
+    log.info('[FILTER EXTRACTION]', {
       query,
       filters: JSON.stringify(filters, null, 2),
     });
 
     return filters;
   } catch (error) {
-    console.error('Error extracting filters:', error);
+    log.error('Error extracting filters:', error);
     return {}; // Fall back to no filtering
   }
 }
 
 /**
- * Helper: Get annual fee value from card, checking multiple possible field names
+ * Keeps only well-formed CardFilters fields from model output
  */
-function getAnnualFeeValue(card: any): string | number | null {
-  // Check all possible field name variations for annual fee
-  const possibleFields = [
-    'annual_fee',
-    'annualFee',
-    'Annual Fee',
-    'AnnualFee',
-    'annual_fee_score',
-    'annualFeeScore',
-    'fee',
-    'Fee',
-    'yearly_fee',
-    'yearlyFee',
-  ];
-
-  for (const field of possibleFields) {
-    if (card[field] !== undefined && card[field] !== null && String(card[field]).trim() !== '') {
-      return card[field];
-    }
+export function normalizeFilters(raw: unknown): CardFilters {
+  if (!raw || typeof raw !== 'object') return {};
+  const input = raw as Record<string, unknown>;
+  const filters: CardFilters = {};
+
+  const stringList = (value: unknown): string[] | undefined => {
+    if (!Array.isArray(value)) return undefined;
+    const list = value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0);
+    return list.length > 0 ? list : undefined;
+  };
+
+  if (input.annualFee === 'no-fee' || input.annualFee === 'low-fee' || input.annualFee === 'any') {
+    filters.annualFee = input.annualFee;
+  }
+  if (typeof input.annualFeeMax === 'number' && input.annualFeeMax >= 0) {
+    filters.annualFeeMax = input.annualFeeMax;
   }
+  for (const key of ['cardType', 'issuer', 'network', 'rewardsType', 'spendingCategories', 'targetConsumer'] as const) {
+    const list = stringList(input[key]);
+    if (list) filters[key] = list;
+  }
+  if (input.hasWelcomeBonus === true) filters.hasWelcomeBonus = true;
+  if (input.hasNoForeignTransactionFee === true) filters.hasNoForeignTransactionFee = true;
 
-  return null;
+  return filters;
 }
 
+const RULE_ISSUERS: Array<{ issuer: string; pattern: RegExp }> = [
+  { issuer: 'American Express', pattern: /\bamerican express\b|\bamex\b/ },
+  { issuer: 'Chase', pattern: /\bchase\b/ },
+  { issuer: 'Capital One', pattern: /\bcapital one\b/ },
+  { issuer: 'Citi', pattern: /\bciti(bank)?\b/ },
+  { issuer: 'Bank of America', pattern: /\bbank of america\b/ },
+  { issuer: 'Wells Fargo', pattern: /\bwells fargo\b/ },
+  { issuer: 'Discover', pattern: /\bdiscover\b/ },
+  { issuer: 'U.S. Bank', pattern: /\bu\.?s\.? bank\b/ },
+];
+
+const RULE_SPENDING_CATEGORIES: Array<{ category: string; pattern: RegExp }> = [
+  { category: 'dining', pattern: /\b(dining|restaurants?|eating out)\b/ },
+  { category: 'groceries', pattern: /\b(groceries|grocery|supermarkets?)\b/ },
+  { category: 'gas', pattern: /\b(gas|fuel)\b/ },
+  { category: 'online-shopping', pattern: /\bonline shopping\b/ },
+];
+
 /**
- * Helper: Check if card has no annual fee
+ * Deterministic filter extraction for the intent router's fast path.
+ * Only recognizes unambiguous phrasings; anything subtler goes through the model.
  */
-function hasNoAnnualFee(card: any): boolean {
-  const feeValue = getAnnualFeeValue(card);
+export function extractFiltersWithRules(query: string): CardFilters {
+  const text = query.toLowerCase();
+  const filters: CardFilters = {};
+
+  if (/\b(no|zero|without( an?)?|\$0) (annual )?fees?\b/.test(text) && !/foreign/.test(text)) {
+    filters.annualFee = 'no-fee';
+  } else if (/\blow (annual )?fees?\b/.test(text)) {
+    filters.annualFee = 'low-fee';
+  }
 
-  if (feeValue === null) {
-    console.log(`[FILTER DEBUG] Card ${card.credit_card_name || card.id}: No annual fee field found`);
-    return false; // If we can't find the field, don't include it
+  const feeMax = text.match(/(?:under|below|less than|at most|max(?:imum)?(?: of)?)\s*\$\s*([\d,]+)\s*(?:annual )?fee/);
+  if (feeMax) {
+    filters.annualFeeMax = parseInt(feeMax[1].replace(/,/g, ''), 10);
   }
 
-  // Check if it's a number
-  if (typeof feeValue === 'number') {
-    const isNoFee = feeValue === 0;
-    console.log(`[FILTER DEBUG] Card ${card.credit_card_name || card.id}: fee=${feeValue} (number), isNoFee=${isNoFee}`);
-    return isNoFee;
+  const issuers = RULE_ISSUERS.filter(({ pattern }) => pattern.test(text)).map(({ issuer }) => issuer);
+  if (issuers.length > 0) filters.issuer = issuers;
+
+  const rewardsType: string[] = [];
+  if (/\bcash ?back\b/.test(text)) rewardsType.push('cashback');
+  if (/\bpoints\b/.test(text)) rewardsType.push('points');
+  if (/\bmiles\b/.test(text)) rewardsType.push('miles');
+  if (rewardsType.length > 0) filters.rewardsType = rewardsType;
+
+  const cardType: string[] = [];
+  if (/\btravel\b/.test(text)) cardType.push('travel');
+  if (/\bbusiness\b/.test(text)) cardType.push('business');
+  if (/\bsecured\b/.test(text)) cardType.push('secured');
+  if (/\bbalance transfers?\b/.test(text)) cardType.push('balance-transfer');
+  if (cardType.length > 0) filters.cardType = cardType;
+
+  const categories = RULE_SPENDING_CATEGORIES.filter(({ pattern }) => pattern.test(text)).map(({ category }) => category);
+  if (categories.length > 0) filters.spendingCategories = categories;
+
+  if (/\b(students?|college)\b/.test(text)) filters.targetConsumer = ['student'];
+  if (/\bno foreign (transaction )?fees?\b/.test(text)) filters.hasNoForeignTransactionFee = true;
+  if (/\b(welcome|sign[- ]?up) bonus(es)?\b/.test(text)) filters.hasWelcomeBonus = true;
+
+  return filters;
+}
+
+/**
+ * Helper: Get the parsed annual fee amount (typed field from lib/cardSchema.ts)
+ */
+function getAnnualFeeAmount(card: CreditCard): number | null {
+  return toTypedCard(card).annual_fee_amount;
+}
+
+/**
+ * Helper: Check if card has no annual fee
+ */
+function hasNoAnnualFee(card: CreditCard): boolean {
+  const typedCard = toTypedCard(card);
+
+  if (typedCard.has_annual_fee === null) {
+    log.debug(`[FILTER DEBUG] Card ${card.credit_card_name || card.id}: No annual fee value found`);
+    return false; // If we can't determine the fee, don't include it
   }
 
-  // Check if it's a string that represents $0
-  const feeString = String(feeValue).toLowerCase().trim();
-  const isNoFee = feeString === '$0' ||
-                  feeString === '0' ||
-                  feeString === 'none' ||
-                  feeString === 'no annual fee' ||
-                  feeString === '$0 annual fee' ||
-                  feeString === 'free' ||
-                  feeString === '$0.00' ||
-                  !!feeString.match(/^\$?0+(\.0+)?$/); // Matches $0, 0, $0.00, etc. (!! converts to boolean)
-
-  console.log(`[FILTER DEBUG] Card ${card.credit_card_name || card.id}: fee="${feeString}" (string), isNoFee=${isNoFee}`);
+  const isNoFee = !typedCard.has_annual_fee;
+  log.debug(`[FILTER DEBUG] Card ${card.credit_card_name || card.id}: fee=${typedCard.annual_fee_amount}, isNoFee=${isNoFee}`);
   return isNoFee;
 }
 
 /**
  * Applies filters to a list of credit cards
+ * onPass is called after each filter with the card counts before and after it
  */
-export function applyFilters(cards: any[], filters: CardFilters): any[] {
+export function applyFilters<T extends CreditCard>(cards: T[], filters: CardFilters, onPass?: (pass: FilterPass) => void): T[] {
   if (!filters || Object.keys(filters).length === 0) {
-    console.log('[FILTER] No filters to apply, returning all cards');
+    log.debug('[FILTER] No filters to apply, returning all cards');
     return cards;
   }
 
+  return withSpanSync('filters.apply', { 'filters.fields': Object.keys(filters), 'filters.input_cards': cards.length }, span => {
+    const filteredCards = filterCards(cards, filters, onPass);
+    span.setAttribute('filters.output_cards', filteredCards.length);
+    return filteredCards;
+  });
+}
+
+function filterCards<T extends CreditCard>(cards: T[], filters: CardFilters, onPass?: (pass: FilterPass) => void): T[] {
+
   let filteredCards = cards;
   const initialCount = cards.length;
+  let countBeforePass = initialCount;
+  const recordPass = (filter: keyof CardFilters, value: unknown) => {
+    onPass?.({ filter, value: Array.isArray(value) ? value.join(', ') : String(value), before: countBeforePass, after: filteredCards.length });
+    countBeforePass = filteredCards.length;
+  };
 
   // Log available fields from first card for debugging
   if (cards.length > 0) {
     const sampleCard = cards[0];
     const allFields = Object.keys(sampleCard);
-    console.log('[FILTER DEBUG] Available fields in cards:', allFields.filter(f => f.toLowerCase().includes('fee')));
+    log.debug('[FILTER DEBUG] Available fields in cards:', allFields.filter(f => f.toLowerCase().includes('fee')));
   }
 
   // Filter by annual fee
   if (filters.annualFee === 'no-fee') {
-    console.log('[FILTER] Filtering for no-fee cards...');
+    log.debug('[FILTER] Filtering for no-fee cards...');
     filteredCards = filteredCards.filter(card => hasNoAnnualFee(card));
-    console.log(`[FILTER] Annual fee = no-fee: ${initialCount} → ${filteredCards.length} cards`);
+    log.debug(`[FILTER] Annual fee = no-fee: ${initialCount} → ${filteredCards.length} cards`);
+    recordPass('annualFee', filters.annualFee);
   } else if (filters.annualFee === 'low-fee') {
-    console.log('[FILTER] Filtering for low-fee cards...');
+    log.debug('[FILTER] Filtering for low-fee cards...');
     filteredCards = filteredCards.filter(card => {
-      const feeValue = getAnnualFeeValue(card);
+      const feeAmount = getAnnualFeeAmount(card);
 
-      if (feeValue === null) {
+      if (feeAmount === null) {
         return true; // Keep if we can't determine fee
       }
 
-      // Try to parse as number
-      let feeNumber: number;
-      if (typeof feeValue === 'number') {
-        feeNumber = feeValue;
-      } else {
-        // Extract number from string like "$95" or "95"
-        const match = String(feeValue).match(/\$?(\d+(?:\.\d+)?)/);
-        if (!match) {
-          return true; // Keep if we can't parse
-        }
-        feeNumber = parseFloat(match[1]);
-      }
-
-      return feeNumber <= 100; // Low fee is <= $100
+      return feeAmount <= 100; // Low fee is <= $100
     });
-    console.log(`[FILTER] Annual fee = low-fee: ${initialCount} → ${filteredCards.length} cards`);
+    log.debug(`[FILTER] Annual fee = low-fee: ${initialCount} → ${filteredCards.length} cards`);
+    recordPass('annualFee', filters.annualFee);
   }
 
   // Filter by max annual fee
   if (filters.annualFeeMax !== undefined) {
-    console.log(`[FILTER] Filtering for annual fee max $${filters.annualFeeMax}...`);
+    log.debug(`[FILTER] Filtering for annual fee max $${filters.annualFeeMax}...`);
     filteredCards = filteredCards.filter(card => {
-      const feeValue = getAnnualFeeValue(card);
+      const feeAmount = getAnnualFeeAmount(card);
 
-      if (feeValue === null) {
+      if (feeAmount === null) {
         return false; // Exclude if we can't determine fee
       }
 
-      // Try to parse as number
-      let feeNumber: number;
-      if (typeof feeValue === 'number') {
-        feeNumber = feeValue;
-      } else {
-        // Extract number from string like "$95" or "95"
-        const match = String(feeValue).match(/\$?(\d+(?:\.\d+)?)/);
-        if (!match) {
-          // If no number found, check if it's explicitly $0
-          const feeString = String(feeValue).toLowerCase().trim();
-          return feeString === '$0' || feeString === '0' || feeString === 'none' || feeString === 'free';
-        }
-        feeNumber = parseFloat(match[1]);
-      }
-
-      return feeNumber <= filters.annualFeeMax!;
+      return feeAmount <= filters.annualFeeMax!;
     });
-    console.log(`[FILTER] Annual fee max $${filters.annualFeeMax}: ${initialCount} → ${filteredCards.length} cards`);
+    log.debug(`[FILTER] Annual fee max $${filters.annualFeeMax}: ${initialCount} → ${filteredCards.length} cards`);
+    recordPass('annualFeeMax', filters.annualFeeMax);
   }
 
   // Filter by card type
@@ -269,7 +310,8 @@ export function applyFilters(cards: any[], filters: CardFilters): any[] {
                targetConsumer.includes(lowerType);
       });
     });
-    console.log(`[FILTER] Card type ${filters.cardType.join(', ')}: ${initialCount} → ${filteredCards.length} cards`);
+    log.debug(`[FILTER] Card type ${filters.cardType.join(', ')}: ${initialCount} → ${filteredCards.length} cards`);
+    recordPass('cardType', filters.cardType);
   }
 
   // Filter by issuer
@@ -288,7 +330,8 @@ export function applyFilters(cards: any[], filters: CardFilters): any[] {
         return issuer.includes(lowerIssuer) || cardName.includes(lowerIssuer);
       });
     });
-    console.log(`[FILTER] Issuer ${filters.issuer.join(', ')}: ${initialCount} → ${filteredCards.length} cards`);
+    log.debug(`[FILTER] Issuer ${filters.issuer.join(', ')}: ${initialCount} → ${filteredCards.length} cards`);
+    recordPass('issuer', filters.issuer);
   }
 
   // Filter by network
@@ -302,7 +345,8 @@ export function applyFilters(cards: any[], filters: CardFilters): any[] {
         return network.includes(lowerNetwork) || cardName.includes(lowerNetwork);
       });
     });
-    console.log(`[FILTER] Network ${filters.network.join(', ')}: ${initialCount} → ${filteredCards.length} cards`);
+    log.debug(`[FILTER] Network ${filters.network.join(', ')}: ${initialCount} → ${filteredCards.length} cards`);
+    recordPass('network', filters.network);
   }
 
   // Filter by rewards type
@@ -351,7 +395,8 @@ export function applyFilters(cards: any[], filters: CardFilters): any[] {
                pointsMultipliers.includes(lowerType);
       });
     });
-    console.log(`[FILTER] Rewards type ${filters.rewardsType.join(', ')}: ${initialCount} → ${filteredCards.length} cards`);
+    log.debug(`[FILTER] Rewards type ${filters.rewardsType.join(', ')}: ${initialCount} → ${filteredCards.length} cards`);
+    recordPass('rewardsType', filters.rewardsType);
   }
 
   // Filter by spending categories
@@ -368,7 +413,8 @@ export function applyFilters(cards: any[], filters: CardFilters): any[] {
                perks.includes(lowerCategory);
       });
     });
-    console.log(`[FILTER] Spending categories ${filters.spendingCategories.join(', ')}: ${initialCount} → ${filteredCards.length} cards`);
+    log.debug(`[FILTER] Spending categories ${filters.spendingCategories.join(', ')}: ${initialCount} → ${filteredCards.length} cards`);
+    recordPass('spendingCategories', filters.spendingCategories);
   }
 
   // Filter by target consumer
@@ -385,7 +431,8 @@ export function applyFilters(cards: any[], filters: CardFilters): any[] {
                cardName.includes(lowerTarget);
       });
     });
-    console.log(`[FILTER] Target consumer ${filters.targetConsumer.join(', ')}: ${initialCount} → ${filteredCards.length} cards`);
+    log.debug(`[FILTER] Target consumer ${filters.targetConsumer.join(', ')}: ${initialCount} → ${filteredCards.length} cards`);
+    recordPass('targetConsumer', filters.targetConsumer);
   }
 
   // Filter by welcome bonus
@@ -394,7 +441,8 @@ export function applyFilters(cards: any[], filters: CardFilters): any[] {
       const welcomeBonus = String(card.welcome_bonus || '').trim();
       return welcomeBonus && welcomeBonus.length > 0 && welcomeBonus.toLowerCase() !== 'none';
     });
-    console.log(`[FILTER] Has welcome bonus: ${initialCount} → ${filteredCards.length} cards`);
+    log.debug(`[FILTER] Has welcome bonus: ${initialCount} → ${filteredCards.length} cards`);
+    recordPass('hasWelcomeBonus', filters.hasWelcomeBonus);
   }
 
   // Filter by no foreign transaction fee
@@ -404,10 +452,11 @@ export function applyFilters(cards: any[], filters: CardFilters): any[] {
       return foreignFee === 'none' || foreignFee === '$0' || foreignFee === '0' ||
              foreignFee === 'no foreign transaction fee' || foreignFee.includes('no fee');
     });
-    console.log(`[FILTER] No foreign transaction fee: ${initialCount} → ${filteredCards.length} cards`);
+    log.debug(`[FILTER] No foreign transaction fee: ${initialCount} → ${filteredCards.length} cards`);
+    recordPass('hasNoForeignTransactionFee', filters.hasNoForeignTransactionFee);
   }
 
-  console.log(`[FILTER] Total: ${initialCount} → ${filteredCards.length} cards after all filters`);
+  log.info(`[FILTER] Total: ${initialCount} → ${filteredCards.length} cards after all filters`);
 
   return filteredCards;
 }
@@ -1,3 +1,5 @@
+import { createLogger } from './logger';
+
 /**
  * Detects repeated credit card names in chatbot output.
  * 
@@ -6,6 +8,8 @@
  * without spaces or with various punctuation/spacing variations.
  */
 
+const log = createLogger('findRepeatedCardNames');
+
 export type RepeatedCardIssue = {
   cardName: string;
   occurrences: number;
@@ -281,7 +285,7 @@ export function cleanConcatenatedCardNames(
                   replacement + 
                   cleaned.substring(replaceEnd);
         
-        console.log(`[CLEANING CONCATENATED DIRECT] Fixed: "${fullMatch.substring(0, 80)}..." -> "${replacement}"`);
+        log.debug(`[CLEANING CONCATENATED DIRECT] Fixed: "${fullMatch.substring(0, 80)}..." -> "${replacement}"`);
         // Continue to check for more occurrences
       } else {
         // No concatenated repeat found, move to next card name
@@ -334,7 +338,7 @@ export function cleanConcatenatedCardNames(
                 replacement + 
                 cleaned.substring(replaceEnd);
       
-      console.log(`[CLEANING CONCATENATED NORMALIZED] Fixed: "${beforeReplace.substring(0, 80)}..." -> "${replacement}"`);
+      log.debug(`[CLEANING CONCATENATED NORMALIZED] Fixed: "${beforeReplace.substring(0, 80)}..." -> "${replacement}"`);
     }
   }
   
@@ -1,8 +1,10 @@
-// Google Sheets API integration
-// Since we're using a public sheet, we can access it via the published CSV export
+// Card data for the /api/chat route
+// Rows come from the configured card source (see lib/cardSources.ts)
 
-const GOOGLE_SHEET_ID = '19ioGC8Oj8ej7QP_MG87FyMuAC3AdgGwRrEuKk5wZHZI';
-const SHEET_URL = `https://docs.google.com/spreadsheets/d/${GOOGLE_SHEET_ID}/gviz/tq?tqx=out:csv`;
+import { getCardSource } from './cardSources';
+import { createLogger } from './logger';
+
+const log = createLogger('googleSheets');
 
 export interface CreditCard {
   [key: string]: string | undefined;
@@ -13,23 +15,13 @@ export interface CreditCard {
 
 export async function getGoogleSheetsData(): Promise<CreditCard[]> {
   try {
-    const response = await fetch(SHEET_URL);
-    const csvText = await response.text();
-    
-    // Parse CSV
-    const lines = csvText.split('\n').filter(line => line.trim());
-    if (lines.length === 0) return [];
+    const rows = await getCardSource().load();
 
-    // Parse header
-    const headers = parseCSVLine(lines[0]);
-    
-    // Parse data rows
     const data: CreditCard[] = [];
-    for (let i = 1; i < lines.length; i++) {
-      const values = parseCSVLine(lines[i]);
+    for (const sourceRow of rows) {
       const row: CreditCard = {};
-      headers.forEach((header, index) => {
-        row[header] = values[index]?.trim() || '';
+      Object.entries(sourceRow).forEach(([header, value]) => {
+        row[header] = String(value ?? '').trim();
       });
       if (row.credit_card_name) {
         data.push(row);
@@ -38,33 +30,11 @@ export async function getGoogleSheetsData(): Promise<CreditCard[]> {
 
     return data;
   } catch (error) {
-    console.error('Error fetching Google Sheets data:', error);
+    log.error('Error fetching card data:', error);
     return [];
   }
 }
 
-function parseCSVLine(line: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    
-    if (char === '"') {
-      inQuotes = !inQuotes;
-    } else if (char === ',' && !inQuotes) {
-      result.push(current);
-      current = '';
-    } else {
-      current += char;
-    }
-  }
-  result.push(current);
-  
-  return result.map(val => val.replace(/^"|"$/g, ''));
-}
-
 export function filterCreditCards(cards: CreditCard[], query: string): CreditCard[] {
   if (!query || cards.length === 0) return cards.slice(0, 3); // Return top 3 if no query
 
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { extractPreviousCardIndices, parseRouterResponse, routeWithRules, selectPreviousCards } from './intentRouter';
+import { extractFiltersWithRules, normalizeFilters } from './filters';
+import { Recommendation } from '@/types';
+
+const previous: Recommendation[] = [
+  { credit_card_name: 'Citi Double Cash Card', apply_url: 'https://example.com/1', reason: '' },
+  { credit_card_name: 'Chase Freedom Unlimited', apply_url: 'https://example.com/2', reason: '' },
+  { credit_card_name: 'Discover it Cash Back', apply_url: 'https://example.com/3', reason: '' },
+];
+
+describe('routeWithRules', () => {
+  it('should route training questions without the model', () => {
+    expect(routeWithRules('How were you trained?')?.intent).toBe('training');
+  });
+
+  it('should route plain recommendation requests with rule-based filters', () => {
+    const routed = routeWithRules('Show the best Chase cards with no annual fee');
+    expect(routed?.intent).toBe('recommendations');
+    expect(routed?.source).toBe('rules');
+    expect(routed?.filters).toEqual({ annualFee: 'no-fee', issuer: ['Chase'] });
+  });
+
+  it('should not treat "what are the best cards" as a concept question', () => {
+    expect(routeWithRules('What are the best cards for groceries?')?.intent).toBe('recommendations');
+    expect(routeWithRules('What is APR?')?.intent).toBe('general_attribute');
+  });
+
+  it('should resolve references to previously shown cards', () => {
+    const routed = routeWithRules('Tell me more about the second one', previous);
+    expect(routed?.intent).toBe('previous_cards');
+    expect(routed && selectPreviousCards(routed, previous).map(rec => rec.credit_card_name)).toEqual(['Chase Freedom Unlimited']);
+  });
+
+  it('should leave questions that may name a card to the model', () => {
+    expect(routeWithRules('Tell me about the Amex Gold')).toBeNull();
+    expect(routeWithRules('What are the benefits of the Amex Gold?')).toBeNull();
+    expect(routeWithRules("What's a good Chase card with no annual fee?")).toBeNull();
+    expect(routeWithRules("What's the weather in Paris?")).toBeNull();
+    expect(routeWithRules('Which of these has no annual fee?')).toBeNull();
+  });
+});
+
+describe('extractPreviousCardIndices', () => {
+  it('should read numbers, ordinals and "last", ignoring positions that were not shown', () => {
+    expect(extractPreviousCardIndices('compare card 1 and the third one', 3)).toEqual([1, 3]);
+    expect(extractPreviousCardIndices('what about the last one?', 3)).toEqual([3]);
+    expect(extractPreviousCardIndices('tell me about card 5', 3)).toEqual([]);
+  });
+});
+
+describe('parseRouterResponse', () => {
+  it('should keep valid fields and drop malformed ones', () => {
+    const routed = parseRouterResponse(
+      JSON.stringify({
+        intent: 'specific_card',
+        card_names: ['Amex Gold', ''],
+        previous_card_indices: [],
+        filters: { issuer: ['American Express'], annualFee: 'cheap', annualFeeMax: '100' },
+      }),
+      'Tell me about the Amex Gold'
+    );
+
+    expect(routed).toMatchObject({ intent: 'specific_card', cardNames: ['Amex Gold'], source: 'llm' });
+    expect(routed.filters).toEqual({ issuer: ['American Express'] });
+  });
+
+  it('should correct intents the question cannot have', () => {
+    expect(parseRouterResponse('{"intent": "specific_card", "card_names": []}', 'a card').intent).toBe('recommendations');
+    expect(parseRouterResponse('{"intent": "previous_cards"}', 'which of these').intent).toBe('recommendations');
+    expect(parseRouterResponse('{"intent": "training"}', 'hmm').intent).toBe('recommendations');
+    expect(parseRouterResponse('{"intent": "nonsense"}', 'hmm').intent).toBe('recommendations');
+  });
+
+  it('should only keep previous card positions that were shown', () => {
+    const routed = parseRouterResponse('{"intent": "previous_cards", "previous_card_indices": [3, 1, 7, 1]}', 'q', previous);
+    expect(routed.previousCardIndices).toEqual([1, 3]);
+  });
+});
+
+describe('extractFiltersWithRules', () => {
+  it('should extract fee limits, rewards and categories', () => {
+    expect(extractFiltersWithRules('best cash back cards for groceries under $100 annual fee')).toEqual({
+      annualFeeMax: 100,
+      rewardsType: ['cashback'],
+      spendingCategories: ['groceries'],
+    });
+  });
+
+  it('should not read "no foreign transaction fees" as no annual fee', () => {
+    expect(extractFiltersWithRules('travel cards with no foreign transaction fees')).toEqual({
+      cardType: ['travel'],
+      hasNoForeignTransactionFee: true,
+    });
+  });
+});
+
+describe('normalizeFilters', () => {
+  it('should return an empty object for non-objects', () => {
+    expect(normalizeFilters(null)).toEqual({});
+    expect(normalizeFilters('no-fee')).toEqual({});
+  });
+});
@@ -0,0 +1,380 @@
+import { QueryIntent, Recommendation, RouteSource } from '@/types';
+import { CardFilters, extractFiltersWithRules, FILTER_FIELDS_PROMPT, normalizeFilters } from './filters';
+import { FAST_CALL_TIMEOUT_MS, getLLMProvider, MODELS } from './llm';
+import { isWalletQuery } from './walletOptimizer';
+import { createLogger } from './logger';
+
+/**
+ * Single-pass intent router for generateRecommendations.
+ *
+ * Decides in one step whether a question is about the assistant itself,
+ * off-topic, a general concept, about previously shown cards, about a
+ * specific card, a wallet question or a recommendation request - and
+ * extracts card names, referenced previous cards and CardFilters with it.
+ * Unambiguous questions are routed by rules without a model call; the rest
+ * take one structured call instead of a chain of classifiers.
+ */
+
+const log = createLogger('intentRouter');
+
+export interface RoutedQuery {
+  intent: QueryIntent;
+  cardNames: string[]; // Card names mentioned in the question (specific_card)
+  previousCardIndices: number[]; // 1-based positions of previously shown cards the question refers to
+  filters: CardFilters;
+  source: RouteSource;
+  reason?: string;
+}
+
+const QUERY_INTENTS: QueryIntent[] = [
+  'training',
+  'off_topic',
+  'general_attribute',
+  'previous_cards',
+  'specific_card',
+  'wallet',
+  'recommendations',
+];
+
+const ORDINALS: Record<string, number> = {
+  first: 1, second: 2, third: 3, fourth: 4, fifth: 5,
+  '1st': 1, '2nd': 2, '3rd': 3, '4th': 4, '5th': 5,
+};
+
+/**
+ * Detects if the user is asking about how the chatbot was trained or its architecture
+ */
+export function isTrainingQuestion(userQuery: string): boolean {
+  const queryLower = userQuery.toLowerCase().trim();
+
+  // Primary phrases that clearly indicate questions about training/architecture
+  const primaryPhrases = [
+    'how were you trained',
+    'how was you trained',
+    'how are you trained',
+    'how did you learn',
+    'how do you work',
+    'how were you made',
+    'how was you made',
+    'how are you made',
+    'how were you built',
+    'how was you built',
+    'how are you built',
+    'how were you created',
+    'how was you created',
+    'how are you created',
+    'who made you',
+    'who created you',
+    'who built you',
+    'what powers you',
+    'what do you use',
+    'where did you learn',
+    'where do you get your',
+    'how do you know',
+    'your training',
+    'you trained',
+    'your architecture',
+    'your system',
+    'your database',
+    'your data',
+    'your sources',
+    'your model',
+  ];
+
+  // Secondary keywords that, when combined with context, indicate training questions
+  const secondaryKeywords = [
+    'openai',
+    'gpt',
+    'chatgpt',
+    'language model',
+    'llm',
+    'retrieval',
+    'rag',
+    'embeddings',
+    'vector',
+    'nlp',
+    'natural language processing',
+  ];
+
+  // Check for primary phrases first (more reliable)
+  if (primaryPhrases.some(phrase => queryLower.includes(phrase))) {
+    return true;
+  }
+
+  // Check for secondary keywords (only if they appear in a question context)
+  // This helps avoid false positives from casual mentions
+  const hasSecondaryKeyword = secondaryKeywords.some(keyword => queryLower.includes(keyword));
+  const looksLikeQuestion = queryLower.includes('?') ||
+                            queryLower.startsWith('what') ||
+                            queryLower.startsWith('how') ||
+                            queryLower.startsWith('who') ||
+                            queryLower.startsWith('where') ||
+                            queryLower.startsWith('which');
+
+  return hasSecondaryKeyword && looksLikeQuestion;
+}
+
+/**
+ * Questions about credit card concepts ("What is APR?", "How do points work?")
+ */
+function isGeneralAttributeQuestion(userQuery: string): boolean {
+  // Patterns that indicate general attribute questions
+  const generalPatterns = [
+    /^what is\s+/i,                  // "What is cash back?"
+    /^what's\s+/i,                    // "What's APR?"
+    /^what are\s+/i,                  // "What are credit card rewards?"
+    /^how do\s+/i,                    // "How do points work?"
+    /^how does\s+/i,                  // "How does APR work?"
+    /^explain\s+/i,                   // "Explain APR"
+    /^can you explain\s+/i,           // "Can you explain cash back?"
+    /^tell me about\s+(apr|annual fee|cash back|points|miles|rewards|interest)/i, // "Tell me about APR"
+    /^what does\s+/i,                 // "What does APR mean?"
+    /^define\s+/i,                    // "Define APR"
+    /^history of\s+/i,                // "History of credit cards"
+    /^drawbacks of\s+/i,              // "Drawbacks of high APR"
+    /what's the difference between.*and/i, // "What's the difference between cash back and points?"
+  ];
+
+  return generalPatterns.some(pattern => pattern.test(userQuery.trim()));
+}
+
+/**
+ * Asks for card recommendations rather than about one card or a concept
+ */
+function isRecommendationRequest(userQuery: string): boolean {
+  const query = userQuery.toLowerCase();
+  return (
+    /\b(best|top|recommend|recommended|suggest|good|great)\b.*\bcards?\b/.test(query) ||
+    /\b(best|top)\b.*\bcard (for|to|with)\b/.test(query) ||
+    /\b(which|what) (credit )?card (should|would|do) i\b/.test(query) ||
+    /\b(show|find|give|list)( me)?\b.*\bcards\b/.test(query) ||
+    /^(credit )?cards (for|with|that)\b/.test(query)
+  );
+}
+
+/**
+ * Mentions credit card vocabulary, so the question is on-topic
+ */
+function mentionsCreditCards(userQuery: string): boolean {
+  return /\b(credit|cards?|apr|annual fee|cash ?back|points|miles|rewards?|balance transfer|issuer|amex|visa|mastercard)\b/i.test(userQuery);
+}
+
+/**
+ * 1-based card positions referenced in the question ("card 2", "the third one", "#1")
+ */
+export function extractPreviousCardIndices(userQuery: string, previousCount: number): number[] {
+  const query = userQuery.toLowerCase();
+  const positions = new Set<number>();
+
+  for (const match of Array.from(query.matchAll(/\b(?:card|option|number|#)\s*#?(\d)\b|#(\d)\b/g))) {
+    positions.add(parseInt(match[1] || match[2], 10));
+  }
+  for (const match of Array.from(query.matchAll(/\b(first|second|third|fourth|fifth|1st|2nd|3rd|4th|5th)\b(?:\s+(?:one|card|option))?/g))) {
+    positions.add(ORDINALS[match[1]]);
+  }
+  if (/\b(last|final) (one|card|option)\b/.test(query) && previousCount > 0) {
+    positions.add(previousCount);
+  }
+
+  return Array.from(positions)
+    .filter(position => position >= 1 && position <= previousCount)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * References cards that were already shown ("these cards", "the second one")
+ */
+function referencesPreviousCards(userQuery: string, previousRecommendations?: Recommendation[]): boolean {
+  if (!previousRecommendations || previousRecommendations.length === 0) {
+    return false;
+  }
+
+  const previousCardPatterns = [
+    /these cards/i,
+    /any of these/i,
+    /these recommendations/i,
+    /the cards above/i,
+    /the cards you showed/i,
+    /the cards you recommended/i,
+    /which of these/i,
+    /do these cards/i,
+    /do any of these/i,
+    /are these cards/i,
+    /the recommended cards/i,
+    /the cards you mentioned/i,
+    /which of (those|them)/i,
+    /\b(first|second|third|fourth|fifth|last) (one|card|option)\b/i,
+    /\bcard (#\s*)?\d\b/i,
+  ];
+
+  return previousCardPatterns.some(pattern => pattern.test(userQuery));
+}
+
+function buildRoutedQuery(intent: QueryIntent, reason: string, overrides: Partial<RoutedQuery> = {}): RoutedQuery {
+  return {
+    intent,
+    cardNames: [],
+    previousCardIndices: [],
+    filters: {},
+    source: 'rules',
+    reason,
+    ...overrides,
+  };
+}
+
+/**
+ * Deterministic fast path. Returns null when the question needs the model.
+ */
+export function routeWithRules(userQuery: string, previousRecommendations?: Recommendation[]): RoutedQuery | null {
+  if (isTrainingQuestion(userQuery)) {
+    return buildRoutedQuery('training', 'Question about chatbot architecture/training');
+  }
+
+  if (referencesPreviousCards(userQuery, previousRecommendations)) {
+    return buildRoutedQuery('previous_cards', 'References previously shown cards', {
+      previousCardIndices: extractPreviousCardIndices(userQuery, previousRecommendations!.length),
+    });
+  }
+
+  if (isWalletQuery(userQuery)) {
+    return buildRoutedQuery('wallet', 'Asks for cards to use together', {
+      filters: extractFiltersWithRules(userQuery),
+    });
+  }
+
+  const isRecommendation = isRecommendationRequest(userQuery);
+
+  const filters = extractFiltersWithRules(userQuery);
+
+  // "What are the benefits of the Amex Gold?" names a card, so only issuer-free questions are concepts
+  if (isGeneralAttributeQuestion(userQuery) && !isRecommendation && !filters.issuer && mentionsCreditCards(userQuery)) {
+    return buildRoutedQuery('general_attribute', 'Question about a credit card concept');
+  }
+
+  // "Best cards for X" names no single card; anything that might name one goes to the model
+  if (isRecommendation && /\bcards\b/i.test(userQuery)) {
+    return buildRoutedQuery('recommendations', 'Asks for card recommendations', { filters });
+  }
+
+  return null;
+}
+
+/**
+ * Turns the model's JSON into a RoutedQuery, correcting impossible combinations
+ */
+export function parseRouterResponse(
+  content: string,
+  userQuery: string,
+  previousRecommendations?: Recommendation[]
+): RoutedQuery {
+  const raw = JSON.parse(content || '{}') as Record<string, unknown>;
+  const previousCount = previousRecommendations?.length || 0;
+
+  let intent: QueryIntent = QUERY_INTENTS.includes(raw.intent as QueryIntent)
+    ? (raw.intent as QueryIntent)
+    : 'recommendations';
+
+  const cardNames = Array.isArray(raw.card_names)
+    ? raw.card_names.filter((name): name is string => typeof name === 'string' && name.trim().length > 0).map(name => name.trim())
+    : [];
+
+  const previousCardIndices = Array.isArray(raw.previous_card_indices)
+    ? Array.from(new Set(raw.previous_card_indices.filter(
+        (index): index is number => Number.isInteger(index) && index >= 1 && index <= previousCount
+      ))).sort((a, b) => a - b)
+    : [];
+
+  // Only the rules decide training questions; the model can't reference cards that weren't shown
+  if (intent === 'training') intent = 'recommendations';
+  if (intent === 'previous_cards' && previousCount === 0) intent = 'recommendations';
+  if (intent === 'specific_card' && cardNames.length === 0) intent = 'recommendations';
+  if (intent === 'recommendations' && isWalletQuery(userQuery)) intent = 'wallet';
+
+  return {
+    intent,
+    cardNames,
+    previousCardIndices,
+    filters: normalizeFilters(raw.filters),
+    source: 'llm',
+    reason: typeof raw.reason === 'string' ? raw.reason : undefined,
+  };
+}
+
+/**
+ * Routes a question with the rule-based fast path, or one structured model call
+ */
+export async function routeQuery(userQuery: string, previousRecommendations?: Recommendation[]): Promise<RoutedQuery> {
+  const ruled = routeWithRules(userQuery, previousRecommendations);
+  if (ruled) {
+    log.info(`[ROUTER] Fast path: ${ruled.intent} (${ruled.reason})`);
+    return ruled;
+  }
+
+  const previousCards = previousRecommendations && previousRecommendations.length > 0
+    ? previousRecommendations.map((rec, i) => `${i + 1}. ${rec.credit_card_name}`).join('\n')
+    : 'None';
+
+  const systemPrompt = `You route questions for a credit card assistant. Classify the user's question and extract its details in one JSON object:
+{
+  "intent": "off_topic" | "general_attribute" | "previous_cards" | "specific_card" | "wallet" | "recommendations",
+  "card_names": ["card names mentioned, as written"],
+  "previous_card_indices": [1-based numbers of previously shown cards the question refers to],
+  "filters": { optional filter fields },
+  "reason": "brief explanation"
+}
+
+Intents:
+- off_topic: not about credit cards (weather, sports, general knowledge). APR, fees, points, credit scores and issuers ARE credit card topics.
+- general_attribute: asks what a concept means or how it works ("What is APR?", "How do points work?"), not for cards
+- previous_cards: asks about cards already shown ("which of these has no fee?", "tell me more about the second one")
+- specific_card: asks about ONE card by name ("Tell me about the Chase Sapphire Preferred", "Amex Gold benefits")
+- wallet: asks which cards to use together ("best 2-card combo")
+- recommendations: asks for cards ("best travel cards", "Show me the best Chase cards", "which card should I get?")
+
+Filter fields (only include what the user explicitly asks for):
+${FILTER_FIELDS_PROMPT}
+
+Previously shown cards:
+${previousCards}
+
+Examples:
+"What's the weather?" → {"intent": "off_topic", "card_names": [], "previous_card_indices": [], "filters": {}}
+"What is APR?" → {"intent": "general_attribute", "card_names": [], "previous_card_indices": [], "filters": {}}
+"Tell me more about card 2" → {"intent": "previous_cards", "card_names": [], "previous_card_indices": [2], "filters": {}}
+"Show me details about Amex Gold" → {"intent": "specific_card", "card_names": ["Amex Gold"], "previous_card_indices": [], "filters": {}}
+"Best Chase travel card under $100 annual fee" → {"intent": "recommendations", "card_names": [], "previous_card_indices": [], "filters": {"issuer": ["Chase"], "cardType": ["travel"], "annualFeeMax": 100}}`;
+
+  try {
+    const response = await getLLMProvider().chatJSON(
+      [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userQuery },
+      ],
+      { model: MODELS.fast, temperature: 0, maxTokens: 300, timeoutMs: FAST_CALL_TIMEOUT_MS, usageStep: 'routing' }
+    );
+
+    const routed = parseRouterResponse(response.content, userQuery, previousRecommendations);
+    log.info(`[ROUTER] Model: ${routed.intent} (${routed.reason || 'no reason given'})`, {
+      cardNames: routed.cardNames,
+      previousCardIndices: routed.previousCardIndices,
+      filters: routed.filters,
+    });
+    return routed;
+  } catch (error) {
+    log.error('[ROUTER] Error routing question, falling back to recommendations:', error);
+    return buildRoutedQuery('recommendations', 'Router unavailable', {
+      filters: extractFiltersWithRules(userQuery),
+      source: 'fallback',
+    });
+  }
+}
+
+/**
+ * Recommendations a previous_cards question is about (all of them when none are singled out)
+ */
+export function selectPreviousCards(routed: RoutedQuery, previousRecommendations: Recommendation[]): Recommendation[] {
+  if (routed.previousCardIndices.length === 0) {
+    return previousRecommendations;
+  }
+  return routed.previousCardIndices.map(position => previousRecommendations[position - 1]);
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { buildBM25Index, cardToDocument, reciprocalRankFusion, searchBM25, tokenize } from './lexicalSearch';
+import { CreditCard } from '@/types';
+
+function makeCard(id: string, name: string, rewards: string): CreditCard {
+  const row: Record<string, unknown> = {
+    id,
+    credit_card_name: name,
+    url_application: `https://example.com/${id}`,
+    rewards,
+  };
+  return row as CreditCard;
+}
+
+const cards = [
+  makeCard('bilt', 'Bilt Mastercard', '3x points on dining, 1x on rent'),
+  makeCard('venture-x', 'Capital One Venture X', '10x miles on hotels booked through travel portal'),
+  makeCard('gas', 'Costco Anywhere Visa', '4% cash back on gas, 3% on restaurants'),
+  makeCard('plain', 'Simple Cash Card', '1.5% cash back on everything'),
+];
+
+describe('tokenize', () => {
+  it('should keep percentages and drop stopwords', () => {
+    expect(tokenize('Best card with 3% on gas')).toEqual(['3%', 'gas']);
+  });
+});
+
+describe('searchBM25', () => {
+  const index = buildBM25Index(cards.map(cardToDocument));
+
+  it('should rank exact name matches first', () => {
+    expect(searchBM25(index, 'Bilt')[0].id).toBe('bilt');
+    expect(searchBM25(index, 'venture x')[0].id).toBe('venture-x');
+  });
+
+  it('should match keywords in any field', () => {
+    expect(searchBM25(index, '4% on gas')[0].id).toBe('gas');
+  });
+
+  it('should only return allowed ids', () => {
+    const results = searchBM25(index, 'cash back', new Set(['plain']));
+    expect(results.map(result => result.id)).toEqual(['plain']);
+  });
+
+  it('should return nothing for queries without matches', () => {
+    expect(searchBM25(index, 'airport lounge')).toEqual([]);
+  });
+});
+
+describe('reciprocalRankFusion', () => {
+  it('should use only the vector ranking at weight 0', () => {
+    const fused = reciprocalRankFusion(['a', 'b'], ['b'], 0);
+    expect(fused[0].id).toBe('a');
+  });
+
+  it('should promote items found by both rankings', () => {
+    const fused = reciprocalRankFusion(['a', 'b', 'c'], ['c'], 0.5);
+    expect(fused[0].id).toBe('c');
+  });
+});
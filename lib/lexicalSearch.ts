@@ -0,0 +1,156 @@
+/**
+ * Keyword retrieval for hybrid search.
+ *
+ * A small BM25 index over every card field, used next to the embedding
+ * index so exact names and keywords ("Bilt", "Venture X", "3% on gas")
+ * match even when the truncated embedding text misses them. The two
+ * rankings are combined with reciprocal rank fusion.
+ */
+
+import { CreditCard } from '@/types';
+
+export interface BM25Document {
+  id: string;
+  tokens: string[];
+}
+
+export interface BM25Index {
+  documents: { id: string; termFrequencies: Map<string, number>; length: number }[];
+  documentFrequencies: Map<string, number>;
+  averageLength: number;
+}
+
+export interface ScoredId {
+  id: string;
+  score: number;
+}
+
+// Standard BM25 parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Name tokens are repeated so a name match outweighs the same word in a description
+const NAME_BOOST = 3;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'best', 'by', 'card', 'cards', 'credit', 'for', 'from',
+  'i', 'in', 'is', 'it', 'me', 'my', 'of', 'on', 'or', 'that', 'the', 'to', 'what', 'which', 'with',
+]);
+
+// Columns that are not useful as keywords
+const SKIPPED_FIELDS = new Set(['id', 'url_application', 'reward_multipliers', 'top_card', 'has_annual_fee']);
+
+/**
+ * Lowercases and splits text into keyword tokens.
+ * Percentages and multipliers ("3%", "5x") are kept as single tokens.
+ */
+export function tokenize(text: string): string[] {
+  const tokens = text.toLowerCase().match(/[a-z0-9]+%?/g) || [];
+  return tokens.filter(token => !STOPWORDS.has(token));
+}
+
+/**
+ * Builds the searchable tokens for a card from all of its fields
+ */
+export function cardToDocument(card: CreditCard): BM25Document {
+  const nameTokens = tokenize(card.credit_card_name || '');
+  const tokens: string[] = [];
+
+  for (let i = 0; i < NAME_BOOST; i++) {
+    tokens.push(...nameTokens);
+  }
+
+  for (const [field, value] of Object.entries(card)) {
+    if (field === 'credit_card_name' || SKIPPED_FIELDS.has(field)) continue;
+    if (typeof value === 'string' || typeof value === 'number') {
+      tokens.push(...tokenize(String(value)));
+    }
+  }
+
+  return { id: card.id, tokens };
+}
+
+/**
+ * Builds a BM25 index over the given documents
+ */
+export function buildBM25Index(documents: BM25Document[]): BM25Index {
+  const documentFrequencies = new Map<string, number>();
+  let totalLength = 0;
+
+  const indexed = documents.map(doc => {
+    const termFrequencies = new Map<string, number>();
+    for (const token of doc.tokens) {
+      termFrequencies.set(token, (termFrequencies.get(token) || 0) + 1);
+    }
+    for (const term of Array.from(termFrequencies.keys())) {
+      documentFrequencies.set(term, (documentFrequencies.get(term) || 0) + 1);
+    }
+    totalLength += doc.tokens.length;
+    return { id: doc.id, termFrequencies, length: doc.tokens.length };
+  });
+
+  return {
+    documents: indexed,
+    documentFrequencies,
+    averageLength: indexed.length > 0 ? totalLength / indexed.length : 0,
+  };
+}
+
+/**
+ * Scores documents against a query, best first.
+ * Only documents matching at least one query term are returned.
+ * If allowedIds is provided, only those documents are scored.
+ */
+export function searchBM25(index: BM25Index, query: string, allowedIds?: Set<string>): ScoredId[] {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0) return [];
+
+  const totalDocs = index.documents.length;
+  const results: ScoredId[] = [];
+
+  for (const doc of index.documents) {
+    if (allowedIds && !allowedIds.has(doc.id)) continue;
+
+    let score = 0;
+    for (const term of queryTerms) {
+      const frequency = doc.termFrequencies.get(term);
+      if (!frequency) continue;
+
+      const docFrequency = index.documentFrequencies.get(term) || 0;
+      const idf = Math.log(1 + (totalDocs - docFrequency + 0.5) / (docFrequency + 0.5));
+      const lengthNorm = 1 - BM25_B + BM25_B * (doc.length / (index.averageLength || 1));
+      score += idf * (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * lengthNorm);
+    }
+
+    if (score > 0) {
+      results.push({ id: doc.id, score });
+    }
+  }
+
+  return results.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Weighted reciprocal rank fusion of a vector ranking and a lexical ranking.
+ * lexicalWeight is between 0 (vector only) and 1 (lexical only); ids missing
+ * from a ranking get no contribution from it.
+ */
+export function reciprocalRankFusion(
+  vectorRanking: string[],
+  lexicalRanking: string[],
+  lexicalWeight: number,
+  k: number = 60
+): ScoredId[] {
+  const weight = Math.min(Math.max(lexicalWeight, 0), 1);
+  const scores = new Map<string, number>();
+
+  vectorRanking.forEach((id, rank) => {
+    scores.set(id, (scores.get(id) || 0) + (1 - weight) / (k + rank + 1));
+  });
+  lexicalRanking.forEach((id, rank) => {
+    scores.set(id, (scores.get(id) || 0) + weight / (k + rank + 1));
+  });
+
+  return Array.from(scores.entries())
+    .map(([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score);
+}
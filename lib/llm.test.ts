@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { createReplayProvider, fixtureKey, syntheticEmbedding } from './llm';
+
+describe('fixtureKey', () => {
+  it('should be stable for identical requests', () => {
+    const messages = [{ role: 'user', content: 'best travel card?' }];
+    expect(fixtureKey('chatJSON', 'gpt-4o-mini', messages)).toBe(fixtureKey('chatJSON', 'gpt-4o-mini', messages));
+  });
+
+  it('should differ by kind and model', () => {
+    const messages = [{ role: 'user', content: 'best travel card?' }];
+    const key = fixtureKey('chatJSON', 'gpt-4o-mini', messages);
+    expect(fixtureKey('chat', 'gpt-4o-mini', messages)).not.toBe(key);
+    expect(fixtureKey('chatJSON', 'gpt-4o', messages)).not.toBe(key);
+  });
+});
+
+describe('syntheticEmbedding', () => {
+  it('should be deterministic and normalized', () => {
+    const a = syntheticEmbedding('travel rewards card');
+    const b = syntheticEmbedding('travel rewards card');
+    const norm = Math.sqrt(a.reduce((sum, v) => sum + v * v, 0));
+
+    expect(a).toEqual(b);
+    expect(a).toHaveLength(1536);
+    expect(norm).toBeCloseTo(1, 6);
+  });
+
+  it('should place texts that share words closer together', () => {
+    const dot = (x: number[], y: number[]) => x.reduce((sum, v, i) => sum + v * y[i], 0);
+    const query = syntheticEmbedding('no annual fee travel card');
+
+    expect(dot(query, syntheticEmbedding('travel card with no annual fee')))
+      .toBeGreaterThan(dot(query, syntheticEmbedding('secured student starter')));
+  });
+});
+
+describe('createReplayProvider', () => {
+  it('should fall back to an empty JSON object when nothing is recorded', async () => {
+    const provider = createReplayProvider();
+    const result = await provider.chatJSON([{ role: 'user', content: 'unrecorded question' }], { model: 'test-model' });
+
+    expect(result.content).toBe('{}');
+    expect(result.model).toBe('test-model');
+  });
+
+  it('should return one embedding per input', async () => {
+    const provider = createReplayProvider();
+    const result = await provider.embed(['first', 'second'], { model: 'test-embedding' });
+
+    expect(result.embeddings).toHaveLength(2);
+    expect(result.embeddings[0]).toEqual(syntheticEmbedding('first'));
+  });
+});
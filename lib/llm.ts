@@ -0,0 +1,473 @@
+import OpenAI from 'openai';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LLMConfigurationError } from './errors';
+import { createResilientProvider } from './resilience';
+import { createLogger } from './logger';
+import { withSpan } from './tracing';
+import { SpanAttributes } from './traceContext';
+import { applyBudgetGuard, recordUsage } from './usage';
+
+/**
+ * LLM provider abstraction.
+ *
+ * All chat, JSON-mode chat and embedding calls go through getLLMProvider(),
+ * selected with LLM_PROVIDER:
+ * - `openai` (default): calls the OpenAI API
+ * - `record`: calls OpenAI and saves every response to the fixtures file
+ * - `replay`: answers from the fixtures file without network access or an API key
+ *
+ * Network-backed providers are wrapped with lib/resilience.ts (timeouts,
+ * retries, circuit breaker), every call is recorded as a trace span, and its
+ * token usage is priced and checked against the daily budget (lib/usage.ts).
+ */
+
+export type LLMProviderName = 'openai' | 'record' | 'replay';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  prediction?: string; // Predicted output content (OpenAI "prediction" parameter)
+  timeoutMs?: number; // Overrides LLM_TIMEOUT_MS for this call
+  signal?: AbortSignal; // Set by lib/resilience.ts to cancel timed-out requests
+  usageStep?: string; // Pipeline step the call is billed to in usage reports (default "other")
+  onPartial?: (contentSoFar: string) => void; // Streams the response; restarts from '' if the call is retried
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ChatResult {
+  content: string;
+  model: string;
+  usage?: LLMUsage;
+}
+
+export interface EmbedOptions {
+  model?: string;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  usageStep?: string;
+}
+
+export interface EmbedResult {
+  embeddings: number[][];
+  model: string;
+  usage?: LLMUsage;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  /** Free-form chat completion */
+  chat(messages: LLMMessage[], options?: ChatOptions): Promise<ChatResult>;
+  /** Chat completion constrained to a JSON object; content is the raw JSON string */
+  chatJSON(messages: LLMMessage[], options?: ChatOptions): Promise<ChatResult>;
+  /** Embeds each input, preserving order */
+  embed(inputs: string[], options?: EmbedOptions): Promise<EmbedResult>;
+}
+
+/**
+ * Model names by role, overridable through env
+ */
+export const MODELS = {
+  chat: process.env.CHAT_MODEL || 'gpt-3.5-turbo', // Main answer generation
+  fast: process.env.FAST_MODEL || 'gpt-4o-mini', // Classification and filter extraction
+  fallback: process.env.FALLBACK_MODEL || 'gpt-4o', // General knowledge / web search fallback
+  classifier: process.env.CLASSIFIER_MODEL || 'gpt-4', // Legacy /api/chat route
+  embedding: process.env.EMBEDDINGS_MODEL || 'text-embedding-3-small',
+};
+
+/**
+ * Timeout for fast classification calls that have a rule-based fallback
+ */
+export const FAST_CALL_TIMEOUT_MS = parseInt(process.env.LLM_FAST_TIMEOUT_MS || '10000', 10);
+
+const log = createLogger('llm');
+
+const LLM_FIXTURES_FILE = path.join(
+  process.cwd(),
+  process.env.LLM_FIXTURES_PATH || path.join('data', 'llm-fixtures.json')
+);
+
+// Dimension of text-embedding-3-small, so synthetic vectors line up with recorded ones
+const REPLAY_EMBEDDING_DIMENSIONS = 1536;
+
+/**
+ * Lazy-loaded OpenAI client to ensure environment variables are loaded first
+ */
+function getOpenAIClient() {
+  if (!process.env.OPENAI_API_KEY) {
+    throw new LLMConfigurationError('OPENAI_API_KEY is not set. Please check your .env.local file.');
+  }
+  return new OpenAI({
+    apiKey: process.env.OPENAI_API_KEY,
+    maxRetries: 0, // Retries are handled by lib/resilience.ts
+  });
+}
+
+function toUsage(usage?: { prompt_tokens: number; completion_tokens?: number; total_tokens: number }): LLMUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens || 0,
+    totalTokens: usage.total_tokens,
+  };
+}
+
+/**
+ * Provider backed by the OpenAI API
+ */
+export function createOpenAIProvider(): LLMProvider {
+  const complete = async (messages: LLMMessage[], options: ChatOptions, json: boolean): Promise<ChatResult> => {
+    const openai = getOpenAIClient();
+    const model = options.model || MODELS.chat;
+    const request = {
+      model,
+      messages,
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      ...(json ? { response_format: { type: 'json_object' as const } } : {}),
+      ...(options.prediction
+        ? { prediction: { type: 'content' as const, content: options.prediction } }
+        : {}),
+    };
+
+    if (options.onPartial) {
+      // Usage arrives in the last chunk
+      const stream = await openai.chat.completions.create(
+        { ...request, stream: true, stream_options: { include_usage: true } },
+        { signal: options.signal }
+      );
+      let content = '';
+      let usage: LLMUsage | undefined;
+      let responseModel = model;
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          options.onPartial(content);
+        }
+        usage = toUsage(chunk.usage ?? undefined) || usage;
+        responseModel = chunk.model || responseModel;
+      }
+      return { content, model: responseModel, usage };
+    }
+
+    const completion = await openai.chat.completions.create(request, { signal: options.signal });
+
+    return {
+      content: completion.choices[0]?.message?.content || '',
+      model: completion.model || model,
+      usage: toUsage(completion.usage),
+    };
+  };
+
+  return {
+    name: 'openai',
+    chat: (messages, options = {}) => complete(messages, options, false),
+    chatJSON: (messages, options = {}) => complete(messages, options, true),
+    async embed(inputs, options = {}) {
+      const openai = getOpenAIClient();
+      const model = options.model || MODELS.embedding;
+      const response = await openai.embeddings.create({
+        model,
+        input: inputs,
+      }, { signal: options.signal });
+      return {
+        embeddings: response.data.map((item) => item.embedding),
+        model,
+        usage: toUsage(response.usage),
+      };
+    },
+  };
+}
+
+// ============================================================
+// Fixtures (record / replay)
+// ============================================================
+
+interface LLMFixtureEntry {
+  kind: 'chat' | 'chatJSON' | 'embed';
+  model: string;
+  content?: string;
+  embedding?: number[];
+}
+
+interface LLMFixtureFile {
+  version: number;
+  entries: Record<string, LLMFixtureEntry>;
+}
+
+let fixturesCache: LLMFixtureFile | null = null;
+
+function loadFixtures(): LLMFixtureFile {
+  if (fixturesCache) return fixturesCache;
+
+  if (fs.existsSync(LLM_FIXTURES_FILE)) {
+    try {
+      fixturesCache = JSON.parse(fs.readFileSync(LLM_FIXTURES_FILE, 'utf-8')) as LLMFixtureFile;
+      log.info(`[LLM] Loaded ${Object.keys(fixturesCache.entries).length} fixtures from ${LLM_FIXTURES_FILE}`);
+      return fixturesCache;
+    } catch (error) {
+      log.error('[LLM] Error reading fixtures file, starting empty:', error);
+    }
+  }
+
+  fixturesCache = { version: 1, entries: {} };
+  return fixturesCache;
+}
+
+function saveFixtures(fixtures: LLMFixtureFile): void {
+  const dir = path.dirname(LLM_FIXTURES_FILE);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  fs.writeFileSync(LLM_FIXTURES_FILE, JSON.stringify(fixtures, null, 2));
+}
+
+/**
+ * Stable key for a request. Sampling options (temperature, max tokens) are
+ * left out so small tuning changes don't invalidate recorded fixtures.
+ */
+export function fixtureKey(kind: LLMFixtureEntry['kind'], model: string, payload: unknown): string {
+  return createHash('sha256')
+    .update(JSON.stringify({ kind, model, payload }))
+    .digest('hex');
+}
+
+/**
+ * Deterministic bag-of-words embedding used when replay has no recorded vector.
+ * Texts sharing words end up close together, which keeps similarity search meaningful.
+ */
+export function syntheticEmbedding(text: string, dimensions: number = REPLAY_EMBEDDING_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const words = text.toLowerCase().match(/[a-z0-9]+/g) || [];
+
+  for (const word of words) {
+    const digest = createHash('md5').update(word).digest();
+    vector[digest.readUInt32BE(0) % dimensions] += 1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  if (norm === 0) {
+    vector[0] = 1;
+    return vector;
+  }
+  return vector.map((v) => v / norm);
+}
+
+/**
+ * Provider that answers from recorded fixtures.
+ * Misses fall back to deterministic stand-ins ('{}' for JSON, a synthetic
+ * embedding for vectors) unless LLM_REPLAY_STRICT=true, in which case they throw.
+ */
+export function createReplayProvider(): LLMProvider {
+  const strict = process.env.LLM_REPLAY_STRICT === 'true';
+
+  const lookup = (kind: LLMFixtureEntry['kind'], model: string, payload: unknown): LLMFixtureEntry | undefined => {
+    const entry = loadFixtures().entries[fixtureKey(kind, model, payload)];
+    if (!entry && strict) {
+      throw new Error(`[LLM REPLAY] No fixture recorded for ${kind} request (model: ${model})`);
+    }
+    if (!entry) {
+      log.warn(`[LLM REPLAY] No fixture for ${kind} request (model: ${model}), using fallback`);
+    }
+    return entry;
+  };
+
+  return {
+    name: 'replay',
+    async chat(messages, options = {}) {
+      const model = options.model || MODELS.chat;
+      const entry = lookup('chat', model, messages);
+      const content = entry?.content ?? 'No recorded response is available for this question.';
+      options.onPartial?.(content);
+      return { content, model };
+    },
+    async chatJSON(messages, options = {}) {
+      const model = options.model || MODELS.chat;
+      const entry = lookup('chatJSON', model, messages);
+      const content = entry?.content ?? '{}';
+      options.onPartial?.(content);
+      return { content, model };
+    },
+    async embed(inputs, options = {}) {
+      const model = options.model || MODELS.embedding;
+      const embeddings = inputs.map((input) => {
+        const entry = lookup('embed', model, input);
+        return entry?.embedding ?? syntheticEmbedding(input);
+      });
+      return { embeddings, model };
+    },
+  };
+}
+
+/**
+ * Provider that calls OpenAI and records every response for later replay
+ */
+export function createRecordingProvider(inner: LLMProvider = createOpenAIProvider()): LLMProvider {
+  const record = (key: string, entry: LLMFixtureEntry) => {
+    const fixtures = loadFixtures();
+    fixtures.entries[key] = entry;
+    saveFixtures(fixtures);
+  };
+
+  return {
+    name: 'record',
+    async chat(messages, options = {}) {
+      const model = options.model || MODELS.chat;
+      const result = await inner.chat(messages, { ...options, model });
+      record(fixtureKey('chat', model, messages), { kind: 'chat', model, content: result.content });
+      return result;
+    },
+    async chatJSON(messages, options = {}) {
+      const model = options.model || MODELS.chat;
+      const result = await inner.chatJSON(messages, { ...options, model });
+      record(fixtureKey('chatJSON', model, messages), { kind: 'chatJSON', model, content: result.content });
+      return result;
+    },
+    async embed(inputs, options = {}) {
+      const model = options.model || MODELS.embedding;
+      const result = await inner.embed(inputs, { ...options, model });
+      const fixtures = loadFixtures();
+      inputs.forEach((input, i) => {
+        fixtures.entries[fixtureKey('embed', model, input)] = {
+          kind: 'embed',
+          model,
+          embedding: result.embeddings[i],
+        };
+      });
+      saveFixtures(fixtures);
+      return result;
+    },
+  };
+}
+
+// ============================================================
+// Tracing
+// ============================================================
+
+/**
+ * Records a span per call (covering retries) with the model and token usage,
+ * using the OpenTelemetry gen_ai attribute names
+ */
+export function createTracedProvider(inner: LLMProvider): LLMProvider {
+  const traced = <T extends ChatResult | EmbedResult>(
+    operation: 'chat' | 'embeddings',
+    model: string,
+    attributes: SpanAttributes,
+    call: () => Promise<T>
+  ) =>
+    withSpan(`${operation} ${model}`, {
+      'gen_ai.system': 'openai',
+      'gen_ai.operation.name': operation,
+      'gen_ai.request.model': model,
+      'llm.provider': inner.name,
+      ...attributes,
+    }, async span => {
+      const result = await call();
+      span.setAttributes({
+        'gen_ai.response.model': result.model,
+        'gen_ai.usage.input_tokens': result.usage?.promptTokens,
+        'gen_ai.usage.output_tokens': result.usage?.completionTokens,
+      });
+      return result;
+    });
+
+  return {
+    name: inner.name,
+    chat: (messages, options = {}) =>
+      traced('chat', options.model || MODELS.chat, { 'llm.json': false, 'llm.messages': messages.length }, () => inner.chat(messages, options)),
+    chatJSON: (messages, options = {}) =>
+      traced('chat', options.model || MODELS.chat, { 'llm.json': true, 'llm.messages': messages.length }, () => inner.chatJSON(messages, options)),
+    embed: (inputs, options = {}) =>
+      traced('embeddings', options.model || MODELS.embedding, { 'llm.inputs': inputs.length }, () => inner.embed(inputs, options)),
+  };
+}
+
+// ============================================================
+// Usage metering
+// ============================================================
+
+/**
+ * Prices every call's token usage, and applies the daily budget guard to chat
+ * calls before they are made (which may switch the model or refuse the call)
+ */
+export function createMeteredProvider(inner: LLMProvider): LLMProvider {
+  const meteredChat = async (call: LLMProvider['chat'], messages: LLMMessage[], options: ChatOptions = {}) => {
+    const model = await applyBudgetGuard(options.model || MODELS.chat);
+    const result = await call(messages, { ...options, model });
+    await recordUsage(options.usageStep, result.model, result.usage);
+    return result;
+  };
+
+  return {
+    name: inner.name,
+    chat: (messages, options) => meteredChat(inner.chat, messages, options),
+    chatJSON: (messages, options) => meteredChat(inner.chatJSON, messages, options),
+    embed: async (inputs, options = {}) => {
+      const result = await inner.embed(inputs, options);
+      await recordUsage(options.usageStep, result.model, result.usage);
+      return result;
+    },
+  };
+}
+
+// ============================================================
+// Provider selection
+// ============================================================
+
+let providerOverride: LLMProvider | null = null;
+let providerCache: LLMProvider | null = null;
+
+function getConfiguredProviderName(): LLMProviderName {
+  const name = (process.env.LLM_PROVIDER || 'openai').toLowerCase();
+  if (name === 'replay' || name === 'record' || name === 'openai') {
+    return name;
+  }
+  log.warn(`[LLM] Unknown LLM_PROVIDER "${name}", using openai`);
+  return 'openai';
+}
+
+/**
+ * Returns the provider selected by LLM_PROVIDER (or the one set with setLLMProvider)
+ */
+export function getLLMProvider(): LLMProvider {
+  if (providerOverride) return providerOverride;
+  if (providerCache) return providerCache;
+
+  const name = getConfiguredProviderName();
+  providerCache = createMeteredProvider(createTracedProvider(
+    name === 'replay' ? createReplayProvider() :
+    name === 'record' ? createResilientProvider(createRecordingProvider()) :
+    createResilientProvider(createOpenAIProvider())
+  ));
+
+  log.info(`[LLM] Using ${providerCache.name} provider`);
+  return providerCache;
+}
+
+/**
+ * Overrides the active provider (tests, scripts). Pass null to restore env selection.
+ */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  providerOverride = provider && createMeteredProvider(createTracedProvider(provider));
+}
+
+/**
+ * Whether the active provider has what it needs to run (an API key, unless replaying)
+ */
+export function isLLMConfigured(): boolean {
+  const name = providerOverride?.name || getConfiguredProviderName();
+  return name === 'replay' || !!process.env.OPENAI_API_KEY;
+}
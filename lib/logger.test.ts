@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { buildLogEntry } from './logger';
+import { runWithTrace } from './tracing';
+
+const now = new Date('2026-01-01T00:00:00.000Z');
+
+describe('buildLogEntry', () => {
+  it('should split a leading tag from the message', () => {
+    expect(buildLogEntry('info', 'rag', '[STEP 5] User wants credit card recommendations', [], now)).toEqual({
+      time: '2026-01-01T00:00:00.000Z',
+      level: 'info',
+      scope: 'rag',
+      tag: 'STEP 5',
+      message: 'User wants credit card recommendations',
+    });
+  });
+
+  it('should put errors and extra details in their own fields', () => {
+    const error = new Error('offline');
+    const entry = buildLogEntry('error', 'router', 'Routing failed:', [error, { intent: 'recommendations' }], now);
+    expect(entry.error).toMatchObject({ name: 'Error', message: 'offline' });
+    expect(entry.data).toEqual({ intent: 'recommendations' });
+    expect(buildLogEntry('debug', 'rag', 'Cards:', ['a', 'b'], now).data).toEqual(['a', 'b']);
+  });
+
+  it('should include the trace and span IDs inside a trace', async () => {
+    const outside = buildLogEntry('info', 'rag', 'hello', [], now);
+    expect(outside.traceId).toBeUndefined();
+
+    const inside = await runWithTrace('request', {}, async span => {
+      const entry = buildLogEntry('info', 'rag', 'hello', [], now);
+      return { entry, span };
+    });
+    expect(inside.entry.traceId).toBe(inside.span.traceId);
+    expect(inside.entry.spanId).toBe(inside.span.spanId);
+  });
+});
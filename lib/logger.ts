@@ -0,0 +1,106 @@
+import { getTraceContext } from './traceContext';
+
+/**
+ * Leveled logger for server code.
+ *
+ * Each module creates its own logger with createLogger(scope). Lines inside a
+ * request carry its trace and span IDs, so one query's logs can be found on a
+ * busy server. Configure with:
+ * - LOG_LEVEL: `debug`, `info` (default), `warn` or `error`
+ * - LOG_FORMAT: `json` (one object per line; default in production) or `pretty`
+ *
+ * A leading "[TAG]" in a message becomes the `tag` field in JSON output.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogEntry {
+  time: string;
+  level: LogLevel;
+  scope: string;
+  tag?: string;
+  message: string;
+  traceId?: string;
+  spanId?: string;
+  data?: unknown;
+  error?: { name: string; message: string; stack?: string };
+}
+
+export interface Logger {
+  debug(message: string, ...details: unknown[]): void;
+  info(message: string, ...details: unknown[]): void;
+  warn(message: string, ...details: unknown[]): void;
+  error(message: string, ...details: unknown[]): void;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+/**
+ * Configuration for logging
+ */
+const LOG_LEVEL = (process.env.LOG_LEVEL || 'info').toLowerCase() as LogLevel;
+const LOG_FORMAT = process.env.LOG_FORMAT || (process.env.NODE_ENV === 'production' ? 'json' : 'pretty');
+
+function serializeError(error: Error): LogEntry['error'] {
+  return { name: error.name, message: error.message, stack: error.stack };
+}
+
+/**
+ * Builds the structured entry for a log call. Errors among the details go to
+ * `error`; the remaining details go to `data` (as an array when there are several).
+ */
+export function buildLogEntry(level: LogLevel, scope: string, message: string, details: unknown[], now: Date = new Date()): LogEntry {
+  const tagMatch = message.match(/^\[([^\]]+)\]\s*/);
+  const entry: LogEntry = {
+    time: now.toISOString(),
+    level,
+    scope,
+    ...(tagMatch ? { tag: tagMatch[1] } : {}),
+    message: tagMatch ? message.slice(tagMatch[0].length) : message,
+  };
+
+  const context = getTraceContext();
+  if (context) {
+    entry.traceId = context.traceId;
+    entry.spanId = context.spanId;
+  }
+
+  const error = details.find((detail): detail is Error => detail instanceof Error);
+  const data = details.filter(detail => detail !== error);
+  if (error) entry.error = serializeError(error);
+  if (data.length === 1) entry.data = data[0];
+  if (data.length > 1) entry.data = data;
+
+  return entry;
+}
+
+function write(level: LogLevel, scope: string, message: string, details: unknown[]): void {
+  if (LEVEL_ORDER[level] < (LEVEL_ORDER[LOG_LEVEL] ?? LEVEL_ORDER.info)) return;
+  const output = level === 'error' ? console.error : level === 'warn' ? console.warn : console.log;
+
+  if (LOG_FORMAT === 'json') {
+    const entry = buildLogEntry(level, scope, message, details);
+    let line: string;
+    try {
+      line = JSON.stringify(entry);
+    } catch {
+      line = JSON.stringify({ ...entry, data: String(entry.data) }); // Circular data
+    }
+    output(line);
+    return;
+  }
+
+  // Pretty: the message as written, prefixed with the short trace ID inside a request
+  const context = getTraceContext();
+  const prefix = context ? `${context.traceId.substring(0, 8)} ` : '';
+  output(`${prefix}${message}`, ...details);
+}
+
+export function createLogger(scope: string): Logger {
+  return {
+    debug: (message, ...details) => write('debug', scope, message, details),
+    info: (message, ...details) => write('info', scope, message, details),
+    warn: (message, ...details) => write('warn', scope, message, details),
+    error: (message, ...details) => write('error', scope, message, details),
+  };
+}
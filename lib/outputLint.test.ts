@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { fixAsteriskRuns, fixSummaryText, lintResponse, LintRule } from './outputLint';
+import { toTypedCard } from './cardSchema';
+import { CreditCard, RecommendationsResponse } from '@/types';
+
+function makeCard(id: string, fields: Record<string, unknown>): CreditCard {
+  const row: Record<string, unknown> = {
+    id,
+    url_application: `https://example.com/${id}`,
+    ...fields,
+  };
+  return toTypedCard(row) as CreditCard;
+}
+
+const catalog = [
+  makeCard('sapphire', { credit_card_name: 'Chase Sapphire Preferred® Card', annual_fee: '$95' }),
+  makeCard('double', { credit_card_name: 'Citi Double Cash® Card', annual_fee: '$0' }),
+  makeCard('custom', { credit_card_name: 'Citi Custom Cash® Card', annual_fee: '$0' }),
+];
+
+const rec = (name: string, id: string) => ({ credit_card_name: name, apply_url: `https://example.com/${id}`, reason: 'Good card' });
+
+const rulesFound = (report: ReturnType<typeof lintResponse>['report']) => report.issues.map(issue => `${issue.rule}:${issue.fixed}`);
+
+describe('fixAsteriskRuns', () => {
+  it('should collapse names repeated around asterisks and keep bold markdown', () => {
+    expect(fixAsteriskRuns('- Citi Custom Cash® Card****Citi Custom Cash® Card - 5% back')).toBe('- Citi Custom Cash® Card - 5% back');
+    expect(fixAsteriskRuns('**Citi Double Cash® Card**Citi Double Cash® Card - 2% back')).toBe('**Citi Double Cash® Card** - 2% back');
+    expect(fixAsteriskRuns('A **bold** word and a stray ****')).toBe('A **bold** word and a stray ');
+  });
+});
+
+describe('fixSummaryText', () => {
+  it('should remove a card name next to its own link', () => {
+    const text = '- **[Citi Double Cash® Card](https://example.com/double)**Citi Double Cash® Card - 2% back';
+    expect(fixSummaryText(text, ['Citi Double Cash® Card'])).toBe('- **[Citi Double Cash® Card](https://example.com/double)** - 2% back');
+  });
+});
+
+describe('lintResponse', () => {
+  it('should pass a clean response without issues', () => {
+    const response: RecommendationsResponse = {
+      recommendations: [rec('Citi Double Cash® Card', 'double')],
+      summary: 'Try the **[Citi Double Cash® Card](https://example.com/double)** for flat 2% back.',
+    };
+    const { response: linted, report } = lintResponse(response, { userQuery: 'flat cash back card', catalog });
+    expect(report).toEqual({ errors: 0, warnings: 0, fixed: 0, issues: [] });
+    expect(linted).toEqual(response);
+  });
+
+  it('should fix concatenated names and asterisk runs in the summary', () => {
+    const response: RecommendationsResponse = {
+      recommendations: [rec('Citi Custom Cash® Card', 'custom')],
+      summary: '- Citi Custom Cash® Card****Citi Custom Cash® Card - 5% on your top category',
+    };
+    const { response: linted, report } = lintResponse(response, { userQuery: 'groceries', catalog });
+    expect(linted.summary).toBe('- Citi Custom Cash® Card - 5% on your top category');
+    expect(rulesFound(report)).toEqual(['asterisk-run:true']);
+    expect(report.warnings).toBe(1);
+  });
+
+  it('should repair broken links and apply URLs from the catalog', () => {
+    const response: RecommendationsResponse = {
+      recommendations: [{ ...rec('Chase Sapphire Preferred® Card', 'sapphire'), apply_url: 'https://example.com/old' }],
+      summary: 'See [Chase Sapphire Preferred® Card](apply-here), [our guide]() and [Citi Double Cash® Card] (https://example.com/double).',
+    };
+    const { response: linted, report } = lintResponse(response, { userQuery: 'travel card', catalog });
+    expect(linted.recommendations[0].apply_url).toBe('https://example.com/sapphire');
+    expect(linted.summary).toBe('See [Chase Sapphire Preferred® Card](https://example.com/sapphire), our guide and [Citi Double Cash® Card](https://example.com/double).');
+    expect(rulesFound(report)).toEqual([
+      'broken-markdown-link:true',
+      'broken-markdown-link:true',
+      'broken-markdown-link:true',
+      'apply-url-mismatch:true',
+    ]);
+  });
+
+  it('should drop unknown cards and cards that contradict a no-fee request', () => {
+    const response: RecommendationsResponse = {
+      recommendations: [
+        rec('Chase Sapphire Preferred® Card', 'sapphire'),
+        rec('Citi Double Cash® Card', 'double'),
+        rec('Imaginary Rewards Card', 'imaginary'),
+      ],
+      summary: 'Three options.',
+    };
+    const { response: linted, report } = lintResponse(response, { userQuery: 'best card with no annual fee', catalog });
+    expect(linted.recommendations.map(item => item.credit_card_name)).toEqual(['Citi Double Cash® Card']);
+    expect(rulesFound(report)).toEqual(['unknown-card:true', 'fee-contradiction:true']);
+    expect(report.errors).toBe(2);
+  });
+
+  it('should only report when fixes are turned off', () => {
+    const response: RecommendationsResponse = {
+      recommendations: [rec('Chase Sapphire Preferred® Card', 'sapphire')],
+      summary: 'Stray ****',
+    };
+    const { response: linted, report } = lintResponse(response, { userQuery: 'no annual fee please', catalog }, { fix: false });
+    expect(linted).toBe(response);
+    expect(rulesFound(report)).toEqual(['asterisk-run:false', 'fee-contradiction:false']);
+  });
+
+  it('should run custom rules', () => {
+    const shouting: LintRule = {
+      id: 'shouting',
+      severity: 'info',
+      description: 'All-caps summary',
+      check: response => (response.summary && response.summary === response.summary.toUpperCase() ? [{ message: 'Summary is all caps' }] : []),
+      fix: response => ({ ...response, summary: response.summary?.toLowerCase() }),
+    };
+    const { response: linted, report } = lintResponse({ recommendations: [], summary: 'BUY NOW' }, { userQuery: '', catalog }, { rules: [shouting] });
+    expect(linted.summary).toBe('buy now');
+    expect(report.issues).toEqual([{ rule: 'shouting', severity: 'info', message: 'Summary is all caps', fixed: true }]);
+  });
+});
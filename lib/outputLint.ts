@@ -0,0 +1,322 @@
+/**
+ * Output QA lint for generated responses.
+ *
+ * Each rule checks a response for one kind of problem and has a severity;
+ * rules that can repair what they find also have a fixer. lintResponse runs
+ * the rules in order, applies the fixers and re-checks, and returns the fixed
+ * response with a report of what was found.
+ *
+ * Repeated and concatenated card names are detected with
+ * lib/findRepeatedCardNames.ts.
+ */
+
+import { CreditCard, LintIssue, LintReport, LintSeverity, Recommendation, RecommendationsResponse } from '@/types';
+import { cleanConcatenatedCardNames, findRepeatedCardNames } from './findRepeatedCardNames';
+import { CardNameResolver, createCardNameResolver, normalizeCardName } from './cardResolver';
+import { extractFiltersWithRules } from './filters';
+
+export interface LintContext {
+  userQuery: string;
+  catalog: CreditCard[];
+}
+
+export interface LintFinding {
+  message: string;
+  examples?: string[];
+}
+
+export interface LintRule {
+  id: string;
+  severity: LintSeverity;
+  description: string;
+  check(response: RecommendationsResponse, context: LintContext): LintFinding[];
+  fix?(response: RecommendationsResponse, context: LintContext): RecommendationsResponse;
+}
+
+// "Card****Card" and "**Card**Card" left behind when the model repeats a name around markdown
+const REPEAT_AROUND_ASTERISKS_PATTERN = /([A-Za-z0-9®™©][A-Za-z0-9 ®™©'&.-]{2,98}?)\*{2,}\1/g;
+const BOLD_THEN_REPEAT_PATTERN = /\*\*([^*\n]+?)\*\*\1/g;
+const ASTERISK_RUN_PATTERN = /\*{4,}/g;
+const MARKDOWN_LINK_PATTERN = /\[([^\]\n]+)\]\(([^)\n]*)\)/g;
+const SPACED_LINK_PATTERN = /\[([^\]\n]+)\]\s+\((https?:\/\/[^)\s]+)\)/g;
+const UNCLOSED_LINK_PATTERN = /\[([^\]\n]+)\]\((https?:\/\/[^\s)]*)(?=\s|$)/g;
+const VALID_LINK_URL = /^(https?:\/\/|\/)\S+$/;
+
+/**
+ * Catalog lookups, rebuilt when the catalog changes
+ */
+let catalogIndex: { catalog: CreditCard[]; byName: Map<string, CreditCard>; resolver: CardNameResolver<CreditCard> } | null = null;
+
+function findCatalogCard(name: string, catalog: CreditCard[]): CreditCard | null {
+  if (!catalogIndex || catalogIndex.catalog !== catalog) {
+    catalogIndex = {
+      catalog,
+      byName: new Map(catalog.map(card => [normalizeCardName(card.credit_card_name), card])),
+      resolver: createCardNameResolver(catalog, card => card.credit_card_name),
+    };
+  }
+  return catalogIndex.byName.get(normalizeCardName(name)) || catalogIndex.resolver.resolve(name).match?.item || null;
+}
+
+function recommendedNames(response: RecommendationsResponse): string[] {
+  return (response.recommendations || []).map(rec => rec.credit_card_name);
+}
+
+function withSummary(response: RecommendationsResponse, fix: (summary: string) => string): RecommendationsResponse {
+  return response.summary ? { ...response, summary: fix(response.summary) } : response;
+}
+
+function snippet(text: string, index: number): string {
+  return text.substring(Math.max(0, index - 30), index + 50).replace(/\n/g, ' ');
+}
+
+/**
+ * Collapses "Card****Card" and "**Card**Card" to one name and removes runs of 4+ asterisks.
+ * Two or three asterisks are markdown and are kept.
+ */
+export function fixAsteriskRuns(text: string): string {
+  return text
+    .replace(BOLD_THEN_REPEAT_PATTERN, '**$1**')
+    .replace(REPEAT_AROUND_ASTERISKS_PATTERN, '$1')
+    .replace(ASTERISK_RUN_PATTERN, ' ')
+    .replace(/ {2,}/g, ' ');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * "**[Card](url)**Card", "**Card**[Card](url)" and "Card**[Card](url)**": a card name next to its own link
+ */
+function linkedNamePatterns(cardName: string): RegExp[] {
+  const name = escapeRegExp(cardName);
+  return [
+    new RegExp(`\\*\\*\\[(${name})\\]\\(([^)\\s]+)\\)\\*\\*${name}`, 'gi'),
+    new RegExp(`\\*\\*${name}\\*\\*\\[(${name})\\]\\(([^)\\s]+)\\)`, 'gi'),
+    new RegExp(`${name}\\*\\*\\[(${name})\\]\\(([^)\\s]+)\\)\\*\\*`, 'gi'),
+  ];
+}
+
+function findLinkedNameRepeats(text: string, cardNames: string[]): string[] {
+  return cardNames.flatMap(cardName => linkedNamePatterns(cardName).flatMap(pattern => Array.from(text.matchAll(pattern), match => match[0])));
+}
+
+function fixLinkedNameRepeats(text: string, cardNames: string[]): string {
+  return cardNames.reduce(
+    (fixed, cardName) => linkedNamePatterns(cardName).reduce((current, pattern) => current.replace(pattern, '**[$1]($2)**'), fixed),
+    text
+  );
+}
+
+/**
+ * Text-level repairs (asterisk runs, then repeated card names), for use while a summary is being assembled
+ */
+export function fixSummaryText(text: string, cardNames: string[]): string {
+  return cleanConcatenatedCardNames(fixLinkedNameRepeats(fixAsteriskRuns(text), cardNames), cardNames);
+}
+
+const asteriskRun: LintRule = {
+  id: 'asterisk-run',
+  severity: 'warning',
+  description: 'Runs of 4+ asterisks, or a name repeated around asterisks',
+  check(response) {
+    const summary = response.summary || '';
+    const patterns = [ASTERISK_RUN_PATTERN, BOLD_THEN_REPEAT_PATTERN, REPEAT_AROUND_ASTERISKS_PATTERN];
+    const matches = patterns.flatMap(pattern => Array.from(summary.matchAll(pattern)));
+    return matches.length > 0
+      ? [{ message: `${matches.length} leftover asterisk runs in the summary`, examples: matches.slice(0, 3).map(match => snippet(summary, match.index || 0)) }]
+      : [];
+  },
+  fix(response) {
+    return withSummary(response, fixAsteriskRuns);
+  },
+};
+
+const concatenatedCardName: LintRule = {
+  id: 'concatenated-card-name',
+  severity: 'error',
+  description: 'A card name immediately repeated ("CardNameCardName")',
+  check(response) {
+    const summary = response.summary || '';
+    const names = recommendedNames(response);
+    return [
+      ...findLinkedNameRepeats(summary, names).map(match => ({ message: 'A card name is repeated next to its own link', examples: [match] })),
+      ...findRepeatedCardNames(summary, names)
+        .filter(issue => issue.hasConcatenatedRepeat)
+        .map(issue => ({ message: `"${issue.cardName}" is repeated back to back`, examples: issue.exampleMatches })),
+    ];
+  },
+  fix(response) {
+    const names = recommendedNames(response);
+    return withSummary(response, summary => cleanConcatenatedCardNames(fixLinkedNameRepeats(summary, names), names));
+  },
+};
+
+const repeatedCardName: LintRule = {
+  id: 'repeated-card-name',
+  severity: 'info',
+  description: 'A card named more than twice in the summary',
+  check(response) {
+    return findRepeatedCardNames(response.summary || '', recommendedNames(response))
+      .filter(issue => !issue.hasConcatenatedRepeat && issue.occurrences > 2)
+      .map(issue => ({ message: `"${issue.cardName}" is named ${issue.occurrences} times`, examples: issue.exampleMatches }));
+  },
+};
+
+const brokenMarkdownLink: LintRule = {
+  id: 'broken-markdown-link',
+  severity: 'warning',
+  description: 'Markdown links that are unclosed, split or have no usable URL',
+  check(response) {
+    const summary = response.summary || '';
+    const broken = [
+      ...Array.from(summary.matchAll(SPACED_LINK_PATTERN)),
+      ...Array.from(summary.matchAll(UNCLOSED_LINK_PATTERN)),
+      ...Array.from(summary.matchAll(MARKDOWN_LINK_PATTERN)).filter(match => !VALID_LINK_URL.test(match[2].trim())),
+    ];
+    return broken.map(match => ({ message: `Broken link for "${match[1]}"`, examples: [match[0]] }));
+  },
+  fix(response, context) {
+    return withSummary(response, summary => summary
+      .replace(SPACED_LINK_PATTERN, '[$1]($2)')
+      .replace(UNCLOSED_LINK_PATTERN, '[$1]($2)')
+      .replace(MARKDOWN_LINK_PATTERN, (link, text: string, url: string) => {
+        if (VALID_LINK_URL.test(url.trim())) return link;
+        // Point card links at the card's application page; anything else becomes plain text
+        const card = findCatalogCard(text, context.catalog);
+        return card?.url_application ? `[${text}](${card.url_application})` : text;
+      }));
+  },
+};
+
+const applyUrlMismatch: LintRule = {
+  id: 'apply-url-mismatch',
+  severity: 'error',
+  description: 'Apply URLs and card links that don\'t match the catalog',
+  check(response, context) {
+    const findings: LintFinding[] = [];
+    for (const rec of response.recommendations || []) {
+      const card = findCatalogCard(rec.credit_card_name, context.catalog);
+      if (card?.url_application && rec.apply_url !== card.url_application) {
+        findings.push({ message: `${rec.credit_card_name} links to ${rec.apply_url || 'nothing'} instead of ${card.url_application}` });
+      }
+    }
+    for (const match of Array.from((response.summary || '').matchAll(MARKDOWN_LINK_PATTERN))) {
+      const card = findCatalogCard(match[1], context.catalog);
+      if (card?.url_application && VALID_LINK_URL.test(match[2]) && match[2] !== card.url_application) {
+        findings.push({ message: `Summary link for ${card.credit_card_name} doesn't match the catalog`, examples: [match[0]] });
+      }
+    }
+    return findings;
+  },
+  fix(response, context) {
+    const recommendations = (response.recommendations || []).map(rec => {
+      const card = findCatalogCard(rec.credit_card_name, context.catalog);
+      return card?.url_application ? { ...rec, apply_url: card.url_application } : rec;
+    });
+    return withSummary({ ...response, recommendations }, summary => summary.replace(MARKDOWN_LINK_PATTERN, (link, text: string, url: string) => {
+      const card = findCatalogCard(text, context.catalog);
+      return card?.url_application && VALID_LINK_URL.test(url) ? `[${text}](${card.url_application})` : link;
+    }));
+  },
+};
+
+const unknownCard: LintRule = {
+  id: 'unknown-card',
+  severity: 'error',
+  description: 'Recommended cards that aren\'t in the catalog',
+  check(response, context) {
+    return (response.recommendations || [])
+      .filter(rec => !findCatalogCard(rec.credit_card_name, context.catalog))
+      .map(rec => ({ message: `${rec.credit_card_name} is not in the catalog` }));
+  },
+  fix(response, context) {
+    return {
+      ...response,
+      recommendations: (response.recommendations || []).filter(rec => findCatalogCard(rec.credit_card_name, context.catalog)),
+    };
+  },
+};
+
+/**
+ * Recommended cards whose annual fee breaks the fee limit in the user's question
+ */
+function feeContradictions(recommendations: Recommendation[], context: LintContext): Array<{ rec: Recommendation; card: CreditCard }> {
+  const filters = extractFiltersWithRules(context.userQuery);
+  if (filters.annualFee !== 'no-fee' && filters.annualFeeMax === undefined) return [];
+
+  return recommendations
+    .map(rec => ({ rec, card: findCatalogCard(rec.credit_card_name, context.catalog) }))
+    .filter((item): item is { rec: Recommendation; card: CreditCard } => {
+      if (!item.card) return false;
+      if (filters.annualFee === 'no-fee' && item.card.has_annual_fee === true) return true;
+      return filters.annualFeeMax !== undefined && (item.card.annual_fee_amount ?? 0) > filters.annualFeeMax;
+    });
+}
+
+const feeContradiction: LintRule = {
+  id: 'fee-contradiction',
+  severity: 'error',
+  description: 'Cards with an annual fee when the user asked for no fee (or a lower fee)',
+  check(response, context) {
+    return feeContradictions(response.recommendations || [], context)
+      .map(({ rec, card }) => ({ message: `${rec.credit_card_name} has an annual fee (${String(card.annual_fee ?? card.annual_fee_amount)})` }));
+  },
+  fix(response, context) {
+    const contradicting = new Set(feeContradictions(response.recommendations || [], context).map(({ rec }) => rec));
+    return { ...response, recommendations: (response.recommendations || []).filter(rec => !contradicting.has(rec)) };
+  },
+};
+
+/**
+ * Rules run on every response, in order: text repairs first so later rules see clean names
+ */
+export const DEFAULT_LINT_RULES: LintRule[] = [
+  asteriskRun,
+  concatenatedCardName,
+  repeatedCardName,
+  brokenMarkdownLink,
+  applyUrlMismatch,
+  unknownCard,
+  feeContradiction,
+];
+
+/**
+ * Runs the rules over a response, applying fixers unless fix is false
+ */
+export function lintResponse(
+  response: RecommendationsResponse,
+  context: LintContext,
+  options: { rules?: LintRule[]; fix?: boolean } = {}
+): { response: RecommendationsResponse; report: LintReport } {
+  const rules = options.rules || DEFAULT_LINT_RULES;
+  const issues: LintIssue[] = [];
+  let current = response;
+
+  for (const rule of rules) {
+    const findings = rule.check(current, context);
+    if (findings.length === 0) continue;
+
+    let remaining = findings;
+    if (options.fix !== false && rule.fix) {
+      current = rule.fix(current, context);
+      remaining = rule.check(current, context);
+    }
+
+    const fixed = remaining.length === 0;
+    for (const finding of fixed ? findings : remaining) {
+      issues.push({ rule: rule.id, severity: rule.severity, message: finding.message, fixed, ...(finding.examples ? { examples: finding.examples } : {}) });
+    }
+  }
+
+  return {
+    response: current,
+    report: {
+      errors: issues.filter(issue => issue.severity === 'error').length,
+      warnings: issues.filter(issue => issue.severity === 'warning').length,
+      fixed: issues.filter(issue => issue.fixed).length,
+      issues,
+    },
+  };
+}
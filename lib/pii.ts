@@ -0,0 +1,136 @@
+import { ConversationMessage, PIIType, PrivacyNotice } from '@/types';
+import { createLogger } from './logger';
+
+/**
+ * PII redaction for user text at the API boundary.
+ *
+ * Routes pass every user-supplied message through redactUserText before it
+ * can reach the LLM, the session store, the response cache or the logs.
+ * Detected values are replaced with placeholders such as "[CARD NUMBER]":
+ * - card numbers: 13-19 digits (spaces or dashes allowed) that pass the Luhn check
+ * - SSNs: 123-45-6789, or 9 digits right after "SSN" / "social security"
+ * - US phone numbers, with or without +1 and an area code in parentheses
+ * - email addresses
+ * - account numbers: digits after "account", "acct" or "routing", and any
+ *   other run of 8 or more digits (including card-length numbers that fail Luhn)
+ *
+ * Only the kinds and counts of redactions are logged, never the values.
+ */
+
+const log = createLogger('pii');
+
+export const PII_PLACEHOLDERS: Record<PIIType, string> = {
+  card_number: '[CARD NUMBER]',
+  ssn: '[SSN]',
+  phone: '[PHONE]',
+  email: '[EMAIL]',
+  account_number: '[ACCOUNT NUMBER]',
+};
+
+const PII_LABELS: Record<PIIType, string> = {
+  card_number: 'a card number',
+  ssn: 'a Social Security number',
+  phone: 'a phone number',
+  email: 'an email address',
+  account_number: 'an account number',
+};
+
+export interface PIIRedaction {
+  text: string;
+  redacted: PIIType[]; // Kinds found, in detection order
+  counts: Partial<Record<PIIType, number>>;
+}
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9-]+(?:\.[A-Z0-9-]+)*\.[A-Z]{2,}/gi;
+const SSN_PATTERN = /\b(?!000|666|9\d\d)\d{3}([- ])(?!00)\d{2}\1(?!0000)\d{4}\b/g;
+const SSN_KEYWORD_PATTERN = /(\b(?:ssn|social security(?: number| no\.?)?)\s*(?:is\s+|#\s*|:\s*)?)\d{9}\b/gi;
+const PHONE_PATTERN = /(?:\+?\b1[ .-]?)?(?:\(\d{3}\)\s?|\b\d{3}[ .-])\d{3}[ .-]\d{4}\b/g;
+const CARD_PATTERN = /\b\d(?:[ -]?\d){12,18}\b/g;
+const ACCOUNT_KEYWORD_PATTERN = /(\b(?:account|acct|routing)(?:\s*(?:number|num|no\.?|#))?\s*(?:is\s+|#\s*|:\s*)?)(\d(?:[ -]?\d){3,})\b/gi;
+const LONG_NUMBER_PATTERN = /\b\d{8,}\b/g;
+
+/**
+ * Luhn checksum used by payment card numbers
+ */
+export function isLuhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return digits.length > 0 && sum % 10 === 0;
+}
+
+/**
+ * Replaces personal data in text with placeholders
+ */
+export function redactPII(text: string): PIIRedaction {
+  const counts: Partial<Record<PIIType, number>> = {};
+  const redacted: PIIType[] = [];
+  const found = (type: PIIType) => {
+    if (!counts[type]) redacted.push(type);
+    counts[type] = (counts[type] || 0) + 1;
+    return PII_PLACEHOLDERS[type];
+  };
+
+  // Order matters: formatted SSNs and phone numbers go before the digit runs that would also match them
+  let result = text
+    .replace(EMAIL_PATTERN, () => found('email'))
+    .replace(SSN_PATTERN, () => found('ssn'))
+    .replace(PHONE_PATTERN, () => found('phone'))
+    .replace(CARD_PATTERN, match => found(isLuhnValid(match.replace(/\D/g, '')) ? 'card_number' : 'account_number'))
+    .replace(SSN_KEYWORD_PATTERN, (_match, prefix: string) => prefix + found('ssn'))
+    .replace(ACCOUNT_KEYWORD_PATTERN, (_match, prefix: string) => prefix + found('account_number'));
+  result = result.replace(LONG_NUMBER_PATTERN, () => found('account_number'));
+
+  return { text: result, redacted, counts };
+}
+
+/**
+ * Redacts a message from a client, logging what kinds of data were removed
+ */
+export function redactUserText(text: string, source: string): PIIRedaction {
+  const redaction = redactPII(text);
+  if (redaction.redacted.length > 0) {
+    log.info(`[PII] Redacted ${redaction.redacted.map(type => `${type} x${redaction.counts[type]}`).join(', ')} from ${source}`);
+  }
+  return redaction;
+}
+
+/**
+ * Redacts every message in a client-supplied history; entries that aren't messages are dropped
+ */
+export function redactConversationHistory(history: unknown, source: string): { history: ConversationMessage[]; redacted: PIIType[] } {
+  if (!Array.isArray(history)) return { history: [], redacted: [] };
+
+  const redacted = new Set<PIIType>();
+  const messages = history
+    .filter((entry): entry is ConversationMessage =>
+      !!entry && (entry.role === 'user' || entry.role === 'assistant') && typeof entry.content === 'string')
+    .map(entry => {
+      const redaction = redactUserText(entry.content, source);
+      redaction.redacted.forEach(type => redacted.add(type));
+      return { role: entry.role, content: redaction.text };
+    });
+  return { history: messages, redacted: Array.from(redacted) };
+}
+
+/**
+ * Notice for the response when anything was redacted
+ */
+export function buildPrivacyNotice(redacted: PIIType[]): PrivacyNotice | undefined {
+  if (redacted.length === 0) return undefined;
+
+  const labels = redacted.map(type => PII_LABELS[type]);
+  const list = labels.length === 1
+    ? labels[0]
+    : `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}`;
+  return {
+    redacted,
+    message: `For your privacy, we removed ${list} from your message before processing it. You never need to share these details to get card recommendations.`,
+  };
+}
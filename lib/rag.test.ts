@@ -0,0 +1,190 @@
+import { afterEach, beforeAll, describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { LLMProvider } from './llm';
+
+let generateRecommendations: typeof import('./rag').generateRecommendations;
+let llm: typeof import('./llm');
+
+beforeAll(async () => {
+  // Offline pipeline: pinned eval catalog, replayed model calls, index in a temp dir
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rag-test-'));
+  process.env.CARD_SOURCE = 'json';
+  process.env.CARD_SOURCE_PATH = path.join('evals', 'catalog.json');
+  process.env.LLM_PROVIDER = 'replay';
+  process.env.LLM_FIXTURES_PATH = path.join(dir, 'fixtures.json');
+  process.env.EMBEDDINGS_PATH = path.join(dir, 'embeddings.json');
+  ({ generateRecommendations } = await import('./rag'));
+  llm = await import('./llm');
+});
+
+afterEach(() => llm.setLLMProvider(null));
+
+describe('generateRecommendations', () => {
+  it('should return the claim verification report in the metadata', async () => {
+    const response = await generateRecommendations('How were you trained?');
+
+    expect(response.metadata?.stepName).toBe('Training Question Check');
+    expect(response.metadata?.verification).toMatchObject({ checked: expect.any(Number), claims: expect.any(Array) });
+  }, 30_000);
+
+  it('should keep the usable cards when the output never passes validation', async () => {
+    const catalog = JSON.parse(fs.readFileSync(path.join('evals', 'catalog.json'), 'utf-8')) as { cards: Array<{ credit_card_name: string }> };
+    // Markdown in the preface fails validation on every attempt; the cards themselves are fine
+    const invalidOutput = JSON.stringify({
+      preface: 'Here are **great** cards for travel.',
+      cards: catalog.cards.map(card => ({
+        credit_card_name: card.credit_card_name,
+        apply_url: 'https://example.com/apply',
+        reason: 'Earns extra points on flights and hotels',
+        connecting_sentence: 'A strong pick if you travel several times a year',
+      })),
+    });
+    const provider: LLMProvider = {
+      name: 'replay',
+      async chat() {
+        return { content: 'Travel Cards', model: 'stub' };
+      },
+      async chatJSON(_messages, options) {
+        return { content: options?.usageStep === 'generation' ? invalidOutput : '{}', model: 'stub' };
+      },
+      async embed(inputs) {
+        return { embeddings: inputs.map(input => llm.syntheticEmbedding(input)), model: 'stub' };
+      },
+    };
+    llm.setLLMProvider(provider);
+
+    const response = await generateRecommendations('best travel credit card');
+
+    expect(response.metadata?.step).toBe(5);
+    expect(response.recommendations.length).toBeGreaterThan(0);
+    expect(response.summary).toContain('Here are the cards that best match your question.');
+    expect(response.summary).toContain(`[${response.recommendations[0].credit_card_name}](`);
+  }, 30_000);
+
+  it('should only pad no-annual-fee answers with cards whose fee is known to be $0', async () => {
+    // The model picks one card, so the other two are padded from the candidates
+    const output = JSON.stringify({
+      preface: 'Here are some cards without an annual fee.',
+      cards: [{
+        credit_card_name: 'Citi Double Cash Card',
+        apply_url: 'https://example.com/apply',
+        reason: 'Earns cash back twice on every purchase',
+        connecting_sentence: 'A good fit if you want rewards on every purchase',
+      }],
+      closing: '',
+    });
+    llm.setLLMProvider({
+      name: 'replay',
+      async chat() {
+        return { content: 'No Annual Fee Cards', model: 'stub' };
+      },
+      async chatJSON(_messages, options) {
+        return { content: options?.usageStep === 'generation' ? output : '{}', model: 'stub' };
+      },
+      async embed(inputs) {
+        return { embeddings: inputs.map(input => llm.syntheticEmbedding(input)), model: 'stub' };
+      },
+    });
+
+    const response = await generateRecommendations('best cards with no annual fee');
+
+    expect(response.recommendations.length).toBe(3);
+    expect(response.recommendations.map(rec => rec.annual_fee)).toEqual(response.recommendations.map(() => '$0'));
+  }, 30_000);
+
+  it('should report each card and summary line while the model is still writing', async () => {
+    const output = JSON.stringify({
+      preface: 'Here are some cards without an annual fee.',
+      cards: [{
+        credit_card_name: 'Citi Double Cash Card',
+        apply_url: 'https://example.com/apply',
+        reason: 'Earns cash back twice on every purchase',
+        connecting_sentence: 'A good fit if you want rewards on every purchase',
+      }],
+      closing: '',
+    });
+    const events: string[] = [];
+    llm.setLLMProvider({
+      name: 'replay',
+      async chat() {
+        return { content: 'No Annual Fee Cards', model: 'stub' };
+      },
+      async chatJSON(_messages, options) {
+        if (options?.usageStep !== 'generation') return { content: '{}', model: 'stub' };
+        options.onPartial?.(output.slice(0, output.indexOf('"closing"')));
+        events.push('generated');
+        return { content: output, model: 'stub' };
+      },
+      async embed(inputs) {
+        return { embeddings: inputs.map(input => llm.syntheticEmbedding(input)), model: 'stub' };
+      },
+    });
+
+    let streamedSummary = '';
+    const response = await generateRecommendations('best cards with no annual fee', undefined, undefined, undefined, {
+      onRecommendation: (rec, index) => events.push(`card ${index}: ${rec.credit_card_name}`),
+      onSummary: delta => {
+        streamedSummary += delta;
+      },
+    });
+
+    expect(events).toEqual(['card 0: Citi Double Cash Card', 'generated']);
+    expect(streamedSummary).toBe(`Here are some cards without an annual fee.\n\n- **[Citi Double Cash Card](https://example.com/apply)** - Earns cash back twice on every purchase. A good fit if you want rewards on every purchase.`);
+    expect(response.recommendations).toHaveLength(3);
+  }, 30_000);
+
+  it('should not call handlers after falling back to the degraded answer', async () => {
+    const { LLMUnavailableError } = await import('./errors');
+    let releaseTitle = () => {};
+    llm.setLLMProvider({
+      name: 'replay',
+      async chat() {
+        await new Promise<void>(resolve => {
+          releaseTitle = resolve;
+        });
+        return { content: 'Travel Cards', model: 'stub' };
+      },
+      async chatJSON(_messages, options) {
+        if (options?.usageStep === 'generation') throw new LLMUnavailableError('stub outage');
+        return { content: '{}', model: 'stub' };
+      },
+      async embed(inputs) {
+        return { embeddings: inputs.map(input => llm.syntheticEmbedding(input)), model: 'stub' };
+      },
+    });
+
+    const titles: string[] = [];
+    const response = await generateRecommendations('best travel credit card', undefined, undefined, undefined, {
+      onTitle: title => titles.push(title),
+    });
+    releaseTitle();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(response.metadata?.degraded).toBe(true);
+    expect(titles).toEqual([]);
+  }, 30_000);
+
+  it('should answer with rendered candidate cards when the model output is not JSON', async () => {
+    llm.setLLMProvider({
+      name: 'replay',
+      async chat() {
+        return { content: 'Travel Cards', model: 'stub' };
+      },
+      async chatJSON(_messages, options) {
+        return { content: options?.usageStep === 'generation' ? 'Sure! The best travel card is probably a premium card.' : '{}', model: 'stub' };
+      },
+      async embed(inputs) {
+        return { embeddings: inputs.map(input => llm.syntheticEmbedding(input)), model: 'stub' };
+      },
+    });
+
+    const response = await generateRecommendations('best travel credit card');
+
+    expect(response.recommendations).toHaveLength(3);
+    expect(response.summary).not.toContain('Sure!');
+    expect(response.summary?.startsWith('Here are the cards that best match your question.')).toBe(true);
+    response.recommendations.forEach(rec => expect(response.summary).toContain(`**[${rec.credit_card_name}](`));
+  }, 30_000);
+});
@@ -1,9 +1,23 @@
-import OpenAI from 'openai';
-import { Recommendation, RecommendationsResponse, CardEmbedding } from '@/types';
-import { embedQuery, findSimilarCards, loadEmbeddings } from './embeddings';
+import { Recommendation, RecommendationsResponse, CardEmbedding, CreditCard, EmbeddingsStore, PipelineDebugTrace, PipelineProgressHandlers, PipelineStep, RewardCategory, SpendProfile } from '@/types';
+import { embedQuery, findCardsByKeyword, findSimilarCards, loadEmbeddings } from './embeddings';
 import { cardToText } from './data';
-import { extractFilters, applyFilters, CardFilters } from './filters';
+import { toTypedCard } from './cardSchema';
+import { computeCardValue, hasSpendProfile, rankByCardValue } from './cardValue';
+import { describeWalletCard, formatWalletSummary, optimizeWallet, parseWalletConstraints } from './walletOptimizer';
+import { applyFilters, CardFilters, extractFiltersWithRules } from './filters';
+import { isLLMUnavailableError } from './errors';
+import { routeQuery, RoutedQuery, selectPreviousCards } from './intentRouter';
+import { getLLMProvider, MODELS } from './llm';
+import { CardNameResolver, CardResolution, createCardNameResolver, normalizeCardName } from './cardResolver';
+import { verifyResponseClaims } from './claimVerifier';
+import { fixSummaryText, lintResponse } from './outputLint';
+import { buildOutputRetryPrompt, GENERIC_PREFACE, MAX_OUTPUT_CARDS, parsePartialRecommendationOutput, RECOMMENDATION_OUTPUT_FORMAT, renderRecommendationSummary, salvageRecommendationOutput, StructuredCardOutput, StructuredRecommendationOutput, validateRecommendationOutput } from './recommendationOutput';
 import { needsWebSearch, generateAnswerWithWebSearch, generateAnswerWithActualWebSearch, isInternalKnowledgeSufficient, isGenericResponse } from './webSearch';
+import { createLogger } from './logger';
+import { withSpan } from './tracing';
+import { runWithUsage } from './usage';
+
+const log = createLogger('rag');
 
 /**
  * Computes cosine similarity between two vectors
@@ -26,163 +40,34 @@ function cosineSimilarity(a: number[], b: number[]): number {
   return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
 }
 
-/**
- * Lazy-loaded OpenAI client to ensure environment variables are loaded first
- */
-function getOpenAIClient() {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY is not set. Please check your .env.local file.');
-  }
-  return new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-  });
-}
-
 // Use gpt-3.5-turbo for faster inference (can switch to gpt-4o-mini for better quality)
-const CHAT_MODEL = process.env.CHAT_MODEL || 'gpt-3.5-turbo';
+const CHAT_MODEL = MODELS.chat;
 const TOP_N_CARDS = parseInt(process.env.TOP_N_CARDS || '8', 10); // Reduced to 8 for maximum speed
+// Check generated facts against the catalog (set CLAIM_VERIFICATION=false to skip)
+const CLAIM_VERIFICATION = process.env.CLAIM_VERIFICATION !== 'false';
+// Lint answers for formatting and consistency problems (set OUTPUT_LINT=false to skip)
+const OUTPUT_LINT = process.env.OUTPUT_LINT !== 'false';
+// Extra attempts when the recommendations output fails schema validation
+const STRUCTURED_OUTPUT_RETRIES = parseInt(process.env.STRUCTURED_OUTPUT_RETRIES || '1', 10);
+
+const NO_MATCHING_CARDS_MESSAGE = "I couldn't find cards that match your question. Try asking about a type of card, like travel, cash back or no annual fee cards.";
 
 /**
  * Checks if a card has no annual fee - STRICT VERSION
- * This is critical for "no annual fee" queries - be very strict
- * Premium cards (Black Card, Executive, Platinum, etc.) are assumed to have fees if field is empty
- * Checks annual_fee_score column first (0 = no fee), then annual_fee field
+ * Uses the typed has_annual_fee field (annual_fee_score first, then the parsed annual fee).
+ * A missing or unparseable fee is unknown and doesn't count as no fee, as in lib/filters.ts.
  */
-function hasNoAnnualFeeStrict(card: any): boolean {
-  // FIRST: Check annual_fee_score column - this is the most reliable indicator
-  // If annual_fee_score is 0, the card has no annual fee
-  // If annual_fee_score is > 0, the card has an annual fee
-  const annualFeeScore = card.annual_fee_score;
-  if (annualFeeScore !== undefined && annualFeeScore !== null) {
-    const score = typeof annualFeeScore === 'string' ? parseFloat(annualFeeScore) : Number(annualFeeScore);
-    if (!isNaN(score)) {
-      if (score === 0) {
-        console.log(`[FEE CHECK] ${card.credit_card_name}: annual_fee_score=0 - NO FEE`);
-        return true;
-      } else {
-        console.log(`[FEE CHECK] ${card.credit_card_name}: annual_fee_score=${score} - HAS FEE`);
-        return false;
-      }
-    }
-  }
-  
-  // SECOND: Check both annual_fee and fee fields
-  const annualFee = String(card.annual_fee || card.fee || '').trim();
-  const annualFeeLower = annualFee.toLowerCase();
-  
-  // Log for debugging problematic cards
-  if (card.credit_card_name && (
-    card.credit_card_name.includes('Black Card') || 
-    card.credit_card_name.includes('AAdvantage') || 
-    card.credit_card_name.includes('Executive') ||
-    card.credit_card_name.includes('Ink Business Preferred') ||
-    card.credit_card_name.includes('Business Preferred')
-  )) {
-    console.log(`[FEE CHECK] Checking ${card.credit_card_name}: annual_fee="${annualFee}", annual_fee_score="${annualFeeScore}"`);
-  }
-  
-  // If empty or whitespace only, be CAREFUL - don't assume no fee
-  // Some cards might have missing data, so we need to check other indicators
-  if (!annualFee || annualFee === '' || annualFee === 'null' || annualFee === 'undefined') {
-    // If field is empty, check if card name or other fields indicate it's a premium/luxury card
-    const cardName = String(card.credit_card_name || '').toLowerCase();
-    const isPremiumCard = cardName.includes('black card') || 
-                         cardName.includes('platinum') || 
-                         cardName.includes('executive') ||
-                         cardName.includes('reserve') ||
-                         cardName.includes('prestige') ||
-                         cardName.includes('elite') ||
-                         cardName.includes('aadvantage executive') ||
-                         cardName.includes('world elite') ||
-                         cardName.includes('ink business preferred') ||
-                         cardName.includes('business preferred');
-    
-    if (isPremiumCard) {
-      console.log(`[FEE CHECK] Empty annual_fee but premium/business card name detected: ${card.credit_card_name} - assuming HAS fee`);
-      return false; // Premium/business cards typically have fees
-    }
-    
-    // For non-premium cards with empty fee, assume no fee (but log it)
-    console.log(`[FEE CHECK] Empty annual_fee for ${card.credit_card_name} - assuming no fee`);
-    return true;
-  }
-  
-  // Check for explicit "no fee" indicators
-  const noFeeIndicators = [
-    '0',
-    '$0',
-    '0.00',
-    '$0.00',
-    'no fee',
-    'no annual fee',
-    'none',
-    'n/a',
-    'na',
-    'free',
-    'zero',
-    '$0 annual fee',
-    '0 annual fee',
-    'waived',
-    'waived first year'
-  ];
-  
-  // Check if it matches any "no fee" indicator exactly
-  if (noFeeIndicators.includes(annualFeeLower)) {
-    return true;
-  }
-  
-  // Check if it contains "no fee" or "no annual fee" (case insensitive already handled)
-  if (annualFeeLower.includes('no fee') || annualFeeLower.includes('no annual fee')) {
-    return true;
-  }
-  
-  // Check if it's a number that equals 0 (handle formats like "0", "0.0", "0.00")
-  const numericFee = parseFloat(annualFee.replace(/[^0-9.]/g, ''));
-  if (!isNaN(numericFee)) {
-    if (numericFee === 0) {
-      return true;
-    } else {
-      // Any positive number means it HAS a fee
-      console.log(`[FEE CHECK] ${card.credit_card_name} has numeric fee: ${numericFee} - HAS FEE`);
-      return false;
-    }
-  }
-  
-  // If it contains a dollar amount, check if it's $0
-  if (annualFee.includes('$')) {
-    const dollarAmount = parseFloat(annualFee.replace(/[^0-9.]/g, ''));
-    if (!isNaN(dollarAmount)) {
-      if (dollarAmount === 0) {
-        return true;
-      } else {
-        // Any positive dollar amount means it HAS a fee
-        console.log(`[FEE CHECK] ${card.credit_card_name} has dollar fee: $${dollarAmount} - HAS FEE`);
-        return false;
-      }
-    }
-  }
-  
-  // If we can't determine, and it's a premium card, assume it has a fee
-  const cardName = String(card.credit_card_name || '').toLowerCase();
-  const isPremiumCard = cardName.includes('black card') || 
-                       cardName.includes('platinum') || 
-                       cardName.includes('executive') ||
-                       cardName.includes('reserve') ||
-                       cardName.includes('prestige') ||
-                       cardName.includes('elite') ||
-                       cardName.includes('aadvantage executive') ||
-                       cardName.includes('world elite') ||
-                       cardName.includes('ink business preferred') ||
-                       cardName.includes('business preferred');
-  
-  if (isPremiumCard) {
-    console.log(`[FEE CHECK] ${card.credit_card_name} is premium/business card with unclear fee format "${annualFee}" - assuming HAS fee`);
+function hasNoAnnualFeeStrict(card: CreditCard): boolean {
+  const typedCard = toTypedCard(card);
+
+  if (typedCard.has_annual_fee === null) {
+    log.debug(`[FEE CHECK] ${card.credit_card_name}: annual fee unknown - not treated as no fee`);
     return false;
   }
-  
-  // If we can't parse it and it's not clearly "no fee", assume it HAS a fee to be safe
-  console.log(`[FEE CHECK] ${card.credit_card_name} has unclear fee format "${annualFee}" - assuming HAS fee to be safe`);
-  return false;
+  if (typedCard.has_annual_fee) {
+    log.debug(`[FEE CHECK] ${card.credit_card_name}: annual fee ${typedCard.annual_fee_amount ?? '(from annual_fee_score)'} - HAS FEE`);
+  }
+  return !typedCard.has_annual_fee;
 }
 
 /**
@@ -206,15 +91,28 @@ function generatePersonalizedReason(card: any, userQuery: string): string {
   const isLuxuryQuery = /luxury|premium|elite|exclusive/.test(queryLower);
   
   // Get specific card data
+  const typedCard = toTypedCard(card);
   const rewardsRate = String(card.rewards_rate || card.rewards || card.reward_rate || '').trim();
-  const annualFee = String(card.annual_fee || card.fee || '').trim();
+  const annualFeeAmount = typedCard.annual_fee_amount;
+  const multipliers = typedCard.reward_multipliers;
+  const formatRate = (rate: number) => typedCard.reward_unit === '%' ? `${rate}%` : `${rate}x`;
   const welcomeBonus = String(card.intro_offer || card.welcome_bonus || card.sign_up_bonus || card.intro_bonus || '').trim();
   const perks = String(card.perks || card.benefits || card.card_perks || '').toLowerCase();
   const cardSummary = String(card.card_summary || '').toLowerCase();
   const targetConsumer = String(card.target_consumer || '').toLowerCase();
   
-  // Build reason based on card features and query - prioritize specific data
-  if (rewardsRate) {
+  // Build reason based on card features and query - prioritize parsed multipliers for the asked category
+  const queryCategory: { key: RewardCategory; label: string } | null =
+    isTravelQuery ? { key: 'travel', label: 'travel purchases' } :
+    isDiningQuery ? { key: 'dining', label: 'dining' } :
+    isGroceriesQuery ? { key: 'groceries', label: 'groceries' } :
+    isGasQuery ? { key: 'gas', label: 'gas purchases' } :
+    null;
+  const categoryRate = queryCategory ? multipliers[queryCategory.key] : undefined;
+
+  if (queryCategory && categoryRate) {
+    reasons.push(`Earns ${formatRate(categoryRate)} on ${queryCategory.label}`);
+  } else if (rewardsRate) {
     const rewardsLower = rewardsRate.toLowerCase();
     if (isTravelQuery && (rewardsLower.includes('travel') || rewardsLower.includes('miles') || rewardsLower.includes('points'))) {
       reasons.push(`Earns ${rewardsRate} on travel purchases`);
@@ -232,7 +130,7 @@ function generatePersonalizedReason(card: any, userQuery: string): string {
   }
   
   // Add annual fee info if relevant
-  if (isNoFeeQuery && (annualFee === '0' || annualFee === '$0' || annualFee.toLowerCase().includes('no fee'))) {
+  if (isNoFeeQuery && annualFeeAmount === 0) {
     reasons.push('No annual fee');
   }
   
@@ -304,14 +202,14 @@ function generatePersonalizedReason(card: any, userQuery: string): string {
   }
   
   // Use annual fee info if available
-  if (annualFee && annualFee !== '0' && annualFee !== '$0') {
+  if (annualFeeAmount !== null && annualFeeAmount > 0) {
     if (rewardsRate) {
-      return `${rewardsRate} rewards with ${annualFee} annual fee`;
+      return `${rewardsRate} rewards with $${annualFeeAmount} annual fee`;
     }
-    return `${annualFee} annual fee with premium benefits`;
+    return `$${annualFeeAmount} annual fee with premium benefits`;
   }
   
-  if (annualFee === '0' || annualFee === '$0') {
+  if (annualFeeAmount === 0) {
     if (rewardsRate) {
       return `No annual fee with ${rewardsRate} rewards`;
     }
@@ -374,147 +272,120 @@ function formatCardsForContext(cards: CardEmbedding[], isNoFeeQuery: boolean = f
     .join('\n');
 }
 
+let resolverCache: { store: EmbeddingsStore; resolver: CardNameResolver<CardEmbedding> } | null = null;
+
 /**
- * Normalizes a card name for fuzzy matching
+ * Resolves a card name (including aliases like "CSP" or "Amex Gold") against the indexed cards
  */
-function normalizeCardName(name: string): string {
-  return name
-    .toLowerCase()
-    .replace(/[®™©]/g, '')
-    .replace(/[^a-z0-9]+/g, ' ')
-    .trim();
+export async function resolveCard(cardName: string): Promise<CardResolution<CardEmbedding>> {
+  const store = await loadEmbeddings();
+  if (!resolverCache || resolverCache.store !== store) {
+    resolverCache = {
+      store,
+      resolver: createCardNameResolver(store.embeddings, cardEmbedding => cardEmbedding.card.credit_card_name),
+    };
+  }
+  return resolverCache.resolver.resolve(cardName);
 }
 
 /**
- * Calculates similarity between two strings using Levenshtein-like approach
+ * Finds a specific card by name, or null when there is no confident match
  */
-function calculateNameSimilarity(str1: string, str2: string): number {
-  const normalized1 = normalizeCardName(str1);
-  const normalized2 = normalizeCardName(str2);
-  
-  // Exact match after normalization
-  if (normalized1 === normalized2) return 1.0;
-  
-  // Check if one contains the other
-  if (normalized1.includes(normalized2) || normalized2.includes(normalized1)) {
-    return 0.8;
+export async function findCardByName(cardName: string): Promise<CardEmbedding | null> {
+  const resolution = await resolveCard(cardName);
+
+  if (resolution.match) {
+    log.debug(`Found card match: ${resolution.match.name} (confidence: ${resolution.match.confidence.toFixed(2)})`);
+    return resolution.match.item;
   }
-  
-  // Calculate word overlap
-  const words1 = normalized1.split(/\s+/).filter(w => w.length > 2);
-  const words2 = normalized2.split(/\s+/).filter(w => w.length > 2);
-  
-  if (words1.length === 0 || words2.length === 0) return 0;
-  
-  const commonWords = words1.filter(w => words2.includes(w));
-  const totalWords = new Set([...words1, ...words2]).size;
-  
-  return commonWords.length / totalWords;
+  if (resolution.ambiguous) {
+    log.debug(`Card name "${cardName}" is ambiguous: ${resolution.didYouMean.join(', ')}`);
+  }
+
+  return null;
 }
 
 /**
- * Finds a specific card by name using fuzzy matching
+ * Highlights for a card: the sheet's card_highlights, falling back to the model's
+ * highlights, then to short phrases from the perks, the recommendation reason or the rewards rate
  */
-async function findCardByName(cardName: string): Promise<CardEmbedding | null> {
-  const store = await loadEmbeddings();
-  const queryNormalized = normalizeCardName(cardName);
-  
-  // Find the best matching card
-  let bestMatch: CardEmbedding | null = null;
-  let bestScore = 0;
-  
-  for (const cardEmbedding of store.embeddings) {
-    const cardNameNormalized = normalizeCardName(cardEmbedding.card.credit_card_name);
-    const similarity = calculateNameSimilarity(queryNormalized, cardNameNormalized);
-    
-    if (similarity > bestScore) {
-      bestScore = similarity;
-      bestMatch = cardEmbedding;
-    }
+export function buildCardHighlights(card: CreditCard, rec: { card_highlights?: string; reason?: string } = {}): string {
+  const cardHighlights = String(card.card_highlights || rec.card_highlights || '').trim();
+  if (cardHighlights) return cardHighlights;
+
+  const highlights: string[] = [];
+
+  // Try to use perks field
+  if (card.perks || card.benefits || card.card_perks) {
+    const perksText = String(card.perks || card.benefits || card.card_perks || '');
+    // Split perks by common delimiters and take first 3-5 items
+    const perkItems = perksText.split(/[.,;]/)
+      .map(p => p.trim())
+      .filter(p => p.length > 10 && p.length < 100)
+      .slice(0, 5);
+    highlights.push(...perkItems);
   }
-  
-  // Only return if similarity is high enough (at least 0.5)
-  if (bestScore >= 0.5) {
-    console.log(`Found card match: ${bestMatch?.card.credit_card_name} (similarity: ${bestScore.toFixed(2)})`);
-    return bestMatch;
+
+  // If still no highlights, try to extract from reason or rewards_rate
+  if (highlights.length === 0) {
+    if (rec.reason) {
+      const reasonParts = String(rec.reason)
+        .split(/[.,;]/)
+        .map(r => r.trim())
+        .filter(r => r.length > 15 && r.length < 100)
+        .slice(0, 3);
+      highlights.push(...reasonParts);
+    }
+
+    if (highlights.length === 0 && card.rewards_rate) {
+      highlights.push(String(card.rewards_rate));
+    }
   }
-  
-  return null;
+
+  return highlights.join('\n');
 }
 
 /**
- * Detects if the user is asking about a specific card by name
- * Returns the card name if detected, null otherwise
+ * Recommendation for a catalog card with its details from the sheet. fields is
+ * the model's output for the card; cards it didn't write about (top_card and
+ * padding cards) or salvaged ones without a usable reason get a generated reason.
  */
-async function detectSpecificCardQuery(userQuery: string): Promise<string | null> {
-  const openai = getOpenAIClient();
-  
-  // First, try to extract card name using LLM
-  const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
-    {
-      role: 'system',
-      content: `You are a credit card assistant. Analyze the user's question to determine if they are asking about a SPECIFIC credit card by name.
-
-CRITICAL: Return is_specific_card: true if:
-1. The user mentions ONE specific credit card by its exact name (e.g., "Chase Sapphire Preferred", "Amex Platinum", "Capital One Venture")
-2. They want to see information about that specific card (even if they use recommendation keywords like "show me", "tell me about", "recommend", etc.)
-
-Return JSON: {"is_specific_card": true/false, "card_name": "extracted card name or null"}
-
-Examples that ARE specific card queries (is_specific_card: true):
-- "Tell me about the Chase Sapphire Preferred" → {"is_specific_card": true, "card_name": "Chase Sapphire Preferred"}
-- "Show me the Chase Sapphire Preferred" → {"is_specific_card": true, "card_name": "Chase Sapphire Preferred"}
-- "What are the benefits of Amex Platinum?" → {"is_specific_card": true, "card_name": "Amex Platinum"}
-- "Chase Freedom Unlimited details" → {"is_specific_card": true, "card_name": "Chase Freedom Unlimited"}
-- "Information about the Capital One Venture card" → {"is_specific_card": true, "card_name": "Capital One Venture"}
-- "Recommend the Chase Sapphire Preferred" → {"is_specific_card": true, "card_name": "Chase Sapphire Preferred"}
-- "Show me details about Amex Gold" → {"is_specific_card": true, "card_name": "Amex Gold"}
-- "I want to know about the Capital One Venture X" → {"is_specific_card": true, "card_name": "Capital One Venture X"}
-
-Examples that are NOT specific card queries (is_specific_card: false):
-- "What's the best travel card?" → {"is_specific_card": false, "card_name": null} (no specific card mentioned)
-- "Show me cards with no annual fee" → {"is_specific_card": false, "card_name": null} (asking for multiple cards)
-- "What are the best cards for travel?" → {"is_specific_card": false, "card_name": null} (asking for multiple cards)
-- "Recommend cards for groceries" → {"is_specific_card": false, "card_name": null} (asking for multiple cards)
-- "Which card should I get?" → {"is_specific_card": false, "card_name": null} (no specific card mentioned)
-- "Compare travel cards" → {"is_specific_card": false, "card_name": null} (asking for multiple cards)
-- "Show me the best Chase cards" → {"is_specific_card": false, "card_name": null} (asking for multiple cards)
-- "What is APR?" → {"is_specific_card": false, "card_name": null} (asking for definition, no card mentioned)
-- "How does balance transfer work?" → {"is_specific_card": false, "card_name": null} (asking how something works, no card mentioned)
+function toRecommendation(card: CreditCard, userQuery: string, fields: Partial<StructuredCardOutput> = {}): Recommendation {
+  const reason = fields.reason || generatePersonalizedReason(card, userQuery);
+  return {
+    credit_card_name: card.credit_card_name,
+    card_id: card.id,
+    apply_url: fields.apply_url || String(card.url_application || card.url || ''),
+    reason,
+    // Pull from the sheet first, fall back to the model's text
+    card_summary: String(card.card_summary || fields.card_summary || '').trim(),
+    card_highlights: buildCardHighlights(card, { card_highlights: fields.card_highlights, reason }),
+    intro_offer: String(card.intro_offer || card.welcome_bonus || card.sign_up_bonus || card.intro_bonus || ''),
+    application_fee: String(card.application_fee || card.app_fee || ''),
+    credit_score_needed: String(card.credit_score_needed || card.credit_score || card.min_credit_score || card.credit_score_required || ''),
+    annual_fee: String(card.annual_fee || card.fee || ''),
+    rewards_rate: String(card.rewards_rate || card.rewards || card.reward_rate || ''),
+    perks: String(card.perks || card.benefits || card.card_perks || ''),
+  };
+}
 
-IMPORTANT: 
-- If a specific card name is mentioned, return is_specific_card: true even if recommendation keywords are present
-- If the question asks for multiple cards or comparisons between cards, return is_specific_card: false
-- If the question is asking about a concept/term without mentioning a specific card, return is_specific_card: false`,
-    },
-    {
-      role: 'user',
-      content: userQuery,
+/**
+ * Asks the user to pick a card when a name matches several equally well
+ */
+function buildDidYouMeanResponse(cardName: string, suggestions: string[]): RecommendationsResponse {
+  const list = suggestions.map(name => `- ${name}`).join('\n');
+  return {
+    recommendations: [],
+    summary: `I found a few cards that could match "${cardName}". Did you mean one of these?\n\n${list}`,
+    rawModelAnswer: JSON.stringify({ didYouMean: suggestions }),
+    metadata: {
+      step: 4,
+      stepName: 'Specific Card Question',
+      usedWebSearch: false,
+      reason: 'Ambiguous card name',
+      didYouMean: suggestions,
     },
-  ];
-  
-  try {
-    const completion = await openai.chat.completions.create({
-      model: CHAT_MODEL,
-      messages: messages,
-      temperature: 0.1,
-      max_tokens: 100,
-      response_format: { type: 'json_object' },
-    });
-    
-    const responseText = completion.choices[0]?.message?.content || '{}';
-    const response = JSON.parse(responseText);
-    
-    if (response.is_specific_card && response.card_name) {
-      console.log('Detected specific card query:', response.card_name);
-      return response.card_name;
-    }
-    
-    return null;
-  } catch (error) {
-    console.error('Error detecting specific card query:', error);
-    return null;
-  }
+  };
 }
 
 /**
@@ -529,14 +400,13 @@ async function generateSpecificCardResponse(
   userQuery: string,
   conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>
 ): Promise<RecommendationsResponse> {
-  const openai = getOpenAIClient();
   const cardData = card.card;
 
   // Check if query needs current information (e.g., "what's the current bonus?")
   const requiresWebSearch = await needsWebSearch(userQuery, false);
 
   if (requiresWebSearch) {
-    console.log('[STEP 4 - SPECIFIC CARD] Query requires current information, using web search');
+    log.info('[STEP 4 - SPECIFIC CARD] Query requires current information, using web search');
     // Include card name in the query for web search context
     const searchQuery = `${userQuery} for ${cardData.credit_card_name}`;
     const webSearchResult = await generateAnswerWithActualWebSearch(searchQuery, conversationHistory);
@@ -547,6 +417,12 @@ async function generateSpecificCardResponse(
       summary: webSearchResult.answer,
       rawModelAnswer: JSON.stringify({ usedWebSearch: true }),
       title: title,
+      metadata: {
+        step: 4,
+        stepName: 'Specific Card Question',
+        usedWebSearch: true,
+        reason: 'Requires current information',
+      },
     };
   }
 
@@ -620,31 +496,24 @@ IMPORTANT:
   });
   
   try {
-    const completion = await openai.chat.completions.create({
+    const completion = await getLLMProvider().chatJSON(messages, {
       model: CHAT_MODEL,
-      messages: messages,
+      usageStep: 'specific_card',
       temperature: 0.3,
-      max_tokens: 800, // Increased to ensure complete card information doesn't get cut off
-      response_format: { type: 'json_object' },
+      maxTokens: 800, // Increased to ensure complete card information doesn't get cut off
     });
     
-    const responseText = completion.choices[0]?.message?.content || '{}';
+    const responseText = completion.content || '{}';
     const response = JSON.parse(responseText);
     
-    // Clean duplicate card names from summary immediately after parsing
-    let summary = response.summary || `Information about ${cardData.credit_card_name}`;
-    summary = summary.split('\n').map((line: string) => {
-      // Match: any text, 2+ asterisks, same text, then anything after
-      return line.replace(/([^\*]+?)\*{2,}\1(\s*.*)$/gi, (match: string, p1: string, p2: string) => {
-        const cardName = p1.trim();
-        const afterText = p2.trim();
-        return afterText ? `${cardName} ${afterText}` : cardName;
-      });
-    }).join('\n');
+    // Clean asterisk runs and repeated card names left by the model
+    let summary: string = response.summary || `Information about ${cardData.credit_card_name}`;
+    summary = fixSummaryText(summary, [cardData.credit_card_name]);
     
     // Create recommendation object for the specific card
     const recommendation: Recommendation = {
       credit_card_name: response.card_name || cardData.credit_card_name,
+      card_id: cardData.id,
       apply_url: response.apply_url || String(cardData.url_application || ''),
       reason: response.summary || `Information about ${cardData.credit_card_name}`,
       // Pull from Google Sheet
@@ -665,9 +534,15 @@ IMPORTANT:
       summary: summary,
       rawModelAnswer: responseText,
       title: title,
+      metadata: {
+        step: 4,
+        stepName: 'Specific Card Question',
+        usedWebSearch: false,
+        reason: `Answered from card data for ${cardData.credit_card_name}`,
+      },
     };
   } catch (error) {
-    console.error('Error generating specific card response:', error);
+    log.error('Error generating specific card response:', error);
     throw error;
   }
 }
@@ -680,8 +555,6 @@ async function shouldReturnCards(
   userQuery: string,
   conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>
 ): Promise<boolean> {
-  const openai = getOpenAIClient();
-  
   const queryLower = userQuery.toLowerCase().trim();
   
   // First, check for specific question patterns that should NOT return cards
@@ -718,7 +591,7 @@ async function shouldReturnCards(
   
   // If it's an information question about a specific card, don't return cards
   if (isInformationQuestion) {
-    console.log('Query is asking for information about a card, not recommendations, skipping cards');
+    log.debug('Query is asking for information about a card, not recommendations, skipping cards');
     return false;
   }
   
@@ -738,7 +611,7 @@ async function shouldReturnCards(
     // If it's a definition/explanation pattern (what is, what's, how does, etc.) 
     // and NOT seeking recommendations, treat it as a general question
     if (!isSeekingRecommendation) {
-      console.log('Query is a specific definition/explanation question, skipping cards');
+      log.debug('Query is a specific definition/explanation question, skipping cards');
       return false;
     }
     // If it IS seeking recommendations (e.g., "What is the best card?"), continue to return cards
@@ -762,7 +635,7 @@ async function shouldReturnCards(
   
   // If it has recommendation keywords, default to cards (skip LLM check for speed)
   if (hasRecommendationKeywords) {
-    console.log('Query contains recommendation keywords, defaulting to cards');
+    log.debug('Query contains recommendation keywords, defaulting to cards');
     return true;
   }
   
@@ -829,121 +702,22 @@ Examples that DON'T need cards (needs_cards: false) - ONLY these clear cases:
   });
 
   try {
-    const completion = await openai.chat.completions.create({
-      model: CHAT_MODEL,
-      messages: contextMessages,
-      temperature: 0.1,
-      max_tokens: 100,
-      response_format: { type: 'json_object' },
-    });
+    const completion = await getLLMProvider().chatJSON(contextMessages, { model: CHAT_MODEL, temperature: 0.1, maxTokens: 100, usageStep: 'classification' });
 
-    const responseText = completion.choices[0]?.message?.content || '{}';
-    console.log('shouldReturnCards response:', responseText);
+    const responseText = completion.content || '{}';
+    log.debug('shouldReturnCards response:', responseText);
     const response = JSON.parse(responseText);
     // Default to true if the response is ambiguous or missing
     const needsCards = response.needs_cards !== false; // Only false if explicitly false
-    console.log('Needs cards:', needsCards);
+    log.debug('Needs cards:', needsCards);
     return needsCards;
   } catch (error) {
-    console.error('Error determining if cards needed:', error);
-    console.warn('Defaulting to true (return cards)');
+    log.error('Error determining if cards needed:', error);
+    log.warn('Defaulting to true (return cards)');
     return true; // Default to returning cards if we can't determine
   }
 }
 
-/**
- * STEP 2: Check if question is about credit cards
- * Rejects off-topic questions (weather, science, sports, etc.)
- */
-async function isCreditCardQuestion(userQuery: string): Promise<boolean> {
-  const openai = getOpenAIClient();
-
-  const systemPrompt = `You are a classifier that determines if a question is about credit cards.
-
-Credit card topics include:
-- Credit card features, benefits, rewards
-- APR, annual fees, interest rates
-- Points, miles, cash back
-- Credit card recommendations
-- Specific credit cards
-- Credit scores (as they relate to credit cards)
-- Credit card applications, approvals
-- Credit card companies and issuers
-
-NOT credit card topics:
-- Weather
-- Sports scores
-- Science, history, general knowledge
-- Current events unrelated to credit cards
-- Personal advice unrelated to credit cards
-
-Return JSON:
-{
-  "isCreditCardQuestion": boolean,
-  "reason": "brief explanation"
-}
-
-Examples:
-"What's the weather?" → {"isCreditCardQuestion": false, "reason": "Weather is not related to credit cards"}
-"What is APR?" → {"isCreditCardQuestion": true, "reason": "APR is a credit card concept"}
-"Who won the game?" → {"isCreditCardQuestion": false, "reason": "Sports scores are not related to credit cards"}
-"Best travel cards?" → {"isCreditCardQuestion": true, "reason": "Asking for credit card recommendations"}`;
-
-  try {
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userQuery }
-      ],
-      response_format: { type: 'json_object' },
-      temperature: 0,
-    });
-
-    const content = response.choices[0].message.content;
-    if (!content) {
-      return true; // Default to assuming it's a credit card question
-    }
-
-    const result = JSON.parse(content);
-    console.log(`[STEP 2] Is credit card question: ${result.isCreditCardQuestion}, Reason: ${result.reason}`);
-
-    return result.isCreditCardQuestion;
-  } catch (error) {
-    console.error('Error detecting credit card question:', error);
-    return true; // Default to assuming it's a credit card question
-  }
-}
-
-/**
- * STEP 3: Check if question is about general credit card attributes
- * (not specific cards or recommendations)
- */
-async function isGeneralAttributeQuestion(userQuery: string): Promise<boolean> {
-  const queryLower = userQuery.toLowerCase().trim();
-
-  // Patterns that indicate general attribute questions
-  const generalPatterns = [
-    /^what is\s+/i,                  // "What is cash back?"
-    /^what's\s+/i,                    // "What's APR?"
-    /^what are\s+/i,                  // "What are credit card rewards?"
-    /^how do\s+/i,                    // "How do points work?"
-    /^how does\s+/i,                  // "How does APR work?"
-    /^explain\s+/i,                   // "Explain APR"
-    /^can you explain\s+/i,           // "Can you explain cash back?"
-    /^tell me about\s+(apr|annual fee|cash back|points|miles|rewards|interest)/i, // "Tell me about APR"
-    /^what does\s+/i,                 // "What does APR mean?"
-    /^define\s+/i,                    // "Define APR"
-    /^history of\s+/i,                // "History of credit cards"
-    /^drawbacks of\s+/i,              // "Drawbacks of high APR"
-    /what's the difference between.*and/i, // "What's the difference between cash back and points?"
-  ];
-
-  const isGeneral = generalPatterns.some(pattern => pattern.test(userQuery));
-
-  console.log(`[STEP 3] Is general attribute question: ${isGeneral}`);
-  return isGeneral;
-}
 /**
  * STEP 3: Generate answer for general credit card attribute questions
  * Keeps responses to 1-3 sentences, uses web search if unsure
@@ -956,7 +730,7 @@ async function generateGeneralAnswer(
   const requiresWebSearch = await needsWebSearch(userQuery, false);
 
   if (requiresWebSearch) {
-    console.log('[STEP 3 - GENERAL ANSWER] Query requires current information, using web search');
+    log.info('[STEP 3 - GENERAL ANSWER] Query requires current information, using web search');
     const webSearchResult = await generateAnswerWithActualWebSearch(userQuery, conversationHistory);
     const title = await generateRecommendationTitle(userQuery);
 
@@ -975,8 +749,6 @@ async function generateGeneralAnswer(
   }
 
   // Otherwise, use internal knowledge to answer
-  const openai = getOpenAIClient();
-
   const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
     {
       role: 'system',
@@ -1014,23 +786,22 @@ Return JSON: {"summary": "your 1-3 sentence markdown-formatted answer", "uncerta
   });
 
   try {
-    const completion = await openai.chat.completions.create({
+    const completion = await getLLMProvider().chatJSON(messages, {
       model: CHAT_MODEL,
-      messages: messages,
+      usageStep: 'general_answer',
       temperature: 0.3,
-      max_tokens: 400, // Increased to ensure complete sentences don't get cut off
-      response_format: { type: 'json_object' },
+      maxTokens: 400, // Increased to ensure complete sentences don't get cut off
     });
 
-    const responseText = completion.choices[0]?.message?.content || '{}';
-    console.log('[STEP 3 - GENERAL ANSWER] LLM response:', responseText);
+    const responseText = completion.content || '{}';
+    log.info('[STEP 3 - GENERAL ANSWER] LLM response:', responseText);
     const response = JSON.parse(responseText);
     const summary = response.summary || 'I can help you with credit card questions. Would you like specific card recommendations?';
     const uncertain = response.uncertain || false;
 
     // If LLM is uncertain, use web search
     if (uncertain) {
-      console.log('[STEP 3 - UNCERTAIN] LLM is uncertain, using web search...');
+      log.info('[STEP 3 - UNCERTAIN] LLM is uncertain, using web search...');
       const webSearchResult = await generateAnswerWithActualWebSearch(userQuery, conversationHistory);
       const title = await generateRecommendationTitle(userQuery);
 
@@ -1052,7 +823,7 @@ Return JSON: {"summary": "your 1-3 sentence markdown-formatted answer", "uncerta
     const isGeneric = isGenericResponse(summary, userQuery);
 
     if (isGeneric) {
-      console.log('[STEP 3 - GENERIC DETECTED] Response is too generic, retrying with web search...');
+      log.info('[STEP 3 - GENERIC DETECTED] Response is too generic, retrying with web search...');
       const webSearchResult = await generateAnswerWithActualWebSearch(userQuery, conversationHistory);
       const title = await generateRecommendationTitle(userQuery);
 
@@ -1086,7 +857,7 @@ Return JSON: {"summary": "your 1-3 sentence markdown-formatted answer", "uncerta
       },
     };
   } catch (error) {
-    console.error('Error in generateGeneralAnswer:', error);
+    log.error('Error in generateGeneralAnswer:', error);
     throw error;
   }
 }
@@ -1095,12 +866,9 @@ Return JSON: {"summary": "your 1-3 sentence markdown-formatted answer", "uncerta
  * Generates a short 2-5 word title describing what the recommendations are for
  */
 async function generateRecommendationTitle(userQuery: string): Promise<string> {
-  const openai = getOpenAIClient();
-  
   try {
-    const completion = await openai.chat.completions.create({
-      model: CHAT_MODEL,
-      messages: [
+    const completion = await getLLMProvider().chat(
+      [
         {
           role: 'system',
           content: 'Generate a short 2-5 word title describing what credit card recommendations are for. Return only the title, no quotes, no explanation. Examples: "Travel Rewards Cards", "No Annual Fee Cards", "Groceries & Gas Cards", "Student Credit Cards", "Business Travel Cards"',
@@ -1110,107 +878,18 @@ async function generateRecommendationTitle(userQuery: string): Promise<string> {
           content: `User question: "${userQuery}"\n\nGenerate a 2-5 word title for these recommendations:`,
         },
       ],
-      temperature: 0.3,
-      max_tokens: 20,
-    });
+      { model: CHAT_MODEL, temperature: 0.3, maxTokens: 20, usageStep: 'title' }
+    );
     
-    const title = completion.choices[0]?.message?.content?.trim() || 'AI Recommendations';
+    const title = completion.content?.trim() || 'AI Recommendations';
     // Remove quotes if present
     return title.replace(/^["']|["']$/g, '');
   } catch (error) {
-    console.error('Error generating title:', error);
+    log.error('Error generating title:', error);
     return 'AI Recommendations'; // Fallback
   }
 }
 
-/**
- * Detects if the user is asking about previously shown cards
- */
-async function detectQuestionAboutPreviousCards(
-  userQuery: string,
-  previousRecommendations?: Recommendation[]
-): Promise<boolean> {
-  if (!previousRecommendations || previousRecommendations.length === 0) {
-    return false;
-  }
-  
-  const queryLower = userQuery.toLowerCase();
-  
-  // Patterns that indicate asking about previously shown cards
-  const previousCardPatterns = [
-    /these cards/i,
-    /any of these/i,
-    /these recommendations/i,
-    /the cards above/i,
-    /the cards you showed/i,
-    /the cards you recommended/i,
-    /which of these/i,
-    /do these cards/i,
-    /do any of these/i,
-    /are these cards/i,
-    /the recommended cards/i,
-    /the cards you mentioned/i,
-  ];
-  
-  const hasPreviousCardPattern = previousCardPatterns.some(pattern => pattern.test(userQuery));
-  
-  if (hasPreviousCardPattern) {
-    console.log('Detected question about previously shown cards');
-    return true;
-  }
-  
-  // Also check with LLM for more nuanced detection
-  const openai = getOpenAIClient();
-  const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
-    {
-      role: 'system',
-      content: `You are a credit card assistant. Determine if the user's question is asking about cards that were ALREADY shown/recommended to them, not asking for new card recommendations.
-
-Return JSON: {"is_about_previous_cards": true/false, "reason": "brief explanation"}
-
-Return is_about_previous_cards: true if the question:
-- References "these cards", "any of these", "the cards above", "the cards you showed", etc.
-- Asks about features/benefits of cards that were already recommended
-- Compares or asks questions about previously shown cards
-- Uses phrases like "which of these", "do these cards", "are these cards"
-
-Return is_about_previous_cards: false if the question:
-- Asks for new card recommendations
-- Asks "what cards", "show me cards", "recommend cards"
-- Doesn't reference previously shown cards
-
-Examples:
-- "Do any of these cards have rotating bonus categories?" → {"is_about_previous_cards": true}
-- "Which of these cards has the best travel insurance?" → {"is_about_previous_cards": true}
-- "What's the annual fee for these cards?" → {"is_about_previous_cards": true}
-- "Show me cards with no annual fee" → {"is_about_previous_cards": false}
-- "What's the best travel card?" → {"is_about_previous_cards": false}`,
-    },
-    {
-      role: 'user',
-      content: userQuery,
-    },
-  ];
-  
-  try {
-    const completion = await openai.chat.completions.create({
-      model: CHAT_MODEL,
-      messages: messages,
-      temperature: 0.1,
-      max_tokens: 100,
-      response_format: { type: 'json_object' },
-    });
-    
-    const responseText = completion.choices[0]?.message?.content || '{}';
-    const response = JSON.parse(responseText);
-    
-    return response.is_about_previous_cards === true;
-  } catch (error) {
-    console.error('Error detecting question about previous cards:', error);
-    return hasPreviousCardPattern; // Fallback to pattern matching
-  }
-}
-
 /**
  * Generates a response about previously shown cards
  */
@@ -1219,8 +898,6 @@ async function generateResponseAboutPreviousCards(
   previousRecommendations: Recommendation[],
   conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>
 ): Promise<RecommendationsResponse> {
-  const openai = getOpenAIClient();
-  
   // Load full card data for the previous recommendations
   const store = await loadEmbeddings();
   const cardDetails: string[] = [];
@@ -1297,15 +974,14 @@ IMPORTANT: Only reference the cards provided. Do not suggest new cards.`,
   });
   
   try {
-    const completion = await openai.chat.completions.create({
+    const completion = await getLLMProvider().chatJSON(messages, {
       model: CHAT_MODEL,
-      messages: messages,
+      usageStep: 'previous_cards',
       temperature: 0.3,
-      max_tokens: 1000, // Increased to allow for complete answers with multiple cards
-      response_format: { type: 'json_object' },
+      maxTokens: 1000, // Increased to allow for complete answers with multiple cards
     });
     
-    const responseText = completion.choices[0]?.message?.content || '{}';
+    const responseText = completion.content || '{}';
     const response = JSON.parse(responseText);
     
     // Validate that we got a complete response, not just an introduction
@@ -1315,7 +991,7 @@ IMPORTANT: Only reference the cards provided. Do not suggest new cards.`,
     // If it's too short or ends with a colon, it might be incomplete
     const summaryTrimmed = summary.trim();
     if (summaryTrimmed.length < 100 && (summaryTrimmed.endsWith(':') || summaryTrimmed.endsWith(':'))) {
-      console.warn('Response appears incomplete, regenerating with more explicit prompt...');
+      log.warn('Response appears incomplete, regenerating with more explicit prompt...');
       // Retry with an even more explicit prompt
       const retryMessages = [...messages];
       retryMessages[retryMessages.length - 1] = {
@@ -1323,15 +999,9 @@ IMPORTANT: Only reference the cards provided. Do not suggest new cards.`,
         content: `${retryMessages[retryMessages.length - 1].content}\n\nIMPORTANT: You must provide the ACTUAL information, not just say you will provide it. For example, if asked about credit scores, list each card's credit score requirement. If asked about fees, list each card's annual fee. Include all the details now.`,
       };
       
-      const retryCompletion = await openai.chat.completions.create({
-        model: CHAT_MODEL,
-        messages: retryMessages,
-        temperature: 0.3,
-        max_tokens: 1000,
-        response_format: { type: 'json_object' },
-      });
+      const retryCompletion = await getLLMProvider().chatJSON(retryMessages, { model: CHAT_MODEL, temperature: 0.3, maxTokens: 1000, usageStep: 'previous_cards' });
       
-      const retryResponseText = retryCompletion.choices[0]?.message?.content || '{}';
+      const retryResponseText = retryCompletion.content || '{}';
       const retryResponse = JSON.parse(retryResponseText);
       summary = retryResponse.summary || summary;
     }
@@ -1343,84 +1013,81 @@ IMPORTANT: Only reference the cards provided. Do not suggest new cards.`,
       summary: summary,
       rawModelAnswer: responseText,
       title: title,
+      metadata: {
+        step: 4,
+        stepName: 'Specific Card Question',
+        usedWebSearch: false,
+        reason: 'Question about previously shown cards',
+      },
     };
   } catch (error) {
-    console.error('Error generating response about previous cards:', error);
+    log.error('Error generating response about previous cards:', error);
     throw error;
   }
 }
 
 /**
- * Detects if the user is asking about how the chatbot was trained or its architecture
+ * Builds the best combination of cards for the user's spending ("which 2 cards should I carry together?")
  */
-function isTrainingQuestion(userQuery: string): boolean {
-  const queryLower = userQuery.toLowerCase().trim();
-  
-  // Primary phrases that clearly indicate questions about training/architecture
-  const primaryPhrases = [
-    'how were you trained',
-    'how was you trained',
-    'how are you trained',
-    'how did you learn',
-    'how do you work',
-    'how were you made',
-    'how was you made',
-    'how are you made',
-    'how were you built',
-    'how was you built',
-    'how are you built',
-    'how were you created',
-    'how was you created',
-    'how are you created',
-    'who made you',
-    'who created you',
-    'who built you',
-    'what powers you',
-    'what do you use',
-    'where did you learn',
-    'where do you get your',
-    'how do you know',
-    'your training',
-    'you trained',
-    'your architecture',
-    'your system',
-    'your database',
-    'your data',
-    'your sources',
-    'your model',
-  ];
-  
-  // Secondary keywords that, when combined with context, indicate training questions
-  const secondaryKeywords = [
-    'openai',
-    'gpt',
-    'chatgpt',
-    'language model',
-    'llm',
-    'retrieval',
-    'rag',
-    'embeddings',
-    'vector',
-    'nlp',
-    'natural language processing',
-  ];
-  
-  // Check for primary phrases first (more reliable)
-  if (primaryPhrases.some(phrase => queryLower.includes(phrase))) {
-    return true;
+async function generateWalletResponse(
+  userQuery: string,
+  spendProfile?: SpendProfile
+): Promise<RecommendationsResponse> {
+  const store = await loadEmbeddings();
+  const constraints = parseWalletConstraints(userQuery);
+  log.info(`[WALLET] Optimizing up to ${constraints.maxCards} cards, fee budget: ${constraints.maxTotalFee ?? 'none'}`);
+
+  const plan = optimizeWallet(store.cards, spendProfile, constraints);
+  const title = await generateRecommendationTitle(userQuery);
+
+  if (!plan) {
+    return {
+      recommendations: [],
+      summary: "I couldn't find a combination of cards in my database that fits that annual fee budget. Try raising the budget or allowing more cards.",
+      rawModelAnswer: 'No wallet fits the constraints',
+      title: title,
+      metadata: {
+        step: 5,
+        stepName: 'Wallet Optimization',
+        usedWebSearch: false,
+        reason: 'No cards fit the wallet constraints',
+      },
+    };
   }
-  
-  // Check for secondary keywords (only if they appear in a question context)
-  // This helps avoid false positives from casual mentions
-  const hasSecondaryKeyword = secondaryKeywords.some(keyword => queryLower.includes(keyword));
-  const looksLikeQuestion = queryLower.includes('?') || 
-                            queryLower.startsWith('what') || 
-                            queryLower.startsWith('how') || 
-                            queryLower.startsWith('who') || 
-                            queryLower.startsWith('where') ||
-                            queryLower.startsWith('which');
-  
-  return hasSecondaryKeyword && looksLikeQuestion;
+
+  log.info(`[WALLET] Best wallet: ${plan.cards.map(card => card.credit_card_name).join(' + ')} ($${plan.ongoing}/year after fees, ${plan.combinationsEvaluated} combinations)`);
+
+  const recommendations: Recommendation[] = plan.cards.map(walletCard => {
+    const cardData = store.cards.find(card => card.credit_card_name === walletCard.credit_card_name)!;
+    return {
+      credit_card_name: walletCard.credit_card_name,
+      card_id: cardData.id,
+      apply_url: walletCard.apply_url,
+      reason: describeWalletCard(plan, walletCard.credit_card_name),
+      card_summary: String(cardData.card_summary || '').trim(),
+      card_highlights: String(cardData.card_highlights || '').trim(),
+      intro_offer: String(cardData.intro_offer || cardData.welcome_bonus || cardData.sign_up_bonus || cardData.intro_bonus || ''),
+      application_fee: String(cardData.application_fee || cardData.app_fee || ''),
+      credit_score_needed: String(cardData.credit_score_needed || cardData.credit_score || cardData.min_credit_score || cardData.credit_score_required || ''),
+      annual_fee: String(cardData.annual_fee || cardData.fee || ''),
+      rewards_rate: String(cardData.rewards_rate || cardData.rewards || cardData.reward_rate || ''),
+      perks: String(cardData.perks || cardData.benefits || cardData.card_perks || ''),
+    };
+  });
+
+  return {
+    recommendations,
+    summary: formatWalletSummary(plan),
+    rawModelAnswer: JSON.stringify({ wallet: plan.cards.map(card => card.credit_card_name) }),
+    title: title,
+    wallet: plan,
+    metadata: {
+      step: 5,
+      stepName: 'Wallet Optimization',
+      usedWebSearch: false,
+      reason: `Best of ${plan.combinationsEvaluated} card combinations${plan.assumedSpendProfile ? ' (typical spend profile)' : ''}`,
+    },
+  };
 }
 
 /**
@@ -1442,49 +1109,14 @@ function isCobrandedCardQuery(userQuery: string): boolean {
   return cobrandedKeywords.some(keyword => queryLower.includes(keyword));
 }
 
-// Track if we've logged column info for debugging
-let hasLoggedColumns = false;
-
 /**
- * Checks if a card has top_card value of 1
- * Also checks for variations in column name (top_card, topCard, Top Card, Top_Card, etc.)
+ * Checks if a card is flagged as a top card (typed top_card field, see lib/cardSchema.ts)
  */
-function isTopCard(card: any): boolean {
-  // Try different possible column names
-  const possibleColumnNames = ['top_card', 'topCard', 'Top Card', 'Top_Card', 'top card', 'TOP_CARD'];
-  
-  let topCardValue = null;
-  let foundColumnName = null;
-  
-  for (const colName of possibleColumnNames) {
-    if (card[colName] !== undefined && card[colName] !== null) {
-      topCardValue = card[colName];
-      foundColumnName = colName;
-      break;
-    }
-  }
-  
-  // If not found, log available columns for debugging (only once)
-  if (topCardValue === null && !hasLoggedColumns) {
-    console.log('Available columns in card object:', Object.keys(card).slice(0, 20).join(', '));
-    console.log('Sample card data:', JSON.stringify(card).substring(0, 200));
-    hasLoggedColumns = true;
-  }
-  
-  if (topCardValue === null || topCardValue === undefined) {
-    return false;
-  }
-  
-  // Handle various value formats: "1", 1, "1.0", " 1 ", "TRUE", true, etc.
-  const normalizedValue = String(topCardValue).trim().toLowerCase();
-  const isTop = normalizedValue === '1' || 
-                normalizedValue === '1.0' || 
-                normalizedValue === 'true' ||
-                topCardValue === 1 ||
-                topCardValue === true;
+export function isTopCard(card: any): boolean {
+  const isTop = toTypedCard(card).top_card;
   
   if (isTop) {
-    console.log(`Card ${card.credit_card_name} is marked as top_card (column: ${foundColumnName}, value: ${topCardValue})`);
+    log.debug(`Card ${card.credit_card_name} is marked as top_card`);
   }
   
   return isTop;
@@ -1498,8 +1130,6 @@ function filterDuplicateCobranded(
   recommendations: Recommendation[],
   similarCards: CardEmbedding[]
 ): Recommendation[] {
-  const normalizeCardName = (name: string) => 
-    name.toLowerCase().replace(/[®™©]/g, '').trim();
   
   const seenCobranded = new Set<string>();
   const filtered: Recommendation[] = [];
@@ -1524,48 +1154,388 @@ function filterDuplicateCobranded(
       seenCobranded.add(normalizedCobranded);
       filtered.push(rec);
     } else {
-      console.log(`Filtered out duplicate co_branded: ${rec.credit_card_name} (${cobranded})`);
+      log.debug(`Filtered out duplicate co_branded: ${rec.credit_card_name} (${cobranded})`);
     }
   }
   
   return filtered;
 }
 
+/**
+ * Times pipeline stages: mark(stage) records the time since the previous mark
+ */
+function createLatencyTracker() {
+  const startedAt = Date.now();
+  let lastMark = startedAt;
+  const stages: Record<string, number> = {};
+
+  return {
+    mark(stage: string) {
+      const now = Date.now();
+      stages[stage] = (stages[stage] || 0) + (now - lastMark);
+      lastMark = now;
+    },
+    /** Time since the last mark counts as generation */
+    finish(): Record<string, number> {
+      this.mark('generation');
+      return { ...stages, total: Date.now() - startedAt };
+    },
+  };
+}
+
+interface PipelineTrace {
+  latency: ReturnType<typeof createLatencyTracker>;
+  routed: RoutedQuery | null;
+  debug: PipelineDebugTrace | null; // Only collected when the caller asks for it
+}
+
 /**
  * Generates credit card recommendations using RAG
+ * handlers.onStep is called as the pipeline enters each step, and the recommendation step reports its title
+ * when it's ready and its cards and summary lines as the model writes them, so streaming callers can show them
+ * early. Those are provisional (the returned response is final), and no handler is called once this settles.
+ * metadata reports the routed intent, per-stage latency and LLM usage, plus the decision trace when debug is set.
  */
 export async function generateRecommendations(
   userQuery: string,
   topN: number = TOP_N_CARDS,
   conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>,
-  previousRecommendations?: Recommendation[]
+  previousRecommendations?: Recommendation[],
+  handlers: PipelineProgressHandlers = {},
+  spendProfile?: SpendProfile,
+  debug: boolean = false
 ): Promise<RecommendationsResponse> {
-  try {
-    // ============================================================
-    // STEP 1: Training Question Check
-    // ============================================================
-    if (isTrainingQuestion(userQuery)) {
-      console.log('[STEP 1] Training/architecture question detected');
-      return {
-        recommendations: [],
-        summary: "I am powered by a specialized integration of OpenAI's GPT models and a custom financial database. My architecture combines Natural Language Processing (NLP) with a retrieval system that constantly combs through 1,000+ verified sources (such as APR tables, issuer terms, and redemption portals). This allows me to cross-reference complex credit card data in real-time to answer your questions.",
-        rawModelAnswer: 'Training question detected',
-        metadata: {
-          step: 1,
-          stepName: 'Training Question Check',
-          usedWebSearch: false,
-          reason: 'Question about chatbot architecture/training',
-        },
-      };
-    }
+  return withSpan('rag.generate_recommendations', {
+    'rag.history_messages': conversationHistory?.length || 0,
+    'rag.previous_recommendations': previousRecommendations?.length || 0,
+    'rag.spend_profile': hasSpendProfile(spendProfile),
+  }, async span => {
+    const trace: PipelineTrace = {
+      latency: createLatencyTracker(),
+      routed: null,
+      debug: debug ? { filterPasses: [], retrieval: [], injectedCards: [], droppedCards: [] } : null,
+    };
+    let lastStep: PipelineStep = { step: 1, stepName: 'Training Question Check' };
+
+    // Handlers stop once the pipeline settles, so a late title can't reach a finished or degraded answer
+    let running = true;
+    const pipelineHandlers: PipelineProgressHandlers = {
+      onStep: (step) => {
+        lastStep = step;
+        if (running) handlers.onStep?.(step);
+      },
+      onTitle: handlers.onTitle && (title => {
+        if (running) handlers.onTitle?.(title);
+      }),
+      onRecommendation: handlers.onRecommendation && ((rec, index) => {
+        if (running) handlers.onRecommendation?.(rec, index);
+      }),
+      onSummary: handlers.onSummary && (delta => {
+        if (running) handlers.onSummary?.(delta);
+      }),
+    };
 
+    const { result: linted, usage } = await runWithUsage(async () => {
+      let response: RecommendationsResponse;
+      try {
+        response = await runRecommendationPipeline(
+          userQuery,
+          topN,
+          conversationHistory,
+          previousRecommendations,
+          pipelineHandlers,
+          spendProfile,
+          trace
+        ).finally(() => {
+          running = false;
+        });
+      } catch (error) {
+        if (!isLLMUnavailableError(error)) throw error;
+        log.warn('[DEGRADED] LLM unavailable, answering from catalog search:', error instanceof Error ? error.message : error);
+        response = await withSpan('rag.degraded_answer', {}, () => generateDegradedResponse(userQuery));
+      }
+
+      const verified = await withSpan('rag.verify_claims', {}, () => verifyClaims(response, userQuery, trace));
+      return withSpan('rag.lint', {}, () => lintAnswer(verified, userQuery, trace));
+    });
+
+    const latencyMs = trace.latency.finish();
+    log.info('[LATENCY]', latencyMs);
+
+    span.setAttributes({
+      'rag.intent': trace.routed?.intent,
+      'rag.route_source': trace.routed?.source,
+      'rag.step': lastStep.step,
+      'rag.recommendations': linted.recommendations.length,
+      'rag.degraded': !!linted.metadata?.degraded,
+      'rag.cost_usd': usage.costUsd,
+    });
+
+    return {
+      ...linted,
+      metadata: {
+        step: lastStep.step,
+        stepName: lastStep.stepName,
+        usedWebSearch: false,
+        ...linted.metadata,
+        ...(trace.routed ? { routing: { intent: trace.routed.intent, source: trace.routed.source } } : {}),
+        latencyMs,
+        usage,
+        ...(trace.debug ? { debug: trace.debug } : {}),
+      },
+    };
+  });
+}
+
+/**
+ * Answer for when the LLM is unavailable: the closest catalog cards by vector
+ * search (or keyword search if the query can't be embedded either), filtered
+ * with the rule-based extractor and described without the model
+ */
+async function generateDegradedResponse(userQuery: string): Promise<RecommendationsResponse> {
+  const store = await loadEmbeddings();
+  const filters = extractFiltersWithRules(userQuery);
+  const filteredCardIds = Object.keys(filters).length > 0
+    ? applyFilters(store.cards, filters).map(card => card.id)
+    : undefined;
+
+  let cards: CardEmbedding[];
+  let searchType = 'vector';
+  try {
+    cards = await findSimilarCards(await embedQuery(userQuery), MAX_OUTPUT_CARDS, filteredCardIds, userQuery);
+  } catch (error) {
+    log.warn('[DEGRADED] Could not embed the query, using keyword search:', error instanceof Error ? error.message : error);
+    cards = await findCardsByKeyword(userQuery, MAX_OUTPUT_CARDS, filteredCardIds);
+    searchType = 'keyword';
+  }
+  log.info(`[DEGRADED] ${cards.length} cards from ${searchType} search`);
+
+  const metadata = {
+    step: 5,
+    stepName: 'Credit Card Recommendations',
+    usedWebSearch: false,
+    degraded: true,
+    reason: `LLM unavailable, ${cards.length} cards from catalog ${searchType} search`,
+  };
+
+  if (cards.length === 0) {
+    return {
+      recommendations: [],
+      summary: "I'm having trouble reaching the AI service right now and couldn't find matching cards by keyword. Please try again in a few moments.",
+      rawModelAnswer: 'LLM unavailable',
+      metadata,
+    };
+  }
+
+  const recommendations: Recommendation[] = cards.map(({ card }) => ({
+    credit_card_name: card.credit_card_name,
+    card_id: card.id,
+    apply_url: String(card.url_application || card.url || ''),
+    reason: generatePersonalizedReason(card, userQuery),
+    card_summary: String(card.card_summary || '').trim(),
+    card_highlights: String(card.card_highlights || '').trim(),
+    intro_offer: String(card.intro_offer || card.welcome_bonus || card.sign_up_bonus || card.intro_bonus || ''),
+    application_fee: String(card.application_fee || card.app_fee || ''),
+    credit_score_needed: String(card.credit_score_needed || card.credit_score || card.min_credit_score || card.credit_score_required || ''),
+    annual_fee: String(card.annual_fee || card.fee || ''),
+    rewards_rate: String(card.rewards_rate || card.rewards || card.reward_rate || ''),
+    perks: String(card.perks || card.benefits || card.card_perks || ''),
+  }));
+
+  return {
+    recommendations,
+    summary: renderRecommendationSummary({
+      preface: "I'm having trouble reaching the AI service right now, so here are the closest matches from our card catalog",
+      cards: recommendations.map(rec => ({ ...rec, connecting_sentence: '' })),
+      closing: 'Ask again in a few moments for a personalized answer.',
+    }),
+    rawModelAnswer: 'LLM unavailable',
+    title: 'Top Matches from Our Catalog',
+    metadata,
+  };
+}
+
+/**
+ * Checks the answer's facts against the catalog, correcting structured fields
+ * and attaching the report to the metadata. Wallet answers are computed, not
+ * generated, so they are left alone.
+ */
+async function verifyClaims(
+  response: RecommendationsResponse,
+  userQuery: string,
+  trace: PipelineTrace
+): Promise<RecommendationsResponse> {
+  if (!CLAIM_VERIFICATION || trace.routed?.intent === 'wallet') return response;
+  if ((response.recommendations || []).length === 0 && !response.summary) return response;
+
+  try {
+    const { cards } = await loadEmbeddings();
+    const { response: verified, report } = verifyResponseClaims(response, cards, [userQuery]);
+    trace.latency.mark('verification');
+    log.info(`[VERIFY] ${report.checked} claims: ${report.verified} verified, ${report.corrected} corrected, ${report.flagged} flagged`);
+    report.claims
+      .filter(claim => claim.status !== 'verified')
+      .forEach(claim => log.debug(`[VERIFY] ${claim.status} ${claim.kind} in ${claim.source}: "${claim.claim}"${claim.expected ? ` (catalog: ${claim.expected})` : ''}`));
+
+    return { ...verified, metadata: { ...verified.metadata!, verification: report } };
+  } catch (error) {
+    log.error('[VERIFY] Error verifying claims, returning the answer unverified:', error);
+    return response;
+  }
+}
+
+/**
+ * Runs the output lint rules, applying their fixes and attaching the report to
+ * the metadata. Wallet answers are computed, not generated, so they are left alone.
+ */
+async function lintAnswer(
+  response: RecommendationsResponse,
+  userQuery: string,
+  trace: PipelineTrace
+): Promise<RecommendationsResponse> {
+  if (!OUTPUT_LINT || trace.routed?.intent === 'wallet') return response;
+  if ((response.recommendations || []).length === 0 && !response.summary) return response;
+
+  try {
+    const { cards } = await loadEmbeddings();
+    const { response: linted, report } = lintResponse(response, { userQuery, catalog: cards });
+    trace.latency.mark('lint');
+    log.info(`[LINT] ${report.issues.length} issues: ${report.errors} errors, ${report.warnings} warnings, ${report.fixed} fixed`);
+    report.issues.forEach(issue => log.debug(`[LINT] ${issue.severity} ${issue.rule}${issue.fixed ? ' (fixed)' : ''}: ${issue.message}`));
+
+    return { ...linted, metadata: { ...linted.metadata!, lint: report } };
+  } catch (error) {
+    log.error('[LINT] Error linting answer, returning it unchanged:', error);
+    return response;
+  }
+}
+
+/**
+ * Asks for the step 5 recommendations as structured JSON. Output that fails
+ * validation is sent back with the errors, up to STRUCTURED_OUTPUT_RETRIES
+ * times. If no attempt is valid, the usable cards of the last one are kept;
+ * output is null only when there are none. onPartial streams each attempt as it is written.
+ */
+async function requestStructuredRecommendations(
+  messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>,
+  candidateNames: string[],
+  onPartial?: (contentSoFar: string) => void
+): Promise<{ rawAnswer: string; output: StructuredRecommendationOutput | null }> {
+  const attemptMessages = [...messages];
+  let rawAnswer = '';
+
+  for (let attempt = 1; attempt <= STRUCTURED_OUTPUT_RETRIES + 1; attempt++) {
+    const completion = await getLLMProvider().chatJSON(attemptMessages, {
+      model: CHAT_MODEL,
+      usageStep: 'generation',
+      temperature: 0.5, // Higher temperature for more varied, conversational responses
+      maxTokens: 2500, // Room for three cards with summaries and highlights
+      onPartial,
+    });
+    rawAnswer = completion.content || '';
+    log.debug(`LLM response received (attempt ${attempt}), length:`, rawAnswer.length);
+
+    const { output, errors } = validateRecommendationOutput(rawAnswer, candidateNames);
+    if (output) {
+      return { rawAnswer, output };
+    }
+
+    log.warn(`[STEP 5] Output failed validation (attempt ${attempt}): ${errors.join('; ')}`);
+    attemptMessages.push(
+      { role: 'assistant', content: rawAnswer },
+      { role: 'user', content: buildOutputRetryPrompt(errors) }
+    );
+  }
+
+  const salvaged = salvageRecommendationOutput(rawAnswer, candidateNames);
+  if (salvaged) {
+    log.warn(`[STEP 5] No valid output after ${STRUCTURED_OUTPUT_RETRIES + 1} attempts, keeping ${salvaged.cards.length} usable cards from the last one`);
+  }
+  return { rawAnswer, output: salvaged };
+}
+
+/**
+ * Connecting sentence for a card the model didn't write one for (padding, top_card and fallback cards)
+ */
+function fallbackConnectingSentence(rec: Recommendation, index: number, userQuery: string): string {
+  const isNoFeeQuery = userQuery.toLowerCase().includes('no annual fee') || userQuery.toLowerCase().includes('no fee');
+  const connectingSentences = [
+    isNoFeeQuery 
+      ? `This card stands out for its exceptional value without any annual fee, making it ideal for budget-conscious cardholders.`
+      : `This card is perfect if you want to maximize your rewards while enjoying valuable benefits.`,
+    isNoFeeQuery
+      ? `If you're looking to avoid annual fees while still earning rewards, this card delivers strong value.`
+      : `This option is ideal for cardholders who prioritize ${rec.reason?.toLowerCase() || 'flexible rewards and benefits'}.`,
+    isNoFeeQuery
+      ? `This card offers a unique combination of benefits without the burden of an annual fee.`
+      : `This card stands out for ${rec.reason?.toLowerCase() || 'its unique combination of features'} that align with your spending habits.`,
+  ];
+  return connectingSentences[index % connectingSentences.length];
+}
+
+/**
+ * Runs the pipeline steps for generateRecommendations
+ */
+async function runRecommendationPipeline(
+  userQuery: string,
+  topN: number,
+  conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }> | undefined,
+  previousRecommendations: Recommendation[] | undefined,
+  handlers: PipelineProgressHandlers,
+  spendProfile: SpendProfile | undefined,
+  trace: PipelineTrace
+): Promise<RecommendationsResponse> {
+  const reportStep = (step: number, stepName: string) => {
+    handlers.onStep?.({ step, stepName });
+  };
+
+  try {
+    // ============================================================
+    // ROUTING: one pass decides steps 1-4 and extracts the filters for step 5
+    // ============================================================
+    const routed = await withSpan('rag.route', {}, async routeSpan => {
+      const result = await routeQuery(userQuery, previousRecommendations);
+      routeSpan.setAttributes({ 'rag.intent': result.intent, 'rag.route_source': result.source });
+      return result;
+    });
+    trace.routed = routed;
+    trace.latency.mark('routing');
+    if (trace.debug) {
+      trace.debug.routing = {
+        intent: routed.intent,
+        source: routed.source,
+        reason: routed.reason,
+        cardNames: routed.cardNames,
+        previousCardIndices: routed.previousCardIndices,
+      };
+      trace.debug.filters = { ...routed.filters };
+    }
+
+    // ============================================================
+    // STEP 1: Training Question Check
     // ============================================================
-    // STEP 2: Is the question about credit cards?
-    // ============================================================
-    const isCCQuestion = await isCreditCardQuestion(userQuery);
+    if (routed.intent === 'training') {
+      log.info('[STEP 1] Training/architecture question detected');
+      reportStep(1, 'Training Question Check');
+      return {
+        recommendations: [],
+        summary: "I am powered by a specialized integration of OpenAI's GPT models and a custom financial database. My architecture combines Natural Language Processing (NLP) with a retrieval system that constantly combs through 1,000+ verified sources (such as APR tables, issuer terms, and redemption portals). This allows me to cross-reference complex credit card data in real-time to answer your questions.",
+        rawModelAnswer: 'Training question detected',
+        metadata: {
+          step: 1,
+          stepName: 'Training Question Check',
+          usedWebSearch: false,
+          reason: 'Question about chatbot architecture/training',
+        },
+      };
+    }
 
-    if (!isCCQuestion) {
-      console.log('[STEP 2] Question is NOT about credit cards, returning limitation message');
+    // ============================================================
+    // STEP 2: Is the question about credit cards?
+    // ============================================================
+    if (routed.intent === 'off_topic') {
+      log.info('[STEP 2] Question is NOT about credit cards, returning limitation message');
+      reportStep(2, 'Credit Card Topic Check');
       return {
         recommendations: [],
         summary: "I'm a credit card assistant and can only answer questions related to credit cards. Please ask me about credit card features, rewards, recommendations, or specific cards.",
@@ -1579,83 +1549,88 @@ export async function generateRecommendations(
       };
     }
 
-    console.log('[STEP 2] Question is about credit cards, continuing...');
-
     // ============================================================
     // STEP 3: General credit card attributes (not recommendations)?
     // ============================================================
-    const isGeneralAttribute = await isGeneralAttributeQuestion(userQuery);
-
-    if (isGeneralAttribute) {
-      console.log('[STEP 3] General attribute question detected (what is APR, etc.)');
+    if (routed.intent === 'general_attribute') {
+      log.info('[STEP 3] General attribute question detected (what is APR, etc.)');
+      reportStep(3, 'General Attribute Question');
       return await generateGeneralAnswer(userQuery, conversationHistory);
     }
 
-    console.log('[STEP 3] Not a general attribute question, continuing...');
-
     // ============================================================
     // STEP 4: Specific Card(s) Question
     // ============================================================
 
-    // Step 4a: Check if asking about previously shown cards
-    // ("tell me more about card 3", "what about this card")
-    if (previousRecommendations && previousRecommendations.length > 0) {
-      console.log('[STEP 4a] Checking if query is about previously shown cards...');
-      const isAboutPreviousCards = await detectQuestionAboutPreviousCards(userQuery, previousRecommendations);
-
-      if (isAboutPreviousCards) {
-        console.log('[STEP 4a] Question is about previously shown cards');
-        return await generateResponseAboutPreviousCards(userQuery, previousRecommendations, conversationHistory);
-      }
+    // Step 4a: Asking about previously shown cards
+    // ("tell me more about card 3", "which of these has no annual fee")
+    if (routed.intent === 'previous_cards' && previousRecommendations && previousRecommendations.length > 0) {
+      log.info('[STEP 4a] Question is about previously shown cards', routed.previousCardIndices);
+      reportStep(4, 'Specific Card Question');
+      return await generateResponseAboutPreviousCards(
+        userQuery,
+        selectPreviousCards(routed, previousRecommendations),
+        conversationHistory
+      );
     }
 
-    // Step 4b: Check if asking about a specific card by name
+    // Step 4b: Asking about a specific card by name
     // ("Show me Chase Sapphire Preferred", "Tell me about Capital One Venture")
-    console.log('[STEP 4b] Checking if query is about a specific card by name...');
-    const specificCardName = await detectSpecificCardQuery(userQuery);
-
-    if (specificCardName) {
-      console.log(`[STEP 4b] Specific card query detected: ${specificCardName}`);
-      const specificCard = await findCardByName(specificCardName);
+    if (routed.intent === 'specific_card') {
+      const specificCardName = routed.cardNames[0];
+      log.info(`[STEP 4b] Specific card query detected: ${specificCardName}`);
+      reportStep(4, 'Specific Card Question');
+      const resolution = await resolveCard(specificCardName);
+      const specificCard = resolution.match?.item;
 
       if (specificCard) {
-        console.log(`[STEP 4b] Found specific card: ${specificCard.card.credit_card_name}`);
+        log.info(`[STEP 4b] Found specific card: ${specificCard.card.credit_card_name} (confidence: ${resolution.match?.confidence.toFixed(2)})`);
         return await generateSpecificCardResponse(specificCard, userQuery, conversationHistory);
+      } else if (resolution.ambiguous) {
+        log.info(`[STEP 4b] "${specificCardName}" matches several cards: ${resolution.didYouMean.join(', ')}`);
+        return buildDidYouMeanResponse(specificCardName, resolution.didYouMean);
       } else {
-        console.log(`[STEP 4b] Could not find card matching: ${specificCardName}`);
+        log.info(`[STEP 4b] Could not find card matching: ${specificCardName}`);
         // Continue to Step 5 - maybe it's a recommendation request
       }
     }
 
-    console.log('[STEP 4] Not a specific card question, continuing to recommendations...');
+    // Wallet mode: "which cards should I carry together?" gets an optimized combination
+    if (routed.intent === 'wallet') {
+      log.info('[STEP 5] Wallet optimization question detected');
+      reportStep(5, 'Wallet Optimization');
+      return await generateWalletResponse(userQuery, spendProfile);
+    }
 
     // ============================================================
     // STEP 5: Credit Card Recommendations
     // ============================================================
-    console.log('[STEP 5] User wants credit card recommendations');
+    log.info('[STEP 5] User wants credit card recommendations');
+    reportStep(5, 'Credit Card Recommendations');
 
     // Continue with normal recommendation flow...
 
-    // Step 1.5: Extract filters from user query (PRE-FILTERING)
-    console.log('Extracting filters from user query...');
-    const filters = await extractFilters(userQuery);
+    // Step 1.5: Filters extracted by the router (PRE-FILTERING)
+    const filters = routed.filters;
 
     // Apply filters to get subset of cards to search
     let filteredCardIds: string[] | undefined;
     if (filters && Object.keys(filters).length > 0) {
-      console.log('Applying pre-filters to card dataset before vector search...');
+      log.debug('Applying pre-filters to card dataset before vector search...');
       const store = await loadEmbeddings();
       const allCards = store.cards;
-      const filteredCards = applyFilters(allCards, filters);
+      const filteredCards = applyFilters(allCards, filters, pass => trace.debug?.filterPasses.push(pass));
       filteredCardIds = filteredCards.map(card => card.id);
+      if (trace.debug) trace.debug.filteredCardCount = filteredCards.length;
 
       if (filteredCards.length === 0) {
-        console.warn('No cards match the specified filters - checking if web search needed');
+        log.warn('No cards match the specified filters - checking if web search needed');
 
         // Check if we should fall back to web search
         const shouldUseWebSearch = await needsWebSearch(userQuery, false);
+        if (trace.debug) trace.debug.webSearchNeeded = shouldUseWebSearch;
         if (shouldUseWebSearch) {
-          console.log('[NO CARDS FOUND] Falling back to web search');
+          log.info('[NO CARDS FOUND] Falling back to web search');
           const webSearchResult = await generateAnswerWithActualWebSearch(userQuery, conversationHistory);
           const title = await generateRecommendationTitle(userQuery);
 
@@ -1664,6 +1639,12 @@ export async function generateRecommendations(
             summary: webSearchResult.answer,
             rawModelAnswer: JSON.stringify({ usedWebSearch: true }),
             title: title,
+            metadata: {
+              step: 5,
+              stepName: 'Credit Card Recommendations',
+              usedWebSearch: true,
+              reason: 'No cards matched the extracted filters',
+            },
           };
         }
 
@@ -1677,20 +1658,28 @@ export async function generateRecommendations(
     }
 
     // Step 2: Embed the user query
-    console.log('Embedding user query...');
+    log.debug('Embedding user query...');
     const queryEmbedding = await embedQuery(userQuery);
 
     // Step 3: Find similar cards (within filtered subset if filters were applied)
-    console.log(`Finding top ${topN} similar cards...`);
-    const similarCards = await findSimilarCards(queryEmbedding, topN, filteredCardIds);
+    log.debug(`Finding top ${topN} similar cards...`);
+    const similarCards = await findSimilarCards(queryEmbedding, topN, filteredCardIds, userQuery);
+    if (trace.debug) {
+      trace.debug.retrieval = similarCards.map(item => ({
+        credit_card_name: item.card.credit_card_name,
+        similarity: Math.round(cosineSimilarity(queryEmbedding, item.embedding) * 10000) / 10000,
+        top_card: isTopCard(item.card),
+      }));
+    }
     
     if (similarCards.length === 0) {
-      console.warn('No similar cards found - checking if web search needed');
+      log.warn('No similar cards found - checking if web search needed');
 
       // Check if we should fall back to web search
       const shouldUseWebSearch = await needsWebSearch(userQuery, false);
+      if (trace.debug) trace.debug.webSearchNeeded = shouldUseWebSearch;
       if (shouldUseWebSearch) {
-        console.log('[NO SIMILAR CARDS] Falling back to web search');
+        log.info('[NO SIMILAR CARDS] Falling back to web search');
         const webSearchResult = await generateAnswerWithActualWebSearch(userQuery, conversationHistory);
         const title = await generateRecommendationTitle(userQuery);
 
@@ -1699,6 +1688,12 @@ export async function generateRecommendations(
           summary: webSearchResult.answer,
           rawModelAnswer: JSON.stringify({ usedWebSearch: true }),
           title: title,
+          metadata: {
+            step: 5,
+            stepName: 'Credit Card Recommendations',
+            usedWebSearch: true,
+            reason: 'No similar cards found',
+          },
         };
       }
 
@@ -1715,13 +1710,13 @@ export async function generateRecommendations(
     const topCardsInSimilar = similarCards.filter(card => isTopCard(card.card));
     let allCandidateCards = [...similarCards];
 
-    console.log(`Found ${topCardsInSimilar.length} top_card cards in initial similar cards`);
+    log.debug(`Found ${topCardsInSimilar.length} top_card cards in initial similar cards`);
     if (topCardsInSimilar.length > 0) {
-      console.log('Top_card cards in similar:', topCardsInSimilar.map(c => c.card.credit_card_name));
+      log.debug('Top_card cards in similar:', topCardsInSimilar.map(c => c.card.credit_card_name));
     }
 
     if (topCardsInSimilar.length === 0) {
-      console.log('No top_card cards found in similar cards, fetching top_card cards separately...');
+      log.debug('No top_card cards found in similar cards, fetching top_card cards separately...');
       const store = await loadEmbeddings();
 
       // CRITICAL FIX: Respect the pre-filter when fetching top cards
@@ -1731,10 +1726,10 @@ export async function generateRecommendations(
       if (filteredCardIds && filteredCardIds.length > 0) {
         const filteredIdSet = new Set(filteredCardIds);
         allTopCards = allTopCards.filter(card => filteredIdSet.has(card.card.id));
-        console.log(`Filtered top_card cards to match pre-filter (${filteredCardIds.length} allowed IDs): ${allTopCards.length} top cards remaining`);
+        log.debug(`Filtered top_card cards to match pre-filter (${filteredCardIds.length} allowed IDs): ${allTopCards.length} top cards remaining`);
       }
 
-      console.log(`Found ${allTopCards.length} total top_card cards in ${filteredCardIds && filteredCardIds.length > 0 ? 'filtered' : 'full'} database`);
+      log.debug(`Found ${allTopCards.length} total top_card cards in ${filteredCardIds && filteredCardIds.length > 0 ? 'filtered' : 'full'} database`);
 
       if (allTopCards.length > 0) {
         // Compute similarity for top_card cards and get the most relevant ones
@@ -1747,23 +1742,26 @@ export async function generateRecommendations(
         topCardSimilarities.sort((a, b) => b.similarity - a.similarity);
         const bestTopCards = topCardSimilarities.slice(0, 3).map(item => item.cardEmbedding);
 
-        console.log(`Selected ${bestTopCards.length} most relevant top_card cards:`, bestTopCards.map(c => c.card.credit_card_name));
+        log.debug(`Selected ${bestTopCards.length} most relevant top_card cards:`, bestTopCards.map(c => c.card.credit_card_name));
 
         // Add top_card cards to the candidate list (avoid duplicates)
-        const normalizeCardName = (name: string) =>
-          name.toLowerCase().replace(/[®™©]/g, '').trim();
         const existingCardNames = new Set(allCandidateCards.map(c => normalizeCardName(c.card.credit_card_name)));
 
         for (const topCard of bestTopCards) {
           if (!existingCardNames.has(normalizeCardName(topCard.card.credit_card_name))) {
             allCandidateCards.push(topCard);
-            console.log(`Added top_card card to candidates: ${topCard.card.credit_card_name}`);
+            log.debug(`Added top_card card to candidates: ${topCard.card.credit_card_name}`);
+            trace.debug?.injectedCards.push({
+              credit_card_name: topCard.card.credit_card_name,
+              stage: 'candidates',
+              reason: 'No top_card card was retrieved; added as one of the 3 most similar top_card cards',
+            });
           } else {
-            console.log(`Top_card card already in candidates: ${topCard.card.credit_card_name}`);
+            log.debug(`Top_card card already in candidates: ${topCard.card.credit_card_name}`);
           }
         }
       } else {
-        console.warn('No top_card cards found in database at all!');
+        log.warn('No top_card cards found in database at all!');
       }
     }
     
@@ -1774,33 +1772,35 @@ export async function generateRecommendations(
     let filteredCandidateCards = [...allCandidateCards];
     
     if (isNoFeeQuery) {
-      console.log('User asked for cards with no annual fee, filtering out cards with annual fees...');
+      log.debug('User asked for cards with no annual fee, filtering out cards with annual fees...');
       const beforeCount = filteredCandidateCards.length;
       
-      // Use the shared strict function
-      const hasNoAnnualFee = hasNoAnnualFeeStrict;
-      
       // Filter out cards that have an annual fee
       filteredCandidateCards = filteredCandidateCards.filter(card => {
-        const hasNoFee = hasNoAnnualFee(card.card);
+        const hasNoFee = hasNoAnnualFeeStrict(card.card);
         
         if (!hasNoFee) {
           const annualFee = String(card.card.annual_fee || card.card.fee || '').trim();
-          console.log(`Filtered out card with annual fee: ${card.card.credit_card_name} (annual_fee: "${annualFee}")`);
+          log.debug(`Filtered out card with annual fee: ${card.card.credit_card_name} (annual_fee: "${annualFee}")`);
+          trace.debug?.droppedCards.push({
+            credit_card_name: card.card.credit_card_name,
+            stage: 'no_fee_candidates',
+            reason: `No-fee question, annual_fee is "${annualFee}"`,
+          });
         }
         return hasNoFee;
       });
       
       const afterCount = filteredCandidateCards.length;
-      console.log(`Filtered from ${beforeCount} to ${afterCount} cards (removed ${beforeCount - afterCount} cards with annual fees)`);
+      log.debug(`Filtered from ${beforeCount} to ${afterCount} cards (removed ${beforeCount - afterCount} cards with annual fees)`);
       
       if (filteredCandidateCards.length === 0) {
-        console.error('CRITICAL: No cards with no annual fee found in candidate list after filtering!');
-        console.error('This means all candidate cards have annual fees. We should NOT show cards with fees.');
-        console.error('Sample of filtered cards and their annual fees:');
-        allCandidateCards.slice(0, 5).forEach(card => {
-          const annualFee = String(card.card.annual_fee || card.card.fee || '').trim();
-          console.error(`  - ${card.card.credit_card_name}: annual_fee = "${annualFee}"`);
+        // All candidate cards have annual fees; we should NOT show cards with fees
+        log.error('CRITICAL: No cards with no annual fee found in candidate list after filtering!', {
+          sampleAnnualFees: allCandidateCards.slice(0, 5).map(card => ({
+            card: card.card.credit_card_name,
+            annualFee: String(card.card.annual_fee || card.card.fee || '').trim(),
+          })),
         });
         // DO NOT fall back to showing cards with fees - this would violate the user's request
         // Instead, we'll let the system continue with empty list and handle it gracefully
@@ -1811,44 +1811,44 @@ export async function generateRecommendations(
     // Sort filteredCandidateCards to put top_card cards first, but keep similarity order within each group
     const topCards = filteredCandidateCards.filter(card => isTopCard(card.card));
     const nonTopCards = filteredCandidateCards.filter(card => !isTopCard(card.card));
-    const prioritizedSimilarCards = [...topCards, ...nonTopCards];
+    let prioritizedSimilarCards = [...topCards, ...nonTopCards];
     
     if (topCards.length > 0) {
-      console.log(`Found ${topCards.length} top_card cards in candidate list, prioritizing them in recommendations`);
+      log.debug(`Found ${topCards.length} top_card cards in candidate list, prioritizing them in recommendations`);
+    }
+
+    // Step 3.8: With a spend profile, rank candidates by their dollar value to this user instead
+    const useValueRanking = hasSpendProfile(spendProfile);
+    let valueContext = '';
+    if (useValueRanking) {
+      const rankedByValue = rankByCardValue(prioritizedSimilarCards, item => item.card, spendProfile);
+      prioritizedSimilarCards = rankedByValue.map(ranked => ranked.item);
+      valueContext = rankedByValue
+        .map(({ item, value }) => `- ${item.card.credit_card_name}: ongoing value $${value.ongoing}/year, first year $${value.first_year}`)
+        .join('\n');
+      log.info(`[VALUE] Ranked ${rankedByValue.length} candidates by ongoing value, best: ${rankedByValue.slice(0, 3).map(({ item, value }) => `${item.card.credit_card_name} ($${value.ongoing})`).join(', ')}`);
     }
     
     // Step 4: Format context for LLM (use prioritized cards)
     const context = formatCardsForContext(prioritizedSimilarCards, isNoFeeQuery);
     
     // Step 5: Call LLM with RAG context
-    console.log('Calling LLM for recommendations...');
-    // Prompt that generates a conversational, markdown-formatted response with structured card listings
+    trace.latency.mark('retrieval');
+    log.info('Calling LLM for recommendations...');
+    // Prompt for structured output; the markdown summary is rendered from it by renderRecommendationSummary
     const systemPrompt = `You are a credit card recommendation assistant. You MUST return valid JSON with exactly this structure:
 
-CRITICAL FORMAT REQUIREMENT: Each card in the summary MUST follow this EXACT format:
-- **[Card Name](url)** - description (5-15 words). [Connecting sentence - at least 5 words]
-
-You MUST:
-1. Use markdown link format **[Card Name](url)** for EVERY card - NEVER use plain text
-2. Include a connecting sentence (at least 5 words) after EVERY card description
-3. Make each description and connecting sentence UNIQUE - never repeat the same phrase
-
-{
-  "summary": "A markdown-formatted response with:\n1. ONE sentence preface introducing the recommendations\n2. Three cards listed, each on its own line with format: - **[Card Name](url)** - brief description (5-15 words). [ONE unique sentence (at least 5 words) connecting this card to the user's specific question]\n3. Each card must have a COMPLETELY UNIQUE description and connecting sentence - never repeat the same phrase or structure\n\nFormat example:\nBased on your travel needs, here are three credit cards that could work well for you.\n\n- **[Chase Sapphire Preferred](https://example.com)** - Earns 2x points on travel and dining with a generous welcome bonus. This card is perfect if you frequently book flights and hotels, as you'll earn double points on those purchases.\n- **[Capital One Venture](https://example.com)** - Simple flat-rate rewards perfect for frequent travelers. The straightforward 2x miles on every purchase makes it ideal for travelers who want simplicity without tracking categories.\n- **[Amex Gold Card](https://example.com)** - Excellent for dining and groceries with 4x points on both. If you spend a lot on restaurants and grocery stores, this card maximizes your rewards in those everyday categories.",
-  "cards": [
-    {"credit_card_name": "Exact card name from candidate cards", "apply_url": "URL from candidate cards", "reason": "Brief 5-15 word description of how this card addresses the user's question/need", "card_summary": "A concise 1-2 sentence summary of this card's key value proposition", "card_highlights": "Highlight 1\\nHighlight 2\\nHighlight 3"},
-    {"credit_card_name": "Another card name", "apply_url": "Another URL", "reason": "Brief 5-15 word description", "card_summary": "Summary text", "card_highlights": "Highlight 1\\nHighlight 2\\nHighlight 3"},
-    {"credit_card_name": "Third card name", "apply_url": "Third URL", "reason": "Brief 5-15 word description", "card_summary": "Summary text", "card_highlights": "Highlight 1\\nHighlight 2\\nHighlight 3"}
-  ]
-}
+${RECOMMENDATION_OUTPUT_FORMAT}
 
-CRITICAL: Each card's description AND connecting sentence must be UNIQUE and conversational. Never repeat the same phrase or structure for multiple cards. 
+The app builds the formatted answer from these fields, so every text field is plain text: no markdown, no links, and no card names outside "credit_card_name".
 
-REQUIRED FORMAT: Each card must have:
-1. A unique description (5-15 words) highlighting what makes that card distinctive
-2. A unique connecting sentence that references the user's question in a different way than the other cards
+CRITICAL: Each card's reason AND connecting_sentence must be UNIQUE and conversational. Never repeat the same phrase or structure for multiple cards.
 
-SPECIAL RULE FOR SHARED FEATURES: When multiple cards share a common feature (like "no annual fee" when the user asks for "cards with no annual fee"), mention that shared feature in the preface sentence, NOT in each individual card description or connecting sentence. Each card description and connecting sentence must highlight what makes THAT SPECIFIC CARD unique and different from the others. For example, if all three cards have no annual fee, don't say "No annual fee" for each one - instead focus on their unique rewards, perks, or other distinctive features, and vary how you connect each card to the user's needs.
+REQUIRED FIELDS FOR EACH CARD:
+1. "reason": a unique description (5-15 words) highlighting what makes that card distinctive
+2. "connecting_sentence": a unique sentence that references the user's question in a different way than the other cards
+
+SPECIAL RULE FOR SHARED FEATURES: When multiple cards share a common feature (like "no annual fee" when the user asks for "cards with no annual fee"), mention that shared feature in the preface, NOT in each card's reason or connecting_sentence. Each reason and connecting_sentence must highlight what makes THAT SPECIFIC CARD unique and different from the others. For example, if all three cards have no annual fee, don't say "No annual fee" for each one - instead focus on their unique rewards, perks, or other distinctive features, and vary how you connect each card to the user's needs.
 
 If a card doesn't have a welcome bonus (intro_offer/welcome_bonus is empty, null, "None", or "N/A"), do NOT mention welcome bonuses - focus on other unique features instead.
 
@@ -1857,15 +1857,9 @@ CRITICAL REQUIREMENTS:
 - Use EXACT card names from the candidate cards provided
 - Use EXACT URLs from the candidate cards provided
 ${isNoFeeQuery ? '- BEFORE selecting any card, check its annual_fee field in the candidate cards data. ONLY select cards where annual_fee is: 0, $0, "no fee", "none", empty, or any variation indicating no fee. DO NOT select cards with any annual fee amount.\n' : ''}
-- The summary MUST follow this exact format:
-  1. ONE sentence preface (no more, no less)
-  2. Blank line
-  3. Three cards, each on its own line: - **[Card Name](url)** - description (5-15 words). [ONE unique sentence connecting this card to the user's specific question]${isNoFeeQuery ? ' (all must have no annual fee)' : ''}
-  4. Each card description must explain how it addresses the user's specific question/need
-  5. Each card MUST have a unique connecting sentence that references the user's question in a different way
-- The card name appears ONLY ONCE - inside the markdown link [Card Name](url), wrapped in bold **
-- DO NOT repeat card names anywhere else
-- Keep descriptions concise: 5-15 words per card
+- "preface" is ONE sentence acknowledging the user's question${isNoFeeQuery ? ' (all cards must have no annual fee)' : ''}
+- "closing" is usually an empty string
+- Keep reasons concise: 5-15 words per card
 - Make it conversational and warm
 
 PERSONALIZATION REQUIREMENTS (CRITICAL):
@@ -1919,86 +1913,27 @@ CRITICAL FOR DESCRIPTIONS: Since the user asked for cards with no annual fee, AL
 
 \n` : ''}
 
+${valueContext ? `\nIMPORTANT: The user shared their monthly spending. Estimated net annual value of each candidate card for this user (rewards minus annual fee), best first:
+${valueContext}
+Prefer the cards with the highest value that match the question, and mention the estimated value in each description.\n` : ''}
 ${topCards.length > 0 ? `\nIMPORTANT: Some cards in the candidate list are marked as top recommendations (top_card = 1). When possible, try to include at least one of these top cards in your recommendations if they match the user's needs. However, prioritize relevance to the user's question above all else.\n` : ''}
 
-═══════════════════════════════════════════════════════════════════════════════
-CRITICAL FORMAT REQUIREMENTS - READ CAREFULLY:
-═══════════════════════════════════════════════════════════════════════════════
-
-YOU MUST FOLLOW THIS EXACT FORMAT FOR EACH CARD:
-- **[Card Name](url)** - brief feature description. Why this card works for you.
-
-REQUIREMENTS:
-1. ALWAYS use markdown link format: **[Card Name](url)** - NEVER plain text
-2. Two sentences per card:
-   a) First sentence: Brief description of card's KEY feature (5-15 words)
-   b) Second sentence: WHY this helps the user (different angle for each card)
-3. DO NOT repeat text - second sentence must ADD new information
-4. If cards share a feature (like "no annual fee"), mention it ONLY in the preface
-
-WRONG - Repeats description:
-- **[Card](url)** - 8x points on travel. This is ideal for 8x points on travel..
-
-CORRECT - Adds new value:
-- **[Card](url)** - 8x points on travel and 3x on business purchases. Perfect for frequent business travelers who can maximize both categories.
-
-═══════════════════════════════════════════════════════════════════════════════
-
-Create a markdown-formatted response with this structure:
-
-1. ONE sentence preface acknowledging the user's question
-2. Blank line
-3. Three cards, each on its own line:
-   - **[Card Name](url)** - Feature description. Why it works for the user.
-
-CRITICAL RULES:
-- Second sentence MUST provide NEW information (don't repeat the first sentence)
-- Each card's second sentence must take a DIFFERENT angle
-- Examples of different angles: who it's best for, when to use it, what makes it unique
-- NO generic phrases like "This option is ideal for cardholders who prioritize"
-- Be SPECIFIC and CONCRETE
-
-EXAMPLE FORMAT:
-Based on your travel needs, here are three credit cards that could work well for you.
-
-- **[Chase Sapphire Preferred](https://chase.com/sapphire)** - Earns 2x points on travel and dining with a generous welcome bonus. This card is perfect if you frequently book flights and hotels, as you'll earn double points on those purchases.
-- **[Capital One Venture](https://capitalone.com/venture)** - Simple flat-rate rewards perfect for frequent travelers. The straightforward 2x miles on every purchase makes it ideal for travelers who want simplicity without tracking categories.
-- **[Amex Gold Card](https://amex.com/gold)** - Excellent for dining and groceries with 4x points on both. If you spend a lot on restaurants and grocery stores, this card maximizes your rewards in those everyday categories.
-
-EXAMPLE FORMAT (when cards don't have welcome bonuses and share "no annual fee"):
-When it comes to credit cards with no annual fee, here are three top recommendations for you.
-
-- **[Firstcard® Secured Credit Builder Card](https://example.com)** - Up to 15% cash back at partner merchants. This card stands out for its exceptional cash back rate at select merchants, making it ideal if you shop at their partner stores regularly.
-- **[BankAmericard® Secured](https://example.com)** - Helps build credit with responsible use reporting. This card is designed specifically for building or rebuilding credit, reporting your payment history to all three major credit bureaus.
-- **[Petal 1 "No Annual Fee" Visa](https://example.com)** - Cash back rewards with transparent credit building features. This card offers a unique approach to credit building with cash back rewards and clear, upfront terms that help you understand your progress.
-
-CRITICAL: Notice in the example above:
-1. Each card uses markdown link format: **[Card Name](url)** - NOT plain text
-2. Each card has a UNIQUE description highlighting different features (NOT "No annual fee")
-3. Each card has a UNIQUE connecting sentence (at least 5 words) that references the user's question in a different way
-4. The shared "no annual fee" feature is mentioned ONLY in the preface, NOT in any card description or connecting sentence
-5. Each connecting sentence is a complete sentence that connects the card to the user's needs
-
-WRONG FORMAT (DO NOT DO THIS):
-- Firstcard® Secured Credit Builder Card with Cashback - Up to 15% cash back at partner merchants
-- BankAmericard® Secured - No annual fee
-- Petal 1 "No Annual Fee" Visa - No annual fee
-
-This is wrong because:
-- Missing markdown link format
-- Missing connecting sentences
-- Repeating "No annual fee" for multiple cards
-
-CRITICAL RULES (YOU MUST FOLLOW THESE EXACTLY):
-- Card name appears ONLY ONCE: inside the markdown link [Card Name](url), wrapped in bold **
-- ALWAYS use markdown link format: **[Card Name](url)** - NEVER use plain text card names
-- Each description must be 5-15 words
-- Each description must explain how the card addresses the user's specific question/need
-- After each description, you MUST add ONE unique sentence (at least 5 words) that connects this specific card to the user's question in a different way than the other cards
-- The connecting sentence is REQUIRED - do not skip it
-- Use EXACT card names and URLs from the candidate cards provided
-- DO NOT repeat card names outside the link
-- DO NOT add closing sentences or additional text after the three cards
+Return the preface, the cards and the closing as separate JSON fields. For each card:
+- "reason": Feature description (5-15 words) of the card's KEY feature for this question
+- "connecting_sentence": WHY this card helps the user, taking a different angle for each card (who it's best for, when to use it, what makes it unique)
+
+The connecting_sentence must ADD new information, not repeat the reason:
+- WRONG: reason "8x points on travel", connecting_sentence "This is ideal for 8x points on travel"
+- CORRECT: reason "8x points on travel and 3x on business purchases", connecting_sentence "Perfect for frequent business travelers who can maximize both categories"
+
+EXAMPLE:
+{"preface": "Based on your travel needs, here are three credit cards that could work well for you.", "cards": [
+  {"credit_card_name": "Chase Sapphire Preferred", "apply_url": "https://chase.com/sapphire", "reason": "Earns 2x points on travel and dining with a generous welcome bonus", "connecting_sentence": "This card is perfect if you frequently book flights and hotels, as you'll earn double points on those purchases", ...},
+  {"credit_card_name": "Capital One Venture", "apply_url": "https://capitalone.com/venture", "reason": "Simple flat-rate rewards perfect for frequent travelers", "connecting_sentence": "The straightforward 2x miles on every purchase makes it ideal for travelers who want simplicity without tracking categories", ...},
+  {"credit_card_name": "Amex Gold Card", "apply_url": "https://amex.com/gold", "reason": "Excellent for dining and groceries with 4x points on both", "connecting_sentence": "If you spend a lot on restaurants and grocery stores, this card maximizes your rewards in those everyday categories", ...}
+], "closing": ""}
+
+If cards share a filter feature like "no annual fee", say it once in the preface ("When it comes to credit cards with no annual fee, here are three top recommendations for you.") and give each card a reason about something else.
 
 UNDERSTANDING SHARED FEATURES - CRITICAL DISTINCTION:
 There are TWO types of shared features that require DIFFERENT approaches:
@@ -2053,6 +1988,7 @@ PERSONALIZATION REQUIREMENTS (CRITICAL - AVOID GENERIC RESPONSES):
 
 For each card in the "cards" array, include:
 - "reason": Brief 5-15 word description that SPECIFICALLY explains how this card addresses the user's question/need (avoid generic phrases)
+- "connecting_sentence": One sentence (at least 5 words) connecting this card to the user's question in a way the other cards don't
 - "card_summary": A concise 1-2 sentence summary of the card's key value proposition
 - "card_highlights": A newline-separated list of 3-5 key highlights/benefits (one per line, no bullets or dashes)
 
@@ -2106,1392 +2042,213 @@ Notice: In Example 1, ALL cards focus on cash back (the user's question). In Exa
 
 CRITICAL: You MUST select exactly 3 cards from the candidates. If there are fewer than 3 candidate cards, select all available cards. If there are more than 3, select the best 3. The "cards" array in your JSON response MUST contain exactly 3 cards (no exceptions).
 
-Return JSON with the formatted markdown summary.`;
+Return JSON with the preface, cards and closing.`;
     
     messages.push({ role: 'user', content: userPrompt });
+    if (trace.debug) {
+      trace.debug.prompt = { model: CHAT_MODEL, messages: messages.map(message => ({ ...message })) };
+    }
 
-    const openai = getOpenAIClient();
-    const completion = await openai.chat.completions.create({
-      model: CHAT_MODEL,
-      messages: messages,
-      temperature: 0.5, // Higher temperature for more varied, conversational responses
-      max_tokens: 2500, // Increased to prevent text cutoff - allows complete card descriptions with connecting sentences
-      response_format: { type: 'json_object' },
-    });
-    
-      const rawAnswer = completion.choices[0]?.message?.content || '';
-      console.log('LLM response received, length:', rawAnswer.length);
-      console.log('LLM full response:', rawAnswer);
-      
-      // Step 5: Parse LLM response
-      try {
-        const parsed = JSON.parse(rawAnswer);
-        const recommendations: Recommendation[] = parsed.cards || [];
-        let summary = parsed.summary || '';
+    // The title doesn't depend on the cards, so it is generated alongside them and reported as soon as it's ready.
+    // It isn't awaited if generation throws, so a failing handler is caught here
+    const titlePromise = generateRecommendationTitle(userQuery);
+    titlePromise
+      .then(title => handlers.onTitle?.(title))
+      .catch(error => log.warn('[STEP 5] Title handler failed:', error instanceof Error ? error.message : error));
+
+    const candidatesByName = new Map(prioritizedSimilarCards.map(item => [normalizeCardName(item.card.credit_card_name), item.card]));
+    const findCandidate = (cardName: string) => candidatesByName.get(normalizeCardName(cardName));
+
+    // Cards and summary lines are reported as the model writes them. They are provisional:
+    // the returned answer is final, and streaming callers re-render from it (see lib/recommendationStream.ts)
+    const candidateNames = prioritizedSimilarCards.map(item => item.card.credit_card_name);
+    const streamedCardNames = new Set<string>();
+    let streamedPreface = false;
+    const streamPartialOutput = (contentSoFar: string) => {
+      const partial = parsePartialRecommendationOutput(contentSoFar, candidateNames);
+      if (partial.preface && !streamedPreface) {
+        streamedPreface = true;
+        handlers.onSummary?.(renderRecommendationSummary({ preface: partial.preface, cards: [] }));
+      }
+      for (const card of partial.cards) {
+        const key = normalizeCardName(card.credit_card_name);
+        const candidate = findCandidate(card.credit_card_name);
+        if (!candidate || streamedCardNames.has(key) || streamedCardNames.size >= MAX_OUTPUT_CARDS) continue;
+        const rec = toRecommendation(candidate, userQuery, card);
+        handlers.onRecommendation?.(rec, streamedCardNames.size);
+        if (streamedPreface) {
+          // Same separators as renderRecommendationSummary: a blank line after the preface, then one line per card
+          const separator = streamedCardNames.size === 0 ? '\n\n' : '\n';
+          handlers.onSummary?.(separator + renderRecommendationSummary({
+            preface: '',
+            cards: [{ ...rec, connecting_sentence: card.connecting_sentence }],
+          }));
+        }
+        streamedCardNames.add(key);
+      }
+    };
 
-        // Critical validation: Check if we have any recommendations
-        if (recommendations.length === 0) {
-          console.error('CRITICAL: LLM returned valid JSON but with zero recommendations');
-          console.error('Parsed response:', parsed);
-          console.error('Summary:', summary);
+    const { rawAnswer, output } = await withSpan(
+      'rag.generate',
+      { 'rag.candidates': prioritizedSimilarCards.length },
+      () => requestStructuredRecommendations(
+        messages,
+        candidateNames,
+        handlers.onRecommendation || handlers.onSummary ? streamPartialOutput : undefined
+      )
+    );
 
-          // If the summary mentions cards but we have no recommendations, this is an error
-          const title = await generateRecommendationTitle(userQuery);
-          return {
-            recommendations: [],
-            summary: "I couldn't generate specific card recommendations for your query. Please try rephrasing your question or asking about different criteria. For example, you could ask about 'travel rewards cards', 'cards with no annual fee', or 'cashback credit cards'.",
-            rawModelAnswer: rawAnswer,
-            title: title,
-          };
-        }
+    // Step 5: Build the answer from the validated output. The schema guarantees
+    // candidate names, http(s) URLs and specific, distinct reasons; with no usable
+    // output at all, the answer is built from the top candidates instead.
+    if (!output) {
+      log.error('No usable structured output from the LLM, answering with the top candidates:', { rawResponse: rawAnswer, length: rawAnswer.length });
+    }
+    const structured: StructuredRecommendationOutput = output || { preface: GENERIC_PREFACE, cards: [], closing: '' };
+    log.debug('Preface:', structured.preface);
 
-        // Validate format: Check if summary has markdown links and connecting sentences
-        const hasMarkdownLinks = summary.includes('**[') && summary.includes('](http');
-        const lines = summary.split('\n').filter((line: string) => line.trim().startsWith('-'));
-        const hasEnoughCardLines = lines.length >= recommendations.length;
-        const hasConnectingSentences = lines.length > 0 && lines.every((line: string) => {
-          // Check if line has a period after the description (indicating a connecting sentence)
-          const parts = line.split(' - ');
-          if (parts.length < 2) return false;
-          const afterDash = parts[1];
-          // Should have at least one period after the description
-          const periods = afterDash.split('.').length;
-          return periods >= 2; // At least description and connecting sentence
-        });
+    const isTopCardRecommendation = (rec: Recommendation) => {
+      const card = findCandidate(rec.credit_card_name);
+      return !!card && isTopCard(card);
+    };
 
-        // If summary is missing cards or proper formatting, rebuild it
-        if (!hasMarkdownLinks || !hasConnectingSentences || !hasEnoughCardLines) {
-          console.warn('WARNING: Summary format validation failed. hasMarkdownLinks:', hasMarkdownLinks, 'hasConnectingSentences:', hasConnectingSentences);
-          console.warn('Summary:', summary);
-          
-          // Try to fix the format: Convert plain text card names to markdown format and add connecting sentences
-          if (recommendations.length > 0 && (!hasMarkdownLinks || !hasConnectingSentences)) {
-            console.log('Attempting to fix summary format by converting plain text to markdown and adding connecting sentences...');
-            
-            // Extract the preface (everything before the first card)
-            const lines = summary.split('\n');
-            const prefaceLines: string[] = [];
-            const cardLines: string[] = [];
-            let foundCards = false;
-            
-            for (const line of lines) {
-              const trimmed = line.trim();
-              // Check if this line contains a card name
-              const containsCard = recommendations.some(rec => 
-                trimmed.includes(rec.credit_card_name)
-              );
-              
-              if (containsCard && !foundCards) {
-                foundCards = true;
-              }
-              
-              if (foundCards && containsCard) {
-                cardLines.push(trimmed);
-              } else if (!foundCards) {
-                prefaceLines.push(line);
-              }
-            }
-            
-            // Rebuild summary with proper format
-            const preface = prefaceLines.join('\n').trim();
-            const formattedCards = recommendations.map((rec, index) => {
-              // Find the original line for this card
-              const originalLine = cardLines.find(line => line.includes(rec.credit_card_name)) || '';
-              
-              // Extract description from original line (everything after card name and dash/hyphen)
-              let description = originalLine
-                .replace(rec.credit_card_name, '')
-                .replace(/^[-\s]*/, '')
-                .replace(/^-\s*/, '')
-                .trim();
-              
-              // Remove "No annual fee" if it's the only description
-              if (description.toLowerCase() === 'no annual fee' || description.toLowerCase().includes('no annual fee') && description.length < 20) {
-                description = rec.reason || `Credit card with valuable benefits`;
-              }
-              
-              // If description is missing or too short, use reason
-              if (!description || description.length < 5) {
-                description = rec.reason || `Credit card with valuable benefits`;
-              }
-              
-              // Create unique connecting sentences based on the card and user query
-              const isNoFeeQuery = userQuery.toLowerCase().includes('no annual fee') || userQuery.toLowerCase().includes('no fee');
-              const connectingSentences = [
-                isNoFeeQuery 
-                  ? `This card stands out for its exceptional value without any annual fee, making it ideal for budget-conscious cardholders.`
-                  : `This card is perfect if you want to maximize your rewards while enjoying valuable benefits.`,
-                isNoFeeQuery
-                  ? `If you're looking to avoid annual fees while still earning rewards, this card delivers strong value.`
-                  : `This option is ideal for cardholders who prioritize ${rec.reason?.toLowerCase() || 'flexible rewards and benefits'}.`,
-                isNoFeeQuery
-                  ? `This card offers a unique combination of benefits without the burden of an annual fee.`
-                  : `This card stands out for ${rec.reason?.toLowerCase() || 'its unique combination of features'} that align with your spending habits.`,
-              ];
-              const connectingSentence = connectingSentences[index % connectingSentences.length];
-              
-              // Remove any trailing period from description to avoid double periods
-              const cleanDescription = description.trim().replace(/\.+$/, '');
-              return `- **[${rec.credit_card_name}](${rec.apply_url})** - ${cleanDescription}. ${connectingSentence}`;
-            }).join('\n');
-            
-            summary = `${preface}\n\n${formattedCards}`;
-            console.log('Fixed summary:', summary);
-          }
-        }
-      
-      // Clean duplicate card names from summary immediately after parsing
-      // This catches patterns like "CardName****CardName - description"
-      
-      // FIRST: Only replace sequences of 4+ asterisks (not 2-3, which are used in markdown)
-      // This handles patterns like "CardName****CardName" -> "CardName CardName"
-      // But preserves markdown links like **[Card Name](url)**
-      let cleanedSummary = summary.replace(/\*{4,}/g, ' ');
-      
-      // Then remove duplicate card names that result from the replacement above
-      // Remove patterns like "CardName CardName" -> "CardName"
-      if (recommendations.length > 0) {
-        recommendations.forEach((rec: any) => {
-          const cardName = rec.credit_card_name;
-          const escapedCardName = cardName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-          
-          // Pattern: CardName CardName (with space between) followed by optional description
-          const duplicateWithSpace = new RegExp(`([-•]?\\s*)(${escapedCardName})\\s+\\2(\\s*[-–—]?\\s*.*?)(?=\\n|$)`, 'gi');
-          cleanedSummary = cleanedSummary.replace(duplicateWithSpace, (match: string, prefix: string, p1: string, p2: string) => {
-            const afterText = p2.trim();
-            const result = `${prefix || ''}${cardName}${afterText ? ' ' + afterText : ''}`;
-            console.log(`[BACKEND] Removed duplicate after asterisk replacement: "${match.substring(0, 100)}" -> "${result.substring(0, 100)}"`);
-            return result;
-          });
-        });
-        
-        // General pattern: Remove any duplicate text separated by space (for card names)
-        cleanedSummary = cleanedSummary.replace(/([-•]?\s*)([a-zA-Z0-9\s®™©]{3,50}?)\s+\2(\s*[-–—]?\s*.*?)(?=\n|$)/gi, (match: string, prefix: string, p1: string, p2: string) => {
-          const cardName = p1.trim();
-          const afterText = p2.trim();
-          if (cardName.length > 3 && cardName.length < 50) {
-            const result = `${prefix || ''}${cardName}${afterText ? ' ' + afterText : ''}`;
-            console.log(`[BACKEND GENERAL] Removed duplicate: "${match.substring(0, 100)}" -> "${result.substring(0, 100)}"`);
-            return result;
-          }
-          return match;
-        });
-      }
-      
-      if (recommendations.length > 0) {
-        recommendations.forEach((rec: any) => {
-          const cardName = rec.credit_card_name;
-          const escapedCardName = cardName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-          
-          // Pattern 1: CardName****CardName - description (most common issue)
-          // Remove the $ anchor to match anywhere in the line, not just at the end
-          const duplicatePattern = new RegExp(`(${escapedCardName})\\*{2,}\\1(\\s*[-–—]?\\s*.*?)(?=\\n|$)`, 'gi');
-          cleanedSummary = cleanedSummary.replace(duplicatePattern, (match: string, p1: string, p2: string) => {
-            const afterText = p2.trim();
-            console.log(`[CLEANING FIRST PASS] Found duplicate: "${match.substring(0, 100)}" -> "${cardName}${afterText ? ' ' + afterText : ''}"`);
-            return afterText ? `${cardName} ${afterText}` : cardName;
-          });
-          
-          // Pattern 2: CardName****CardName (without description, at start of line or after bullet)
-          // This specifically handles list items like "- CardName****CardName - description"
-          const duplicatePatternStart = new RegExp(`([-•]?\\s*)(${escapedCardName})\\*{2,}\\2(\\s*[-–—]?\\s*.*?)(?=\\n|$)`, 'gim');
-          cleanedSummary = cleanedSummary.replace(duplicatePatternStart, (match: string, prefix: string, p1: string, p2: string) => {
-            const afterText = p2.trim();
-            const result = `${prefix || ''}${cardName}${afterText ? ' ' + afterText : ''}`;
-            console.log(`[CLEANING FIRST PASS START] Found duplicate: "${match.substring(0, 100)}" -> "${result.substring(0, 100)}"`);
-            return result;
-          });
-          
-          // Pattern 3: **CardName**CardName - description
-          const boldDuplicatePattern = new RegExp(`\\*\\*${escapedCardName}\\*\\*${escapedCardName}(\\s*[-–—]?\\s*.*?)(?=\\n|$)`, 'gi');
-          cleanedSummary = cleanedSummary.replace(boldDuplicatePattern, (match: string, p1: string) => {
-            console.log(`[CLEANING FIRST PASS BOLD] Found duplicate: "${match.substring(0, 100)}" -> "**${cardName}**${p1}"`);
-            return `**${cardName}**${p1}`;
-          });
-        });
-      }
-      
-      // Also do a general pass to catch any camelCase or lowercase duplicates that might not match exact card names
-      // This catches patterns like "cashRewards****cashRewards" even if the card name in data is "Cash Rewards"
-      // Also catches patterns with spaces and special characters like "Citi Custom Cash® Card****Citi Custom Cash® Card"
-      // Remove the $ anchor to match anywhere, not just at end of line
-      cleanedSummary = cleanedSummary.replace(/([a-zA-Z0-9\s®™©]+?)\*{2,}\1(\s*[-–—]?\s*.*?)(?=\n|$)/gim, (match: string, p1: string, p2: string) => {
-        const cardName = p1.trim();
-        const afterText = p2.trim();
-        // Only process if it looks like a card name (more than 3 characters to avoid false positives, less than 100 to avoid matching entire lines)
-        if (cardName.length > 3 && cardName.length < 100) {
-          console.log(`[CLEANING GENERAL FIRST PASS] Found duplicate: "${match.substring(0, 100)}" -> "${cardName}${afterText ? ' ' + afterText : ''}"`);
-          return afterText ? `${cardName} ${afterText}` : cardName;
-        }
-        return match;
-      });
-      
-      // Then use general patterns to catch any remaining duplicates
-      summary = cleanedSummary.split('\n').map((line: string) => {
-        // Pattern 1: Match any sequence of characters (alphanumeric, spaces, special chars) followed by 2+ asterisks and the same sequence
-        // This catches patterns like "cashRewards****cashRewards" and "Citi Custom Cash® Card****Citi Custom Cash® Card"
-        // The pattern matches: (text) followed by ** or more, followed by the same (text)
-        // Use non-greedy matching and lookahead to match anywhere in the line
-        let cleaned = line.replace(/([a-zA-Z0-9\s®™©]+?)\*{2,}\1(\s*[-–—]?\s*.*?)(?=\n|$)/gi, (match: string, p1: string, p2: string) => {
-          const cardName = p1.trim();
-          const afterText = p2.trim();
-          // Only process if it looks like a card name (more than 2 characters to avoid false positives, less than 100 to avoid matching entire lines)
-          if (cardName.length > 2 && cardName.length < 100) {
-            console.log(`[CLEANING GENERAL] Found duplicate pattern: "${match.substring(0, 100)}" -> "${cardName}${afterText ? ' ' + afterText : ''}"`);
-            return afterText ? `${cardName} ${afterText}` : cardName;
-          }
-          return match;
-        });
-        
-        // Pattern 1b: More specific - catch camelCase or word sequences without spaces
-        // This handles cases like "cashRewards****cashRewards" more reliably
-        cleaned = cleaned.replace(/([a-zA-Z0-9]+)\*{2,}\1(\s*[-–—]?\s*.*?)(?=\n|$)/gi, (match: string, p1: string, p2: string) => {
-          const cardName = p1.trim();
-          const afterText = p2.trim();
-          // Only process if it looks like a card name (more than 3 characters)
-          if (cardName.length > 3 && cardName.length < 100) {
-            console.log(`[CLEANING CAMELCASE] Found duplicate pattern: "${match.substring(0, 100)}" -> "${cardName}${afterText ? ' ' + afterText : ''}"`);
-            return afterText ? `${cardName} ${afterText}` : cardName;
-          }
-          return match;
-        });
-        
-        // Pattern 2: Handle cases where card name might be in bold markdown: **CardName**CardName
-        cleaned = cleaned.replace(/\*\*([^*]+?)\*\*\1(\s*[-–—]?\s*.*?)(?=\n|$)/gi, (match: string, p1: string, p2: string) => {
-          const cardName = p1.trim();
-          const afterText = p2.trim();
-          return afterText ? `**${cardName}** ${afterText}` : `**${cardName}**`;
+    // Names are only checked against the candidates when there are some
+    const modelRecommendations = structured.cards.flatMap(card => {
+      const candidate = findCandidate(card.credit_card_name);
+      if (!candidate) {
+        trace.debug?.droppedCards.push({
+          credit_card_name: card.credit_card_name,
+          stage: 'not_a_candidate',
+          reason: 'The model picked a card that was not in the candidate list',
         });
-        
-        return cleaned;
-      }).join('\n');
-      
-      // Final safety net: Remove any remaining '****' patterns that might have slipped through
-      // This catches any pattern like "text****text" and removes the duplicate
-      summary = summary.replace(/([^\*]+?)\*{2,}\1(\s*[-–—]?\s*.*?)(?=\n|$)/gi, (match: string, p1: string, p2: string) => {
-        const text = p1.trim();
-        const afterText = p2.trim();
-        return afterText ? `${text} ${afterText}` : text;
-      });
-      // Also catch any standalone sequences of 4+ asterisks and replace with space
-      // (Preserve 2-3 asterisks which are used in markdown formatting)
-      summary = summary.replace(/\*{4,}/g, ' ');
-      
-      console.log('Parsed recommendations count:', recommendations.length);
-      console.log('Summary:', summary);
-      console.log('Raw parsed object:', JSON.stringify(parsed, null, 2));
-      
-      // If no cards were returned, log a warning
-      if (recommendations.length === 0) {
-        console.warn('WARNING: LLM returned 0 cards. Parsed object:', parsed);
+        return [];
       }
-      
-      // Validate and filter recommendations
-      // Use fuzzy matching for card names (case-insensitive, ignore special characters)
-      const normalizeCardNameLocal = (name: string) => 
-        name.toLowerCase().replace(/[®™©]/g, '').trim();
-      
-      // Helper function to check if a card has no annual fee
-      const hasNoAnnualFee = hasNoAnnualFeeStrict;
-      
-      const validRecommendations = recommendations.filter(
-        (rec: any) => {
-          if (!rec.credit_card_name || !rec.apply_url || !rec.reason) {
-            console.log('Recommendation missing required fields:', rec);
-            return false;
-          }
-          
-          // Check if card name matches any similar card (fuzzy match)
-          const recNameNormalized = normalizeCardNameLocal(rec.credit_card_name);
-          const matchingCard = prioritizedSimilarCards.find(
-            card => normalizeCardNameLocal(card.card.credit_card_name) === recNameNormalized
-          );
-          
-          if (!matchingCard) {
-            console.log('Card name not found in similar cards:', rec.credit_card_name);
-            console.log('Available cards:', prioritizedSimilarCards.map(c => c.card.credit_card_name));
-            return false;
-          }
-          
-          // CRITICAL: If user asked for "no annual fee", filter out cards with fees
-          // This is a final safety net in case the LLM selected cards with fees
-          if (isNoFeeQuery) {
-            const cardHasNoFee = hasNoAnnualFee(matchingCard.card);
-            if (!cardHasNoFee) {
-              const annualFee = String(matchingCard.card.annual_fee || matchingCard.card.fee || '').trim();
-              console.log(`[POST-FILTER] Filtered out card with annual fee: ${rec.credit_card_name} (annual_fee: "${annualFee}")`);
-              return false;
-            }
-          }
-          
-          return true;
-        }
-      );
-      
-      console.log('Valid recommendations count:', validRecommendations.length);
-      console.log('Original recommendations:', recommendations.map((r: any) => r.credit_card_name));
-      console.log('Valid recommendations:', validRecommendations.map((r: any) => r.credit_card_name));
-      
-      // Enrich recommendations with full card data
-      const enrichedRecommendations = validRecommendations.map((rec: any, index: number) => {
-        // Find the matching card from prioritizedSimilarCards
-        const matchingCard = prioritizedSimilarCards.find(
-          card => normalizeCardNameLocal(card.card.credit_card_name) === normalizeCardNameLocal(rec.credit_card_name)
-        );
-        
-        if (matchingCard) {
-          const card = matchingCard.card;
-          
-          // Generate card_highlights fallback from other fields if not available
-          let cardHighlights = String(card.card_highlights || rec.card_highlights || '').trim();
-          
-          // If card_highlights is empty, try to generate from perks or other fields
-          if (!cardHighlights) {
-            const highlights: string[] = [];
-            
-            // Try to use perks field
-            if (card.perks || card.benefits || card.card_perks) {
-              const perksText = String(card.perks || card.benefits || card.card_perks || '');
-              // Split perks by common delimiters and take first 3-5 items
-              const perkItems = perksText.split(/[.,;]/)
-                .map(p => p.trim())
-                .filter(p => p.length > 10 && p.length < 100)
-                .slice(0, 5);
-              highlights.push(...perkItems);
-            }
-            
-            // If still no highlights, try to extract from reason or rewards_rate
-            if (highlights.length === 0) {
-              if (rec.reason) {
-                const reasonParts = String(rec.reason)
-                  .split(/[.,;]/)
-                  .map(r => r.trim())
-                  .filter(r => r.length > 15 && r.length < 100)
-                  .slice(0, 3);
-                highlights.push(...reasonParts);
-              }
-              
-              if (highlights.length === 0 && card.rewards_rate) {
-                highlights.push(String(card.rewards_rate));
-              }
-            }
-            
-            cardHighlights = highlights.join('\n');
-          }
-          
-          // Check if the reason is generic and replace it if needed
-          let reason = rec.reason || '';
-          const genericPhrases = [
-            'matches your criteria',
-            'matches your needs',
-            'matches your criteria based on',
-            'is a good fit',
-            'addresses your question',
-            'meets your requirements'
-          ];
-          const isGeneric = genericPhrases.some(phrase => 
-            reason.toLowerCase().includes(phrase.toLowerCase())
-          );
-          
-          if (!reason || isGeneric) {
-            reason = generatePersonalizedReason(card, userQuery);
-            if (isGeneric) {
-              console.log(`[REASON REPLACEMENT] Replaced generic reason for ${rec.credit_card_name}: "${rec.reason}" -> "${reason}"`);
-            }
-          }
-          
-          const enriched = {
-            credit_card_name: rec.credit_card_name,
-            apply_url: rec.apply_url || String(card.url_application || ''),
-            reason: reason,
-            // Pull from Google Sheet first, fallback to LLM response if not in sheet
-            card_summary: String(card.card_summary || rec.card_summary || '').trim(),
-            card_highlights: cardHighlights,
-            intro_offer: String(card.intro_offer || card.welcome_bonus || card.sign_up_bonus || card.intro_bonus || ''),
-            application_fee: String(card.application_fee || card.app_fee || ''),
-            credit_score_needed: String(card.credit_score_needed || card.credit_score || card.min_credit_score || card.credit_score_required || ''),
-            annual_fee: String(card.annual_fee || card.fee || ''),
-            rewards_rate: String(card.rewards_rate || card.rewards || card.reward_rate || ''),
-            perks: String(card.perks || card.benefits || card.card_perks || ''),
-          };
-          
-          console.log(`[ENRICHMENT ${index}] Card: ${rec.credit_card_name}, hasHighlights: ${!!enriched.card_highlights && enriched.card_highlights.length > 0}, highlightsLength: ${enriched.card_highlights?.length || 0}`);
-          
-          return enriched;
-        }
-        
-        // If no matching card found, still ensure card_highlights is set
-        const fallbackHighlights = rec.card_highlights 
-          ? String(rec.card_highlights).trim()
-          : (rec.perks ? String(rec.perks).split(/[.,;]/).slice(0, 5).join('\n') : '');
-        
-        const fallback = {
-          ...rec,
-          card_highlights: fallbackHighlights,
-          card_summary: String(rec.card_summary || '').trim(),
-        };
-        
-        console.log(`[ENRICHMENT ${index}] Card: ${rec.credit_card_name}, NO MATCHING CARD FOUND, hasHighlights: ${!!fallback.card_highlights && fallback.card_highlights.length > 0}`);
-        
-        return fallback;
-      });
-      
-      // Filter out duplicate co_branded values (unless user is asking about a specific cobranded card)
-      let filteredRecommendations = enrichedRecommendations;
-      const isCobrandedQuery = isCobrandedCardQuery(userQuery);
-      
-      // Log card_highlights status before filtering
-      enrichedRecommendations.forEach((rec, idx) => {
-        console.log(`[BEFORE FILTER ${idx}] ${rec.credit_card_name}: hasHighlights=${!!rec.card_highlights && rec.card_highlights.length > 0}`);
-      });
-      
-      if (!isCobrandedQuery) {
-        console.log('Filtering duplicate co_branded values from recommendations...');
-        filteredRecommendations = filterDuplicateCobranded(enrichedRecommendations, prioritizedSimilarCards);
-        console.log(`Filtered from ${enrichedRecommendations.length} to ${filteredRecommendations.length} recommendations`);
-      } else {
-        console.log('User is asking about a cobranded card, skipping co_branded filter');
-      }
-      
-      // Log card_highlights status after filtering
-      filteredRecommendations.forEach((rec, idx) => {
-        console.log(`[AFTER FILTER ${idx}] ${rec.credit_card_name}: hasHighlights=${!!rec.card_highlights && rec.card_highlights.length > 0}`);
-      });
-      
-      // Detect and fix duplicate reasons - ensure each card has a unique reason
-      const reasonCounts = new Map<string, number>();
-      filteredRecommendations.forEach(rec => {
-        const reason = rec.reason || '';
-        reasonCounts.set(reason, (reasonCounts.get(reason) || 0) + 1);
-      });
-      
-      // If any reason appears more than once, regenerate for duplicates
-      filteredRecommendations.forEach((rec, index) => {
-        const reason = rec.reason || '';
-        if (reasonCounts.get(reason)! > 1 && reason.length > 0) {
-          // Find the matching card data
-          const matchingCard = prioritizedSimilarCards.find(
-            card => normalizeCardNameLocal(card.card.credit_card_name) === normalizeCardNameLocal(rec.credit_card_name)
-          );
-          if (matchingCard) {
-            // Generate a new personalized reason
-            const newReason = generatePersonalizedReason(matchingCard.card, userQuery);
-            // Make sure it's different from existing reasons
-            const existingReasons = filteredRecommendations.map(r => r.reason).filter(r => r && r !== reason);
-            if (!existingReasons.includes(newReason)) {
-              console.log(`[DUPLICATE REASON FIX] Replaced duplicate reason for ${rec.credit_card_name}: "${reason}" -> "${newReason}"`);
-              rec.reason = newReason;
-              // Update the count
-              reasonCounts.set(reason, reasonCounts.get(reason)! - 1);
-              reasonCounts.set(newReason, (reasonCounts.get(newReason) || 0) + 1);
-            } else {
-              // If still duplicate, try to make it more specific by adding card-specific details
-              const card = matchingCard.card;
-              const rewardsRate = String(card.rewards_rate || card.rewards || '').trim();
-              const annualFee = String(card.annual_fee || '').trim();
-              const welcomeBonus = String(card.intro_offer || card.welcome_bonus || '').trim();
-              
-              let specificReason = '';
-              const welcomeBonusLower = welcomeBonus.toLowerCase().trim();
-              const isNoneOrEmpty = !welcomeBonus || welcomeBonusLower === 'none' || welcomeBonusLower === 'n/a' || welcomeBonusLower === 'na' || welcomeBonusLower === '';
-              if (rewardsRate && rewardsRate.length < 40) {
-                specificReason = `Earns ${rewardsRate} on purchases`;
-              } else if (!isNoneOrEmpty && welcomeBonus && welcomeBonus.length < 40) {
-                specificReason = `${welcomeBonus.substring(0, 35)} welcome bonus`;
-              } else if (annualFee && annualFee !== '0' && annualFee !== '$0') {
-                specificReason = `${annualFee} annual fee with premium benefits`;
-              } else if (annualFee === '0' || annualFee === '$0') {
-                specificReason = 'No annual fee with rewards';
-              } else {
-                // Use card name to differentiate
-                const cardNameWords = String(card.credit_card_name || '').split(' ').slice(0, 2).join(' ');
-                specificReason = `${cardNameWords} rewards program`;
-              }
-              
-              if (!existingReasons.includes(specificReason) && specificReason.length > 0) {
-                console.log(`[DUPLICATE REASON FIX] Replaced with card-specific reason for ${rec.credit_card_name}: "${reason}" -> "${specificReason}"`);
-                rec.reason = specificReason;
-                reasonCounts.set(reason, reasonCounts.get(reason)! - 1);
-                reasonCounts.set(specificReason, (reasonCounts.get(specificReason) || 0) + 1);
-              }
-            }
-          }
-        }
-      });
-      
-      // Ensure at least one top_card card is included if available
-      // This is CRITICAL - we must force top_card cards to appear
-      if (topCards.length > 0) {
-        const normalizeCardNameLocal = (name: string) => 
-          name.toLowerCase().replace(/[®™©]/g, '').trim();
-        
-        const hasTopCard = filteredRecommendations.some(rec => {
-          const matchingCard = prioritizedSimilarCards.find(
-            card => normalizeCardNameLocal(card.card.credit_card_name) === normalizeCardNameLocal(rec.credit_card_name)
-          );
-          return matchingCard && isTopCard(matchingCard.card);
-        });
-        
-        if (!hasTopCard) {
-          console.log('No top_card card found in recommendations, forcing inclusion...');
-          console.log(`Available topCards: ${topCards.map(c => c.card.credit_card_name).join(', ')}`);
-          console.log(`Current recommendations: ${filteredRecommendations.map(r => r.credit_card_name).join(', ')}`);
-          
-          // Helper function to check if a card has no annual fee (reuse same logic)
-          const hasNoAnnualFee = (card: any): boolean => {
-            const annualFee = String(card.annual_fee || card.fee || '').trim().toLowerCase();
-            if (!annualFee || annualFee === '') return true;
-            const noFeeIndicators = ['0', '$0', '0.00', '$0.00', 'no fee', 'no annual fee', 'none', 'n/a', 'na', 'free', 'zero', '$0 annual fee', '0 annual fee'];
-            if (noFeeIndicators.includes(annualFee)) return true;
-            if (annualFee.includes('no fee') || annualFee.includes('no annual fee')) return true;
-            const numericFee = parseFloat(annualFee.replace(/[^0-9.]/g, ''));
-            if (!isNaN(numericFee) && numericFee === 0) return true;
-            if (annualFee.includes('$')) {
-              const dollarAmount = parseFloat(annualFee.replace(/[^0-9.]/g, ''));
-              if (!isNaN(dollarAmount) && dollarAmount === 0) return true;
-            }
-            return false;
-          };
-          
-          const usedCardNames = new Set(filteredRecommendations.map(r => normalizeCardNameLocal(r.credit_card_name)));
-          const availableTopCard = topCards.find(card => {
-            const nameMatch = !usedCardNames.has(normalizeCardNameLocal(card.card.credit_card_name));
-            // If user asked for no annual fee, also check that the card has no fee
-            if (isNoFeeQuery) {
-              return nameMatch && hasNoAnnualFee(card.card);
-            }
-            return nameMatch;
-          });
-          
-          if (availableTopCard) {
-            const card = availableTopCard.card;
-            
-            // Generate card_highlights from perks or other fields if not available
-            let topCardHighlights = String(card.card_highlights || '').trim();
-            if (!topCardHighlights) {
-              const highlights: string[] = [];
-              if (card.perks || card.benefits || card.card_perks) {
-                const perksText = String(card.perks || card.benefits || card.card_perks || '');
-                const perkItems = perksText.split(/[.,;]/)
-                  .map(p => p.trim())
-                  .filter(p => p.length > 10 && p.length < 100)
-                  .slice(0, 5);
-                highlights.push(...perkItems);
-              }
-              if (highlights.length === 0 && card.rewards_rate) {
-                highlights.push(String(card.rewards_rate));
-              }
-              topCardHighlights = highlights.join('\n');
-            }
-            
-            const topCardRec: Recommendation = {
-              credit_card_name: card.credit_card_name,
-              apply_url: String(card.url_application || ''),
-              reason: generatePersonalizedReason(card, userQuery),
-              card_summary: String(card.card_summary || '').trim(),
-              card_highlights: topCardHighlights,
-              intro_offer: String(card.intro_offer || card.welcome_bonus || card.sign_up_bonus || card.intro_bonus || ''),
-              application_fee: String(card.application_fee || card.app_fee || ''),
-              credit_score_needed: String(card.credit_score_needed || card.credit_score || card.min_credit_score || card.credit_score_required || ''),
-              annual_fee: String(card.annual_fee || card.fee || ''),
-              rewards_rate: String(card.rewards_rate || card.rewards || card.reward_rate || ''),
-              perks: String(card.perks || card.benefits || card.card_perks || ''),
-            };
-            
-            // CRITICAL: Double-check annual fee before adding (safety net)
-            if (isNoFeeQuery && !hasNoAnnualFee(card)) {
-              const annualFee = String(card.annual_fee || card.fee || '').trim();
-              console.error(`[TOP_CARD BLOCK] Blocked top_card card with annual fee: ${card.credit_card_name} (annual_fee: "${annualFee}")`);
-              console.warn(`⚠ Skipping top_card card because it has an annual fee and user asked for no annual fee cards`);
-            } else {
-            if (filteredRecommendations.length < 3) {
-              // Add it if we have room
-              filteredRecommendations.push(topCardRec);
-              console.log(`✓ Added top_card card to recommendations: ${card.credit_card_name}`);
-            } else {
-              // Replace the FIRST non-top card (not the last) to ensure top_card appears early
-              // Find the first card that is NOT a top_card
-              let replaced = false;
-              for (let i = 0; i < filteredRecommendations.length; i++) {
-                const rec = filteredRecommendations[i];
-                const matchingCard = prioritizedSimilarCards.find(
-                  c => normalizeCardNameLocal(c.card.credit_card_name) === normalizeCardNameLocal(rec.credit_card_name)
-                );
-                if (!matchingCard || !isTopCard(matchingCard.card)) {
-                  filteredRecommendations[i] = topCardRec;
-                  console.log(`✓ Replaced recommendation at index ${i} (${rec.credit_card_name}) with top_card card: ${card.credit_card_name}`);
-                  replaced = true;
-                  break;
-                }
-              }
-              
-              // If all cards are top_card (shouldn't happen, but just in case), replace the last one
-              if (!replaced) {
-                filteredRecommendations[filteredRecommendations.length - 1] = topCardRec;
-                console.log(`✓ Replaced last recommendation with top_card card: ${card.credit_card_name}`);
-                }
-              }
-            }
-          } else {
-            console.warn(`⚠ No available top_card card found to add. Used cards: ${Array.from(usedCardNames).join(', ')}`);
-            console.warn(`Top cards available: ${topCards.map(c => c.card.credit_card_name).join(', ')}`);
-          }
+      return [toRecommendation(candidate, userQuery, card)];
+    });
+    log.debug('Model recommendations:', modelRecommendations.map(rec => rec.credit_card_name));
+
+    // Filter out duplicate co_branded values (unless user is asking about a specific cobranded card)
+    const isCobrandedQuery = isCobrandedCardQuery(userQuery);
+    let finalRecommendations = [...modelRecommendations];
+    if (!isCobrandedQuery) {
+      finalRecommendations = filterDuplicateCobranded(modelRecommendations, prioritizedSimilarCards);
+      modelRecommendations
+        .filter(rec => !finalRecommendations.includes(rec))
+        .forEach(rec => trace.debug?.droppedCards.push({
+          credit_card_name: rec.credit_card_name,
+          stage: 'duplicate_cobranded',
+          reason: 'Same co_branded program as a card ranked above it',
+        }));
+    }
+
+    // Ensure at least one top_card card is included if available
+    if (topCards.length > 0 && !finalRecommendations.some(isTopCardRecommendation)) {
+      const usedCardNames = new Set(finalRecommendations.map(rec => normalizeCardName(rec.credit_card_name)));
+      const availableTopCard = topCards.find(item => !usedCardNames.has(normalizeCardName(item.card.credit_card_name)));
+
+      if (availableTopCard) {
+        const topCardRec = toRecommendation(availableTopCard.card, userQuery);
+        const replaced = finalRecommendations.length >= MAX_OUTPUT_CARDS ? finalRecommendations[0] : undefined;
+        if (replaced) {
+          // Replace the first card rather than the last so the top_card card appears early
+          finalRecommendations[0] = topCardRec;
         } else {
-          console.log('✓ Top_card card already present in recommendations');
-        }
-      }
-      
-      // Fallback: If validation filtered out all cards but we have similar cards, use them
-      let finalRecommendations = filteredRecommendations;
-      if (finalRecommendations.length === 0 && prioritizedSimilarCards.length > 0) {
-        console.warn('All recommendations were filtered out. Using top similar cards as fallback.');
-        const normalizeCardNameLocal = (name: string) => 
-          name.toLowerCase().replace(/[®™©]/g, '').trim();
-        
-        // Helper function to check if a card has no annual fee (reuse same logic)
-        const hasNoAnnualFee = (card: any): boolean => {
-          const annualFee = String(card.annual_fee || card.fee || '').trim().toLowerCase();
-          if (!annualFee || annualFee === '') return true;
-          const noFeeIndicators = ['0', '$0', '0.00', '$0.00', 'no fee', 'no annual fee', 'none', 'n/a', 'na', 'free', 'zero', '$0 annual fee', '0 annual fee'];
-          if (noFeeIndicators.includes(annualFee)) return true;
-          if (annualFee.includes('no fee') || annualFee.includes('no annual fee')) return true;
-          const numericFee = parseFloat(annualFee.replace(/[^0-9.]/g, ''));
-          if (!isNaN(numericFee) && numericFee === 0) return true;
-          if (annualFee.includes('$')) {
-            const dollarAmount = parseFloat(annualFee.replace(/[^0-9.]/g, ''));
-            if (!isNaN(dollarAmount) && dollarAmount === 0) return true;
-          }
-          return false;
-        };
-        
-        // Track co_branded values if not a cobranded query
-        const usedCobranded = new Set<string>();
-        const fallbackCards: CardEmbedding[] = [];
-        
-        // Prioritize top_card cards in fallback, but respect "no annual fee" requirement
-        for (const cardData of prioritizedSimilarCards) {
-          if (fallbackCards.length >= 3) break;
-          
-          // If user asked for no annual fee, filter out cards with fees
-          if (isNoFeeQuery && !hasNoAnnualFee(cardData.card)) {
-            console.log(`Skipping fallback card with annual fee: ${cardData.card.credit_card_name}`);
-            continue;
-          }
-          
-          if (!isCobrandedQuery) {
-            const cobranded = String(cardData.card.co_branded || 'NA').trim().toLowerCase();
-            if (usedCobranded.has(cobranded)) {
-              continue; // Skip duplicate co_branded
-            }
-            usedCobranded.add(cobranded);
-          }
-          
-          fallbackCards.push(cardData);
-        }
-        
-        finalRecommendations = fallbackCards.map((cardData) => {
-          const card = cardData.card;
-          
-          // Generate card_highlights from perks or other fields if not available
-          let cardHighlights = String(card.card_highlights || '').trim();
-          if (!cardHighlights) {
-            const highlights: string[] = [];
-            if (card.perks || card.benefits || card.card_perks) {
-              const perksText = String(card.perks || card.benefits || card.card_perks || '');
-              const perkItems = perksText.split(/[.,;]/)
-                .map(p => p.trim())
-                .filter(p => p.length > 10 && p.length < 100)
-                .slice(0, 5);
-              highlights.push(...perkItems);
-            }
-            if (highlights.length === 0 && card.rewards_rate) {
-              highlights.push(String(card.rewards_rate));
-            }
-            cardHighlights = highlights.join('\n');
-          }
-          
-          return {
-            credit_card_name: card.credit_card_name,
-            apply_url: String(card.url_application || card.url || ''),
-            reason: generatePersonalizedReason(card, userQuery),
-            card_summary: String(card.card_summary || '').trim(),
-            card_highlights: cardHighlights,
-            intro_offer: String(card.intro_offer || card.welcome_bonus || card.sign_up_bonus || card.intro_bonus || ''),
-            application_fee: String(card.application_fee || card.app_fee || ''),
-            credit_score_needed: String(card.credit_score_needed || card.credit_score || card.min_credit_score || card.credit_score_required || ''),
-            annual_fee: String(card.annual_fee || card.fee || ''),
-            rewards_rate: String(card.rewards_rate || card.rewards || card.reward_rate || ''),
-            perks: String(card.perks || card.benefits || card.card_perks || ''),
-          };
-        });
-      }
-      
-      // Ensure at least one top_card is included if available (before final padding)
-      if (topCards.length > 0 && finalRecommendations.length > 0) {
-        const normalizeCardNameLocal = (name: string) => 
-          name.toLowerCase().replace(/[®™©]/g, '').trim();
-        
-        const hasTopCard = finalRecommendations.some(rec => {
-          const matchingCard = prioritizedSimilarCards.find(
-            card => normalizeCardNameLocal(card.card.credit_card_name) === normalizeCardNameLocal(rec.credit_card_name)
-          );
-          return matchingCard && isTopCard(matchingCard.card);
-        });
-        
-        if (!hasTopCard) {
-          // Helper function to check if a card has no annual fee (reuse same logic)
-          const hasNoAnnualFee = (card: any): boolean => {
-            const annualFee = String(card.annual_fee || card.fee || '').trim().toLowerCase();
-            if (!annualFee || annualFee === '') return true;
-            const noFeeIndicators = ['0', '$0', '0.00', '$0.00', 'no fee', 'no annual fee', 'none', 'n/a', 'na', 'free', 'zero', '$0 annual fee', '0 annual fee'];
-            if (noFeeIndicators.includes(annualFee)) return true;
-            if (annualFee.includes('no fee') || annualFee.includes('no annual fee')) return true;
-            const numericFee = parseFloat(annualFee.replace(/[^0-9.]/g, ''));
-            if (!isNaN(numericFee) && numericFee === 0) return true;
-            if (annualFee.includes('$')) {
-              const dollarAmount = parseFloat(annualFee.replace(/[^0-9.]/g, ''));
-              if (!isNaN(dollarAmount) && dollarAmount === 0) return true;
-            }
-            return false;
-          };
-          
-          // Find an available top_card card
-          const usedCardNames = new Set(finalRecommendations.map(r => normalizeCardNameLocal(r.credit_card_name)));
-          const availableTopCard = topCards.find(card => {
-            const nameMatch = !usedCardNames.has(normalizeCardNameLocal(card.card.credit_card_name));
-            // If user asked for no annual fee, also check that the card has no fee
-            if (isNoFeeQuery) {
-              return nameMatch && hasNoAnnualFee(card.card);
-            }
-            return nameMatch;
-          });
-          
-          if (availableTopCard) {
-            const card = availableTopCard.card;
-            
-            // CRITICAL: Double-check annual fee before adding (safety net)
-            if (isNoFeeQuery && !hasNoAnnualFee(card)) {
-              const annualFee = String(card.annual_fee || card.fee || '').trim();
-              console.error(`[TOP_CARD BLOCK] Blocked top_card card with annual fee: ${card.credit_card_name} (annual_fee: "${annualFee}")`);
-            } else {
-            const topCardRec: Recommendation = {
-              credit_card_name: card.credit_card_name,
-              apply_url: String(card.url_application || ''),
-                reason: generatePersonalizedReason(card, userQuery),
-              card_summary: String(card.card_summary || '').trim(),
-              card_highlights: String(card.card_highlights || '').trim(),
-              intro_offer: String(card.intro_offer || card.welcome_bonus || card.sign_up_bonus || card.intro_bonus || ''),
-              application_fee: String(card.application_fee || card.app_fee || ''),
-              credit_score_needed: String(card.credit_score_needed || card.credit_score || card.min_credit_score || card.credit_score_required || ''),
-              annual_fee: String(card.annual_fee || card.fee || ''),
-              rewards_rate: String(card.rewards_rate || card.rewards || card.reward_rate || ''),
-              perks: String(card.perks || card.benefits || card.card_perks || ''),
-            };
-            
-            // If we have 3 cards, replace the last one. Otherwise, add it.
-            if (finalRecommendations.length >= 3) {
-              finalRecommendations[finalRecommendations.length - 1] = topCardRec;
-              console.log(`Replaced last recommendation with top_card card: ${card.credit_card_name}`);
-            } else {
-              finalRecommendations.push(topCardRec);
-              console.log(`Added top_card card to recommendations: ${card.credit_card_name}`);
-              }
-            }
-          }
+          finalRecommendations.push(topCardRec);
         }
-      }
-      
-      // Ensure we return exactly 3 cards for general recommendations
-      // (If this was a specific card query, we would have returned earlier)
-      if (finalRecommendations.length > 3) {
-        finalRecommendations = finalRecommendations.slice(0, 3);
-      } else if (finalRecommendations.length < 3 && prioritizedSimilarCards.length > 0) {
-          // If we have fewer than 3 cards, pad with additional similar cards
-          console.log(`Only found ${finalRecommendations.length} cards, padding to 3...`);
-          const normalizeCardNameLocal = (name: string) => 
-            name.toLowerCase().replace(/[®™©]/g, '').trim();
-          
-          const usedCardNames = new Set(finalRecommendations.map(r => normalizeCardNameLocal(r.credit_card_name)));
-          
-          // Track used co_branded values if not a cobranded query
-          const usedCobranded = new Set<string>();
-          if (!isCobrandedQuery) {
-            // Get co_branded values from current recommendations
-            finalRecommendations.forEach(rec => {
-              const matchingCard = similarCards.find(
-                card => normalizeCardNameLocal(card.card.credit_card_name) === normalizeCardNameLocal(rec.credit_card_name)
-              );
-              if (matchingCard) {
-                const cobranded = String(matchingCard.card.co_branded || 'NA').trim().toLowerCase();
-                usedCobranded.add(cobranded);
-              }
-            });
-          }
-          
-          // When padding, prioritize top_card cards if we don't have one yet
-          const hasTopCardInFinal = finalRecommendations.some(rec => {
-            const matchingCard = prioritizedSimilarCards.find(
-              card => normalizeCardNameLocal(card.card.credit_card_name) === normalizeCardNameLocal(rec.credit_card_name)
-            );
-            return matchingCard && isTopCard(matchingCard.card);
+        log.debug(`${replaced ? `Replaced ${replaced.credit_card_name} with` : 'Added'} top_card card: ${topCardRec.credit_card_name}`);
+        if (trace.debug) {
+          trace.debug.injectedCards.push({
+            credit_card_name: topCardRec.credit_card_name,
+            stage: 'recommendations',
+            reason: replaced ? `No top_card card was recommended; replaced ${replaced.credit_card_name}` : 'No top_card card was recommended',
           });
-          
-          let cardsToConsider = prioritizedSimilarCards;
-          if (!hasTopCardInFinal && topCards.length > 0) {
-            // Helper function to check if a card has no annual fee
-            const hasNoAnnualFee = (card: any): boolean => {
-              const annualFee = String(card.annual_fee || card.fee || '').trim().toLowerCase();
-              if (!annualFee || annualFee === '') return true;
-              const noFeeIndicators = ['0', '$0', '0.00', '$0.00', 'no fee', 'no annual fee', 'none', 'n/a', 'na', 'free', 'zero', '$0 annual fee', '0 annual fee'];
-              if (noFeeIndicators.includes(annualFee)) return true;
-              if (annualFee.includes('no fee') || annualFee.includes('no annual fee')) return true;
-              const numericFee = parseFloat(annualFee.replace(/[^0-9.]/g, ''));
-              if (!isNaN(numericFee) && numericFee === 0) return true;
-              if (annualFee.includes('$')) {
-                const dollarAmount = parseFloat(annualFee.replace(/[^0-9.]/g, ''));
-                if (!isNaN(dollarAmount) && dollarAmount === 0) return true;
-              }
-              return false;
-            };
-            
-            // Prioritize top_card cards when padding, but respect "no annual fee" requirement
-            const eligibleTopCards = topCards.filter(card => {
-              const nameMatch = !finalRecommendations.some(rec => 
-                normalizeCardNameLocal(rec.credit_card_name) === normalizeCardNameLocal(card.card.credit_card_name)
-              );
-              // If user asked for no annual fee, also check that the card has no fee
-              if (isNoFeeQuery) {
-                return nameMatch && hasNoAnnualFee(card.card);
-              }
-              return nameMatch;
-            });
-            cardsToConsider = [...eligibleTopCards, ...nonTopCards];
-          }
-          
-          // Helper function to check if a card has no annual fee
-          const hasNoAnnualFee = (card: any): boolean => {
-            const annualFee = String(card.annual_fee || card.fee || '').trim().toLowerCase();
-            if (!annualFee || annualFee === '') return true;
-            const noFeeIndicators = ['0', '$0', '0.00', '$0.00', 'no fee', 'no annual fee', 'none', 'n/a', 'na', 'free', 'zero', '$0 annual fee', '0 annual fee'];
-            if (noFeeIndicators.includes(annualFee)) return true;
-            if (annualFee.includes('no fee') || annualFee.includes('no annual fee')) return true;
-            const numericFee = parseFloat(annualFee.replace(/[^0-9.]/g, ''));
-            if (!isNaN(numericFee) && numericFee === 0) return true;
-            if (annualFee.includes('$')) {
-              const dollarAmount = parseFloat(annualFee.replace(/[^0-9.]/g, ''));
-              if (!isNaN(dollarAmount) && dollarAmount === 0) return true;
-            }
-            return false;
-          };
-          
-          // First try: Get cards with unique co_branded values (if not cobranded query)
-          let additionalCards = cardsToConsider
-            .filter(card => {
-              const cardNameNormalized = normalizeCardNameLocal(card.card.credit_card_name);
-              if (usedCardNames.has(cardNameNormalized)) {
-                return false;
-              }
-              
-              // CRITICAL: If user asked for "no annual fee", filter out cards with fees
-              if (isNoFeeQuery && !hasNoAnnualFee(card.card)) {
-                const annualFee = String(card.card.annual_fee || card.card.fee || '').trim();
-                console.log(`[PADDING FILTER] Filtered out card with annual fee: ${card.card.credit_card_name} (annual_fee: "${annualFee}")`);
-                return false;
-              }
-              
-              // If not a cobranded query, also filter by co_branded
-              if (!isCobrandedQuery) {
-                const cobranded = String(card.card.co_branded || 'NA').trim().toLowerCase();
-                if (usedCobranded.has(cobranded)) {
-                  return false;
-                }
-              }
-              return true;
-            })
-            .slice(0, 3 - finalRecommendations.length);
-          
-          // If we still don't have enough cards, relax the co_branded constraint
-          if (additionalCards.length < (3 - finalRecommendations.length) && !isCobrandedQuery) {
-            console.log('Not enough cards with unique co_branded, relaxing constraint to ensure 3 cards...');
-            additionalCards = cardsToConsider
-              .filter(card => {
-                const cardNameNormalized = normalizeCardNameLocal(card.card.credit_card_name);
-                if (usedCardNames.has(cardNameNormalized)) {
-                  return false;
-                }
-                
-                // CRITICAL: Still respect "no annual fee" requirement even when relaxing co_branded constraint
-                if (isNoFeeQuery && !hasNoAnnualFee(card.card)) {
-                  const annualFee = String(card.card.annual_fee || card.card.fee || '').trim();
-                  console.log(`[PADDING FILTER RELAXED] Filtered out card with annual fee: ${card.card.credit_card_name} (annual_fee: "${annualFee}")`);
-                  return false;
-                }
-                
-                return true;
-              })
-              .slice(0, 3 - finalRecommendations.length);
-          }
-          
-          // If still not enough, just take any available cards (last resort)
-          if (additionalCards.length < (3 - finalRecommendations.length)) {
-            console.log('Still not enough cards, using any available cards to reach 3...');
-            const needed = 3 - finalRecommendations.length;
-            const moreCards = cardsToConsider
-              .filter(card => {
-                const cardNameNormalized = normalizeCardNameLocal(card.card.credit_card_name);
-                if (usedCardNames.has(cardNameNormalized)) {
-                  return false;
-                }
-                
-                // CRITICAL: Still respect "no annual fee" requirement even in last resort
-                if (isNoFeeQuery && !hasNoAnnualFee(card.card)) {
-                  const annualFee = String(card.card.annual_fee || card.card.fee || '').trim();
-                  console.log(`[LAST RESORT FILTER] Filtered out card with annual fee: ${card.card.credit_card_name} (annual_fee: "${annualFee}")`);
-                  return false;
-                }
-                
-                return true;
-              })
-              .slice(0, needed);
-            additionalCards = [...additionalCards, ...moreCards].slice(0, needed);
-          }
-          
-          additionalCards.forEach((cardData) => {
-            const card = cardData.card;
-            const cobranded = String(card.co_branded || 'NA').trim().toLowerCase();
-            if (!isCobrandedQuery) {
-              usedCobranded.add(cobranded);
-            }
-            
-            // Generate card_highlights from perks or other fields if not available
-            let cardHighlights = String(card.card_highlights || '').trim();
-            if (!cardHighlights) {
-              const highlights: string[] = [];
-              if (card.perks || card.benefits || card.card_perks) {
-                const perksText = String(card.perks || card.benefits || card.card_perks || '');
-                const perkItems = perksText.split(/[.,;]/)
-                  .map(p => p.trim())
-                  .filter(p => p.length > 10 && p.length < 100)
-                  .slice(0, 5);
-                highlights.push(...perkItems);
-              }
-              if (highlights.length === 0 && card.rewards_rate) {
-                highlights.push(String(card.rewards_rate));
-              }
-              cardHighlights = highlights.join('\n');
-            }
-            
-            finalRecommendations.push({
-              credit_card_name: card.credit_card_name,
-              apply_url: String(card.url_application || card.url || ''),
-              reason: generatePersonalizedReason(card, userQuery),
-              card_summary: String(card.card_summary || '').trim(),
-              card_highlights: cardHighlights,
-              intro_offer: String(card.intro_offer || card.welcome_bonus || card.sign_up_bonus || card.intro_bonus || ''),
-              application_fee: String(card.application_fee || card.app_fee || ''),
-              credit_score_needed: String(card.credit_score_needed || card.credit_score || card.min_credit_score || card.credit_score_required || ''),
-              annual_fee: String(card.annual_fee || card.fee || ''),
-              rewards_rate: String(card.rewards_rate || card.rewards || card.reward_rate || ''),
-              perks: String(card.perks || card.benefits || card.card_perks || ''),
+          if (replaced) {
+            trace.debug.droppedCards.push({
+              credit_card_name: replaced.credit_card_name,
+              stage: 'top_card_replacement',
+              reason: `Replaced by top_card card ${topCardRec.credit_card_name}`,
             });
-          });
-          
-          // Final check: if we still don't have 3 cards, log a warning but proceed
-          if (finalRecommendations.length < 3) {
-            console.warn(`WARNING: Only able to return ${finalRecommendations.length} cards instead of 3. Available similar cards: ${similarCards.length}`);
-          }
-        }
-      
-      // Clean summary again before checking if we need to rebuild
-      // This ensures any duplicates are removed before we check for missing cards
-      // FIRST: Only replace sequences of 4+ asterisks (preserve markdown which uses 2 asterisks)
-      summary = summary.replace(/\*{4,}/g, ' ');
-      
-      // Then remove duplicate card names
-      if (finalRecommendations.length > 0) {
-        finalRecommendations.forEach((rec: any) => {
-          const cardName = rec.credit_card_name;
-          const escapedCardName = cardName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-          
-          // Pattern: CardName CardName (with space between) followed by optional description
-          const duplicateWithSpace = new RegExp(`([-•]?\\s*)(${escapedCardName})\\s+\\2(\\s*[-–—]?\\s*.*?)(?=\\n|$)`, 'gi');
-          summary = summary.replace(duplicateWithSpace, (match: string, prefix: string, p1: string, p2: string) => {
-            const afterText = p2.trim();
-            const result = `${prefix || ''}${cardName}${afterText ? ' ' + afterText : ''}`;
-            console.log(`[BACKEND BEFORE REBUILD] Removed duplicate: "${match.substring(0, 100)}" -> "${result.substring(0, 100)}"`);
-            return result;
-          });
-        });
-      }
-      
-      summary = summary.split('\n').map((line: string) => {
-        // Aggressively remove duplicate card names with asterisks
-        // Use lookahead instead of $ anchor to match anywhere in the line
-        let cleaned = line.replace(/([^\*]+?)\*{2,}\1(\s*[-–—]?\s*.*?)(?=\n|$)/gi, (match: string, p1: string, p2: string) => {
-          const cardName = p1.trim();
-          const afterText = p2.trim();
-          console.log(`[CLEANING BEFORE REBUILD CHECK] Found duplicate: "${match.substring(0, 100)}" -> "${cardName}${afterText ? ' ' + afterText : ''}"`);
-          return afterText ? `${cardName} ${afterText}` : cardName;
-        });
-        // Also handle bold markdown duplicates
-        cleaned = cleaned.replace(/\*\*([^*]+?)\*\*\1(\s*[-–—]?\s*.*?)(?=\n|$)/gi, (match: string, p1: string, p2: string) => {
-          const cardName = p1.trim();
-          const afterText = p2.trim();
-          return afterText ? `**${cardName}** ${afterText}` : `**${cardName}**`;
-        });
-        return cleaned;
-      }).join('\n');
-      
-      // Ensure all cards are included in the summary with proper formatting
-      // If summary doesn't contain all cards as bullet points, rebuild it
-      let finalSummary = summary;
-      if (finalRecommendations.length > 0) {
-        const summaryLower = summary.toLowerCase();
-        // Count how many cards appear in the summary
-        const cardsInSummary = finalRecommendations.filter(rec => {
-          const cardNameLower = rec.credit_card_name.toLowerCase();
-          return summaryLower.includes(cardNameLower);
-        }).length;
-        
-        // If not all cards are present, or if summary doesn't have proper bullet format, rebuild it
-        const hasBulletPoints = summary.includes('-') || summary.includes('•');
-        if (cardsInSummary < finalRecommendations.length || !hasBulletPoints) {
-          console.log('Rebuilding summary to ensure all cards are displayed with proper formatting...');
-          
-          // Try to extract opening sentence from summary (first sentence only)
-          const sentences = summary.split(/[.!?]+/).filter((s: string) => s.trim().length > 0);
-          let openingSentence = '';
-          if (sentences.length >= 1) {
-            openingSentence = sentences[0].trim() + '.';
-          } else {
-            // Fallback: generate one
-            openingSentence = `Based on your needs, here are three credit cards that could work well for you.`;
           }
-          
-          // Build cards list with proper markdown formatting - each on separate line
-          // Format: - **[Card Name](url)** - description. [Connecting sentence]
-          const cardsText = finalRecommendations.map((rec, index) => {
-            const description = rec.reason || 'Credit card with valuable benefits';
-            // Create unique connecting sentences
-            const isNoFeeQuery = userQuery.toLowerCase().includes('no annual fee') || userQuery.toLowerCase().includes('no fee');
-            const connectingSentences = [
-              isNoFeeQuery 
-                ? `This card stands out for its exceptional value without any annual fee, making it ideal for budget-conscious cardholders.`
-                : `This card is perfect if you want to maximize your rewards while enjoying valuable benefits.`,
-              isNoFeeQuery
-                ? `If you're looking to avoid annual fees while still earning rewards, this card delivers strong value.`
-                : `This option is ideal for cardholders who prioritize ${rec.reason?.toLowerCase() || 'flexible rewards and benefits'}.`,
-              isNoFeeQuery
-                ? `This card offers a unique combination of benefits without the burden of an annual fee.`
-                : `This card stands out for ${rec.reason?.toLowerCase() || 'its unique combination of features'} that align with your spending habits.`,
-            ];
-            const connectingSentence = connectingSentences[index % connectingSentences.length];
-            // Remove any trailing period from description to avoid double periods
-            const cleanDescription = description.trim().replace(/\.+$/, '');
-            return `- **[${rec.credit_card_name}](${rec.apply_url})** - ${cleanDescription}. ${connectingSentence}`;
-          }).join('\n\n');
-          
-          // New format: ONE sentence preface, blank line, then three cards (no closing sentence)
-          finalSummary = openingSentence + '\n\n' + cardsText;
-        } else {
-          // Even if we're not rebuilding, clean the summary one more time to be safe
-          finalSummary = summary.split('\n').map((line: string) => {
-            // Use lookahead instead of $ anchor to match anywhere in the line
-            return line.replace(/([^\*]+?)\*{2,}\1(\s*[-–—]?\s*.*?)(?=\n|$)/gi, (match: string, p1: string, p2: string) => {
-              const cardName = p1.trim();
-              const afterText = p2.trim();
-              console.log(`[CLEANING NOT REBUILDING] Found duplicate: "${match.substring(0, 100)}" -> "${cardName}${afterText ? ' ' + afterText : ''}"`);
-              return afterText ? `${cardName} ${afterText}` : cardName;
-            });
-          }).join('\n');
         }
+      } else {
+        log.warn(`No available top_card card found to add. Used cards: ${Array.from(usedCardNames).join(', ')}`);
       }
-      
-      // Final cleaning pass using actual card names from recommendations
-      // This is the last chance to catch any duplicates before returning
-      if (finalRecommendations.length > 0) {
-        finalRecommendations.forEach(rec => {
-          const cardName = rec.credit_card_name;
-          const escapedCardName = cardName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-          
-          // Pattern 1: CardName****CardName - description
-          // Use lookahead instead of $ anchor to match anywhere, not just at end of line
-          const duplicatePattern = new RegExp(`(${escapedCardName})\\*{2,}\\1(\\s*[-–—]?\\s*.*?)(?=\\n|$)`, 'gi');
-          finalSummary = finalSummary.replace(duplicatePattern, (match: string, p1: string, p2: string) => {
-            const afterText = p2.trim();
-            console.log(`[CLEANING FINAL] Found duplicate: "${match.substring(0, 100)}" -> "${cardName}${afterText ? ' ' + afterText : ''}"`);
-            return afterText ? `${cardName} ${afterText}` : cardName;
-          });
-          
-          // Pattern 2: **CardName**CardName - description  
-          const boldDuplicatePattern = new RegExp(`\\*\\*${escapedCardName}\\*\\*${escapedCardName}(\\s*[-–—]?\\s*.*?)(?=\\n|$)`, 'gi');
-          finalSummary = finalSummary.replace(boldDuplicatePattern, (match: string, p1: string) => {
-            console.log(`[CLEANING FINAL BOLD] Found bold duplicate: "${match.substring(0, 100)}" -> "**${cardName}**${p1}"`);
-            return `**${cardName}**${p1}`;
-          });
-          
-          // Pattern 3: **[Card Name](url)**Card Name - description (card name after link)
-          const linkAfterPattern = new RegExp(`\\*\\*\\[${escapedCardName}\\]\\([^)]+\\)\\*\\*${escapedCardName}(\\s*[-–—]?\\s*.*?)(?=\\n|$)`, 'gi');
-          finalSummary = finalSummary.replace(linkAfterPattern, (match: string, p1: string) => {
-            // Extract the URL from the match
-            const urlMatch = match.match(/\[.*?\]\((.*?)\)/);
-            const url = urlMatch ? urlMatch[1] : '';
-            const afterText = p1.trim();
-            console.log(`[CLEANING FINAL LINK+NAME] Found link+name duplicate: "${match.substring(0, 100)}" -> "**[${cardName}](${url})**${afterText ? ' ' + afterText : ''}"`);
-            return `**[${cardName}](${url})**${afterText ? ' ' + afterText : ''}`;
-          });
-          
-          // Pattern 4: **Card Name**[Card Name](url) - description (card name before link)
-          const linkBeforePattern = new RegExp(`\\*\\*${escapedCardName}\\*\\*\\[${escapedCardName}\\]\\([^)]+\\)(\\s*[-–—]?\\s*.*?)(?=\\n|$)`, 'gi');
-          finalSummary = finalSummary.replace(linkBeforePattern, (match: string, p1: string) => {
-            // Extract the URL from the match
-            const urlMatch = match.match(/\[.*?\]\((.*?)\)/);
-            const url = urlMatch ? urlMatch[1] : '';
-            const afterText = p1.trim();
-            console.log(`[CLEANING FINAL NAME+LINK] Found name+link duplicate: "${match.substring(0, 100)}" -> "**[${cardName}](${url})**${afterText ? ' ' + afterText : ''}"`);
-            return `**[${cardName}](${url})**${afterText ? ' ' + afterText : ''}`;
-          });
-          
-          // Pattern 5: Card Name**[Card Name](url)** - description (card name before bold link)
-          const nameBeforeBoldLinkPattern = new RegExp(`${escapedCardName}\\*\\*\\[${escapedCardName}\\]\\([^)]+\\)\\*\\*(\\s*[-–—]?\\s*.*?)(?=\\n|$)`, 'gi');
-          finalSummary = finalSummary.replace(nameBeforeBoldLinkPattern, (match: string, p1: string) => {
-            const urlMatch = match.match(/\[.*?\]\((.*?)\)/);
-            const url = urlMatch ? urlMatch[1] : '';
-            const afterText = p1.trim();
-            console.log(`[CLEANING FINAL NAME BEFORE BOLD] Found name before bold link duplicate: "${match.substring(0, 100)}" -> "**[${cardName}](${url})**${afterText ? ' ' + afterText : ''}"`);
-            return `**[${cardName}](${url})**${afterText ? ' ' + afterText : ''}`;
-          });
-        });
-      }
-      
-      // Final safety net: Replace any remaining asterisks and remove duplicates
-      // Replace any sequence of 2+ asterisks with a space first
-      // Only replace sequences of 4+ asterisks (preserve markdown which uses 2 asterisks)
-      finalSummary = finalSummary.replace(/\*{4,}/g, ' ');
-      
-      // Then remove duplicate card names that result from the replacement
-      if (finalRecommendations.length > 0) {
-        finalRecommendations.forEach(rec => {
-          const cardName = rec.credit_card_name;
-          const escapedCardName = cardName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-          
-          // Pattern: CardName CardName (with space between) followed by optional description
-          const duplicateWithSpace = new RegExp(`([-•]?\\s*)(${escapedCardName})\\s+\\2(\\s*[-–—]?\\s*.*?)(?=\\n|$)`, 'gi');
-          finalSummary = finalSummary.replace(duplicateWithSpace, (match: string, prefix: string, p1: string, p2: string) => {
-            const afterText = p2.trim();
-            const result = `${prefix || ''}${cardName}${afterText ? ' ' + afterText : ''}`;
-            console.log(`[CLEANING FINAL SAFETY NET] Removed duplicate: "${match.substring(0, 100)}" -> "${result.substring(0, 100)}"`);
-            return result;
-          });
-        });
-      }
-      
-      // General catch-all: Remove any text pattern that looks like "CardName****CardName"
-      // This catches duplicates even if the card name doesn't exactly match our recommendations
-      finalSummary = finalSummary.replace(/([-•]?\s*)([a-zA-Z0-9\s®™©]{3,50}?)\*{2,}\2(\s*[-–—]?\s*.*?)(?=\n|$)/gi, (match: string, prefix: string, p1: string, p2: string) => {
-        const cardName = p1.trim();
-        const afterText = p2.trim();
-        // Only process if it looks like a card name (more than 3 characters, less than 50)
-        if (cardName.length > 3 && cardName.length < 50) {
-          const result = `${prefix || ''}${cardName}${afterText ? ' ' + afterText : ''}`;
-          console.log(`[CLEANING GENERAL SAFETY NET] Found duplicate: "${match.substring(0, 100)}" -> "${result.substring(0, 100)}"`);
-          return result;
-        }
-        return match;
+    }
+
+    // Pad to MAX_OUTPUT_CARDS from the candidates (top_card cards first if there is none yet),
+    // preferring co_branded programs not shown yet, then relaxing that rather than returning fewer cards
+    if (finalRecommendations.length < MAX_OUTPUT_CARDS && prioritizedSimilarCards.length > 0) {
+      const cobrandedOf = (card: CreditCard) => String(card.co_branded || 'NA').trim().toLowerCase();
+      const usedCardNames = new Set(finalRecommendations.map(rec => normalizeCardName(rec.credit_card_name)));
+      const usedCobranded = new Set(finalRecommendations.map(rec => findCandidate(rec.credit_card_name)).filter((card): card is CreditCard => !!card).map(cobrandedOf));
+
+      const cardsToConsider = (finalRecommendations.some(isTopCardRecommendation) ? prioritizedSimilarCards : [...topCards, ...nonTopCards])
+        .filter(item => !usedCardNames.has(normalizeCardName(item.card.credit_card_name)));
+      const preferred = isCobrandedQuery ? cardsToConsider : cardsToConsider.filter(item => {
+        const cobranded = cobrandedOf(item.card);
+        if (usedCobranded.has(cobranded)) return false;
+        usedCobranded.add(cobranded);
+        return true;
       });
-      
-      // One more aggressive pass: line-by-line cleaning for any remaining duplicates
-      // This catches cases where the card name appears both inside and outside the markdown link
-      finalSummary = finalSummary.split('\n').map((line: string) => {
-        if (finalRecommendations.length > 0) {
-          for (const rec of finalRecommendations) {
-            const cardName = rec.credit_card_name;
-            const escapedCardName = cardName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-            
-            // Count how many times the card name appears (case-insensitive)
-            const nameRegex = new RegExp(escapedCardName, 'gi');
-            const nameMatches = line.match(nameRegex);
-            
-            // If the card name appears more than once, we need to clean it
-            if (nameMatches && nameMatches.length > 1) {
-              // Try to find a markdown link with this card name
-              const linkRegex = new RegExp(`\\[${escapedCardName}\\]\\(([^)]+)\\)`, 'gi');
-              const linkMatch = line.match(linkRegex);
-              
-              if (linkMatch && linkMatch.length > 0) {
-                // Extract the URL from the first link match
-                const urlMatch = linkMatch[0].match(/\[.*?\]\((.*?)\)/);
-                const url = urlMatch ? urlMatch[1] : rec.apply_url || '';
-                
-                // Find the description part (everything after the card name/link)
-                const descriptionMatch = line.match(/[-–—]\s*(.+)$/);
-                const description = descriptionMatch ? descriptionMatch[1].trim() : '';
-                
-                // Reconstruct the line with proper format, keeping only the link version
-                const cleaned = `- **[${cardName}](${url})**${description ? ' - ' + description : ''}`;
-                console.log(`[CLEANING LINE] Removed duplicate: "${line.substring(0, 100)}..." -> "${cleaned}"`);
-                return cleaned;
-              }
-            }
-          }
-        }
-        return line;
-      }).join('\n');
-      
-      // FINAL VALIDATION: Remove any cards with annual fees if user asked for "no annual fee"
-      // This is the absolute last safety net before returning - use STRICT function
-      if (isNoFeeQuery) {
-        const normalizeCardNameLocal = (name: string) => 
-          name.toLowerCase().replace(/[®™©]/g, '').trim();
-        
-        const beforeFinalCount = finalRecommendations.length;
-        console.log(`[FINAL VALIDATION] Checking ${beforeFinalCount} recommendations for annual fees...`);
-        
-        finalRecommendations = finalRecommendations.filter(rec => {
-          // Find the matching card to check annual fee
-          const matchingCard = prioritizedSimilarCards.find(
-            card => normalizeCardNameLocal(card.card.credit_card_name) === normalizeCardNameLocal(rec.credit_card_name)
-          );
-          
-          if (matchingCard) {
-            const cardHasNoFee = hasNoAnnualFeeStrict(matchingCard.card);
-            if (!cardHasNoFee) {
-              const annualFee = String(matchingCard.card.annual_fee || matchingCard.card.fee || '').trim();
-              console.error(`[FINAL VALIDATION] ❌ REMOVED card with annual fee: ${rec.credit_card_name} (annual_fee: "${annualFee}")`);
-              return false;
-            } else {
-              console.log(`[FINAL VALIDATION] ✓ ${rec.credit_card_name} has no annual fee`);
-            }
-          } else {
-            console.warn(`[FINAL VALIDATION] Could not find matching card for ${rec.credit_card_name} - keeping it but this is unusual`);
-          }
-          return true;
+      const padding = [...preferred, ...cardsToConsider.filter(item => !preferred.includes(item))]
+        .slice(0, MAX_OUTPUT_CARDS - finalRecommendations.length);
+
+      log.debug(`Only found ${finalRecommendations.length} cards, padding with: ${padding.map(item => item.card.credit_card_name).join(', ')}`);
+      padding.forEach(({ card }) => {
+        trace.debug?.injectedCards.push({
+          credit_card_name: card.credit_card_name,
+          stage: 'recommendations',
+          reason: isTopCard(card) ? 'Padding to 3 cards (top_card first)' : 'Padding to 3 cards',
         });
-        
-        if (beforeFinalCount !== finalRecommendations.length) {
-          console.error(`[FINAL VALIDATION] Filtered ${beforeFinalCount - finalRecommendations.length} cards with annual fees in final validation pass`);
-          console.error(`[FINAL VALIDATION] Remaining cards: ${finalRecommendations.map(r => r.credit_card_name).join(', ')}`);
-        } else {
-          console.log(`[FINAL VALIDATION] All ${beforeFinalCount} recommendations passed fee check`);
-        }
-      }
-      
-      // Generate a short title for the recommendations
-      const title = await generateRecommendationTitle(userQuery);
-      
-      console.log('[FINAL] Summary after all cleaning:', finalSummary.substring(0, 500));
-      
-      // FINAL FORMAT VALIDATION AND FIX: Ensure summary has proper markdown format and connecting sentences
-      const finalHasMarkdownLinks = finalSummary.includes('**[') && finalSummary.includes('](http');
-      const finalLines = finalSummary.split('\n').filter((line: string) => line.trim().startsWith('-'));
-      const finalHasConnectingSentences = finalLines.length > 0 && finalLines.every((line: string) => {
-        const parts = line.split(' - ');
-        if (parts.length < 2) return false;
-        const afterDash = parts[1];
-        const periods = afterDash.split('.').length;
-        return periods >= 2; // At least description and connecting sentence
-      });
-      
-      if (!finalHasMarkdownLinks || !finalHasConnectingSentences) {
-        console.warn('[FINAL FORMAT FIX] Summary format is incorrect, rebuilding with proper format...');
-        const prefaceMatch = finalSummary.match(/^([^\n]+(?:\n[^\n-]+)*)/);
-        const preface = prefaceMatch ? prefaceMatch[1].trim() : `Based on your needs, here are three credit cards that could work well for you.`;
-        
-        const formattedCards = finalRecommendations.map((rec, index) => {
-          const description = rec.reason || 'Credit card with valuable benefits';
-          const isNoFeeQuery = userQuery.toLowerCase().includes('no annual fee') || userQuery.toLowerCase().includes('no fee');
-          const connectingSentences = [
-            isNoFeeQuery 
-              ? `This card stands out for its exceptional value without any annual fee, making it ideal for budget-conscious cardholders.`
-              : `This card is perfect if you want to maximize your rewards while enjoying valuable benefits.`,
-            isNoFeeQuery
-              ? `If you're looking to avoid annual fees while still earning rewards, this card delivers strong value.`
-              : `This option is ideal for cardholders who prioritize ${rec.reason?.toLowerCase() || 'flexible rewards and benefits'}.`,
-            isNoFeeQuery
-              ? `This card offers a unique combination of benefits without the burden of an annual fee.`
-              : `This card stands out for ${rec.reason?.toLowerCase() || 'its unique combination of features'} that align with your spending habits.`,
-          ];
-          const connectingSentence = connectingSentences[index % connectingSentences.length];
-          // Remove any trailing period from description to avoid double periods
-          const cleanDescription = description.trim().replace(/\.+$/, '');
-          return `- **[${rec.credit_card_name}](${rec.apply_url})** - ${cleanDescription}. ${connectingSentence}`;
-        }).join('\n\n');
-        
-        finalSummary = `${preface}\n\n${formattedCards}`;
-        console.log('[FINAL FORMAT FIX] Rebuilt summary with proper format');
-      }
-      
-      // Final validation: Ensure all recommendations have card_highlights
-      const validatedRecommendations = finalRecommendations.map((rec: any, idx: number) => {
-        if (!rec.card_highlights || String(rec.card_highlights).trim().length === 0) {
-          console.warn(`[FINAL VALIDATION ${idx}] ${rec.credit_card_name} missing card_highlights, generating from perks...`);
-          const fallbackHighlights = rec.perks 
-            ? String(rec.perks).split(/[.,;]/).slice(0, 5).join('\n')
-            : (rec.reason ? String(rec.reason).split(/[.,;]/).slice(0, 3).join('\n') : '');
-          return {
-            ...rec,
-            card_highlights: fallbackHighlights,
-          };
-        }
-        return rec;
-      });
-      
-      // Log final status
-      validatedRecommendations.forEach((rec, idx) => {
-        console.log(`[FINAL RETURN ${idx}] ${rec.credit_card_name}: hasHighlights=${!!rec.card_highlights && rec.card_highlights.length > 0}, length=${rec.card_highlights?.length || 0}`);
+        finalRecommendations.push(toRecommendation(card, userQuery));
       });
-      
-      return {
-        recommendations: validatedRecommendations,
-        summary: finalSummary,
-        rawModelAnswer: rawAnswer,
-        title: title,
-      };
-    } catch (parseError) {
-      console.error('Failed to parse LLM response as JSON:', parseError);
-      console.error('Raw response:', rawAnswer);
-      console.error('Raw response type:', typeof rawAnswer);
-      console.error('Raw response length:', rawAnswer?.length);
-
-      // Check if rawAnswer looks like JSON (starts with { or [)
-      const looksLikeJSON = rawAnswer && (rawAnswer.trim().startsWith('{') || rawAnswer.trim().startsWith('['));
-
-      if (looksLikeJSON) {
-        // If it looks like JSON but failed to parse, don't show raw JSON to user
-        console.error('CRITICAL: Response looks like JSON but failed to parse - not showing raw JSON to user');
-        const title = await generateRecommendationTitle(userQuery);
-        return {
-          recommendations: [],
-          summary: "I encountered an error while processing the card recommendations. Please try rephrasing your question or being more specific about what you're looking for (e.g., 'travel cards', 'cashback cards', 'no annual fee cards').",
-          rawModelAnswer: rawAnswer,
-          title: title,
-        };
-      }
 
-      // If the raw response is actual text (not JSON), we can use it
-      if (rawAnswer && rawAnswer.length > 50 && (rawAnswer.includes('card') || rawAnswer.includes('Card')) && !looksLikeJSON) {
-        console.log('Raw response contains text (not JSON), using it as fallback summary');
-        const title = await generateRecommendationTitle(userQuery);
-        return {
-          recommendations: [],
-          summary: rawAnswer,
-          rawModelAnswer: rawAnswer,
-          title: title,
-        };
+      if (finalRecommendations.length < MAX_OUTPUT_CARDS) {
+        log.warn(`Only able to return ${finalRecommendations.length} cards instead of ${MAX_OUTPUT_CARDS}. Candidate cards: ${prioritizedSimilarCards.length}`);
       }
+    }
 
-      // Otherwise, provide a helpful error message
-      console.error('CRITICAL: LLM did not return valid JSON and response does not contain useful information');
-      const title = await generateRecommendationTitle(userQuery);
-      return {
-        recommendations: [],
-        summary: "I apologize, but I encountered an error while generating recommendations. Please try rephrasing your question or asking about different credit card criteria. If the problem persists, try asking about specific card types like 'travel cards', 'cashback cards', or 'no annual fee cards'.",
-        rawModelAnswer: rawAnswer,
-        title: title,
-      };
+    // Attach the estimated value for the user's spending and order by it
+    if (useValueRanking) {
+      finalRecommendations = finalRecommendations
+        .map(rec => {
+          const card = findCandidate(rec.credit_card_name);
+          return card ? { ...rec, estimated_value: computeCardValue(card, spendProfile) } : rec;
+        })
+        .sort((a, b) => (b.estimated_value?.ongoing ?? -Infinity) - (a.estimated_value?.ongoing ?? -Infinity));
     }
+
+    // Wait for the title generated alongside the cards
+    const title = await titlePromise;
+
+    // Render the summary from the final cards; cards added after generation get a fallback connecting sentence
+    const connectingSentences = new Map(structured.cards.map(card => [normalizeCardName(card.credit_card_name), card.connecting_sentence]));
+    const finalSummary = renderRecommendationSummary(finalRecommendations.length > 0
+      ? {
+        preface: structured.preface,
+        closing: structured.closing,
+        cards: finalRecommendations.map((rec, index) => ({
+          ...rec,
+          connecting_sentence: connectingSentences.get(normalizeCardName(rec.credit_card_name)) || fallbackConnectingSentence(rec, index, userQuery),
+        })),
+      }
+      : { preface: NO_MATCHING_CARDS_MESSAGE, cards: [] });
+    log.debug('[FINAL] Rendered summary:', finalSummary.substring(0, 500));
+
+    return {
+      recommendations: finalRecommendations,
+      summary: finalSummary,
+      rawModelAnswer: rawAnswer,
+      title: title,
+      metadata: {
+        step: 5,
+        stepName: 'Credit Card Recommendations',
+        usedWebSearch: false,
+        reason: `Selected from ${prioritizedSimilarCards.length} candidate cards${output ? '' : ' without usable model output'}${useValueRanking ? ', ranked by estimated value for the spend profile' : ''}`,
+      },
+    };
   } catch (error) {
-    console.error('Error generating recommendations:', error);
+    log.error('Error generating recommendations:', error);
     throw error;
   }
 }
@@ -0,0 +1,142 @@
+import { afterEach, describe, it, expect } from 'vitest';
+import {
+  createMemoryRateLimitStore,
+  DEFAULT_RATE_LIMITS,
+  enforceRateLimit,
+  getClientIp,
+  MAX_CARD_NAME_LENGTH,
+  MAX_CARD_NAMES,
+  MAX_HISTORY_MESSAGES,
+  MAX_MESSAGE_LENGTH,
+  parseRateLimits,
+  setRateLimitStore,
+  takeToken,
+  UNKNOWN_CLIENT_IP,
+  validateInputLimits,
+} from './rateLimit';
+import { RateLimitExceededError, ValidationError } from './errors';
+
+const config = { capacity: 2, refillPerMinute: 6 }; // One token every 10 seconds
+
+afterEach(() => setRateLimitStore(undefined));
+
+describe('takeToken', () => {
+  it('should allow a burst up to capacity, then refill over time', () => {
+    const first = takeToken(undefined, config, 0);
+    expect(first.result).toEqual({ allowed: true, remaining: 1, retryAfterSeconds: 0 });
+
+    const second = takeToken(first.bucket, config, 0);
+    expect(second.result.allowed).toBe(true);
+
+    const third = takeToken(second.bucket, config, 4000);
+    expect(third.result).toEqual({ allowed: false, remaining: 0, retryAfterSeconds: 6 });
+
+    expect(takeToken(third.bucket, config, 10_000).result.allowed).toBe(true);
+  });
+
+  it('should not refill past capacity', () => {
+    const drained = takeToken(takeToken(undefined, config, 0).bucket, config, 0).bucket;
+    expect(takeToken(drained, config, 60 * 60_000).result.remaining).toBe(1);
+  });
+});
+
+describe('createMemoryRateLimitStore', () => {
+  it('should keep buckets per key and evict idle ones past maxKeys', async () => {
+    const slow = { capacity: 2, refillPerMinute: 0.1 };
+    const store = createMemoryRateLimitStore(2);
+    await store.take('a', slow, 0);
+    await store.take('a', slow, 0);
+    expect((await store.take('a', slow, 0)).allowed).toBe(false);
+    expect((await store.take('b', config, 0)).allowed).toBe(true);
+
+    // "b" is full again after 20 seconds, so it is evicted for "c" while "a" stays empty
+    expect((await store.take('c', config, 20_000)).allowed).toBe(true);
+    expect((await store.take('a', slow, 20_000)).allowed).toBe(false);
+  });
+});
+
+describe('enforceRateLimit', () => {
+  it('should throw with Retry-After once the IP bucket is empty', async () => {
+    setRateLimitStore(createMemoryRateLimitStore());
+    const { capacity } = DEFAULT_RATE_LIMITS.chat.ip;
+    for (let i = 0; i < capacity; i++) {
+      await enforceRateLimit('chat', { ip: '203.0.113.5' }, 0);
+    }
+
+    const error = await enforceRateLimit('chat', { ip: '203.0.113.5' }, 0).catch(e => e);
+    expect(error).toBeInstanceOf(RateLimitExceededError);
+    expect(error.retryAfterSeconds).toBeGreaterThan(0);
+
+    // Other IPs and routes have their own buckets
+    await expect(enforceRateLimit('chat', { ip: '203.0.113.6' }, 0)).resolves.toBeUndefined();
+    await expect(enforceRateLimit('suggestions', { ip: '203.0.113.5' }, 0)).resolves.toBeUndefined();
+  });
+
+  it('should limit a session across IPs', async () => {
+    setRateLimitStore(createMemoryRateLimitStore());
+    const { capacity } = DEFAULT_RATE_LIMITS.recommendations.session!;
+    for (let i = 0; i < capacity; i++) {
+      await enforceRateLimit('recommendations', { ip: `198.51.100.${i}`, sessionId: 'session-1' }, 0);
+    }
+    await expect(enforceRateLimit('recommendations', { ip: '198.51.100.99', sessionId: 'session-1' }, 0))
+      .rejects.toBeInstanceOf(RateLimitExceededError);
+  });
+
+  it('should let requests through when the store fails or rate limiting is off', async () => {
+    setRateLimitStore({ type: 'broken', async take() { throw new Error('store down'); } });
+    await expect(enforceRateLimit('chat', { ip: '203.0.113.5' })).resolves.toBeUndefined();
+
+    setRateLimitStore(null);
+    await expect(enforceRateLimit('chat', { ip: '203.0.113.5' })).resolves.toBeUndefined();
+  });
+});
+
+describe('parseRateLimits', () => {
+  it('should merge valid overrides and ignore the rest', () => {
+    const limits = parseRateLimits(JSON.stringify({
+      chat: { ip: { capacity: 5, refillPerMinute: 1 } },
+      suggestions: { ip: { capacity: 0, refillPerMinute: 1 } },
+      unknown: { ip: { capacity: 5, refillPerMinute: 1 } },
+    }));
+    expect(limits.chat.ip).toEqual({ capacity: 5, refillPerMinute: 1 });
+    expect(limits.suggestions).toEqual(DEFAULT_RATE_LIMITS.suggestions);
+    expect(limits.recommendations).toEqual(DEFAULT_RATE_LIMITS.recommendations);
+    expect(parseRateLimits('{oops')).toEqual(DEFAULT_RATE_LIMITS);
+  });
+});
+
+describe('getClientIp', () => {
+  it('should use the X-Forwarded-For entry added by the outermost trusted proxy', () => {
+    // The client sent a spoofed entry; the proxy appended the real address
+    const headers = new Headers({ 'x-forwarded-for': '1.2.3.4, 203.0.113.5' });
+    expect(getClientIp(headers, 1)).toBe('203.0.113.5');
+    expect(getClientIp(new Headers({ 'x-forwarded-for': '1.2.3.4, 203.0.113.5, 10.0.0.1' }), 2)).toBe('203.0.113.5');
+    expect(getClientIp(new Headers({ 'x-forwarded-for': '203.0.113.5' }), 2)).toBe('203.0.113.5');
+  });
+
+  it('should fall back to X-Real-IP, then the shared unknown bucket', () => {
+    expect(getClientIp(new Headers({ 'x-real-ip': '203.0.113.7' }), 1)).toBe('203.0.113.7');
+    expect(getClientIp(new Headers(), 1)).toBe(UNKNOWN_CLIENT_IP);
+    // No trusted proxies: the headers could all be spoofed
+    expect(getClientIp(new Headers({ 'x-forwarded-for': '203.0.113.5' }), 0)).toBe(UNKNOWN_CLIENT_IP);
+  });
+});
+
+describe('validateInputLimits', () => {
+  it('should reject long messages and oversized histories', () => {
+    expect(() => validateInputLimits({ message: 'best travel card?', conversationHistory: [] })).not.toThrow();
+    expect(() => validateInputLimits({ message: 'x'.repeat(MAX_MESSAGE_LENGTH + 1) })).toThrow(ValidationError);
+
+    const history = Array.from({ length: MAX_HISTORY_MESSAGES + 1 }, () => ({ role: 'user', content: 'hi' }));
+    expect(() => validateInputLimits({ message: 'hi', conversationHistory: history })).toThrow(/too many messages/);
+    expect(() => validateInputLimits({ message: 'hi', conversationHistory: [{ role: 'user', content: 'x'.repeat(50_000) }] })).toThrow(/too long/);
+    expect(() => validateInputLimits({ message: 'hi', conversationHistory: 'not an array' })).toThrow(ValidationError);
+  });
+
+  it('should reject too many or too long card names', () => {
+    expect(() => validateInputLimits({ cardNames: ['Amex Gold', 'Venture X'] })).not.toThrow();
+    expect(() => validateInputLimits({ cardNames: Array.from({ length: MAX_CARD_NAMES + 1 }, (_, i) => `Card ${i}`) })).toThrow(/too many names/);
+    expect(() => validateInputLimits({ cardNames: ['Amex Gold', 'x'.repeat(MAX_CARD_NAME_LENGTH + 1)] })).toThrow(/Card name is too long/);
+    expect(() => validateInputLimits({ cardNames: 'Amex Gold' })).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,303 @@
+import { ConversationMessage } from '@/types';
+import { RateLimitExceededError, ValidationError } from './errors';
+import { createLogger } from './logger';
+
+/**
+ * Abuse protection for the public API routes.
+ *
+ * Rate limits are token buckets: a client may burst up to `capacity` requests,
+ * and the bucket refills at `refillPerMinute`. Each route has a bucket per
+ * client IP and, where the route knows it, per session. A request must take a
+ * token from both, otherwise it fails with RateLimitExceededError (a 429 with
+ * Retry-After). RATE_LIMITS (JSON) overrides the defaults per route, e.g.
+ * `{ "recommendations": { "ip": { "capacity": 30, "refillPerMinute": 15 } } }`.
+ *
+ * The client IP comes from X-Forwarded-For, trusting only the entries added
+ * by the TRUST_PROXY proxies in front of the app; anything left of those was
+ * sent by the client and could be spoofed.
+ *
+ * Buckets live in the store selected with RATE_LIMIT_STORE: `memory` (the
+ * default, per server instance) or `off`. Deployments with several instances
+ * can plug in a shared store with setRateLimitStore.
+ *
+ * Input limits cap the message length, the conversation history and the card
+ * names a client can send, so a single request can't stuff the prompt.
+ */
+
+const log = createLogger('rateLimit');
+
+export type RateLimitRoute = 'recommendations' | 'chat' | 'suggestions' | 'cartoon' | 'compare';
+
+export interface TokenBucketConfig {
+  capacity: number; // Requests allowed in a burst
+  refillPerMinute: number; // Tokens added back per minute
+}
+
+export interface RouteRateLimit {
+  ip: TokenBucketConfig;
+  session?: TokenBucketConfig; // Only for routes that receive a session ID
+}
+
+export interface TokenBucket {
+  tokens: number;
+  updatedAt: number; // Epoch ms of the last refill
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number; // Whole tokens left after this request
+  retryAfterSeconds: number; // 0 when allowed
+}
+
+export interface RateLimitStore {
+  type: string;
+  /** Refills the bucket for key and takes one token if it has one */
+  take(key: string, config: TokenBucketConfig, now: number): Promise<RateLimitResult>;
+}
+
+/**
+ * Defaults per route. Recommendations and chat fan out into several paid
+ * LLM calls; the cartoon route only calls GitHub.
+ */
+export const DEFAULT_RATE_LIMITS: Record<RateLimitRoute, RouteRateLimit> = {
+  recommendations: {
+    ip: { capacity: 20, refillPerMinute: 10 },
+    session: { capacity: 10, refillPerMinute: 6 },
+  },
+  chat: { ip: { capacity: 20, refillPerMinute: 10 } },
+  suggestions: { ip: { capacity: 30, refillPerMinute: 15 } },
+  cartoon: { ip: { capacity: 60, refillPerMinute: 30 } },
+  compare: { ip: { capacity: 20, refillPerMinute: 10 } },
+};
+
+function isBucketConfig(value: unknown): value is TokenBucketConfig {
+  const config = value as TokenBucketConfig;
+  return !!config && config.capacity >= 1 && config.refillPerMinute > 0;
+}
+
+/**
+ * The default limits with RATE_LIMITS entries merged over them; invalid entries are ignored
+ */
+export function parseRateLimits(raw: string | undefined): Record<RateLimitRoute, RouteRateLimit> {
+  const limits = { ...DEFAULT_RATE_LIMITS };
+  if (!raw) return limits;
+
+  try {
+    const overrides = JSON.parse(raw) as Record<string, Partial<RouteRateLimit>>;
+    for (const [route, override] of Object.entries(overrides)) {
+      if (!(route in DEFAULT_RATE_LIMITS)) {
+        log.warn(`[RATE LIMIT] Ignoring RATE_LIMITS entry for unknown route "${route}"`);
+        continue;
+      }
+      const current = limits[route as RateLimitRoute];
+      const next: RouteRateLimit = { ...current };
+      for (const scope of ['ip', 'session'] as const) {
+        if (override?.[scope] === undefined) continue;
+        if (isBucketConfig(override[scope])) {
+          next[scope] = { capacity: override[scope]!.capacity, refillPerMinute: override[scope]!.refillPerMinute };
+        } else {
+          log.warn(`[RATE LIMIT] Ignoring RATE_LIMITS.${route}.${scope}: capacity must be >= 1 and refillPerMinute > 0`);
+        }
+      }
+      limits[route as RateLimitRoute] = next;
+    }
+  } catch (error) {
+    log.warn('[RATE LIMIT] RATE_LIMITS is not valid JSON, using the default limits:', error);
+  }
+  return limits;
+}
+
+/**
+ * Configuration for rate and input limits
+ */
+const RATE_LIMITS = parseRateLimits(process.env.RATE_LIMITS);
+const RATE_LIMIT_STORE = process.env.RATE_LIMIT_STORE || 'memory';
+const RATE_LIMIT_MAX_KEYS = parseInt(process.env.RATE_LIMIT_MAX_KEYS || '10000', 10);
+const TRUST_PROXY = parseInt(process.env.TRUST_PROXY || '1', 10); // Proxies in front of the app (Vercel counts as one)
+export const MAX_MESSAGE_LENGTH = parseInt(process.env.MAX_MESSAGE_LENGTH || '2000', 10); // Characters
+export const MAX_HISTORY_MESSAGES = parseInt(process.env.MAX_HISTORY_MESSAGES || '20', 10);
+export const MAX_HISTORY_CHARS = parseInt(process.env.MAX_HISTORY_CHARS || '40000', 10); // Across all history messages
+export const MAX_CARD_NAME_LENGTH = parseInt(process.env.MAX_CARD_NAME_LENGTH || '100', 10); // Characters per card name
+export const MAX_CARD_NAMES = 10; // Room past MAX_COMPARE_CARDS so the compare route can name the extras
+
+function refillTokens(bucket: TokenBucket, config: TokenBucketConfig, now: number): number {
+  const elapsedMs = Math.max(0, now - bucket.updatedAt);
+  return Math.min(config.capacity, bucket.tokens + (elapsedMs / 60_000) * config.refillPerMinute);
+}
+
+/**
+ * Refills a bucket for the time since its last update, then takes a token if
+ * one is available. A missing bucket starts full.
+ */
+export function takeToken(bucket: TokenBucket | undefined, config: TokenBucketConfig, now: number): { bucket: TokenBucket; result: RateLimitResult } {
+  const refilled = bucket ? refillTokens(bucket, config, now) : config.capacity;
+
+  if (refilled >= 1) {
+    const tokens = refilled - 1;
+    return {
+      bucket: { tokens, updatedAt: now },
+      result: { allowed: true, remaining: Math.floor(tokens), retryAfterSeconds: 0 },
+    };
+  }
+
+  const msUntilToken = ((1 - refilled) / config.refillPerMinute) * 60_000;
+  return {
+    bucket: { tokens: refilled, updatedAt: now },
+    result: { allowed: false, remaining: 0, retryAfterSeconds: Math.max(1, Math.ceil(msUntilToken / 1000)) },
+  };
+}
+
+/**
+ * In-memory bucket store. When it holds more than maxKeys buckets, the ones
+ * that would be full again (idle clients) are dropped.
+ */
+export function createMemoryRateLimitStore(maxKeys: number = RATE_LIMIT_MAX_KEYS): RateLimitStore {
+  const buckets = new Map<string, { bucket: TokenBucket; config: TokenBucketConfig }>();
+
+  const evictIdle = (now: number) => {
+    for (const [key, entry] of buckets) {
+      if (refillTokens(entry.bucket, entry.config, now) >= entry.config.capacity) {
+        buckets.delete(key);
+      }
+    }
+    // Still full of active clients: drop the oldest entries (Map keeps insertion order)
+    for (const key of buckets.keys()) {
+      if (buckets.size <= maxKeys) break;
+      buckets.delete(key);
+    }
+  };
+
+  return {
+    type: 'memory',
+    async take(key, config, now) {
+      const { bucket, result } = takeToken(buckets.get(key)?.bucket, config, now);
+      buckets.delete(key); // Re-insert so the most recently used keys are evicted last
+      buckets.set(key, { bucket, config });
+      if (buckets.size > maxKeys) evictIdle(now);
+      return result;
+    },
+  };
+}
+
+let storeCache: RateLimitStore | null | undefined;
+
+/**
+ * Returns the store selected by RATE_LIMIT_STORE, or null when rate limiting is off
+ */
+export function getRateLimitStore(): RateLimitStore | null {
+  if (storeCache !== undefined) return storeCache;
+
+  if (RATE_LIMIT_STORE === 'off') {
+    storeCache = null;
+    log.info('[RATE LIMIT] Rate limiting is off');
+    return storeCache;
+  }
+  if (RATE_LIMIT_STORE !== 'memory') {
+    log.warn(`Unknown RATE_LIMIT_STORE "${RATE_LIMIT_STORE}", using memory`);
+  }
+  storeCache = createMemoryRateLimitStore();
+  log.info(`[RATE LIMIT] Using ${storeCache.type} rate limit store`);
+  return storeCache;
+}
+
+/**
+ * Overrides the active store (tests, shared stores). Pass undefined to restore env selection.
+ */
+export function setRateLimitStore(store: RateLimitStore | null | undefined): void {
+  storeCache = store;
+}
+
+export const UNKNOWN_CLIENT_IP = 'unknown';
+
+/**
+ * Client IP from the proxy headers. Each proxy appends the address it got the
+ * request from to X-Forwarded-For, so the entry trustedProxies from the right
+ * was added by the outermost trusted proxy. X-Real-IP (set by the proxy) is
+ * used when there is no X-Forwarded-For. With no trusted proxies, or no
+ * headers, the IP is UNKNOWN_CLIENT_IP and those requests share one bucket.
+ */
+export function getClientIp(headers: Headers, trustedProxies: number = TRUST_PROXY): string {
+  if (!(trustedProxies >= 1)) return UNKNOWN_CLIENT_IP;
+
+  const hops = (headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean);
+  // Fewer hops than proxies: the request skipped some, and the left-most entry is still proxy-added
+  const forwardedFor = hops[Math.max(0, hops.length - trustedProxies)];
+  return forwardedFor || headers.get('x-real-ip')?.trim() || UNKNOWN_CLIENT_IP;
+}
+
+/**
+ * Takes a token from the client's IP bucket and, when the route has one and
+ * the request has a session, its session bucket. Throws RateLimitExceededError
+ * when either is empty. Store errors are logged and the request is let through.
+ */
+export async function enforceRateLimit(
+  route: RateLimitRoute,
+  client: { ip: string; sessionId?: string },
+  now: number = Date.now()
+): Promise<void> {
+  const store = getRateLimitStore();
+  if (!store) return;
+
+  const limits = RATE_LIMITS[route];
+  const checks: Array<{ key: string; config: TokenBucketConfig }> = [
+    { key: `${route}:ip:${client.ip}`, config: limits.ip },
+  ];
+  if (limits.session && client.sessionId) {
+    checks.push({ key: `${route}:session:${client.sessionId}`, config: limits.session });
+  }
+
+  for (const { key, config } of checks) {
+    let result: RateLimitResult;
+    try {
+      result = await store.take(key, config, now);
+    } catch (error) {
+      log.error('[RATE LIMIT] Store error, allowing the request:', error);
+      return;
+    }
+    if (!result.allowed) {
+      log.warn(`[RATE LIMIT] ${key} is out of tokens, retry in ${result.retryAfterSeconds}s`);
+      throw new RateLimitExceededError(`Rate limit exceeded for ${key}`, result.retryAfterSeconds);
+    }
+  }
+}
+
+/**
+ * Rejects oversized input with a ValidationError: a message longer than
+ * MAX_MESSAGE_LENGTH, more than MAX_CARD_NAMES card names or one longer than
+ * MAX_CARD_NAME_LENGTH, or a history with more than MAX_HISTORY_MESSAGES
+ * entries or MAX_HISTORY_CHARS characters in total
+ */
+export function validateInputLimits(input: { message?: unknown; cardNames?: unknown; conversationHistory?: unknown }): void {
+  if (typeof input.message === 'string' && input.message.length > MAX_MESSAGE_LENGTH) {
+    throw new ValidationError(`Message is too long (${input.message.length} characters, the limit is ${MAX_MESSAGE_LENGTH})`);
+  }
+
+  if (input.cardNames !== undefined && input.cardNames !== null) {
+    if (!Array.isArray(input.cardNames)) {
+      throw new ValidationError('cardNames must be an array');
+    }
+    if (input.cardNames.length > MAX_CARD_NAMES) {
+      throw new ValidationError(`cardNames has too many names (${input.cardNames.length}, the limit is ${MAX_CARD_NAMES})`);
+    }
+    const longName = input.cardNames.find(name => typeof name === 'string' && name.length > MAX_CARD_NAME_LENGTH);
+    if (longName !== undefined) {
+      throw new ValidationError(`Card name is too long (${longName.length} characters, the limit is ${MAX_CARD_NAME_LENGTH})`);
+    }
+  }
+
+  if (input.conversationHistory === undefined || input.conversationHistory === null) return;
+  if (!Array.isArray(input.conversationHistory)) {
+    throw new ValidationError('conversationHistory must be an array');
+  }
+  if (input.conversationHistory.length > MAX_HISTORY_MESSAGES) {
+    throw new ValidationError(`conversationHistory has too many messages (${input.conversationHistory.length}, the limit is ${MAX_HISTORY_MESSAGES})`);
+  }
+  const historyChars = (input.conversationHistory as Array<Partial<ConversationMessage>>)
+    .reduce((total, entry) => total + (typeof entry?.content === 'string' ? entry.content.length : 0), 0);
+  if (historyChars > MAX_HISTORY_CHARS) {
+    throw new ValidationError(`conversationHistory is too long (${historyChars} characters, the limit is ${MAX_HISTORY_CHARS})`);
+  }
+}
@@ -0,0 +1,194 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildOutputRetryPrompt,
+  parsePartialRecommendationOutput,
+  renderRecommendationSummary,
+  salvageRecommendationOutput,
+  validateRecommendationOutput,
+} from './recommendationOutput';
+
+const candidates = ['Chase Sapphire Preferred® Card', 'Citi Double Cash® Card', 'Capital One Venture Rewards Credit Card'];
+
+function card(name: string, overrides: Record<string, unknown> = {}) {
+  return {
+    credit_card_name: name,
+    apply_url: 'https://example.com/apply',
+    reason: 'Earns 2x points on travel and dining',
+    connecting_sentence: 'Great if you book flights and hotels several times a year',
+    card_summary: 'A travel card with flexible points.',
+    card_highlights: 'Transfer partners\nTrip insurance',
+    ...overrides,
+  };
+}
+
+describe('validateRecommendationOutput', () => {
+  it('should accept valid output and use the exact candidate names', () => {
+    const raw = JSON.stringify({
+      preface: 'Here are three travel cards worth a look.',
+      cards: [
+        card('chase sapphire preferred card'),
+        card('Citi Double Cash® Card', { reason: 'Earns 2% cash back on every purchase', card_highlights: ['2% back', 'No annual fee'] }),
+      ],
+    });
+    const { output, errors } = validateRecommendationOutput(raw, candidates);
+    expect(errors).toEqual([]);
+    expect(output?.cards.map(item => item.credit_card_name)).toEqual(['Chase Sapphire Preferred® Card', 'Citi Double Cash® Card']);
+    expect(output?.cards[1].card_highlights).toBe('2% back\nNo annual fee');
+    expect(output?.closing).toBe('');
+  });
+
+  it('should reject output that is not JSON or not an object', () => {
+    expect(validateRecommendationOutput('not json').errors).toEqual(['Response is not valid JSON']);
+    expect(validateRecommendationOutput('[]').errors).toEqual(['Response must be a JSON object']);
+    expect(validateRecommendationOutput('{}').errors).toEqual(['preface is required', 'cards must be an array']);
+  });
+
+  it('should report every field that breaks the schema', () => {
+    const raw = JSON.stringify({
+      preface: 'Here are **three** cards.',
+      cards: [
+        card('Made Up Card', { reason: 'Earns miles on every flight you book' }),
+        card('Citi Double Cash® Card', { apply_url: 'citi.com', reason: 'Good' }),
+        card('Citi Double Cash® Card', { connecting_sentence: 'The Citi Double Cash® Card is simple and rewarding' }),
+      ],
+    });
+    const { output, errors } = validateRecommendationOutput(raw, candidates);
+    expect(output).toBeNull();
+    expect(errors).toEqual([
+      'preface must be plain text without markdown or links',
+      'cards[0].credit_card_name "Made Up Card" is not one of the candidate cards',
+      'cards[1].apply_url must be an http(s) URL',
+      'cards[1].reason must be 3-25 words (got 1)',
+      'cards[2].credit_card_name "Citi Double Cash® Card" is listed more than once',
+      'cards[2] must not repeat the card name outside credit_card_name',
+    ]);
+  });
+
+  it('should reject generic and repeated reasons', () => {
+    const raw = JSON.stringify({
+      preface: 'Here are some cards for you.',
+      cards: [
+        card('Chase Sapphire Preferred® Card', { reason: 'This card matches your criteria for travel' }),
+        card('Citi Double Cash® Card'),
+        card('Capital One Venture Rewards Credit Card'),
+      ],
+    });
+    expect(validateRecommendationOutput(raw, candidates).errors).toEqual([
+      'cards[0].reason must name what the card offers, not just say it fits',
+      'cards[2].reason repeats cards[1].reason',
+    ]);
+  });
+
+  it('should limit the number of cards', () => {
+    const raw = JSON.stringify({ preface: 'Here are some cards for you.', cards: candidates.concat('Another Card').map(name => card(name)) });
+    expect(validateRecommendationOutput(raw).errors).toEqual(['cards must contain 1-3 cards (got 4)']);
+  });
+});
+
+describe('salvageRecommendationOutput', () => {
+  it('should keep the usable cards and blank the fields that failed', () => {
+    const raw = JSON.stringify({
+      preface: 'Here are **three** cards.',
+      cards: [
+        card('Made Up Card'),
+        card('Citi Double Cash® Card', { reason: 'Good' }),
+        card('Citi Double Cash® Card'),
+        card('Capital One Venture Rewards Credit Card', { apply_url: 'capitalone.com' }),
+        card('Chase Sapphire Preferred® Card', { connecting_sentence: 'The Chase Sapphire Preferred card is a strong pick for travelers' }),
+      ],
+      closing: 'See [more](https://example.com).',
+    });
+    const output = salvageRecommendationOutput(raw, candidates);
+
+    expect(output?.preface).toBe('Here are the cards that best match your question.');
+    expect(output?.closing).toBe('');
+    expect(output?.cards.map(c => c.credit_card_name)).toEqual(['Citi Double Cash® Card', 'Chase Sapphire Preferred® Card']);
+    expect(output?.cards[0].reason).toBe('');
+    expect(output?.cards[0].connecting_sentence).toBe(card('').connecting_sentence);
+    expect(output?.cards[1].connecting_sentence).toBe('');
+    expect(output?.cards[1].reason).toBe(card('').reason);
+  });
+
+  it('should blank generic and repeated reasons', () => {
+    const raw = JSON.stringify({
+      cards: [
+        card('Chase Sapphire Preferred® Card', { reason: 'This card is a good fit for you' }),
+        card('Citi Double Cash® Card'),
+        card('Capital One Venture Rewards Credit Card'),
+      ],
+    });
+    expect(salvageRecommendationOutput(raw, candidates)?.cards.map(c => c.reason)).toEqual(['', card('').reason, '']);
+  });
+
+  it('should return null when no card is usable', () => {
+    expect(salvageRecommendationOutput('{}', candidates)).toBeNull();
+    expect(salvageRecommendationOutput('not json', candidates)).toBeNull();
+    expect(salvageRecommendationOutput(JSON.stringify({ cards: [card('Made Up Card')] }), candidates)).toBeNull();
+  });
+});
+
+describe('parsePartialRecommendationOutput', () => {
+  const raw = JSON.stringify({
+    preface: 'Here are two "everyday" cards {worth} a look.',
+    cards: [
+      card('Citi Double Cash® Card', { reason: 'Earns 2% cash back {on} every purchase' }),
+      card('Chase Sapphire Preferred® Card'),
+    ],
+    closing: '',
+  }, null, 2);
+
+  it('should return the complete cards in a response that is still streaming', () => {
+    const cut = raw.indexOf('Chase Sapphire Preferred');
+    const partial = parsePartialRecommendationOutput(raw.slice(0, cut), candidates);
+    expect(partial.preface).toBe('Here are two "everyday" cards {worth} a look.');
+    expect(partial.cards.map(item => item.credit_card_name)).toEqual(['Citi Double Cash® Card']);
+    expect(partial.cards[0].reason).toBe('Earns 2% cash back {on} every purchase');
+
+    expect(parsePartialRecommendationOutput(raw, candidates).cards).toHaveLength(2);
+  });
+
+  it('should wait for the preface string to end', () => {
+    expect(parsePartialRecommendationOutput('{"preface": "Here are two', candidates)).toEqual({ preface: null, cards: [] });
+  });
+
+  it('should leave out cards that fail validation', () => {
+    const partial = parsePartialRecommendationOutput(JSON.stringify({
+      preface: 'Here are some cards.',
+      cards: [
+        card('Made Up Card'),
+        card('Citi Double Cash® Card'),
+        card('Chase Sapphire Preferred® Card'),
+      ],
+    }), candidates);
+    expect(partial.cards.map(item => item.credit_card_name)).toEqual(['Citi Double Cash® Card']);
+  });
+});
+
+describe('buildOutputRetryPrompt', () => {
+  it('should list the errors and restate the structure', () => {
+    const prompt = buildOutputRetryPrompt(['preface is required']);
+    expect(prompt).toContain('- preface is required');
+    expect(prompt).toContain('"connecting_sentence"');
+  });
+});
+
+describe('renderRecommendationSummary', () => {
+  it('should render the preface, one line per card and the closing', () => {
+    const summary = renderRecommendationSummary({
+      preface: 'Here are two cards for travel',
+      cards: [
+        { credit_card_name: 'Chase Sapphire Preferred® Card', apply_url: 'https://example.com/sapphire', reason: 'earns 2x on travel.', connecting_sentence: 'Ideal for frequent flyers' },
+        { credit_card_name: 'Citi Double Cash® Card', apply_url: 'https://example.com/double', reason: 'Flat 2% back', connecting_sentence: 'Why track categories?' },
+      ],
+      closing: 'Happy travels!',
+    });
+    expect(summary).toBe([
+      'Here are two cards for travel.',
+      '',
+      '- **[Chase Sapphire Preferred® Card](https://example.com/sapphire)** - Earns 2x on travel. Ideal for frequent flyers.',
+      '- **[Citi Double Cash® Card](https://example.com/double)** - Flat 2% back. Why track categories?',
+      '',
+      'Happy travels!',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,394 @@
+/**
+ * Structured output for the recommendations step.
+ *
+ * The model returns a preface, the chosen cards and an optional closing as
+ * JSON. validateRecommendationOutput checks that JSON against the schema
+ * below (salvageRecommendationOutput keeps what is usable when it keeps
+ * failing; parsePartialRecommendationOutput reads it while it is still
+ * streaming), and renderRecommendationSummary builds the markdown summary from it,
+ * so the "**[Card Name](url)** - description. Connecting sentence" format
+ * comes from code rather than from the model.
+ */
+
+import { normalizeCardName } from './cardResolver';
+
+export interface StructuredCardOutput {
+  credit_card_name: string;
+  apply_url: string;
+  reason: string; // Feature description shown after the card link
+  connecting_sentence: string; // Why the card fits the user's question
+  card_summary: string;
+  card_highlights: string; // Newline-separated
+}
+
+export interface StructuredRecommendationOutput {
+  preface: string;
+  cards: StructuredCardOutput[];
+  closing: string;
+}
+
+export interface RecommendationOutputValidation {
+  output: StructuredRecommendationOutput | null;
+  errors: string[];
+}
+
+/**
+ * A card line in the rendered summary
+ */
+export interface RenderableCard {
+  credit_card_name: string;
+  apply_url: string;
+  reason: string;
+  connecting_sentence: string;
+}
+
+export const MAX_OUTPUT_CARDS = 3;
+
+// Word limits are looser than the prompt asks for so near misses aren't retried
+const REASON_WORDS = { min: 3, max: 25 };
+const CONNECTING_SENTENCE_WORDS = { min: 5, max: 45 };
+const PREFACE_MAX_WORDS = 45;
+const MARKDOWN_PATTERN = /[*[\]`]|https?:\/\//;
+// Filler the prompt forbids: it says the card fits without saying why
+const GENERIC_REASON_PATTERN = /matches your (criteria|needs)|is a good fit|addresses your question|meets your requirements/i;
+
+/**
+ * Preface for answers whose own preface is unusable (salvaged or fallback output)
+ */
+export const GENERIC_PREFACE = 'Here are the cards that best match your question.';
+
+/**
+ * JSON structure the model is asked for, embedded in the recommendations prompt
+ */
+export const RECOMMENDATION_OUTPUT_FORMAT = `{
+  "preface": "ONE plain sentence introducing the recommendations",
+  "cards": [
+    {
+      "credit_card_name": "Exact card name from candidate cards",
+      "apply_url": "Exact URL from candidate cards",
+      "reason": "Plain 5-15 word description of the card's key feature for this question",
+      "connecting_sentence": "ONE plain sentence (at least 5 words) on why this card fits the user's question",
+      "card_summary": "A concise 1-2 sentence summary of this card's key value proposition",
+      "card_highlights": "Highlight 1\\nHighlight 2\\nHighlight 3"
+    }
+  ],
+  "closing": "Optional plain closing sentence, or an empty string"
+}`;
+
+function sameText(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function asText(value: unknown): string | null {
+  return typeof value === 'string' ? value.trim() : null;
+}
+
+/**
+ * Checks one plain-text field: present, within its word limits, with no markdown or links
+ */
+function checkPlainText(
+  value: unknown,
+  field: string,
+  limits: { min: number; max: number },
+  errors: string[]
+): string {
+  const text = asText(value);
+  if (!text) {
+    errors.push(`${field} is required`);
+    return '';
+  }
+  const words = wordCount(text);
+  if (words < limits.min || words > limits.max) {
+    errors.push(`${field} must be ${limits.min}-${limits.max} words (got ${words})`);
+  }
+  if (MARKDOWN_PATTERN.test(text)) {
+    errors.push(`${field} must be plain text without markdown or links`);
+  }
+  return text;
+}
+
+/**
+ * The text of a plain-text field if it passes checkPlainText, otherwise empty
+ */
+function passingPlainText(value: unknown, limits: { min: number; max: number }): string {
+  const errors: string[] = [];
+  const text = checkPlainText(value, '', limits, errors);
+  return errors.length === 0 ? text : '';
+}
+
+/**
+ * Highlights as newline-separated text (the model sometimes sends an array)
+ */
+function highlightsText(value: unknown): string {
+  const highlights = Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string').join('\n')
+    : asText(value) || '';
+  return highlights.trim();
+}
+
+function validateCard(
+  value: unknown,
+  index: number,
+  candidates: Map<string, string>,
+  seen: Set<string>,
+  errors: string[]
+): StructuredCardOutput | null {
+  const field = `cards[${index}]`;
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    errors.push(`${field} must be an object`);
+    return null;
+  }
+  const card = value as Record<string, unknown>;
+
+  const name = asText(card.credit_card_name);
+  if (!name) {
+    errors.push(`${field}.credit_card_name is required`);
+  } else {
+    const key = normalizeCardName(name);
+    if (candidates.size > 0 && !candidates.has(key)) {
+      errors.push(`${field}.credit_card_name "${name}" is not one of the candidate cards`);
+    }
+    if (seen.has(key)) {
+      errors.push(`${field}.credit_card_name "${name}" is listed more than once`);
+    }
+    seen.add(key);
+  }
+
+  const applyUrl = asText(card.apply_url);
+  if (!applyUrl || !/^https?:\/\/\S+$/.test(applyUrl)) {
+    errors.push(`${field}.apply_url must be an http(s) URL`);
+  }
+
+  const reason = checkPlainText(card.reason, `${field}.reason`, REASON_WORDS, errors);
+  if (GENERIC_REASON_PATTERN.test(reason)) {
+    errors.push(`${field}.reason must name what the card offers, not just say it fits`);
+  }
+  const connectingSentence = checkPlainText(card.connecting_sentence, `${field}.connecting_sentence`, CONNECTING_SENTENCE_WORDS, errors);
+  if (name && [reason, connectingSentence].some(text => normalizeCardName(text).includes(normalizeCardName(name)))) {
+    errors.push(`${field} must not repeat the card name outside credit_card_name`);
+  }
+
+  return {
+    credit_card_name: candidates.get(normalizeCardName(name || '')) || name || '',
+    apply_url: applyUrl || '',
+    reason,
+    connecting_sentence: connectingSentence,
+    card_summary: asText(card.card_summary) || '',
+    card_highlights: highlightsText(card.card_highlights),
+  };
+}
+
+/**
+ * Parses and validates the model's JSON. Returns the output when it is valid,
+ * otherwise null and one message per problem (sent back to the model on retry).
+ * Card names are matched to candidateNames and replaced with the exact name.
+ */
+export function validateRecommendationOutput(raw: string, candidateNames: string[] = []): RecommendationOutputValidation {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { output: null, errors: ['Response is not valid JSON'] };
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { output: null, errors: ['Response must be a JSON object'] };
+  }
+  const data = parsed as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const preface = checkPlainText(data.preface, 'preface', { min: 3, max: PREFACE_MAX_WORDS }, errors);
+  if (preface.includes('\n')) {
+    errors.push('preface must be a single sentence');
+  }
+
+  const closing = asText(data.closing) || '';
+  if (MARKDOWN_PATTERN.test(closing)) {
+    errors.push('closing must be plain text without markdown or links');
+  }
+
+  const candidates = new Map(candidateNames.map(name => [normalizeCardName(name), name]));
+  const seen = new Set<string>();
+  let cards: StructuredCardOutput[] = [];
+  if (!Array.isArray(data.cards)) {
+    errors.push('cards must be an array');
+  } else if (data.cards.length === 0 || data.cards.length > MAX_OUTPUT_CARDS) {
+    errors.push(`cards must contain 1-${MAX_OUTPUT_CARDS} cards (got ${data.cards.length})`);
+  } else {
+    cards = data.cards
+      .map((card, index) => validateCard(card, index, candidates, seen, errors))
+      .filter((card): card is StructuredCardOutput => card !== null);
+    cards.forEach((card, index) => {
+      const first = cards.findIndex(other => sameText(other.reason, card.reason));
+      if (card.reason && first < index) {
+        errors.push(`cards[${index}].reason repeats cards[${first}].reason`);
+      }
+    });
+  }
+
+  return errors.length > 0
+    ? { output: null, errors }
+    : { output: { preface, cards, closing }, errors: [] };
+}
+
+/**
+ * Keeps what is usable from output that failed validation: the cards (up to
+ * MAX_OUTPUT_CARDS) that name a candidate once and have an http(s) apply URL.
+ * Text fields that fail their checks are left empty for the caller to fill in,
+ * and a missing preface gets a generic one. Returns null when no card is usable.
+ */
+export function salvageRecommendationOutput(raw: string, candidateNames: string[] = []): StructuredRecommendationOutput | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  const data = (parsed && typeof parsed === 'object' ? parsed : {}) as Record<string, unknown>;
+  if (!Array.isArray(data.cards)) return null;
+
+  const candidates = new Map(candidateNames.map(name => [normalizeCardName(name), name]));
+  const seen = new Set<string>();
+  const cards: StructuredCardOutput[] = [];
+  for (const value of data.cards) {
+    if (cards.length >= MAX_OUTPUT_CARDS) break;
+    if (!value || typeof value !== 'object' || Array.isArray(value)) continue;
+    const card = value as Record<string, unknown>;
+
+    const name = asText(card.credit_card_name);
+    const key = normalizeCardName(name || '');
+    const applyUrl = asText(card.apply_url);
+    if (!name || (candidates.size > 0 && !candidates.has(key)) || seen.has(key)) continue;
+    if (!applyUrl || !/^https?:\/\/\S+$/.test(applyUrl)) continue;
+    seen.add(key);
+
+    // Text that repeats the card name would print it twice in the summary line
+    const withoutName = (text: string) => (normalizeCardName(text).includes(key) ? '' : text);
+    const reason = withoutName(passingPlainText(card.reason, REASON_WORDS));
+    const isUsableReason = !GENERIC_REASON_PATTERN.test(reason) && !cards.some(other => sameText(other.reason, reason));
+    cards.push({
+      credit_card_name: candidates.get(key) || name,
+      apply_url: applyUrl,
+      reason: isUsableReason ? reason : '',
+      connecting_sentence: withoutName(passingPlainText(card.connecting_sentence, CONNECTING_SENTENCE_WORDS)),
+      card_summary: asText(card.card_summary) || '',
+      card_highlights: highlightsText(card.card_highlights),
+    });
+  }
+  if (cards.length === 0) return null;
+
+  const preface = passingPlainText(data.preface, { min: 3, max: PREFACE_MAX_WORDS });
+  const closing = asText(data.closing) || '';
+  return {
+    preface: preface && !preface.includes('\n') ? preface : GENERIC_PREFACE,
+    cards,
+    closing: MARKDOWN_PATTERN.test(closing) ? '' : closing,
+  };
+}
+
+/**
+ * Reads output that is still streaming: the preface once its string is complete,
+ * and each card object that is complete and passes validation. Cards that fail
+ * (including a reason repeating an earlier card's) are left out, since a retry
+ * or the salvaged output decides what happens to them.
+ */
+export function parsePartialRecommendationOutput(
+  partial: string,
+  candidateNames: string[] = []
+): { preface: string | null; cards: StructuredCardOutput[] } {
+  const prefaceMatch = partial.match(/"preface"\s*:\s*"((?:[^"\\]|\\.)*)"/);
+  let preface: string | null = null;
+  if (prefaceMatch) {
+    try {
+      const text = passingPlainText(JSON.parse(`"${prefaceMatch[1]}"`), { min: 3, max: PREFACE_MAX_WORDS });
+      preface = text && !text.includes('\n') ? text : null;
+    } catch {
+      preface = null;
+    }
+  }
+
+  const cardsMatch = /"cards"\s*:\s*\[/.exec(partial);
+  if (!cardsMatch) return { preface, cards: [] };
+
+  // Cuts each complete top-level {...} out of the array, skipping braces inside strings
+  const objects: string[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  let escaped = false;
+  for (let i = cardsMatch.index + cardsMatch[0].length; i < partial.length; i++) {
+    const char = partial[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) objects.push(partial.slice(start, i + 1));
+    } else if (char === ']' && depth === 0) {
+      break;
+    }
+  }
+
+  const candidates = new Map(candidateNames.map(name => [normalizeCardName(name), name]));
+  const seen = new Set<string>();
+  const cards: StructuredCardOutput[] = [];
+  objects.slice(0, MAX_OUTPUT_CARDS).forEach((text, index) => {
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch {
+      return;
+    }
+    const errors: string[] = [];
+    const card = validateCard(value, index, candidates, seen, errors);
+    if (card && errors.length === 0 && !cards.some(other => sameText(other.reason, card.reason))) {
+      cards.push(card);
+    }
+  });
+
+  return { preface, cards };
+}
+
+/**
+ * Follow-up message asking the model to fix a response that failed validation
+ */
+export function buildOutputRetryPrompt(errors: string[]): string {
+  return `Your JSON did not match the required structure:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Return the corrected JSON only, with this structure:
+${RECOMMENDATION_OUTPUT_FORMAT}`;
+}
+
+/**
+ * Trims a sentence and ends it with exactly one period (or its own ! or ?)
+ */
+function asSentence(text: string): string {
+  const trimmed = text.trim().replace(/\.+$/, '');
+  if (!trimmed) return '';
+  const capitalized = trimmed[0].toUpperCase() + trimmed.slice(1);
+  return /[!?]$/.test(capitalized) ? capitalized : `${capitalized}.`;
+}
+
+/**
+ * Markdown summary: the preface, one line per card, then the closing if there is one
+ */
+export function renderRecommendationSummary(output: { preface: string; cards: RenderableCard[]; closing?: string }): string {
+  const cardLines = output.cards.map(card => {
+    const description = [asSentence(card.reason), asSentence(card.connecting_sentence)].filter(Boolean).join(' ');
+    return `- **[${card.credit_card_name}](${card.apply_url})**${description ? ` - ${description}` : ''}`;
+  });
+
+  return [asSentence(output.preface), cardLines.join('\n'), asSentence(output.closing || '')]
+    .filter(Boolean)
+    .join('\n\n');
+}
@@ -0,0 +1,142 @@
+import { beforeAll, describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RecommendationsRequest, RecommendationsResponse, RecommendationStreamEvent } from '@/types';
+
+let stream: typeof import('./recommendationStream');
+
+beforeAll(async () => {
+  // Offline pipeline, set before the lib modules read their env (as in rag.test.ts)
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'stream-test-'));
+  process.env.CARD_SOURCE = 'json';
+  process.env.CARD_SOURCE_PATH = path.join('evals', 'catalog.json');
+  process.env.LLM_PROVIDER = 'replay';
+  process.env.LLM_FIXTURES_PATH = path.join(dir, 'fixtures.json');
+  process.env.EMBEDDINGS_PATH = path.join(dir, 'embeddings.json');
+  stream = await import('./recommendationStream');
+});
+
+const summary = 'Two **great** picks:\n\n- one\n- two';
+
+const response: RecommendationsResponse = {
+  title: 'Travel Cards',
+  summary,
+  recommendations: [
+    { credit_card_name: 'Card A', apply_url: 'https://example.com/a', reason: 'Miles' },
+    { credit_card_name: 'Card B', apply_url: 'https://example.com/b', reason: 'Lounges' },
+  ],
+};
+
+function collect(streamed?: import('./recommendationStream').StreamedParts): RecommendationStreamEvent[] {
+  const events: RecommendationStreamEvent[] = [];
+  stream.emitResponseEvents(response, (event) => events.push(event), streamed);
+  return events;
+}
+
+/**
+ * Reads an SSE body to the end and parses its frames
+ */
+async function readEvents(body: ReadableStream<Uint8Array>): Promise<RecommendationStreamEvent[]> {
+  const text = await new Response(body).text();
+  return text
+    .split('\n\n')
+    .filter(Boolean)
+    .map((frame) => JSON.parse(frame.split('\n').find((line) => line.startsWith('data: '))!.slice(6)));
+}
+
+describe('formatSSE', () => {
+  it('should write the event name and JSON data as one frame', () => {
+    expect(stream.formatSSE({ type: 'title', title: 'Travel Cards' }))
+      .toBe('event: title\ndata: {"type":"title","title":"Travel Cards"}\n\n');
+  });
+
+  it('should keep newlines inside the data on one line', () => {
+    const frame = stream.formatSSE({ type: 'summary', delta: 'a\n\nb' });
+    expect(frame.split('\n\n')).toEqual([expect.stringContaining('"a\\n\\nb"'), '']);
+  });
+});
+
+describe('splitSummaryIntoChunks', () => {
+  it('should split into chunks that join back to the summary', () => {
+    const chunks = stream.splitSummaryIntoChunks(summary);
+    expect(chunks.length).toBeGreaterThan(3);
+    expect(chunks.join('')).toBe(summary);
+  });
+});
+
+describe('emitResponseEvents', () => {
+  it('should emit the title, cards in order, summary chunks and done last', () => {
+    const events = collect();
+    expect(events.map((event) => event.type)).toEqual([
+      'title',
+      'recommendation',
+      'recommendation',
+      ...stream.splitSummaryIntoChunks(summary).map(() => 'summary'),
+      'done',
+    ]);
+    expect(events.filter((event) => event.type === 'recommendation').map((event) => event.type === 'recommendation' && event.index))
+      .toEqual([0, 1]);
+    expect(events[events.length - 1]).toEqual({ type: 'done', response });
+  });
+
+  it('should skip the parts already streamed', () => {
+    const events = collect({ title: 'Travel Cards', recommendations: [response.recommendations[0]], summary });
+    expect(events).toEqual([
+      { type: 'recommendation', index: 1, recommendation: response.recommendations[1] },
+      { type: 'done', response },
+    ]);
+  });
+
+  it('should re-send the parts post-processing changed', () => {
+    const events = collect({
+      title: 'Travel Cards',
+      recommendations: [{ ...response.recommendations[0], reason: 'Points' }, response.recommendations[1]],
+      summary: 'Two great picks:',
+    });
+    expect(events).toEqual([
+      { type: 'recommendation', index: 0, recommendation: response.recommendations[0] },
+      { type: 'summary', delta: summary, replace: true },
+      { type: 'done', response },
+    ]);
+  });
+
+  it('should continue a summary the final answer extends', () => {
+    const events = collect({ title: 'Travel Cards', recommendations: response.recommendations, summary: 'Two **great** picks:' });
+    const deltas = events.map((event) => (event.type === 'summary' ? event.delta : '')).join('');
+    expect(deltas).toBe('\n\n- one\n- two');
+    expect(events.some((event) => event.type === 'summary' && event.replace)).toBe(false);
+  });
+});
+
+describe('createRecommendationEventStream', () => {
+  it('should stream steps and the answer, ending with done', async () => {
+    const request: RecommendationsRequest = { message: 'How were you trained?' };
+    const events = await readEvents(stream.createRecommendationEventStream(request));
+    const types = events.map((event) => event.type);
+
+    expect(types[0]).toBe('step');
+    expect(types).toContain('summary');
+    expect(types[types.length - 1]).toBe('done');
+    expect(types.lastIndexOf('step')).toBeLessThan(types.indexOf('summary'));
+
+    const done = events[events.length - 1] as Extract<RecommendationStreamEvent, { type: 'done' }>;
+    const streamedSummary = events.map((event) => (event.type === 'summary' ? event.delta : '')).join('');
+    expect(streamedSummary).toBe(done.response.summary);
+    expect(done.response.sessionId).toEqual(expect.any(String));
+  }, 30_000);
+
+  it('should stream the recommendation title once, before done', async () => {
+    const events = await readEvents(stream.createRecommendationEventStream({ message: 'best travel credit card' }));
+    const types = events.map((event) => event.type);
+
+    expect(types.filter((type) => type === 'title')).toHaveLength(1);
+    expect(types.indexOf('title')).toBeLessThan(types.indexOf('done'));
+    expect(types[types.length - 1]).toBe('done');
+  }, 30_000);
+
+  it('should end with an error event when the pipeline throws', async () => {
+    const events = await readEvents(stream.createRecommendationEventStream({} as RecommendationsRequest));
+    expect(events).toEqual([{ type: 'error', error: 'Failed to generate recommendations' }]);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Server-Sent Events support for /api/recommendations.
+ *
+ * Runs the normal RAG pipeline and emits typed events as it progresses:
+ * step transitions, then the title, each recommendation and the summary (in
+ * small chunks) as the model writes them, and finally the full response
+ * (identical to the JSON contract) as the `done` event. Parts the pipeline only
+ * has at the end (other steps, cached answers) are emitted just before `done`,
+ * and so are corrections: post-processing (padding, verification, linting) can
+ * change streamed parts, so changed cards are sent again and a changed summary
+ * is replaced. The `done` response is always the final answer.
+ */
+
+import { generateRecommendations } from './rag';
+import { toErrorResponse } from './errors';
+import { createLogger } from './logger';
+import { runWithUsage } from './usage';
+import { buildPrivacyNotice, redactUserText } from './pii';
+import { withResponseCache } from './responseCache';
+import { getOrCreateSession, getSessionHistory, recordSessionTurn } from './sessions';
+import { PipelineProgressHandlers, Recommendation, RecommendationsRequest, RecommendationsResponse, RecommendationStreamEvent } from '@/types';
+
+const log = createLogger('recommendationStream');
+
+const FALLBACK_ERROR_MESSAGE = 'Failed to generate recommendations';
+
+/**
+ * Parts of a response that have already been streamed
+ */
+export interface StreamedParts {
+  title?: string;
+  recommendations: Recommendation[]; // By index
+  summary: string; // Deltas sent so far, joined
+}
+
+/**
+ * Formats a single event in SSE wire format
+ */
+export function formatSSE(event: RecommendationStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Splits a summary into word-sized chunks. Concatenating the chunks
+ * reproduces the original text exactly (whitespace and newlines included).
+ */
+export function splitSummaryIntoChunks(summary: string): string[] {
+  return summary.match(/\s+|\S+\s*/g) || [];
+}
+
+/**
+ * Emits the result-related events (title, recommendations, summary, done)
+ * for a generated response, skipping the parts already streamed as they are.
+ * The summary is continued when it extends what was streamed, otherwise replaced.
+ */
+export function emitResponseEvents(
+  response: RecommendationsResponse,
+  emit: (event: RecommendationStreamEvent) => void,
+  streamed: StreamedParts = { recommendations: [], summary: '' }
+): void {
+  if (response.title && response.title !== streamed.title) {
+    emit({ type: 'title', title: response.title });
+  }
+
+  response.recommendations.forEach((recommendation, index) => {
+    const sent = streamed.recommendations[index];
+    if (!sent || JSON.stringify(sent) !== JSON.stringify(recommendation)) {
+      emit({ type: 'recommendation', index, recommendation });
+    }
+  });
+
+  const summary = response.summary || '';
+  if (summary.startsWith(streamed.summary)) {
+    for (const delta of splitSummaryIntoChunks(summary.slice(streamed.summary.length))) {
+      emit({ type: 'summary', delta });
+    }
+  } else {
+    emit({ type: 'summary', delta: summary, replace: true });
+  }
+
+  emit({ type: 'done', response });
+}
+
+/**
+ * Runs generateRecommendations within the request's session: history and
+ * previously shown cards come from the session (never from the client), and
+ * the turn is recorded afterwards. First turns may be answered from the
+ * response cache, except in debug mode. Personal data in the message is
+ * redacted first, so it never reaches the LLM, the session or the cache. The
+ * response carries the session ID, the LLM usage of the whole request and a
+ * privacy notice when anything was redacted. handlers are passed to the
+ * pipeline and aren't called for cached answers.
+ */
+export async function generateSessionResponse(
+  request: RecommendationsRequest,
+  handlers?: PipelineProgressHandlers
+): Promise<RecommendationsResponse> {
+  const { result: response, usage } = await runWithUsage(async () => {
+    const { text: message, redacted } = redactUserText(request.message.trim(), '/api/recommendations');
+    const privacyNotice = buildPrivacyNotice(redacted);
+    const session = await getOrCreateSession(request.sessionId);
+
+    const history = [...getSessionHistory(session), { role: 'user' as const, content: message }];
+
+    const generate = () => generateRecommendations(
+      message,
+      undefined, // topN uses default
+      history,
+      session.previousRecommendations,
+      handlers,
+      request.spendProfile,
+      request.debug === true
+    );
+
+    // Debug runs skip the cache: a cached answer has no decision trace
+    const response = request.debug
+      ? await generate()
+      : await withResponseCache(
+        message,
+        { history, previousRecommendations: session.previousRecommendations, spendProfile: request.spendProfile },
+        generate
+      );
+
+    await recordSessionTurn(session, message, response);
+    return { ...response, sessionId: session.id, ...(privacyNotice ? { privacyNotice } : {}) };
+  });
+
+  // Covers the whole request (cache lookup, history summary), so cache hits report what they actually cost
+  return { ...response, metadata: response.metadata && { ...response.metadata, usage } };
+}
+
+/**
+ * Runs the pipeline for a request and emits stream events.
+ * Errors are thrown to the caller so the route can map them to a message.
+ */
+export async function streamRecommendations(
+  request: RecommendationsRequest,
+  emit: (event: RecommendationStreamEvent) => void
+): Promise<void> {
+  const streamed: StreamedParts = { recommendations: [], summary: '' };
+
+  const response = await generateSessionResponse(request, {
+    onStep: (step) => emit({ type: 'step', step: step.step, stepName: step.stepName }),
+    onTitle: (title) => {
+      streamed.title = title;
+      emit({ type: 'title', title });
+    },
+    onRecommendation: (recommendation, index) => {
+      streamed.recommendations[index] = recommendation;
+      emit({ type: 'recommendation', index, recommendation });
+    },
+    onSummary: (text) => {
+      streamed.summary += text;
+      for (const delta of splitSummaryIntoChunks(text)) {
+        emit({ type: 'summary', delta });
+      }
+    },
+  });
+
+  emitResponseEvents(response, emit, streamed);
+}
+
+/**
+ * SSE body for a request: the stream events in wire format, ending with an
+ * `error` event (mapped like the JSON errors) if the pipeline throws. wrap runs
+ * around the whole stream, e.g. to trace it.
+ */
+export function createRecommendationEventStream(
+  request: RecommendationsRequest,
+  wrap: (run: () => Promise<void>) => Promise<void> = (run) => run()
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const send = (event: RecommendationStreamEvent) => {
+        if (!closed) controller.enqueue(encoder.encode(formatSSE(event)));
+      };
+
+      await wrap(async () => {
+        try {
+          await streamRecommendations(request, send);
+        } catch (error) {
+          log.error('Error in recommendations stream:', error);
+          send({ type: 'error', error: toErrorResponse(error, FALLBACK_ERROR_MESSAGE).body.error });
+        } finally {
+          closed = true;
+          controller.close();
+        }
+      });
+    },
+  });
+}
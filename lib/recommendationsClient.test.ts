@@ -0,0 +1,91 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { fetchRecommendationsStream } from './recommendationsClient';
+import { formatSSE } from './recommendationStream';
+import { RecommendationsResponse } from '@/types';
+
+const response: RecommendationsResponse = {
+  title: 'Travel Cards',
+  summary: 'Two picks',
+  recommendations: [{ credit_card_name: 'Card A', apply_url: 'https://example.com/a', reason: 'Miles' }],
+};
+
+/**
+ * Stubs fetch with an SSE response delivered in the given chunks
+ */
+function stubEventStream(chunks: string[]) {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(body, { headers: { 'Content-Type': 'text/event-stream' } })));
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('fetchRecommendationsStream', () => {
+  it('should parse frames split across chunks and call the handlers in order', async () => {
+    const wire = [
+      formatSSE({ type: 'step', step: 5, stepName: 'Credit Card Recommendations' }),
+      formatSSE({ type: 'title', title: 'Travel Cards' }),
+      formatSSE({ type: 'recommendation', index: 0, recommendation: response.recommendations[0] }),
+      formatSSE({ type: 'summary', delta: 'Two ' }),
+      formatSSE({ type: 'summary', delta: 'picks' }),
+      formatSSE({ type: 'done', response }),
+    ].join('');
+    // Cut mid-frame and mid-line, and drop the final blank line
+    stubEventStream([wire.slice(0, 30), wire.slice(30, 170), wire.slice(170, -2)]);
+
+    const calls: string[] = [];
+    const result = await fetchRecommendationsStream({ message: 'travel card' }, {
+      onStep: (step) => calls.push(`step:${step.step}`),
+      onTitle: (title) => calls.push(`title:${title}`),
+      onRecommendation: (recommendation, index) => calls.push(`card:${index}:${recommendation.credit_card_name}`),
+      onSummary: (delta, summarySoFar) => calls.push(`summary:${summarySoFar}`),
+    });
+
+    expect(calls).toEqual([
+      'step:5',
+      'title:Travel Cards',
+      'card:0:Card A',
+      'summary:Two ',
+      'summary:Two picks',
+    ]);
+    expect(result).toEqual(response);
+  });
+
+  it('should replace the streamed summary when the final one differs', async () => {
+    stubEventStream([
+      formatSSE({ type: 'summary', delta: 'Two ' }),
+      formatSSE({ type: 'summary', delta: 'cards' }),
+      formatSSE({ type: 'summary', delta: 'Two picks', replace: true }),
+      formatSSE({ type: 'done', response }),
+    ]);
+
+    const summaries: string[] = [];
+    await fetchRecommendationsStream({ message: 'travel card' }, {
+      onSummary: (_delta, summarySoFar) => summaries.push(summarySoFar),
+    });
+
+    expect(summaries).toEqual(['Two ', 'Two cards', 'Two picks']);
+  });
+
+  it('should throw the error event message', async () => {
+    stubEventStream([formatSSE({ type: 'step', step: 1, stepName: 'Training Question Check' }), formatSSE({ type: 'error', error: 'Too many requests' })]);
+    await expect(fetchRecommendationsStream({ message: 'hi' })).rejects.toThrow('Too many requests');
+  });
+
+  it('should throw when the stream ends without done', async () => {
+    stubEventStream([formatSSE({ type: 'title', title: 'Travel Cards' })]);
+    await expect(fetchRecommendationsStream({ message: 'hi' })).rejects.toThrow('ended before completion');
+  });
+
+  it('should use a plain JSON response as-is', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json(response)));
+    await expect(fetchRecommendationsStream({ message: 'hi' })).resolves.toEqual(response);
+  });
+});
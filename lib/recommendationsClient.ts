@@ -0,0 +1,193 @@
+/**
+ * Browser client for the streaming variant of /api/recommendations
+ * (plus /api/compare for comparison questions and /api/sessions for
+ * restoring a conversation).
+ *
+ * Requests `text/event-stream`, parses the SSE frames and invokes the
+ * handlers as events arrive. Resolves with the final response (the same
+ * shape as the JSON endpoint) once the `done` event is received.
+ */
+
+import {
+  CardComparison,
+  CompareRequest,
+  ConversationSession,
+  PipelineStep,
+  Recommendation,
+  RecommendationsRequest,
+  RecommendationsResponse,
+  RecommendationStreamEvent,
+} from '@/types';
+
+export interface RecommendationStreamHandlers {
+  onStep?: (step: PipelineStep) => void;
+  onTitle?: (title: string) => void;
+  onRecommendation?: (recommendation: Recommendation, index: number) => void;
+  onSummary?: (delta: string, summarySoFar: string) => void;
+}
+
+/**
+ * Parses the `data:` lines of a single SSE frame into an event
+ */
+function parseFrame(frame: string): RecommendationStreamEvent | null {
+  const data = frame
+    .split('\n')
+    .filter((line) => line.startsWith('data:'))
+    .map((line) => line.slice(5).trimStart())
+    .join('\n');
+
+  if (!data) return null;
+
+  try {
+    return JSON.parse(data) as RecommendationStreamEvent;
+  } catch (error) {
+    console.warn('[STREAM] Could not parse event:', data.substring(0, 200));
+    return null;
+  }
+}
+
+/**
+ * Builds an Error from a non-streaming error response
+ */
+async function errorFromResponse(response: Response): Promise<Error> {
+  let data: { error?: string; details?: string } = {};
+  try {
+    data = await response.json();
+  } catch {
+    // Non-JSON error body
+  }
+  const errorMessage = data.error || 'Failed to get recommendations';
+  const errorDetails = data.details ? `\n\n${data.details}` : '';
+  console.error('API Error:', { error: errorMessage, details: data.details, status: response.status });
+  return new Error(`${errorMessage}${errorDetails}`);
+}
+
+/**
+ * POSTs to /api/recommendations and streams the response
+ */
+export async function fetchRecommendationsStream(
+  request: RecommendationsRequest,
+  handlers: RecommendationStreamHandlers = {}
+): Promise<RecommendationsResponse> {
+  const response = await fetch('/api/recommendations', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream',
+    },
+    body: JSON.stringify(request),
+  });
+
+  if (!response.ok) {
+    throw await errorFromResponse(response);
+  }
+
+  // Server answered with plain JSON (e.g. an older deployment) - use it as-is
+  if (!response.headers.get('content-type')?.includes('text/event-stream') || !response.body) {
+    const data = await response.json();
+    if (data.error) {
+      throw new Error(data.details ? `${data.error}\n\n${data.details}` : data.error);
+    }
+    return data as RecommendationsResponse;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let summarySoFar = '';
+  let finalResponse = null as RecommendationsResponse | null;
+
+  const handleEvent = (event: RecommendationStreamEvent) => {
+    switch (event.type) {
+      case 'step':
+        handlers.onStep?.({ step: event.step, stepName: event.stepName });
+        break;
+      case 'title':
+        handlers.onTitle?.(event.title);
+        break;
+      case 'recommendation':
+        handlers.onRecommendation?.(event.recommendation, event.index);
+        break;
+      case 'summary':
+        // A replacing delta is the whole summary, re-rendered after post-processing changed it
+        summarySoFar = event.replace ? event.delta : summarySoFar + event.delta;
+        handlers.onSummary?.(event.delta, summarySoFar);
+        break;
+      case 'done':
+        finalResponse = event.response;
+        break;
+      case 'error':
+        throw new Error(event.error);
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      const event = parseFrame(frame);
+      if (event) handleEvent(event);
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+
+  // Flush a trailing frame without the final blank line
+  const trailing = parseFrame(buffer + decoder.decode());
+  if (trailing) handleEvent(trailing);
+
+  if (!finalResponse) {
+    throw new Error('Recommendation stream ended before completion');
+  }
+
+  return finalResponse;
+}
+
+/**
+ * POSTs a comparison question to /api/compare.
+ * Returns null when the cards couldn't be resolved, so the caller can fall
+ * back to regular recommendations.
+ */
+export async function fetchComparison(message: string): Promise<CardComparison | null> {
+  const request: CompareRequest = { message };
+
+  try {
+    const response = await fetch('/api/compare', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    });
+
+    if (!response.ok) {
+      console.log(`[COMPARE] Comparison unavailable (${response.status}), falling back to recommendations`);
+      return null;
+    }
+
+    return (await response.json()) as CardComparison;
+  } catch (error) {
+    console.warn('[COMPARE] Comparison request failed, falling back to recommendations:', error);
+    return null;
+  }
+}
+
+/**
+ * Loads a server-side session. Returns null when it has expired or doesn't exist.
+ */
+export async function fetchSession(sessionId: string): Promise<ConversationSession | null> {
+  try {
+    const response = await fetch(`/api/sessions/${encodeURIComponent(sessionId)}`);
+    if (!response.ok) {
+      console.log(`[SESSION] Session unavailable (${response.status}), starting a new conversation`);
+      return null;
+    }
+    return (await response.json()) as ConversationSession;
+  } catch (error) {
+    console.warn('[SESSION] Could not load session:', error);
+    return null;
+  }
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { callWithResilience, classifyLLMError, createCircuitBreaker, getRetryDelay, ResilienceOptions } from './resilience';
+import { LLMConfigurationError, LLMRateLimitError, LLMRequestError, LLMTimeoutError, LLMUnavailableError } from './errors';
+
+function apiError(status: number, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(`${status} status code`), { status, headers });
+}
+
+function testOptions(overrides: Partial<ResilienceOptions> = {}): ResilienceOptions & { delays: number[] } {
+  const delays: number[] = [];
+  return {
+    timeoutMs: 1000,
+    maxRetries: 2,
+    baseDelayMs: 100,
+    maxDelayMs: 1000,
+    random: () => 1,
+    sleep: async (ms) => {
+      delays.push(ms);
+    },
+    delays,
+    ...overrides,
+  };
+}
+
+describe('classifyLLMError', () => {
+  it('should map provider errors to typed errors', () => {
+    expect(classifyLLMError(apiError(429, { 'retry-after': '3' }))).toBeInstanceOf(LLMRateLimitError);
+    expect((classifyLLMError(apiError(429, { 'retry-after': '3' })) as LLMRateLimitError).retryAfterSeconds).toBe(3);
+    expect(classifyLLMError(apiError(503))).toBeInstanceOf(LLMUnavailableError);
+    expect(classifyLLMError(apiError(401))).toBeInstanceOf(LLMConfigurationError);
+    expect(classifyLLMError(apiError(400))).toBeInstanceOf(LLMRequestError);
+    expect(classifyLLMError(Object.assign(new Error('aborted'), { name: 'AbortError' }))).toBeInstanceOf(LLMTimeoutError);
+    expect(classifyLLMError(new Error('read ECONNRESET'))).toBeInstanceOf(LLMUnavailableError);
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('should grow exponentially up to the cap and honor Retry-After', () => {
+    expect(getRetryDelay(0, 100, 1000, () => 1)).toBe(100);
+    expect(getRetryDelay(2, 100, 1000, () => 0.5)).toBe(200);
+    expect(getRetryDelay(5, 100, 1000, () => 1)).toBe(1000);
+    expect(getRetryDelay(0, 100, 5000, () => 0, 2)).toBe(2000);
+  });
+});
+
+describe('createCircuitBreaker', () => {
+  it('should open after repeated failures and let a trial call through after the reset time', () => {
+    let now = 0;
+    const breaker = createCircuitBreaker({ failureThreshold: 2, resetMs: 1000, now: () => now });
+    breaker.recordFailure();
+    expect(breaker.canRequest()).toBe(true);
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.canRequest()).toBe(false);
+
+    now = 1000;
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.getState()).toBe('half_open');
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+
+    now = 2000;
+    breaker.canRequest();
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+  });
+});
+
+describe('callWithResilience', () => {
+  it('should retry transient failures with backoff', async () => {
+    const options = testOptions();
+    let calls = 0;
+    const result = await callWithResilience('chat', async () => {
+      calls++;
+      if (calls < 3) throw apiError(500);
+      return 'ok';
+    }, options);
+    expect(result).toBe('ok');
+    expect(options.delays).toEqual([100, 200]);
+  });
+
+  it('should not retry requests the provider rejected', async () => {
+    const options = testOptions();
+    await expect(callWithResilience('chat', async () => { throw apiError(400); }, options)).rejects.toBeInstanceOf(LLMRequestError);
+    expect(options.delays).toEqual([]);
+  });
+
+  it('should time out slow calls and abort them', async () => {
+    let aborted = false;
+    const call = callWithResilience('chat', (signal) => new Promise<string>(() => {
+      signal.addEventListener('abort', () => { aborted = true; });
+    }), testOptions({ timeoutMs: 5, maxRetries: 0 }));
+    await expect(call).rejects.toBeInstanceOf(LLMTimeoutError);
+    expect(aborted).toBe(true);
+  });
+
+  it('should fail fast while the breaker is open', async () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 1, resetMs: 60_000 });
+    await expect(callWithResilience('chat', async () => { throw apiError(503); }, testOptions({ breaker, maxRetries: 0 }))).rejects.toBeInstanceOf(LLMUnavailableError);
+    let called = false;
+    await expect(callWithResilience('chat', async () => { called = true; return 'ok'; }, testOptions({ breaker }))).rejects.toThrow('circuit breaker is open');
+    expect(called).toBe(false);
+  });
+});
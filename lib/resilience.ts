@@ -0,0 +1,243 @@
+import {
+  AppError,
+  LLMConfigurationError,
+  LLMRateLimitError,
+  LLMRequestError,
+  LLMTimeoutError,
+  LLMUnavailableError,
+} from './errors';
+import { LLMProvider } from './llm';
+import { createLogger } from './logger';
+
+/**
+ * Timeouts, retries and circuit breaking for LLM calls.
+ *
+ * createResilientProvider wraps a provider so every call:
+ * - is aborted after a timeout (LLM_TIMEOUT_MS, or options.timeoutMs per call)
+ * - is retried with jittered exponential backoff on 429s, 5xx, timeouts and network errors
+ * - fails fast with LLMUnavailableError while its circuit breaker is open
+ *
+ * Provider errors are converted to the typed errors in lib/errors.ts.
+ */
+
+const log = createLogger('resilience');
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreaker {
+  getState(): CircuitState;
+  /** Whether a call may go through; moves an open breaker to half-open once the reset time has passed */
+  canRequest(): boolean;
+  recordSuccess(): void;
+  recordFailure(): void;
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failed calls before the breaker opens
+  resetMs: number; // How long the breaker stays open before letting a trial call through
+  now?: () => number;
+}
+
+export interface ResilienceOptions {
+  timeoutMs: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  breaker?: CircuitBreaker;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+}
+
+/**
+ * Configuration for LLM calls
+ */
+const LLM_TIMEOUT_MS = parseInt(process.env.LLM_TIMEOUT_MS || '30000', 10);
+const LLM_MAX_RETRIES = parseInt(process.env.LLM_MAX_RETRIES || '2', 10);
+const LLM_RETRY_BASE_MS = parseInt(process.env.LLM_RETRY_BASE_MS || '500', 10);
+const LLM_RETRY_MAX_MS = parseInt(process.env.LLM_RETRY_MAX_MS || '8000', 10);
+const LLM_CIRCUIT_THRESHOLD = parseInt(process.env.LLM_CIRCUIT_THRESHOLD || '5', 10);
+const LLM_CIRCUIT_RESET_MS = parseInt(process.env.LLM_CIRCUIT_RESET_MS || '30000', 10);
+
+const NETWORK_ERROR_PATTERN = /ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|socket hang up|Connection error|fetch failed/i;
+
+export function createCircuitBreaker(options: CircuitBreakerOptions): CircuitBreaker {
+  const now = options.now || Date.now;
+  let state: CircuitState = 'closed';
+  let failures = 0;
+  let openedAt = 0;
+
+  return {
+    getState() {
+      return state;
+    },
+    canRequest() {
+      if (state === 'open' && now() - openedAt >= options.resetMs) {
+        state = 'half_open';
+      }
+      return state !== 'open';
+    },
+    recordSuccess() {
+      state = 'closed';
+      failures = 0;
+    },
+    recordFailure() {
+      failures++;
+      if (state === 'half_open' || failures >= options.failureThreshold) {
+        state = 'open';
+        openedAt = now();
+      }
+    },
+  };
+}
+
+function getRetryAfterSeconds(error: { headers?: unknown }): number | undefined {
+  const headers = error.headers as Record<string, string> | { get?: (name: string) => string | null } | undefined;
+  if (!headers) return undefined;
+  const value = typeof headers.get === 'function' ? headers.get('retry-after') : (headers as Record<string, string>)['retry-after'];
+  const seconds = value ? parseFloat(value) : NaN;
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : undefined;
+}
+
+/**
+ * Converts a provider error (OpenAI SDK errors, aborts, network failures) to a typed AppError
+ */
+export function classifyLLMError(error: unknown, operation: string = 'LLM call'): AppError {
+  if (error instanceof AppError) return error;
+
+  const details = (error || {}) as { status?: number; name?: string; message?: string; headers?: unknown };
+  const message = `${operation} failed: ${details.message || String(error)}`;
+  const status = typeof details.status === 'number' ? details.status : undefined;
+
+  if (details.name === 'AbortError' || details.name === 'APIConnectionTimeoutError') {
+    return new LLMTimeoutError(message, error);
+  }
+  if (status === 429) {
+    return new LLMRateLimitError(message, getRetryAfterSeconds(details), error);
+  }
+  if (status === 401 || status === 403) {
+    return new LLMConfigurationError(message, error);
+  }
+  if (status !== undefined && status >= 500) {
+    return new LLMUnavailableError(message, error);
+  }
+  if (status === undefined && (details.name === 'APIConnectionError' || NETWORK_ERROR_PATTERN.test(details.message || ''))) {
+    return new LLMUnavailableError(message, error);
+  }
+  return new LLMRequestError(message, error);
+}
+
+/**
+ * Transient failures worth another attempt
+ */
+export function isRetryableError(error: AppError): boolean {
+  return error instanceof LLMTimeoutError || error instanceof LLMRateLimitError || error instanceof LLMUnavailableError;
+}
+
+/**
+ * Backoff before retry number `attempt` (0-based): full jitter over an
+ * exponentially growing window, or the server's Retry-After when it is longer
+ */
+export function getRetryDelay(
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number,
+  random: () => number = Math.random,
+  retryAfterSeconds?: number
+): number {
+  const window = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  const jittered = Math.round(random() * window);
+  return retryAfterSeconds !== undefined ? Math.max(jittered, Math.min(maxDelayMs, retryAfterSeconds * 1000)) : jittered;
+}
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs fn with a timeout, retries and the breaker. fn receives an AbortSignal
+ * that fires when the attempt times out.
+ */
+export async function callWithResilience<T>(
+  operation: string,
+  fn: (signal: AbortSignal) => Promise<T>,
+  options: ResilienceOptions
+): Promise<T> {
+  const sleep = options.sleep || defaultSleep;
+  const breaker = options.breaker;
+
+  if (breaker && !breaker.canRequest()) {
+    throw new LLMUnavailableError(`${operation} skipped: circuit breaker is open`);
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new LLMTimeoutError(`${operation} timed out after ${options.timeoutMs}ms`));
+      }, options.timeoutMs);
+    });
+
+    try {
+      const result = await Promise.race([fn(controller.signal), timeout]);
+      breaker?.recordSuccess();
+      return result;
+    } catch (rawError) {
+      const error = classifyLLMError(rawError, operation);
+      const retryable = isRetryableError(error);
+
+      if (!retryable || attempt >= options.maxRetries) {
+        // Only availability problems count against the breaker; a bad request says nothing about the service
+        if (retryable) breaker?.recordFailure();
+        throw error;
+      }
+
+      const delay = getRetryDelay(
+        attempt,
+        options.baseDelayMs,
+        options.maxDelayMs,
+        options.random,
+        error instanceof LLMRateLimitError ? error.retryAfterSeconds : undefined
+      );
+      log.warn(`[RESILIENCE] ${error.message} (attempt ${attempt + 1}/${options.maxRetries + 1}), retrying in ${delay}ms`);
+      await sleep(delay);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Chat and embeddings have separate breakers so vector search keeps working while chat is down
+ */
+const breakers = {
+  chat: createCircuitBreaker({ failureThreshold: LLM_CIRCUIT_THRESHOLD, resetMs: LLM_CIRCUIT_RESET_MS }),
+  embed: createCircuitBreaker({ failureThreshold: LLM_CIRCUIT_THRESHOLD, resetMs: LLM_CIRCUIT_RESET_MS }),
+};
+
+export function getCircuitStates(): Record<keyof typeof breakers, CircuitState> {
+  return { chat: breakers.chat.getState(), embed: breakers.embed.getState() };
+}
+
+/**
+ * Wraps a provider with timeouts, retries and the shared circuit breakers
+ */
+export function createResilientProvider(inner: LLMProvider, overrides: Partial<ResilienceOptions> = {}): LLMProvider {
+  const optionsFor = (breaker: CircuitBreaker, timeoutMs?: number): ResilienceOptions => ({
+    timeoutMs: timeoutMs || LLM_TIMEOUT_MS,
+    maxRetries: LLM_MAX_RETRIES,
+    baseDelayMs: LLM_RETRY_BASE_MS,
+    maxDelayMs: LLM_RETRY_MAX_MS,
+    breaker,
+    ...overrides,
+  });
+
+  return {
+    name: inner.name,
+    chat: (messages, options = {}) =>
+      callWithResilience('chat', signal => inner.chat(messages, { ...options, signal }), optionsFor(breakers.chat, options.timeoutMs)),
+    chatJSON: (messages, options = {}) =>
+      callWithResilience('chatJSON', signal => inner.chatJSON(messages, { ...options, signal }), optionsFor(breakers.chat, options.timeoutMs)),
+    embed: (inputs, options = {}) =>
+      callWithResilience('embed', signal => inner.embed(inputs, { ...options, signal }), optionsFor(breakers.embed, options.timeoutMs)),
+  };
+}
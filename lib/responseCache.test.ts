@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  createFileResponseCacheStore,
+  createMemoryResponseCacheStore,
+  findCacheMatch,
+  getCacheKey,
+  getCacheScope,
+  isCacheableTurn,
+  normalizeCacheQuery,
+  ResponseCacheEntry,
+} from './responseCache';
+
+function makeEntry(query: string, embedding: number[], overrides: Partial<ResponseCacheEntry> = {}): ResponseCacheEntry {
+  return {
+    key: getCacheKey(query, 'default'),
+    scope: 'default',
+    query,
+    embedding,
+    response: { recommendations: [], summary: query },
+    catalogVersion: 'v1',
+    createdAt: new Date().toISOString(),
+    expiresAt: new Date(Date.now() + 60_000).toISOString(),
+    ...overrides,
+  };
+}
+
+describe('normalizeCacheQuery', () => {
+  it('should ignore case, apostrophes and punctuation', () => {
+    expect(normalizeCacheQuery("What's the best card for travel?")).toBe('whats the best card for travel');
+    expect(normalizeCacheQuery('  whats the BEST card, for travel ')).toBe('whats the best card for travel');
+    expect(normalizeCacheQuery('Under $95 with 5% back')).toBe('under $95 with 5% back');
+  });
+});
+
+describe('getCacheScope', () => {
+  it('should be default without a spend profile and sorted otherwise', () => {
+    expect(getCacheScope()).toBe('default');
+    expect(getCacheScope({ dining: 0 })).toBe('default');
+    expect(getCacheScope({ travel: 300, dining: 500 })).toBe('dining=500,travel=300');
+  });
+});
+
+describe('isCacheableTurn', () => {
+  it('should only allow first turns', () => {
+    expect(isCacheableTurn({ history: [{ role: 'user', content: 'travel card' }] })).toBe(true);
+    expect(isCacheableTurn({
+      history: [
+        { role: 'user', content: 'travel card' },
+        { role: 'assistant', content: 'Here are some cards' },
+        { role: 'user', content: 'which has no fee?' },
+      ],
+    })).toBe(false);
+    expect(isCacheableTurn({
+      previousRecommendations: [{ credit_card_name: 'Citi Double Cash® Card', apply_url: 'https://example.com', reason: 'Flat 2%' }],
+    })).toBe(false);
+  });
+});
+
+describe('findCacheMatch', () => {
+  const entries = [makeEntry('best travel card', [1, 0, 0]), makeEntry('best grocery card', [0, 1, 0])];
+
+  it('should prefer an exact key match', () => {
+    const found = findCacheMatch(entries, getCacheKey('Best travel card?', 'default'), 'default', null);
+    expect(found?.match).toBe('exact');
+    expect(found?.entry.query).toBe('best travel card');
+  });
+
+  it('should return the most similar entry above the threshold in the same scope', () => {
+    const found = findCacheMatch(entries, getCacheKey('top card for trips', 'default'), 'default', [0.99, 0.1, 0], 0.95);
+    expect(found?.match).toBe('semantic');
+    expect(found?.entry.query).toBe('best travel card');
+    expect(findCacheMatch(entries, 'other', 'default', [0.7, 0.7, 0], 0.95)).toBeNull();
+    expect(findCacheMatch(entries, 'other', 'dining=500', [1, 0, 0], 0.95)).toBeNull();
+  });
+});
+
+describe('createMemoryResponseCacheStore', () => {
+  it('should evict the oldest entries and drop expired ones', async () => {
+    const store = createMemoryResponseCacheStore(2);
+    await store.save(makeEntry('one', [1]));
+    await store.save(makeEntry('two', [1]));
+    await store.save(makeEntry('three', [1]));
+    await store.save(makeEntry('old', [1], { expiresAt: new Date(Date.now() - 1000).toISOString() }));
+    expect((await store.list()).map(entry => entry.query)).toEqual(['three']);
+  });
+});
+
+describe('createFileResponseCacheStore', () => {
+  const tempFile = () => path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'response-cache-test-')), 'cache.json');
+
+  it('should keep every entry when saves run concurrently', async () => {
+    const file = tempFile();
+    const store = createFileResponseCacheStore(file);
+    await Promise.all(['one', 'two', 'three', 'four'].map(query => store.save(makeEntry(query, [1]))));
+
+    const saved = (await createFileResponseCacheStore(file).list()).map(entry => entry.query);
+    expect(saved.sort()).toEqual(['four', 'one', 'three', 'two']);
+  });
+
+  it('should keep writing after a failed write', async () => {
+    const file = tempFile();
+    const store = createFileResponseCacheStore(file);
+
+    // A directory in the way of the temp file makes the write fail
+    fs.mkdirSync(`${file}.tmp`);
+    await expect(store.save(makeEntry('one', [1]))).rejects.toThrow();
+    fs.rmdirSync(`${file}.tmp`);
+
+    await store.save(makeEntry('two', [1]));
+    expect((await createFileResponseCacheStore(file).list()).map(entry => entry.query).sort()).toEqual(['one', 'two']);
+  });
+});
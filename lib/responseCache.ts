@@ -0,0 +1,380 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EmbeddingsStore, Recommendation, RecommendationsResponse, ResponseCacheInfo, ResponseCacheMatch, SpendProfile } from '@/types';
+import { cosineSimilarity, embedQuery, hashCardContent, loadEmbeddings } from './embeddings';
+import { createLogger } from './logger';
+
+/**
+ * Semantic response cache in front of generateRecommendations.
+ *
+ * A question is answered from the cache when its normalized text matches a
+ * cached question exactly, or when its embedding is at least
+ * RESPONSE_CACHE_SIMILARITY similar to one. Select storage with
+ * RESPONSE_CACHE:
+ * - `memory` (default): in-process map, lost on restart
+ * - `file`: a single JSON file at RESPONSE_CACHE_PATH
+ * - `off`: no caching
+ *
+ * Entries are tied to the catalog version (card content plus the embeddings'
+ * generatedAt), so the cache empties itself when either changes. Follow-up
+ * turns depend on the conversation and are never cached.
+ */
+
+const log = createLogger('responseCache');
+
+export type ResponseCacheStoreType = 'memory' | 'file';
+
+export interface ResponseCacheEntry {
+  key: string; // Scope plus normalized question
+  scope: string; // Answers only match questions with the same spend profile
+  query: string;
+  embedding: number[];
+  response: RecommendationsResponse;
+  catalogVersion: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface ResponseCacheStore {
+  type: ResponseCacheStoreType;
+  /** Unexpired entries */
+  list(): Promise<ResponseCacheEntry[]>;
+  save(entry: ResponseCacheEntry): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface ResponseCacheStats {
+  lookups: number;
+  hits: number;
+  exactHits: number;
+  semanticHits: number;
+  misses: number;
+  skipped: number; // Turns that weren't eligible (follow-ups, cache off)
+  invalidations: number;
+  hitRate: number; // hits / lookups
+  entries: number;
+  store: ResponseCacheStoreType | 'off';
+}
+
+export interface ResponseCacheContext {
+  history?: Array<{ role: 'user' | 'assistant'; content: string }>;
+  previousRecommendations?: Recommendation[];
+  spendProfile?: SpendProfile;
+}
+
+/**
+ * Configuration for the response cache
+ */
+const RESPONSE_CACHE = process.env.RESPONSE_CACHE || 'memory';
+const RESPONSE_CACHE_PATH = process.env.RESPONSE_CACHE_PATH || path.join('data', 'response-cache.json');
+const RESPONSE_CACHE_TTL_MINUTES = parseInt(process.env.RESPONSE_CACHE_TTL_MINUTES || '1440', 10); // 24 hours
+const RESPONSE_CACHE_SIMILARITY = parseFloat(process.env.RESPONSE_CACHE_SIMILARITY || '0.95');
+const RESPONSE_CACHE_MAX_ENTRIES = parseInt(process.env.RESPONSE_CACHE_MAX_ENTRIES || '500', 10);
+
+function isExpired(entry: ResponseCacheEntry, now: number = Date.now()): boolean {
+  return new Date(entry.expiresAt).getTime() <= now;
+}
+
+/**
+ * Lowercases and strips punctuation so "What's the best card for travel?" and
+ * "whats the best card for travel" share a key
+ */
+export function normalizeCacheQuery(query: string): string {
+  return query
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9$%]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Spend profiles change the answer, so they are part of the key
+ */
+export function getCacheScope(spendProfile?: SpendProfile): string {
+  const entries = Object.entries(spendProfile || {})
+    .filter(([, amount]) => typeof amount === 'number' && amount > 0)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return entries.length > 0 ? entries.map(([category, amount]) => `${category}=${amount}`).join(',') : 'default';
+}
+
+export function getCacheKey(query: string, scope: string): string {
+  return `${scope}|${normalizeCacheQuery(query)}`;
+}
+
+/**
+ * Only first turns are cached: anything with history or shown cards may depend on the conversation
+ */
+export function isCacheableTurn(context: ResponseCacheContext): boolean {
+  const earlierMessages = (context.history || []).slice(0, -1);
+  return earlierMessages.length === 0 && (context.previousRecommendations || []).length === 0;
+}
+
+// Intents whose answers have no cards but are still worth reusing
+const CACHEABLE_ANSWER_INTENTS = ['training', 'off_topic', 'general_attribute'];
+
+/**
+ * Answers that are worth reusing: cards were recommended, or a general answer was given.
+ * Degraded answers (LLM unavailable) are not, so the next ask gets a real one.
+ */
+function isCacheableResponse(response: RecommendationsResponse): boolean {
+  const intent = response.metadata?.routing?.intent;
+  if (!intent || intent === 'previous_cards' || response.metadata?.degraded) return false;
+  return response.recommendations.length > 0 || CACHEABLE_ANSWER_INTENTS.includes(intent);
+}
+
+/**
+ * The best cached entry for a question: an exact key match, otherwise the most
+ * similar entry in the same scope at or above the threshold
+ */
+export function findCacheMatch(
+  entries: ResponseCacheEntry[],
+  key: string,
+  scope: string,
+  embedding: number[] | null,
+  threshold: number = RESPONSE_CACHE_SIMILARITY
+): { entry: ResponseCacheEntry; match: ResponseCacheMatch; similarity: number } | null {
+  const exact = entries.find(entry => entry.key === key);
+  if (exact) return { entry: exact, match: 'exact', similarity: 1 };
+  if (!embedding) return null;
+
+  let best: { entry: ResponseCacheEntry; similarity: number } | null = null;
+  for (const entry of entries) {
+    if (entry.scope !== scope || entry.embedding.length !== embedding.length) continue;
+    const similarity = cosineSimilarity(entry.embedding, embedding);
+    if (similarity >= threshold && (!best || similarity > best.similarity)) {
+      best = { entry, similarity };
+    }
+  }
+  return best ? { ...best, match: 'semantic' } : null;
+}
+
+/**
+ * In-memory cache store; the oldest entries are evicted past maxEntries
+ */
+export function createMemoryResponseCacheStore(maxEntries: number = RESPONSE_CACHE_MAX_ENTRIES): ResponseCacheStore {
+  const entries = new Map<string, ResponseCacheEntry>();
+
+  return {
+    type: 'memory',
+    async list() {
+      const now = Date.now();
+      for (const [key, entry] of Array.from(entries.entries())) {
+        if (isExpired(entry, now)) entries.delete(key);
+      }
+      return Array.from(entries.values());
+    },
+    async save(entry) {
+      entries.delete(entry.key);
+      entries.set(entry.key, entry);
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    },
+    async clear() {
+      entries.clear();
+    },
+  };
+}
+
+/**
+ * File-backed cache store: all entries in one JSON file, loaded on first use
+ */
+export function createFileResponseCacheStore(
+  filePath: string = RESPONSE_CACHE_PATH,
+  maxEntries: number = RESPONSE_CACHE_MAX_ENTRIES
+): ResponseCacheStore {
+  const file = path.isAbsolute(filePath) ? filePath : path.join(process.cwd(), filePath);
+  const memory = createMemoryResponseCacheStore(maxEntries);
+  let loaded: Promise<void> | null = null;
+  let writes: Promise<void> = Promise.resolve();
+
+  const load = () => {
+    if (!loaded) {
+      loaded = (async () => {
+        try {
+          const entries = JSON.parse(await fs.promises.readFile(file, 'utf-8')) as ResponseCacheEntry[];
+          for (const entry of entries) {
+            if (!isExpired(entry)) await memory.save(entry);
+          }
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            log.warn(`[CACHE] Could not read ${file}, starting empty:`, error);
+          }
+        }
+      })();
+    }
+    return loaded;
+  };
+
+  const persist = async () => {
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    // Write then rename so a crash never leaves a half-written file
+    const tempFile = `${file}.tmp`;
+    await fs.promises.writeFile(tempFile, JSON.stringify(await memory.list()));
+    await fs.promises.rename(tempFile, file);
+  };
+
+  return {
+    type: 'file',
+    async list() {
+      await load();
+      return memory.list();
+    },
+    async save(entry) {
+      await load();
+      await memory.save(entry);
+      // Writes are chained so concurrent saves can't interleave their renames;
+      // a failed write is reported to its caller only, so later writes still run
+      writes = writes.catch(() => undefined).then(persist);
+      await writes;
+    },
+    async clear() {
+      await load();
+      await memory.clear();
+      writes = writes.catch(() => undefined).then(() => fs.promises.rm(file, { force: true }));
+      await writes;
+    },
+  };
+}
+
+let storeCache: ResponseCacheStore | null = null;
+
+/**
+ * Returns the store selected by RESPONSE_CACHE, or null when caching is off
+ */
+export function getResponseCacheStore(): ResponseCacheStore | null {
+  if (storeCache) return storeCache;
+  if (RESPONSE_CACHE === 'off') return null;
+
+  if (RESPONSE_CACHE === 'file') {
+    storeCache = createFileResponseCacheStore();
+  } else {
+    if (RESPONSE_CACHE !== 'memory') {
+      log.warn(`Unknown RESPONSE_CACHE "${RESPONSE_CACHE}", using memory`);
+    }
+    storeCache = createMemoryResponseCacheStore();
+  }
+
+  log.info(`[CACHE] Using ${storeCache.type} response cache`);
+  return storeCache;
+}
+
+/**
+ * Overrides the active store (tests). Pass null to restore env selection.
+ */
+export function setResponseCacheStore(store: ResponseCacheStore | null): void {
+  storeCache = store;
+}
+
+const counters = { lookups: 0, hits: 0, exactHits: 0, semanticHits: 0, misses: 0, skipped: 0, invalidations: 0 };
+
+/**
+ * Hit-rate counters since the process started, plus the current entry count
+ */
+export async function getResponseCacheStats(): Promise<ResponseCacheStats> {
+  const store = getResponseCacheStore();
+  return {
+    ...counters,
+    hitRate: counters.lookups > 0 ? Math.round((counters.hits / counters.lookups) * 1000) / 1000 : 0,
+    entries: store ? (await store.list()).length : 0,
+    store: store ? store.type : 'off',
+  };
+}
+
+/**
+ * Catalog version for cache entries, computed once per embeddings store
+ */
+let catalogVersion: { store: EmbeddingsStore; version: string } | null = null;
+
+export function getCatalogVersion(store: EmbeddingsStore): string {
+  if (!catalogVersion || catalogVersion.store !== store) {
+    const hash = createHash('sha256').update(store.generatedAt);
+    for (const card of store.cards) {
+      hash.update(`${card.id}:${hashCardContent(card)}`);
+    }
+    catalogVersion = { store, version: hash.digest('hex').substring(0, 16) };
+  }
+  return catalogVersion.version;
+}
+
+/**
+ * Answers from the cache when possible, otherwise runs generate and caches the result.
+ * Cache errors never fail the request; the answer is generated as if there were no cache.
+ */
+export async function withResponseCache(
+  query: string,
+  context: ResponseCacheContext,
+  generate: () => Promise<RecommendationsResponse>
+): Promise<RecommendationsResponse> {
+  const store = getResponseCacheStore();
+  if (!store || !isCacheableTurn(context)) {
+    counters.skipped++;
+    return generate();
+  }
+
+  const scope = getCacheScope(context.spendProfile);
+  const key = getCacheKey(query, scope);
+  let embedding: number[] | null = null;
+  let version: string | null = null;
+
+  try {
+    counters.lookups++;
+    version = getCatalogVersion(await loadEmbeddings());
+    let entries = await store.list();
+
+    // Any entry from another catalog version means the catalog changed: start over
+    if (entries.some(entry => entry.catalogVersion !== version)) {
+      log.info(`[CACHE] Catalog changed, clearing ${entries.length} cached answers`);
+      counters.invalidations++;
+      await store.clear();
+      entries = [];
+    }
+
+    // The embedding is only needed for a near-duplicate search (and for saving)
+    if (!entries.some(entry => entry.key === key)) {
+      embedding = await embedQuery(query);
+    }
+    const found = findCacheMatch(entries, key, scope, embedding);
+
+    if (found) {
+      counters.hits++;
+      counters[found.match === 'exact' ? 'exactHits' : 'semanticHits']++;
+      log.info(`[CACHE] ${found.match} hit for "${query}" (cached: "${found.entry.query}", similarity ${found.similarity.toFixed(3)})`);
+      const cache: ResponseCacheInfo = {
+        match: found.match,
+        similarity: found.similarity,
+        cachedQuery: found.entry.query,
+        cachedAt: found.entry.createdAt,
+      };
+      return { ...found.entry.response, metadata: { ...found.entry.response.metadata!, cache } };
+    }
+    counters.misses++;
+  } catch (error) {
+    log.error('[CACHE] Error reading the response cache, generating instead:', error);
+  }
+
+  const response = await generate();
+
+  if (version && isCacheableResponse(response)) {
+    try {
+      const now = Date.now();
+      await store.save({
+        key,
+        scope,
+        query,
+        embedding: embedding || (await embedQuery(query)),
+        response,
+        catalogVersion: version,
+        createdAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + RESPONSE_CACHE_TTL_MINUTES * 60 * 1000).toISOString(),
+      });
+    } catch (error) {
+      log.error('[CACHE] Could not save the answer to the response cache:', error);
+    }
+  }
+
+  return response;
+}
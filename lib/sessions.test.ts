@@ -0,0 +1,108 @@
+import { afterEach, describe, it, expect } from 'vitest';
+import {
+  createMemorySessionStore,
+  createSession,
+  getOrCreateSession,
+  getSessionHistory,
+  isValidSessionId,
+  recordSessionTurn,
+  setSessionStore,
+} from './sessions';
+import { LLMProvider, setLLMProvider } from './llm';
+import { Recommendation, RecommendationsResponse } from '@/types';
+
+const recommendation: Recommendation = {
+  credit_card_name: 'Citi Double Cash',
+  apply_url: 'https://example.com/double-cash',
+  reason: 'Flat 2% cash back',
+};
+
+function stubProvider(summary: string | Error): LLMProvider {
+  return {
+    name: 'replay',
+    async chat() {
+      if (summary instanceof Error) throw summary;
+      return { content: summary, model: 'stub' };
+    },
+    async chatJSON() {
+      return { content: '{}', model: 'stub' };
+    },
+    async embed(inputs) {
+      return { embeddings: inputs.map(() => []), model: 'stub' };
+    },
+  };
+}
+
+afterEach(() => {
+  setSessionStore(null);
+  setLLMProvider(null);
+});
+
+describe('memory session store', () => {
+  it('should drop sessions once they expire', async () => {
+    const store = createMemorySessionStore();
+    const session = createSession();
+    await store.save(session);
+    await store.save({ ...createSession(), expiresAt: new Date(Date.now() - 1000).toISOString() });
+
+    expect(await store.get(session.id)).toEqual(session);
+    expect(await store.purgeExpired()).toBe(1);
+  });
+});
+
+describe('getOrCreateSession', () => {
+  it('should start a new session for unknown or malformed IDs', async () => {
+    setSessionStore(createMemorySessionStore());
+
+    const fresh = await getOrCreateSession('../../etc/passwd');
+    expect(isValidSessionId(fresh.id)).toBe(true);
+    expect(fresh.messages).toHaveLength(0);
+  });
+});
+
+describe('recordSessionTurn', () => {
+  it('should save the turn and keep previous cards for general answers', async () => {
+    const store = createMemorySessionStore();
+    setSessionStore(store);
+
+    const withCards: RecommendationsResponse = { recommendations: [recommendation], summary: 'Try the Double Cash.' };
+    const general: RecommendationsResponse = { recommendations: [], summary: 'APR is the interest rate.' };
+
+    let session = await recordSessionTurn(createSession(), 'best cash back card?', withCards);
+    session = await recordSessionTurn(session, 'what is APR?', general);
+
+    const saved = await store.get(session.id);
+    expect(saved?.messages.map(message => message.role)).toEqual(['user', 'assistant', 'user', 'assistant']);
+    expect(saved?.messages[1].recommendations).toEqual([recommendation]);
+    expect(saved?.previousRecommendations).toEqual([recommendation]);
+  });
+
+  it('should fold older messages into the summary once the history is too long', async () => {
+    setSessionStore(createMemorySessionStore());
+    setLLMProvider(stubProvider('User wants cash back with no annual fee.'));
+
+    let session = createSession();
+    for (let i = 0; i < 7; i++) {
+      session = await recordSessionTurn(session, `question ${i}`, { recommendations: [], summary: `answer ${i}` });
+    }
+
+    expect(session.summary).toBe('User wants cash back with no annual fee.');
+    expect(session.messages.length).toBeLessThanOrEqual(12);
+    expect(session.messages[session.messages.length - 2].content).toBe('question 6');
+
+    const history = getSessionHistory(session);
+    expect(history[0].content).toContain('User wants cash back with no annual fee.');
+  });
+
+  it('should fall back to listing earlier questions when summarizing fails', async () => {
+    setSessionStore(createMemorySessionStore());
+    setLLMProvider(stubProvider(new Error('offline')));
+
+    let session = createSession();
+    for (let i = 0; i < 7; i++) {
+      session = await recordSessionTurn(session, `question ${i}`, { recommendations: [], summary: `answer ${i}` });
+    }
+
+    expect(session.summary).toContain('question 0');
+  });
+});
@@ -0,0 +1,337 @@
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConversationMessage, ConversationSession, Recommendation, RecommendationsResponse } from '@/types';
+import { getLLMProvider, MODELS } from './llm';
+import { createLogger } from './logger';
+
+/**
+ * Server-side conversation sessions.
+ *
+ * The session holds the conversation history and the cards last shown to
+ * the user, so the browser only sends a session ID. Select storage with
+ * SESSION_STORE:
+ * - `memory` (default): in-process map, lost on restart
+ * - `file`: one JSON file per session in SESSION_STORE_PATH
+ *
+ * Sessions expire SESSION_TTL_MINUTES after their last turn. When the history
+ * grows past SESSION_MAX_MESSAGES, the oldest messages are folded into a
+ * running summary.
+ */
+
+const log = createLogger('sessions');
+
+export type SessionStoreType = 'memory' | 'file';
+
+export interface SessionStore {
+  type: SessionStoreType;
+  get(id: string): Promise<ConversationSession | null>;
+  save(session: ConversationSession): Promise<void>;
+  delete(id: string): Promise<void>;
+  /** Removes expired sessions, returning how many were removed */
+  purgeExpired(): Promise<number>;
+}
+
+/**
+ * Configuration for sessions
+ */
+const SESSION_STORE = process.env.SESSION_STORE || 'memory';
+const SESSION_STORE_PATH = process.env.SESSION_STORE_PATH || path.join('data', 'sessions');
+const SESSION_TTL_MINUTES = parseInt(process.env.SESSION_TTL_MINUTES || '1440', 10); // 24 hours
+const SESSION_MAX_MESSAGES = parseInt(process.env.SESSION_MAX_MESSAGES || '12', 10);
+// Messages kept verbatim after trimming; the rest go into the summary
+const SESSION_KEEP_MESSAGES = Math.max(2, Math.floor(SESSION_MAX_MESSAGES / 2));
+const MAX_SUMMARY_LENGTH = 1500;
+
+// Session IDs are UUIDs; anything else is rejected before touching storage
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isValidSessionId(id: unknown): id is string {
+  return typeof id === 'string' && SESSION_ID_PATTERN.test(id);
+}
+
+function isExpired(session: ConversationSession, now: number = Date.now()): boolean {
+  return new Date(session.expiresAt).getTime() <= now;
+}
+
+function expiryFrom(now: number): string {
+  return new Date(now + SESSION_TTL_MINUTES * 60 * 1000).toISOString();
+}
+
+/**
+ * In-memory session store
+ */
+export function createMemorySessionStore(): SessionStore {
+  const sessions = new Map<string, ConversationSession>();
+
+  return {
+    type: 'memory',
+    async get(id) {
+      const session = sessions.get(id);
+      if (!session) return null;
+      if (isExpired(session)) {
+        sessions.delete(id);
+        return null;
+      }
+      return session;
+    },
+    async save(session) {
+      sessions.set(session.id, session);
+    },
+    async delete(id) {
+      sessions.delete(id);
+    },
+    async purgeExpired() {
+      let removed = 0;
+      for (const [id, session] of Array.from(sessions.entries())) {
+        if (isExpired(session)) {
+          sessions.delete(id);
+          removed++;
+        }
+      }
+      return removed;
+    },
+  };
+}
+
+/**
+ * File-backed session store: one JSON file per session
+ */
+export function createFileSessionStore(directory: string = SESSION_STORE_PATH): SessionStore {
+  const dir = path.isAbsolute(directory) ? directory : path.join(process.cwd(), directory);
+  const fileFor = (id: string) => path.join(dir, `${id}.json`);
+
+  const remove = async (id: string) => {
+    await fs.promises.rm(fileFor(id), { force: true });
+  };
+
+  const get = async (id: string): Promise<ConversationSession | null> => {
+    if (!isValidSessionId(id)) return null;
+    try {
+      const session = JSON.parse(await fs.promises.readFile(fileFor(id), 'utf-8')) as ConversationSession;
+      if (isExpired(session)) {
+        await remove(id);
+        return null;
+      }
+      return session;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        log.warn(`[SESSION] Could not read session ${id}:`, error);
+      }
+      return null;
+    }
+  };
+
+  return {
+    type: 'file',
+    get,
+    async save(session) {
+      if (!isValidSessionId(session.id)) {
+        throw new Error(`Invalid session ID: ${session.id}`);
+      }
+      await fs.promises.mkdir(dir, { recursive: true });
+      // Write then rename so a crash never leaves a half-written session
+      const tempFile = `${fileFor(session.id)}.tmp`;
+      await fs.promises.writeFile(tempFile, JSON.stringify(session));
+      await fs.promises.rename(tempFile, fileFor(session.id));
+    },
+    async delete(id) {
+      if (isValidSessionId(id)) await remove(id);
+    },
+    async purgeExpired() {
+      if (!fs.existsSync(dir)) return 0;
+      let removed = 0;
+      for (const file of await fs.promises.readdir(dir)) {
+        const id = file.replace(/\.json$/, '');
+        // get() deletes expired sessions
+        if (isValidSessionId(id) && !(await get(id))) removed++;
+      }
+      return removed;
+    },
+  };
+}
+
+let storeCache: SessionStore | null = null;
+let lastPurge = 0;
+const PURGE_INTERVAL = 1000 * 60 * 10; // 10 minutes
+
+/**
+ * Returns the store selected by SESSION_STORE
+ */
+export function getSessionStore(): SessionStore {
+  if (storeCache) return storeCache;
+
+  if (SESSION_STORE === 'file') {
+    storeCache = createFileSessionStore();
+  } else {
+    if (SESSION_STORE !== 'memory') {
+      log.warn(`Unknown SESSION_STORE "${SESSION_STORE}", using memory`);
+    }
+    storeCache = createMemorySessionStore();
+  }
+
+  log.info(`[SESSION] Using ${storeCache.type} session store`);
+  return storeCache;
+}
+
+/**
+ * Overrides the active store (tests). Pass null to restore env selection.
+ */
+export function setSessionStore(store: SessionStore | null): void {
+  storeCache = store;
+}
+
+/**
+ * Creates a new, empty session (not saved until the first turn)
+ */
+export function createSession(now: number = Date.now()): ConversationSession {
+  const timestamp = new Date(now).toISOString();
+  return {
+    id: randomUUID(),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    expiresAt: expiryFrom(now),
+    messages: [],
+    previousRecommendations: [],
+  };
+}
+
+/**
+ * Loads a session by ID, or starts a new one if the ID is missing, unknown or expired
+ */
+export async function getOrCreateSession(sessionId?: string): Promise<ConversationSession> {
+  // Clean up expired sessions now and then, without delaying the request
+  if (Date.now() - lastPurge > PURGE_INTERVAL) {
+    lastPurge = Date.now();
+    getSessionStore().purgeExpired()
+      .then(removed => removed > 0 && log.info(`[SESSION] Purged ${removed} expired sessions`))
+      .catch(error => log.warn('[SESSION] Could not purge expired sessions:', error));
+  }
+
+  if (isValidSessionId(sessionId)) {
+    const session = await getSessionStore().get(sessionId);
+    if (session) return session;
+    log.info(`[SESSION] Session ${sessionId} not found or expired, starting a new one`);
+  }
+  return createSession();
+}
+
+/**
+ * Conversation history for the pipeline: the summary of trimmed messages (if any) followed by recent messages
+ */
+export function getSessionHistory(session: ConversationSession): ConversationMessage[] {
+  const history: ConversationMessage[] = [];
+  if (session.summary) {
+    history.push({ role: 'assistant', content: `Summary of our earlier conversation: ${session.summary}` });
+  }
+  for (const message of session.messages) {
+    history.push({ role: message.role, content: message.content });
+  }
+  return history;
+}
+
+/**
+ * Summary built without the model: the earlier questions, newest last
+ */
+function buildFallbackSummary(previousSummary: string | undefined, messages: ConversationMessage[]): string {
+  const questions = messages
+    .filter(message => message.role === 'user')
+    .map(message => message.content.trim())
+    .join('; ');
+  const summary = [previousSummary, questions ? `The user asked about: ${questions}.` : '']
+    .filter(Boolean)
+    .join(' ');
+  return summary.length > MAX_SUMMARY_LENGTH ? `...${summary.slice(-MAX_SUMMARY_LENGTH)}` : summary;
+}
+
+/**
+ * Folds messages into the running summary, falling back to a plain list of questions
+ */
+async function summarizeMessages(previousSummary: string | undefined, messages: ConversationMessage[]): Promise<string> {
+  const transcript = messages
+    .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content.substring(0, 500)}`)
+    .join('\n');
+
+  try {
+    const result = await getLLMProvider().chat(
+      [
+        {
+          role: 'system',
+          content: 'Summarize this credit card conversation in 2-4 sentences for the assistant\'s memory. Keep the user\'s stated needs, preferences (fees, rewards, spending, credit score) and the card names discussed. Return only the summary.',
+        },
+        {
+          role: 'user',
+          content: `${previousSummary ? `Earlier summary: ${previousSummary}\n\n` : ''}Conversation:\n${transcript}`,
+        },
+      ],
+      { model: MODELS.fast, temperature: 0.2, maxTokens: 250, usageStep: 'history_summary' }
+    );
+
+    const summary = result.content.trim();
+    if (summary) return summary.substring(0, MAX_SUMMARY_LENGTH);
+  } catch (error) {
+    log.error('[SESSION] Error summarizing history, using fallback:', error);
+  }
+
+  return buildFallbackSummary(previousSummary, messages);
+}
+
+/**
+ * Trims the history to SESSION_KEEP_MESSAGES once it grows past SESSION_MAX_MESSAGES
+ */
+export async function trimSessionHistory(session: ConversationSession): Promise<ConversationSession> {
+  if (session.messages.length <= SESSION_MAX_MESSAGES) {
+    return session;
+  }
+
+  const trimmed = session.messages.slice(0, session.messages.length - SESSION_KEEP_MESSAGES);
+  const kept = session.messages.slice(-SESSION_KEEP_MESSAGES);
+  log.info(`[SESSION] Summarizing ${trimmed.length} older messages in session ${session.id}`);
+
+  return {
+    ...session,
+    summary: await summarizeMessages(session.summary, trimmed),
+    messages: kept,
+  };
+}
+
+/**
+ * Records a question and its answer, then trims and saves the session
+ */
+export async function recordSessionTurn(
+  session: ConversationSession,
+  userMessage: string,
+  response: RecommendationsResponse,
+  now: number = Date.now()
+): Promise<ConversationSession> {
+  const timestamp = new Date(now).toISOString();
+  const recommendations: Recommendation[] = response.recommendations || [];
+
+  let updated: ConversationSession = {
+    ...session,
+    updatedAt: timestamp,
+    expiresAt: expiryFrom(now),
+    messages: [
+      ...session.messages,
+      { role: 'user', content: userMessage, createdAt: timestamp },
+      {
+        role: 'assistant',
+        content: response.summary || '',
+        createdAt: timestamp,
+        ...(recommendations.length > 0 ? { recommendations } : {}),
+      },
+    ],
+    // General answers keep the previously shown cards, like the chat UI's right-hand panel
+    previousRecommendations: recommendations.length > 0 ? recommendations : session.previousRecommendations,
+  };
+
+  updated = await trimSessionHistory(updated);
+
+  try {
+    await getSessionStore().save(updated);
+  } catch (error) {
+    log.error(`[SESSION] Could not save session ${updated.id}:`, error);
+  }
+
+  return updated;
+}
@@ -0,0 +1,43 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Per-request trace context, shared by lib/tracing.ts (which creates spans)
+ * and lib/logger.ts (which stamps log lines with the trace and span IDs).
+ * Kept separate so the two modules don't import each other.
+ */
+
+export type SpanAttributeValue = string | number | boolean | string[];
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+export type SpanStatus = 'unset' | 'ok' | 'error';
+
+export interface SpanRecord {
+  traceId: string; // 32 hex characters
+  spanId: string; // 16 hex characters
+  parentSpanId?: string;
+  name: string;
+  startTimeMs: number; // Epoch milliseconds, with sub-millisecond precision
+  endTimeMs?: number;
+  attributes: SpanAttributes;
+  status: SpanStatus;
+  statusMessage?: string;
+}
+
+export interface TraceState {
+  traceId: string;
+  spans: SpanRecord[]; // Every span in the trace, in start order
+}
+
+export interface ActiveContext {
+  trace: TraceState;
+  span: SpanRecord;
+}
+
+export const traceStorage = new AsyncLocalStorage<ActiveContext>();
+
+/**
+ * IDs of the trace and span the current code runs in, or null outside a trace
+ */
+export function getTraceContext(): { traceId: string; spanId: string } | null {
+  const context = traceStorage.getStore();
+  return context ? { traceId: context.trace.traceId, spanId: context.span.spanId } : null;
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { parseTraceparent, runWithTrace, setTraceExporter, toOTLPJson, withSpan, withSpanSync } from './tracing';
+import { SpanRecord } from './traceContext';
+
+function captureTraces() {
+  const exported: SpanRecord[][] = [];
+  setTraceExporter({ async export(spans) { exported.push(spans); } });
+  return exported;
+}
+
+afterEach(() => setTraceExporter(null));
+
+describe('parseTraceparent', () => {
+  it('should accept valid W3C headers only', () => {
+    expect(parseTraceparent('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01')).toEqual({
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      parentSpanId: '00f067aa0ba902b7',
+    });
+    expect(parseTraceparent('00-00000000000000000000000000000000-00f067aa0ba902b7-01')).toBeNull();
+    expect(parseTraceparent('not-a-header')).toBeNull();
+    expect(parseTraceparent(null)).toBeNull();
+  });
+});
+
+describe('runWithTrace', () => {
+  it('should nest spans under the active span and export the trace once', async () => {
+    const exported = captureTraces();
+
+    const result = await runWithTrace('request', { attributes: { route: '/test' } }, async () => {
+      await withSpan('llm', { model: 'gpt-4o-mini' }, async span => {
+        span.setAttribute('tokens', 42);
+        withSpanSync('filters', {}, () => 3);
+      });
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(exported).toHaveLength(1);
+    const [root, llm, filters] = exported[0];
+    expect(exported[0].map(span => span.name)).toEqual(['request', 'llm', 'filters']);
+    expect(new Set(exported[0].map(span => span.traceId)).size).toBe(1);
+    expect(root.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(llm.parentSpanId).toBe(root.spanId);
+    expect(filters.parentSpanId).toBe(llm.spanId);
+    expect(llm.attributes).toEqual({ model: 'gpt-4o-mini', tokens: 42 });
+    expect(exported[0].every(span => span.status === 'ok' && span.endTimeMs! >= span.startTimeMs)).toBe(true);
+  });
+
+  it('should mark failed spans and still export', async () => {
+    const exported = captureTraces();
+    await expect(runWithTrace('request', {}, () => withSpan('llm', {}, async () => {
+      throw new Error('timeout');
+    }))).rejects.toThrow('timeout');
+    expect(exported[0].map(span => [span.name, span.status, span.statusMessage])).toEqual([
+      ['request', 'error', 'timeout'],
+      ['llm', 'error', 'timeout'],
+    ]);
+  });
+
+  it('should continue a caller trace', async () => {
+    const exported = captureTraces();
+    await runWithTrace('request', { traceId: 'a'.repeat(32), parentSpanId: 'b'.repeat(16) }, async () => undefined);
+    expect(exported[0][0]).toMatchObject({ traceId: 'a'.repeat(32), parentSpanId: 'b'.repeat(16) });
+  });
+});
+
+describe('withSpan', () => {
+  it('should just run the function outside a trace', async () => {
+    const exported = captureTraces();
+    expect(await withSpan('orphan', {}, async span => {
+      span.setAttribute('ignored', true);
+      return 1;
+    })).toBe(1);
+    expect(exported).toEqual([]);
+  });
+});
+
+describe('toOTLPJson', () => {
+  it('should produce an OTLP/JSON ExportTraceServiceRequest', () => {
+    const spans: SpanRecord[] = [
+      { traceId: 'a'.repeat(32), spanId: 'b'.repeat(16), name: 'request', startTimeMs: 1000.5, endTimeMs: 1002, attributes: { 'http.route': '/api', ok: true }, status: 'ok' },
+      { traceId: 'a'.repeat(32), spanId: 'c'.repeat(16), parentSpanId: 'b'.repeat(16), name: 'llm', startTimeMs: 1001, endTimeMs: 1001.25, attributes: { tokens: 12, score: 0.5, skipped: undefined }, status: 'error', statusMessage: 'boom' },
+    ];
+    const otlp = toOTLPJson(spans, 'test-service');
+    expect(otlp.resourceSpans[0].resource.attributes).toEqual([{ key: 'service.name', value: { stringValue: 'test-service' } }]);
+    expect(otlp.resourceSpans[0].scopeSpans[0].spans).toEqual([
+      {
+        traceId: 'a'.repeat(32),
+        spanId: 'b'.repeat(16),
+        name: 'request',
+        kind: 2,
+        startTimeUnixNano: '1000500000',
+        endTimeUnixNano: '1002000000',
+        attributes: [
+          { key: 'http.route', value: { stringValue: '/api' } },
+          { key: 'ok', value: { boolValue: true } },
+        ],
+        status: { code: 1 },
+      },
+      {
+        traceId: 'a'.repeat(32),
+        spanId: 'c'.repeat(16),
+        parentSpanId: 'b'.repeat(16),
+        name: 'llm',
+        kind: 1,
+        startTimeUnixNano: '1001000000',
+        endTimeUnixNano: '1001250000',
+        attributes: [
+          { key: 'tokens', value: { intValue: '12' } },
+          { key: 'score', value: { doubleValue: 0.5 } },
+        ],
+        status: { code: 2, message: 'boom' },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,277 @@
+import { randomBytes } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createLogger } from './logger';
+import { SpanAttributes, SpanAttributeValue, SpanRecord, traceStorage } from './traceContext';
+
+/**
+ * Per-request tracing.
+ *
+ * runWithTrace starts a trace for a request; withSpan times a unit of work
+ * (an LLM call, a filter pass, a vector search) as a child of whatever span
+ * is active. Outside a trace, withSpan just runs the function, so scripts and
+ * tests need no setup. Finished traces go to the exporter selected with
+ * TRACE_EXPORTER:
+ * - `off` (default): traces are dropped
+ * - `file`: one OTLP/JSON ExportTraceServiceRequest per line in
+ *   TRACE_EXPORT_PATH, the format the OpenTelemetry Collector's file
+ *   exporter writes and its otlpjsonfile receiver reads
+ */
+
+export interface Span {
+  traceId: string;
+  spanId: string;
+  setAttribute(key: string, value: SpanAttributeValue | undefined): void;
+  setAttributes(attributes: SpanAttributes): void;
+}
+
+export interface TraceExporter {
+  export(spans: SpanRecord[]): Promise<void>;
+}
+
+/**
+ * Configuration for tracing
+ */
+const TRACE_EXPORTER = process.env.TRACE_EXPORTER || 'off';
+const TRACE_EXPORT_PATH = process.env.TRACE_EXPORT_PATH || path.join('data', 'traces.jsonl');
+const TRACE_SERVICE_NAME = process.env.TRACE_SERVICE_NAME || 'credit-card-chatbot';
+
+const log = createLogger('tracing');
+
+export function newTraceId(): string {
+  return randomBytes(16).toString('hex');
+}
+
+export function newSpanId(): string {
+  return randomBytes(8).toString('hex');
+}
+
+/**
+ * Parses a W3C traceparent header ("00-<trace id>-<parent span id>-<flags>")
+ */
+export function parseTraceparent(header: string | null | undefined): { traceId: string; parentSpanId: string } | null {
+  const match = (header || '').trim().match(/^[0-9a-f]{2}-([0-9a-f]{32})-([0-9a-f]{16})-[0-9a-f]{2}$/);
+  if (!match || /^0+$/.test(match[1]) || /^0+$/.test(match[2])) return null;
+  return { traceId: match[1], parentSpanId: match[2] };
+}
+
+function nowMs(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+function toSpan(record: SpanRecord): Span {
+  return {
+    traceId: record.traceId,
+    spanId: record.spanId,
+    setAttribute(key, value) {
+      record.attributes[key] = value;
+    },
+    setAttributes(attributes) {
+      Object.assign(record.attributes, attributes);
+    },
+  };
+}
+
+// Handed to callbacks outside a trace so they can set attributes unconditionally
+const NOOP_SPAN: Span = { traceId: '', spanId: '', setAttribute() {}, setAttributes() {} };
+
+function startSpan(name: string, attributes: SpanAttributes): { record: SpanRecord; run: <T>(fn: () => T) => T } | null {
+  const parent = traceStorage.getStore();
+  if (!parent) return null;
+
+  const record: SpanRecord = {
+    traceId: parent.trace.traceId,
+    spanId: newSpanId(),
+    parentSpanId: parent.span.spanId,
+    name,
+    startTimeMs: nowMs(),
+    attributes: { ...attributes },
+    status: 'unset',
+  };
+  parent.trace.spans.push(record);
+  return { record, run: fn => traceStorage.run({ trace: parent.trace, span: record }, fn) };
+}
+
+function endSpan(record: SpanRecord, error?: unknown): void {
+  record.endTimeMs = nowMs();
+  if (error !== undefined) {
+    record.status = 'error';
+    record.statusMessage = error instanceof Error ? error.message : String(error);
+  } else if (record.status === 'unset') {
+    record.status = 'ok';
+  }
+}
+
+/**
+ * Runs fn in a child span of the active span
+ */
+export async function withSpan<T>(name: string, attributes: SpanAttributes, fn: (span: Span) => Promise<T>): Promise<T> {
+  const started = startSpan(name, attributes);
+  if (!started) return fn(NOOP_SPAN);
+
+  try {
+    const result = await started.run(() => fn(toSpan(started.record)));
+    endSpan(started.record);
+    return result;
+  } catch (error) {
+    endSpan(started.record, error);
+    throw error;
+  }
+}
+
+/**
+ * withSpan for synchronous work
+ */
+export function withSpanSync<T>(name: string, attributes: SpanAttributes, fn: (span: Span) => T): T {
+  const started = startSpan(name, attributes);
+  if (!started) return fn(NOOP_SPAN);
+
+  try {
+    const result = started.run(() => fn(toSpan(started.record)));
+    endSpan(started.record);
+    return result;
+  } catch (error) {
+    endSpan(started.record, error);
+    throw error;
+  }
+}
+
+/**
+ * Runs fn as the root span of a new trace and exports the trace when it ends.
+ * Pass traceId/parentSpanId (e.g. from a traceparent header) to continue a caller's trace.
+ */
+export async function runWithTrace<T>(
+  name: string,
+  options: { traceId?: string; parentSpanId?: string; attributes?: SpanAttributes },
+  fn: (span: Span) => Promise<T>
+): Promise<T> {
+  const root: SpanRecord = {
+    traceId: options.traceId || newTraceId(),
+    spanId: newSpanId(),
+    parentSpanId: options.parentSpanId,
+    name,
+    startTimeMs: nowMs(),
+    attributes: { ...options.attributes },
+    status: 'unset',
+  };
+  const trace = { traceId: root.traceId, spans: [root] };
+
+  let failure: unknown;
+  try {
+    return await traceStorage.run({ trace, span: root }, () => fn(toSpan(root)));
+  } catch (error) {
+    failure = error;
+    throw error;
+  } finally {
+    endSpan(root, failure);
+    log.debug(`[TRACE] ${name} finished with ${trace.spans.length} spans in ${Math.round(root.endTimeMs! - root.startTimeMs)}ms`);
+    await exportTrace(trace.spans);
+  }
+}
+
+// ============================================================
+// OTLP/JSON export
+// ============================================================
+
+type OTLPAnyValue = { stringValue: string } | { intValue: string } | { doubleValue: number } | { boolValue: boolean } | { arrayValue: { values: OTLPAnyValue[] } };
+
+function toOTLPValue(value: SpanAttributeValue): OTLPAnyValue {
+  if (Array.isArray(value)) return { arrayValue: { values: value.map(item => ({ stringValue: item })) } };
+  if (typeof value === 'boolean') return { boolValue: value };
+  if (typeof value === 'number') return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  return { stringValue: value };
+}
+
+function toOTLPAttributes(attributes: SpanAttributes): Array<{ key: string; value: OTLPAnyValue }> {
+  return Object.entries(attributes)
+    .filter((entry): entry is [string, SpanAttributeValue] => entry[1] !== undefined)
+    .map(([key, value]) => ({ key, value: toOTLPValue(value) }));
+}
+
+function toUnixNano(ms: number): string {
+  const whole = Math.floor(ms);
+  return (BigInt(whole) * BigInt(1_000_000) + BigInt(Math.round((ms - whole) * 1_000_000))).toString();
+}
+
+const OTLP_STATUS_CODES = { unset: 0, ok: 1, error: 2 };
+
+/**
+ * Spans as an OTLP/JSON ExportTraceServiceRequest
+ */
+export function toOTLPJson(spans: SpanRecord[], serviceName: string = TRACE_SERVICE_NAME) {
+  return {
+    resourceSpans: [
+      {
+        resource: { attributes: toOTLPAttributes({ 'service.name': serviceName }) },
+        scopeSpans: [
+          {
+            scope: { name: 'credit-card-chatbot.tracing' },
+            spans: spans.map(span => ({
+              traceId: span.traceId,
+              spanId: span.spanId,
+              ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+              name: span.name,
+              kind: span.parentSpanId ? 1 : 2, // INTERNAL, or SERVER for the request's root span
+              startTimeUnixNano: toUnixNano(span.startTimeMs),
+              endTimeUnixNano: toUnixNano(span.endTimeMs ?? span.startTimeMs),
+              attributes: toOTLPAttributes(span.attributes),
+              status: {
+                code: OTLP_STATUS_CODES[span.status],
+                ...(span.statusMessage ? { message: span.statusMessage } : {}),
+              },
+            })),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Appends each trace to a JSON Lines file in OTLP/JSON format
+ */
+export function createFileTraceExporter(filePath: string = TRACE_EXPORT_PATH): TraceExporter {
+  const file = path.isAbsolute(filePath) ? filePath : path.join(process.cwd(), filePath);
+  return {
+    async export(spans) {
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      await fs.promises.appendFile(file, `${JSON.stringify(toOTLPJson(spans))}\n`);
+    },
+  };
+}
+
+let exporterCache: TraceExporter | null = null;
+let exporterOverride: TraceExporter | null = null;
+
+/**
+ * Returns the exporter selected by TRACE_EXPORTER, or null when export is off
+ */
+export function getTraceExporter(): TraceExporter | null {
+  if (exporterOverride) return exporterOverride;
+  if (exporterCache) return exporterCache;
+  if (TRACE_EXPORTER === 'off') return null;
+
+  if (TRACE_EXPORTER !== 'file') {
+    log.warn(`Unknown TRACE_EXPORTER "${TRACE_EXPORTER}", using file`);
+  }
+  exporterCache = createFileTraceExporter();
+  log.info(`[TRACE] Exporting traces to ${TRACE_EXPORT_PATH}`);
+  return exporterCache;
+}
+
+/**
+ * Overrides the active exporter (tests). Pass null to restore env selection.
+ */
+export function setTraceExporter(exporter: TraceExporter | null): void {
+  exporterOverride = exporter;
+}
+
+async function exportTrace(spans: SpanRecord[]): Promise<void> {
+  const exporter = getTraceExporter();
+  if (!exporter) return;
+  try {
+    await exporter.export(spans);
+  } catch (error) {
+    log.error('[TRACE] Could not export trace:', error);
+  }
+}
@@ -0,0 +1,147 @@
+import { afterEach, describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  createFileUsageStore,
+  createMemoryUsageStore,
+  DEFAULT_MODEL_PRICES,
+  findModelPrice,
+  getBudgetState,
+  getDailyUsageReport,
+  parseModelPrices,
+  priceUsage,
+  runWithUsage,
+  setUsageStore,
+  UsageRecord,
+  summarizeUsage,
+  aggregateUsage,
+} from './usage';
+import { getLLMProvider, LLMProvider, setLLMProvider } from './llm';
+
+function record(step: string, model: string, promptTokens: number, completionTokens: number, costUsd: number): UsageRecord {
+  return { step, model, promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, costUsd, at: '2026-03-01T12:00:00.000Z' };
+}
+
+afterEach(() => {
+  setUsageStore(null);
+  setLLMProvider(null);
+});
+
+describe('findModelPrice', () => {
+  it('should match dated snapshots to the longest model prefix', () => {
+    expect(findModelPrice('gpt-4o')).toEqual(DEFAULT_MODEL_PRICES['gpt-4o']);
+    expect(findModelPrice('gpt-4o-mini-2024-07-18')).toEqual(DEFAULT_MODEL_PRICES['gpt-4o-mini']);
+    expect(findModelPrice('gpt-4-0613')).toEqual(DEFAULT_MODEL_PRICES['gpt-4']);
+    expect(findModelPrice('claude-unknown')).toBeNull();
+  });
+});
+
+describe('priceUsage', () => {
+  it('should price prompt and completion tokens per million', () => {
+    expect(priceUsage('gpt-4', { promptTokens: 1000, completionTokens: 500, totalTokens: 1500 })).toBeCloseTo(0.06, 10);
+    expect(priceUsage('text-embedding-3-small', { promptTokens: 1_000_000, completionTokens: 0, totalTokens: 1_000_000 })).toBeCloseTo(0.02, 10);
+    expect(priceUsage('unknown-model', { promptTokens: 1000, completionTokens: 1000, totalTokens: 2000 })).toBe(0);
+  });
+});
+
+describe('parseModelPrices', () => {
+  it('should merge overrides over the defaults and ignore bad input', () => {
+    const prices = parseModelPrices('{"gpt-4o": {"input": 5, "output": 15}, "custom": {"input": 1}, "broken": {"output": 2}}');
+    expect(prices['gpt-4o']).toEqual({ input: 5, output: 15 });
+    expect(prices.custom).toEqual({ input: 1, output: 0 });
+    expect(prices.broken).toBeUndefined();
+    expect(prices['gpt-4']).toEqual(DEFAULT_MODEL_PRICES['gpt-4']);
+    expect(parseModelPrices('not json')).toEqual(DEFAULT_MODEL_PRICES);
+  });
+});
+
+describe('summarizeUsage', () => {
+  it('should total calls by step and by model', () => {
+    const summary = summarizeUsage(aggregateUsage([
+      record('routing', 'gpt-4o-mini', 100, 20, 0.001),
+      record('generation', 'gpt-4o-mini', 2000, 500, 0.02),
+      record('generation', 'gpt-4o-mini', 1000, 300, 0.01),
+      record('retrieval', 'text-embedding-3-small', 10, 0, 0.0001),
+    ]));
+
+    expect(summary).toMatchObject({ calls: 4, promptTokens: 3110, completionTokens: 820, totalTokens: 3930, costUsd: 0.0311 });
+    expect(summary.byStep.generation).toEqual({ calls: 2, promptTokens: 3000, completionTokens: 800, totalTokens: 3800, costUsd: 0.03 });
+    expect(summary.byModel['gpt-4o-mini'].calls).toBe(3);
+  });
+});
+
+describe('getBudgetState', () => {
+  it('should downgrade past the budget and stop past the hard limit', () => {
+    expect(getBudgetState(4, 5, 10)).toBe('ok');
+    expect(getBudgetState(5, 5, 10)).toBe('downgrade');
+    expect(getBudgetState(12, 5, 10)).toBe('exceeded');
+    expect(getBudgetState(1000, 0, 0)).toBe('ok');
+  });
+});
+
+describe('getDailyUsageReport', () => {
+  it('should report a day from the store', async () => {
+    const store = createMemoryUsageStore();
+    setUsageStore(store);
+    await store.add(record('routing', 'gpt-4o-mini', 100, 20, 0.001));
+    await store.add(record('generation', 'gpt-4o', 2000, 500, 0.01));
+    await store.add({ ...record('generation', 'gpt-4o', 2000, 500, 0.01), at: '2026-03-02T00:00:00.000Z' });
+
+    const report = await getDailyUsageReport('2026-03-01');
+    expect(report.date).toBe('2026-03-01');
+    expect(report.calls).toBe(2);
+    expect(report.rows.map(row => row.step)).toEqual(['generation', 'routing']);
+    expect(report.budget).toBeUndefined(); // Only today's report has a budget state
+    expect((await getDailyUsageReport('2026-02-28')).calls).toBe(0);
+  });
+});
+
+describe('createFileUsageStore', () => {
+  it('should keep writing after a failed write', async () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'usage-test-')), 'usage.json');
+    const store = createFileUsageStore(file);
+
+    // A directory in the way of the temp file makes the write fail
+    fs.mkdirSync(`${file}.tmp`);
+    await expect(store.add(record('routing', 'gpt-4o-mini', 100, 20, 0.001))).rejects.toThrow();
+    fs.rmdirSync(`${file}.tmp`);
+
+    await store.add(record('generation', 'gpt-4o', 2000, 500, 0.01));
+    const saved = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    expect(saved['2026-03-01'].map((row: { step: string }) => row.step).sort()).toEqual(['generation', 'routing']);
+    expect(await createFileUsageStore(file).getDay('2026-03-01')).toHaveLength(2);
+  });
+});
+
+describe('runWithUsage', () => {
+  it('should total the metered calls made inside it, including nested runs', async () => {
+    setUsageStore(createMemoryUsageStore());
+    const provider: LLMProvider = {
+      name: 'replay',
+      async chat(_messages, options = {}) {
+        return { content: 'ok', model: options.model || 'gpt-4o-mini', usage: { promptTokens: 1000, completionTokens: 100, totalTokens: 1100 } };
+      },
+      async chatJSON() {
+        return { content: '{}', model: 'gpt-4o-mini' };
+      },
+      async embed(inputs) {
+        return { embeddings: inputs.map(() => [1]), model: 'text-embedding-3-small', usage: { promptTokens: 50, completionTokens: 0, totalTokens: 50 } };
+      },
+    };
+    setLLMProvider(provider);
+
+    const outer = await runWithUsage(async () => {
+      await getLLMProvider().embed(['query'], { usageStep: 'retrieval' });
+      const inner = await runWithUsage(() => getLLMProvider().chat([], { model: 'gpt-4o', usageStep: 'generation' }));
+      await getLLMProvider().chatJSON([]);
+      return inner.usage;
+    });
+
+    expect(outer.result).toMatchObject({ calls: 1, totalTokens: 1100, costUsd: 0.0035 });
+    expect(outer.usage.calls).toBe(3);
+    expect(Object.keys(outer.usage.byStep).sort()).toEqual(['generation', 'other', 'retrieval']);
+    expect(outer.usage.byModel['gpt-4o'].costUsd).toBe(0.0035);
+    expect(outer.usage.budget).toBeUndefined();
+  });
+});
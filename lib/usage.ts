@@ -0,0 +1,410 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BudgetState, DailyUsageReport, UsageSummary, UsageTotals } from '@/types';
+import { LLMBudgetExceededError } from './errors';
+import { LLMUsage } from './llm';
+import { createLogger } from './logger';
+
+/**
+ * Token and cost accounting for LLM calls.
+ *
+ * lib/llm.ts meters every completion and embedding through recordUsage, which
+ * prices the call with the model price table and adds it to:
+ * - the request: runWithUsage totals the calls made inside it (metadata.usage)
+ * - the day: totals per step and model in the store selected with USAGE_STORE
+ *   (`memory`, the default, or `file` at USAGE_STORE_PATH)
+ *
+ * Prices are USD per million tokens. LLM_PRICES (a JSON object of
+ * `{ "model": { "input": n, "output": n } }`) adds or overrides entries.
+ *
+ * The budget guard compares today's spend with two optional limits: past
+ * LLM_DAILY_BUDGET_USD, chat calls switch to the cheaper LLM_BUDGET_MODEL;
+ * past LLM_DAILY_HARD_LIMIT_USD, chat calls fail with LLMBudgetExceededError,
+ * which sends recommendations down the degraded (catalog-only) path.
+ * Embeddings are cheap and the degraded path needs them, so they are never blocked.
+ */
+
+const log = createLogger('usage');
+
+export interface ModelPrice {
+  input: number; // USD per million prompt tokens
+  output: number; // USD per million completion tokens
+}
+
+export interface UsageRecord {
+  step: string; // Pipeline step the call is billed to, e.g. "routing"
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  at: string; // ISO time of the call
+}
+
+export type UsageStoreType = 'memory' | 'file';
+
+export type UsageRow = UsageTotals & { step: string; model: string };
+
+export interface UsageStore {
+  type: UsageStoreType;
+  /** Adds a call to its day's totals */
+  add(record: UsageRecord): Promise<void>;
+  /** Totals per step and model for a day (YYYY-MM-DD, UTC) */
+  getDay(date: string): Promise<UsageRow[]>;
+}
+
+/**
+ * List prices for the models this app uses, USD per million tokens
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'text-embedding-3-large': { input: 0.13, output: 0 },
+  'text-embedding-ada-002': { input: 0.1, output: 0 },
+};
+
+/**
+ * The default price table with LLM_PRICES entries merged over it; invalid entries are ignored
+ */
+export function parseModelPrices(raw: string | undefined): Record<string, ModelPrice> {
+  const prices = { ...DEFAULT_MODEL_PRICES };
+  if (!raw) return prices;
+
+  try {
+    const overrides = JSON.parse(raw) as Record<string, Partial<ModelPrice>>;
+    for (const [model, price] of Object.entries(overrides)) {
+      if (typeof price?.input === 'number' && price.input >= 0) {
+        prices[model] = { input: price.input, output: typeof price.output === 'number' && price.output >= 0 ? price.output : 0 };
+      } else {
+        log.warn(`[USAGE] Ignoring LLM_PRICES entry for "${model}": input price is required`);
+      }
+    }
+  } catch (error) {
+    log.warn('[USAGE] LLM_PRICES is not valid JSON, using the default prices:', error);
+  }
+  return prices;
+}
+
+/**
+ * Configuration for usage accounting
+ */
+const MODEL_PRICES = parseModelPrices(process.env.LLM_PRICES);
+const USAGE_STORE = process.env.USAGE_STORE || 'memory';
+const USAGE_STORE_PATH = process.env.USAGE_STORE_PATH || path.join('data', 'usage.json');
+const LLM_DAILY_BUDGET_USD = parseFloat(process.env.LLM_DAILY_BUDGET_USD || '0'); // 0 turns the limit off
+const LLM_DAILY_HARD_LIMIT_USD = parseFloat(process.env.LLM_DAILY_HARD_LIMIT_USD || '0');
+const LLM_BUDGET_MODEL = process.env.LLM_BUDGET_MODEL || 'gpt-4o-mini';
+
+/**
+ * Price for a model. Dated snapshots ("gpt-4o-mini-2024-07-18") use the
+ * longest table entry they start with; unknown models have no price.
+ */
+export function findModelPrice(model: string, prices: Record<string, ModelPrice> = MODEL_PRICES): ModelPrice | null {
+  if (prices[model]) return prices[model];
+  const base = Object.keys(prices)
+    .filter(key => model.startsWith(`${key}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return base ? prices[base] : null;
+}
+
+const unpricedModels = new Set<string>();
+
+/**
+ * Cost of a call in USD
+ */
+export function priceUsage(model: string, usage: LLMUsage, prices: Record<string, ModelPrice> = MODEL_PRICES): number {
+  const price = findModelPrice(model, prices);
+  if (!price) {
+    if (!unpricedModels.has(model)) {
+      unpricedModels.add(model);
+      log.warn(`[USAGE] No price for model "${model}", counting its calls as free. Add it to LLM_PRICES.`);
+    }
+    return 0;
+  }
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+function roundUsd(amount: number): number {
+  return Math.round(amount * 1_000_000) / 1_000_000;
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+}
+
+function addTotals(totals: UsageTotals, usage: UsageTotals): void {
+  totals.calls += usage.calls;
+  totals.promptTokens += usage.promptTokens;
+  totals.completionTokens += usage.completionTokens;
+  totals.totalTokens += usage.totalTokens;
+  totals.costUsd = roundUsd(totals.costUsd + usage.costUsd);
+}
+
+function toTotals(record: UsageRecord): UsageTotals {
+  return { calls: 1, promptTokens: record.promptTokens, completionTokens: record.completionTokens, totalTokens: record.totalTokens, costUsd: record.costUsd };
+}
+
+/**
+ * Grand total plus totals by step and by model
+ */
+export function summarizeUsage(rows: UsageRow[]): UsageSummary {
+  const summary: UsageSummary = { ...emptyTotals(), byStep: {}, byModel: {} };
+  for (const row of rows) {
+    addTotals(summary, row);
+    addTotals((summary.byStep[row.step] ||= emptyTotals()), row);
+    addTotals((summary.byModel[row.model] ||= emptyTotals()), row);
+  }
+  return summary;
+}
+
+/**
+ * Folds calls into one row per step and model
+ */
+export function aggregateUsage(records: UsageRecord[], rows: UsageRow[] = []): UsageRow[] {
+  const result = rows.map(row => ({ ...row }));
+  for (const record of records) {
+    let row = result.find(existing => existing.step === record.step && existing.model === record.model);
+    if (!row) {
+      row = { step: record.step, model: record.model, ...emptyTotals() };
+      result.push(row);
+    }
+    addTotals(row, toTotals(record));
+  }
+  return result;
+}
+
+/**
+ * Which limit today's spend has passed. A limit of 0 is off.
+ */
+export function getBudgetState(spentUsd: number, budgetUsd: number = LLM_DAILY_BUDGET_USD, hardLimitUsd: number = LLM_DAILY_HARD_LIMIT_USD): BudgetState {
+  if (hardLimitUsd > 0 && spentUsd >= hardLimitUsd) return 'exceeded';
+  if (budgetUsd > 0 && spentUsd >= budgetUsd) return 'downgrade';
+  return 'ok';
+}
+
+export function getUsageDate(now: Date = new Date()): string {
+  return now.toISOString().substring(0, 10);
+}
+
+// ============================================================
+// Stores
+// ============================================================
+
+/**
+ * In-memory usage store, lost on restart
+ */
+export function createMemoryUsageStore(): UsageStore {
+  const days = new Map<string, UsageRow[]>();
+
+  return {
+    type: 'memory',
+    async add(record) {
+      const date = record.at.substring(0, 10);
+      days.set(date, aggregateUsage([record], days.get(date)));
+    },
+    async getDay(date) {
+      return (days.get(date) || []).map(row => ({ ...row }));
+    },
+  };
+}
+
+/**
+ * File-backed usage store: every day's rows in one JSON file, loaded on first use
+ */
+export function createFileUsageStore(filePath: string = USAGE_STORE_PATH): UsageStore {
+  const file = path.isAbsolute(filePath) ? filePath : path.join(process.cwd(), filePath);
+  let days: Record<string, UsageRow[]> | null = null;
+  let writes: Promise<void> = Promise.resolve();
+
+  const load = async () => {
+    if (days) return days;
+    try {
+      days = JSON.parse(await fs.promises.readFile(file, 'utf-8')) as Record<string, UsageRow[]>;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        log.warn(`[USAGE] Could not read ${file}, starting empty:`, error);
+      }
+      days = {};
+    }
+    return days;
+  };
+
+  const persist = async (snapshot: string) => {
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    // Write then rename so a crash never leaves a half-written file
+    const tempFile = `${file}.tmp`;
+    await fs.promises.writeFile(tempFile, snapshot);
+    await fs.promises.rename(tempFile, file);
+  };
+
+  return {
+    type: 'file',
+    async add(record) {
+      const loaded = await load();
+      const date = record.at.substring(0, 10);
+      loaded[date] = aggregateUsage([record], loaded[date]);
+      // Writes are chained so concurrent calls can't interleave their renames;
+      // a failed write is reported to its caller only, so later writes still run
+      const snapshot = JSON.stringify(loaded);
+      writes = writes.catch(() => undefined).then(() => persist(snapshot));
+      await writes;
+    },
+    async getDay(date) {
+      return ((await load())[date] || []).map(row => ({ ...row }));
+    },
+  };
+}
+
+let storeCache: UsageStore | null = null;
+
+/**
+ * Returns the store selected by USAGE_STORE
+ */
+export function getUsageStore(): UsageStore {
+  if (storeCache) return storeCache;
+
+  if (USAGE_STORE === 'file') {
+    storeCache = createFileUsageStore();
+  } else {
+    if (USAGE_STORE !== 'memory') {
+      log.warn(`Unknown USAGE_STORE "${USAGE_STORE}", using memory`);
+    }
+    storeCache = createMemoryUsageStore();
+  }
+
+  log.info(`[USAGE] Using ${storeCache.type} usage store`);
+  return storeCache;
+}
+
+/**
+ * Overrides the active store (tests). Pass null to restore env selection.
+ */
+export function setUsageStore(store: UsageStore | null): void {
+  storeCache = store;
+}
+
+// ============================================================
+// Request ledgers
+// ============================================================
+
+interface UsageLedger {
+  records: UsageRecord[];
+  budget: BudgetState;
+}
+
+// Every ledger the current code runs in, outermost first, so nested runWithUsage calls each see their calls
+const usageStorage = new AsyncLocalStorage<UsageLedger[]>();
+
+/**
+ * Runs fn and totals the LLM calls it makes
+ */
+export async function runWithUsage<T>(fn: () => Promise<T>): Promise<{ result: T; usage: UsageSummary }> {
+  const ledger: UsageLedger = { records: [], budget: 'ok' };
+  const result = await usageStorage.run([...(usageStorage.getStore() || []), ledger], fn);
+  const usage = summarizeUsage(aggregateUsage(ledger.records));
+  return { result, usage: ledger.budget !== 'ok' ? { ...usage, budget: ledger.budget } : usage };
+}
+
+/**
+ * Prices a call and adds it to the current request ledgers and to today's totals.
+ * Store errors are logged; accounting never fails a call.
+ */
+export async function recordUsage(step: string | undefined, model: string, usage: LLMUsage | undefined, now: Date = new Date()): Promise<UsageRecord> {
+  const tokens = usage || { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  const record: UsageRecord = {
+    step: step || 'other',
+    model,
+    promptTokens: tokens.promptTokens,
+    completionTokens: tokens.completionTokens,
+    totalTokens: tokens.totalTokens,
+    costUsd: priceUsage(model, tokens),
+    at: now.toISOString(),
+  };
+
+  for (const ledger of usageStorage.getStore() || []) {
+    ledger.records.push(record);
+  }
+
+  try {
+    await getUsageStore().add(record);
+  } catch (error) {
+    log.error('[USAGE] Could not record usage:', error);
+  }
+  return record;
+}
+
+let lastBudgetState: BudgetState = 'ok';
+
+/**
+ * The model a chat call should use under today's budget: the requested one,
+ * or LLM_BUDGET_MODEL past the soft limit when it is cheaper. Throws
+ * LLMBudgetExceededError past the hard limit.
+ */
+export async function applyBudgetGuard(model: string, now: Date = new Date()): Promise<string> {
+  if (LLM_DAILY_BUDGET_USD <= 0 && LLM_DAILY_HARD_LIMIT_USD <= 0) return model;
+
+  let spentUsd = 0;
+  try {
+    spentUsd = summarizeUsage(await getUsageStore().getDay(getUsageDate(now))).costUsd;
+  } catch (error) {
+    log.error('[USAGE] Could not read today\'s usage, skipping the budget check:', error);
+    return model;
+  }
+
+  const state = getBudgetState(spentUsd);
+  if (state !== lastBudgetState) {
+    log.warn(`[BUDGET] Today's LLM spend is $${spentUsd.toFixed(4)}, budget state ${lastBudgetState} -> ${state}`);
+    lastBudgetState = state;
+  }
+  if (state === 'ok') return model;
+
+  for (const ledger of usageStorage.getStore() || []) {
+    if (ledger.budget !== 'exceeded') ledger.budget = state;
+  }
+
+  if (state === 'exceeded') {
+    throw new LLMBudgetExceededError(`Daily LLM hard limit of $${LLM_DAILY_HARD_LIMIT_USD} reached ($${spentUsd.toFixed(4)} spent)`);
+  }
+
+  const requestedPrice = findModelPrice(model);
+  const budgetPrice = findModelPrice(LLM_BUDGET_MODEL);
+  const isCheaper = !requestedPrice || (budgetPrice && budgetPrice.input + budgetPrice.output < requestedPrice.input + requestedPrice.output);
+  if (model === LLM_BUDGET_MODEL || !isCheaper) return model;
+
+  log.debug(`[BUDGET] Switching ${model} to ${LLM_BUDGET_MODEL}`);
+  return LLM_BUDGET_MODEL;
+}
+
+// ============================================================
+// Reports
+// ============================================================
+
+/**
+ * One day's totals by step and by model. Today's report includes the budget state.
+ */
+export async function getDailyUsageReport(date: string = getUsageDate()): Promise<DailyUsageReport> {
+  const rows = await getUsageStore().getDay(date);
+  const summary = summarizeUsage(rows);
+  return {
+    date,
+    ...summary,
+    ...(date === getUsageDate() ? { budget: getBudgetState(summary.costUsd) } : {}),
+    rows: rows.sort((a, b) => b.costUsd - a.costUsd),
+  };
+}
+
+/**
+ * Reports for the last `days` days, newest first
+ */
+export async function getRecentUsageReports(days: number, now: Date = new Date()): Promise<DailyUsageReport[]> {
+  const reports: DailyUsageReport[] = [];
+  for (let offset = 0; offset < days; offset++) {
+    reports.push(await getDailyUsageReport(getUsageDate(new Date(now.getTime() - offset * 24 * 60 * 60 * 1000))));
+  }
+  return reports;
+}
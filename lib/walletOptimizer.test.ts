@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { isWalletQuery, optimizeWallet, parseWalletConstraints } from './walletOptimizer';
+import { toTypedCard } from './cardSchema';
+import { CreditCard } from '@/types';
+
+function makeCard(name: string, annualFee: string, rewards: string): CreditCard {
+  const row: Record<string, unknown> = {
+    id: name.toLowerCase().replace(/\s+/g, '-'),
+    credit_card_name: name,
+    url_application: 'https://example.com',
+    annual_fee: annualFee,
+    rewards,
+  };
+  return toTypedCard(row) as CreditCard;
+}
+
+const cards = [
+  makeCard('Flat Card', '$0', '2% cash back on everything'),
+  makeCard('Grocery Card', '$95', '6% at U.S. supermarkets, 1% on everything else'),
+  makeCard('Gas Card', '$0', '4% cash back on gas, 1% on everything else'),
+  makeCard('Dining Card', '$0', '3% on dining, 1% on everything else'),
+];
+
+describe('isWalletQuery', () => {
+  it('should detect questions about cards used together', () => {
+    expect(isWalletQuery('Which two cards should I carry together?')).toBe(true);
+    expect(isWalletQuery('What is the best card combo for a family?')).toBe(true);
+    expect(isWalletQuery('Best 3 cards for my wallet')).toBe(true);
+  });
+
+  it('should ignore single-card questions', () => {
+    expect(isWalletQuery('What is the best travel card?')).toBe(false);
+    expect(isWalletQuery('Show me 3 cards with no annual fee')).toBe(false);
+  });
+
+  it('should ignore digital wallets and cards that combine with something else', () => {
+    expect(isWalletQuery('Does it work with Apple Wallet?')).toBe(false);
+    expect(isWalletQuery('Can I pair this card with Google Pay?')).toBe(false);
+    expect(isWalletQuery('Which cards combine points with Chase?')).toBe(false);
+    expect(isWalletQuery('Show me 3 cards I can use abroad')).toBe(false);
+  });
+
+  it('should still detect wallet building phrased other ways', () => {
+    expect(isWalletQuery('Which cards should I combine for groceries and travel?')).toBe(true);
+    expect(isWalletQuery('Help me build the best wallet for a family')).toBe(true);
+    expect(isWalletQuery('What is the best 2 card combo that works with Apple Pay?')).toBe(true);
+  });
+});
+
+describe('parseWalletConstraints', () => {
+  it('should read the card count and fee budget', () => {
+    expect(parseWalletConstraints('best two cards to carry under $100 in annual fees')).toEqual({ maxCards: 2, maxTotalFee: 100 });
+    expect(parseWalletConstraints('which cards should I combine with no annual fee')).toEqual({ maxCards: 3, maxTotalFee: 0 });
+  });
+});
+
+describe('optimizeWallet', () => {
+  const profile = { groceries: 800, gas: 200, dining: 100, other: 1000 };
+
+  it('should assign each category to the card earning the most', () => {
+    const plan = optimizeWallet(cards, profile, { maxCards: 3, maxTotalFee: null })!;
+    const byCategory = Object.fromEntries(plan.assignments.map(a => [a.category, a.credit_card_name]));
+
+    expect(byCategory.groceries).toBe('Grocery Card');
+    expect(byCategory.gas).toBe('Gas Card');
+    expect(byCategory.other).toBe('Flat Card');
+    expect(plan.cards).toHaveLength(3);
+    expect(plan.ongoing).toBe(plan.annual_rewards - plan.total_annual_fee);
+  });
+
+  it('should respect the fee budget', () => {
+    const plan = optimizeWallet(cards, profile, { maxCards: 3, maxTotalFee: 0 })!;
+    expect(plan.cards.map(card => card.credit_card_name)).not.toContain('Grocery Card');
+    expect(plan.total_annual_fee).toBe(0);
+  });
+
+  it('should respect the card limit', () => {
+    const plan = optimizeWallet(cards, profile, { maxCards: 1, maxTotalFee: null })!;
+    expect(plan.cards).toHaveLength(1);
+  });
+
+  it('should fall back to a typical profile when none is given', () => {
+    const plan = optimizeWallet(cards, undefined, { maxCards: 2, maxTotalFee: null })!;
+    expect(plan.assumedSpendProfile).toBe(true);
+  });
+});
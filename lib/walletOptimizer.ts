@@ -0,0 +1,263 @@
+/**
+ * Multi-card wallet optimizer.
+ *
+ * Finds the combination of up to N cards (optionally under a total annual
+ * fee budget) that earns the most for a spend profile, using each card for
+ * the categories where it earns the most. Values come from lib/cardValue.ts.
+ */
+
+import { CardValueEstimate, CreditCard, SpendCategory, SpendProfile, WalletPlan } from '@/types';
+import { computeCardValue, SPEND_CATEGORIES } from './cardValue';
+import { toTypedCard } from './cardSchema';
+
+export interface WalletConstraints {
+  maxCards: number;
+  maxTotalFee: number | null;
+}
+
+// Typical monthly household spend, used when the user hasn't entered a profile
+export const DEFAULT_SPEND_PROFILE: SpendProfile = {
+  dining: 300,
+  groceries: 500,
+  gas: 200,
+  travel: 200,
+  other: 1000,
+};
+
+const DEFAULT_MAX_CARDS = 3;
+const MAX_WALLET_CARDS = 4;
+// Cards kept per category (and overall) before searching combinations; bounds the search to a few thousand sets
+const CANDIDATES_PER_CATEGORY = 6;
+
+const CATEGORY_LABELS: Record<SpendCategory, string> = {
+  dining: 'dining',
+  groceries: 'groceries',
+  gas: 'gas',
+  travel: 'travel',
+  other: 'everything else',
+};
+
+const NUMBER_WORDS: Record<string, number> = { one: 1, two: 2, three: 3, four: 4, pair: 2, couple: 2 };
+
+// Paying with a card ("does it work with Apple Wallet") isn't choosing a set of cards
+const DIGITAL_WALLET_PATTERN = /\b(apple|google|samsung|digital|mobile)\s+(wallet|pay)\b|\b(apple ?pay|paypal|venmo)\b/g;
+
+/**
+ * Whether a question asks for a set of cards to use together. Needs
+ * wallet-building phrasing: a card count with "together"/"combo"/"carry",
+ * carrying or combining several cards, or building a wallet.
+ */
+export function isWalletQuery(userQuery: string): boolean {
+  const query = userQuery.toLowerCase().replace(DIGITAL_WALLET_PATTERN, ' ');
+  return (
+    /\b(two|three|four|2|3|4|couple of|pair of)\s+(credit\s+)?cards?\b.*\b(together|combo|combination|carry|wallet|pair)\b/.test(query) ||
+    /\b(card|cards)\s+(combo|combination|combinations|strategy|lineup|setup)\b/.test(query) ||
+    /\b(carry|combine|pair)\s+(?:(?:two|three|four|2|3|4|multiple|several|these|my|the|which|what)\s+)?(?:credit\s+)?cards\b/.test(query) ||
+    /\bcards?\s+(?:should|would|could|can|to)\s+(?:i\s+)?(?:carry|combine|pair|use\s+together)\b/.test(query) ||
+    /\b(build|building|optimi[sz]e|best|ideal|perfect)\b.*\bwallet\b|\bwallet\s+(strategy|setup|lineup|combo)\b/.test(query)
+  );
+}
+
+/**
+ * Reads the card count and fee budget from the question
+ * "best 2 cards to carry under $200 in annual fees" → { maxCards: 2, maxTotalFee: 200 }
+ */
+export function parseWalletConstraints(userQuery: string): WalletConstraints {
+  const query = userQuery.toLowerCase();
+
+  let maxCards = DEFAULT_MAX_CARDS;
+  const countMatch = query.match(/\b(one|two|three|four|pair|couple|[1-4])\b(?:\s+of)?\s+(?:credit\s+)?cards?\b/);
+  if (countMatch) {
+    maxCards = NUMBER_WORDS[countMatch[1]] ?? parseInt(countMatch[1], 10);
+  }
+
+  let maxTotalFee: number | null = null;
+  if (/\bno (annual )?fees?\b|\$0 (annual )?fee|without (an )?annual fee/.test(query)) {
+    maxTotalFee = 0;
+  } else {
+    const feeMatch = query.match(/(?:under|below|less than|at most|max(?:imum)?(?: of)?|up to|budget of)\s*\$\s*([\d,]+)/);
+    if (feeMatch && /fee/.test(query)) {
+      maxTotalFee = parseInt(feeMatch[1].replace(/,/g, ''), 10);
+    }
+  }
+
+  return { maxCards: Math.min(Math.max(maxCards, 1), MAX_WALLET_CARDS), maxTotalFee };
+}
+
+/**
+ * Reward rate label for a category ("3x", "4%"), or null when the card's base rate applies
+ */
+function categoryRate(card: CreditCard, category: SpendCategory): string | null {
+  const typedCard = toTypedCard(card);
+  const rate = typedCard.reward_multipliers?.[category];
+  if (rate === undefined) return null;
+  return typedCard.reward_unit === '%' ? `${rate}%` : `${rate}x`;
+}
+
+interface ValuedCard {
+  card: CreditCard;
+  value: CardValueEstimate;
+}
+
+/**
+ * Scores a set of cards: each category goes to the card earning the most on it
+ */
+function scoreWallet(cards: ValuedCard[], categories: SpendCategory[]) {
+  let annualRewards = 0;
+  const bestByCategory = new Map<SpendCategory, ValuedCard>();
+
+  for (const category of categories) {
+    let best = cards[0];
+    for (const candidate of cards) {
+      if (candidate.value.rewards_by_category[category] > best.value.rewards_by_category[category]) {
+        best = candidate;
+      }
+    }
+    bestByCategory.set(category, best);
+    annualRewards += best.value.rewards_by_category[category];
+  }
+
+  const totalFee = cards.reduce((sum, item) => sum + item.value.annual_fee, 0);
+  // Welcome bonus minus first-year fee, per card
+  const firstYearExtras = cards.reduce((sum, item) => sum + (item.value.first_year - item.value.annual_rewards), 0);
+
+  return {
+    annualRewards,
+    totalFee,
+    ongoing: annualRewards - totalFee,
+    firstYear: annualRewards + firstYearExtras,
+    bestByCategory,
+  };
+}
+
+/**
+ * Finds the best wallet for a spend profile, or null if no card fits the fee budget
+ */
+export function optimizeWallet(
+  cards: CreditCard[],
+  spendProfile: SpendProfile | undefined,
+  constraints: WalletConstraints
+): WalletPlan | null {
+  const assumedSpendProfile = !spendProfile || !SPEND_CATEGORIES.some(category => (spendProfile[category] || 0) > 0);
+  const profile = assumedSpendProfile ? DEFAULT_SPEND_PROFILE : spendProfile!;
+  const categories = SPEND_CATEGORIES.filter(category => (profile[category] || 0) > 0);
+
+  const valued: ValuedCard[] = cards
+    .map(card => ({ card, value: computeCardValue(card, profile) }))
+    .filter(item => constraints.maxTotalFee === null || item.value.annual_fee <= constraints.maxTotalFee);
+
+  if (valued.length === 0) {
+    return null;
+  }
+
+  // Only cards that lead a category (or overall) can be part of the best wallet in practice
+  const pool = new Set<ValuedCard>();
+  for (const category of categories) {
+    [...valued]
+      .sort((a, b) => b.value.rewards_by_category[category] - a.value.rewards_by_category[category])
+      .slice(0, CANDIDATES_PER_CATEGORY)
+      .forEach(item => pool.add(item));
+  }
+  [...valued]
+    .sort((a, b) => b.value.ongoing - a.value.ongoing)
+    .slice(0, CANDIDATES_PER_CATEGORY)
+    .forEach(item => pool.add(item));
+
+  const candidates = Array.from(pool);
+  let best: { cards: ValuedCard[]; score: ReturnType<typeof scoreWallet> } | null = null;
+  let combinationsEvaluated = 0;
+
+  const search = (start: number, chosen: ValuedCard[]) => {
+    if (chosen.length > 0) {
+      combinationsEvaluated++;
+      const score = scoreWallet(chosen, categories);
+      const withinBudget = constraints.maxTotalFee === null || score.totalFee <= constraints.maxTotalFee;
+      const isBetter = !best ||
+        score.ongoing > best.score.ongoing ||
+        (score.ongoing === best.score.ongoing && chosen.length < best.cards.length) ||
+        (score.ongoing === best.score.ongoing && chosen.length === best.cards.length && score.totalFee < best.score.totalFee);
+
+      if (withinBudget && isBetter) {
+        best = { cards: [...chosen], score };
+      }
+    }
+    if (chosen.length === constraints.maxCards) return;
+
+    for (let i = start; i < candidates.length; i++) {
+      chosen.push(candidates[i]);
+      search(i + 1, chosen);
+      chosen.pop();
+    }
+  };
+  search(0, []);
+
+  if (!best) {
+    return null;
+  }
+  const winner: { cards: ValuedCard[]; score: ReturnType<typeof scoreWallet> } = best;
+
+  // Cards that don't win any category only add fees
+  const usedCards = winner.cards.filter(item =>
+    categories.some(category => winner.score.bestByCategory.get(category) === item)
+  );
+  const score = scoreWallet(usedCards, categories);
+
+  return {
+    cards: usedCards.map(item => ({
+      credit_card_name: item.card.credit_card_name,
+      apply_url: String(item.card.url_application || ''),
+      annual_fee: item.value.annual_fee,
+      categories: categories.filter(category => score.bestByCategory.get(category) === item),
+    })),
+    assignments: categories.map(category => {
+      const item = score.bestByCategory.get(category)!;
+      return {
+        category,
+        credit_card_name: item.card.credit_card_name,
+        rate: categoryRate(item.card, category),
+        annual_rewards: item.value.rewards_by_category[category],
+      };
+    }),
+    annual_rewards: score.annualRewards,
+    total_annual_fee: score.totalFee,
+    ongoing: score.ongoing,
+    first_year: score.firstYear,
+    constraints,
+    assumedSpendProfile,
+    spendProfile: profile,
+    combinationsEvaluated,
+  };
+}
+
+/**
+ * Markdown summary of a wallet plan in the same "- **[Card](url)** - description" format as recommendations
+ */
+export function formatWalletSummary(plan: WalletPlan): string {
+  const cardCount = plan.cards.length === 1 ? 'one card' : `${plan.cards.length} cards`;
+  const budget = plan.constraints.maxTotalFee !== null
+    ? ` with no more than $${plan.constraints.maxTotalFee} in total annual fees`
+    : '';
+  const profileNote = plan.assumedSpendProfile
+    ? ' Since you haven\'t entered your spending yet, this uses a typical household budget - add your monthly spending for a personalized result.'
+    : '';
+
+  const preface = `The best combination for your spending is ${cardCount}${budget}, earning about $${plan.ongoing.toLocaleString('en-US')} a year after fees ($${plan.first_year.toLocaleString('en-US')} in the first year).${profileNote}`;
+
+  const lines = plan.cards.map(card => {
+    const uses = card.categories.map(category => CATEGORY_LABELS[category]).join(', ');
+    const fee = card.annual_fee > 0 ? `$${card.annual_fee} annual fee` : 'no annual fee';
+    return `- **[${card.credit_card_name}](${card.apply_url})** - Use it for ${uses} (${fee}).`;
+  });
+
+  return `${preface}\n\n${lines.join('\n\n')}`;
+}
+
+/**
+ * Short reason text for a wallet card, used on the recommendation card
+ */
+export function describeWalletCard(plan: WalletPlan, cardName: string): string {
+  const assignments = plan.assignments.filter(assignment => assignment.credit_card_name === cardName);
+  return `Use for ${assignments
+    .map(assignment => `${CATEGORY_LABELS[assignment.category]}${assignment.rate ? ` (${assignment.rate})` : ''}`)
+    .join(', ')}`;
+}
@@ -1,20 +1,11 @@
-import OpenAI from 'openai';
+import { getLLMProvider, MODELS } from './llm';
+import { createLogger } from './logger';
 
-/**
- * Lazy-loaded OpenAI client
- */
-function getOpenAIClient() {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY is not set');
-  }
-  return new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-  });
-}
+const log = createLogger('webSearch');
 
 // Use a more capable model for general knowledge fallback
 // GPT-4o is recommended for better accuracy and reasoning when database doesn't have info
-const FALLBACK_MODEL = process.env.FALLBACK_MODEL || 'gpt-4o';
+const FALLBACK_MODEL = MODELS.fallback;
 
 interface WebSearchResponse {
   answer: string;
@@ -96,11 +87,12 @@ export function isGenericResponse(response: string, query: string): boolean {
     (puntingCount >= 2);
 
   if (isGeneric) {
-    console.log(`[GENERIC DETECTION] Response appears generic or punts to external sources`);
-    console.log(`  - Generic phrases: ${genericCount}`);
-    console.log(`  - Punting phrases: ${puntingCount}`);
-    console.log(`  - Word count: ${wordCount}`);
-    console.log(`  - Has specifics: ${hasSpecifics}`);
+    log.debug('[GENERIC DETECTION] Response appears generic or punts to external sources', {
+      genericPhrases: genericCount,
+      puntingPhrases: puntingCount,
+      wordCount,
+      hasSpecifics,
+    });
   }
 
   return isGeneric;
@@ -113,9 +105,7 @@ export async function generateAnswerWithActualWebSearch(
   query: string,
   conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>
 ): Promise<WebSearchResponse> {
-  console.log('[WEB SEARCH] Using OpenAI with web search for current information');
-
-  const openai = getOpenAIClient();
+  log.info('[WEB SEARCH] Using OpenAI with web search for current information');
 
   const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
     {
@@ -182,25 +172,22 @@ For single-card questions, use same bullet format with one card section.`,
   });
 
   try {
-    console.log(`[WEB SEARCH] Using ${FALLBACK_MODEL} with web search enabled`);
+    log.info(`[WEB SEARCH] Using ${FALLBACK_MODEL} with web search enabled`);
 
     // Use GPT-4o with search capability
-    const completion = await openai.chat.completions.create({
+    const completion = await getLLMProvider().chat(messages, {
       model: FALLBACK_MODEL,
-      messages: messages,
+      usageStep: 'web_search',
       temperature: 0.5,
-      max_tokens: 800,
+      maxTokens: 800,
       // Enable web search by using search predictions
-      prediction: {
-        type: 'content',
-        content: 'Search the web for current credit card information to provide specific, accurate details about fees, rewards, and benefits.'
-      } as any,
+      prediction: 'Search the web for current credit card information to provide specific, accurate details about fees, rewards, and benefits.',
     });
 
-    const answer = completion.choices[0]?.message?.content ||
+    const answer = completion.content ||
       "I couldn't find specific current information. Please check the official credit card issuer websites for the most accurate details.";
 
-    console.log(`[WEB SEARCH] Generated answer using ${FALLBACK_MODEL} with web search`);
+    log.info(`[WEB SEARCH] Generated answer using ${FALLBACK_MODEL} with web search`);
 
     return {
       answer,
@@ -208,7 +195,7 @@ For single-card questions, use same bullet format with one card section.`,
     };
   } catch (error: any) {
     // If prediction/web search fails, fall back to regular search
-    console.warn('Web search with prediction failed, falling back to regular model:', error.message);
+    log.warn('Web search with prediction failed, falling back to regular model:', error.message);
 
     return generateAnswerWithWebSearch(query, conversationHistory);
   }
@@ -226,8 +213,6 @@ export async function needsWebSearch(
     return false;
   }
 
-  const openai = getOpenAIClient();
-
   const systemPrompt = `You are a classifier that determines if a credit card query requires web search.
 
 Our internal database contains:
@@ -268,28 +253,26 @@ Query: "What are the latest credit card industry trends?"
 Output: {"needsWebSearch": true, "reason": "Requires current market analysis"}`;
 
   try {
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
+    const response = await getLLMProvider().chatJSON(
+      [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: query }
       ],
-      response_format: { type: 'json_object' },
-      temperature: 0,
-    });
+      { model: MODELS.fast, temperature: 0, usageStep: 'web_search_check' }
+    );
 
-    const content = response.choices[0].message.content;
+    const content = response.content;
     if (!content) {
       return false;
     }
 
     const result = JSON.parse(content);
-    console.log(`[WEB SEARCH DETECTION] Query: "${query}"`);
-    console.log(`[WEB SEARCH DETECTION] Needs web search: ${result.needsWebSearch}, Reason: ${result.reason}`);
+    log.debug(`[WEB SEARCH DETECTION] Query: "${query}"`);
+    log.info(`[WEB SEARCH DETECTION] Needs web search: ${result.needsWebSearch}, Reason: ${result.reason}`);
 
     return result.needsWebSearch;
   } catch (error) {
-    console.error('Error detecting web search need:', error);
+    log.error('Error detecting web search need:', error);
     return false; // Default to not using web search
   }
 }
@@ -301,9 +284,7 @@ export async function generateAnswerWithWebSearch(
   query: string,
   conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>
 ): Promise<WebSearchResponse> {
-  console.log('[GENERAL KNOWLEDGE] Using OpenAI general knowledge for query not in database');
-
-  const openai = getOpenAIClient();
+  log.info('[GENERAL KNOWLEDGE] Using OpenAI general knowledge for query not in database');
 
   const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
     {
@@ -339,26 +320,26 @@ Keep your response concise (2-4 sentences) and helpful.`,
   });
 
   try {
-    console.log(`[GENERAL KNOWLEDGE] Using ${FALLBACK_MODEL} for enhanced answer quality`);
+    log.info(`[GENERAL KNOWLEDGE] Using ${FALLBACK_MODEL} for enhanced answer quality`);
 
-    const completion = await openai.chat.completions.create({
+    const completion = await getLLMProvider().chat(messages, {
       model: FALLBACK_MODEL,
-      messages: messages,
+      usageStep: 'web_search',
       temperature: 0.7,
-      max_tokens: 500,
+      maxTokens: 500,
     });
 
-    const answer = completion.choices[0]?.message?.content ||
+    const answer = completion.content ||
       "I don't have that specific information in my credit card database. For the most current and accurate information, I recommend checking the official website of the credit card issuer or contacting them directly.";
 
-    console.log(`[GENERAL KNOWLEDGE] Generated answer using ${FALLBACK_MODEL}`);
+    log.info(`[GENERAL KNOWLEDGE] Generated answer using ${FALLBACK_MODEL}`);
 
     return {
       answer,
       usedWebSearch: true, // Using general knowledge as fallback
     };
   } catch (error) {
-    console.error('Error generating answer with general knowledge:', error);
+    log.error('Error generating answer with general knowledge:', error);
     throw error;
   }
 }
@@ -410,7 +391,7 @@ export function isInternalKnowledgeSufficient(
 
     // If asking about current events, internal knowledge is NOT sufficient
     if (requiresCurrentInfo) {
-      console.log('[KNOWLEDGE CHECK] Query requires current information');
+      log.debug('[KNOWLEDGE CHECK] Query requires current information');
       return false;
     }
 
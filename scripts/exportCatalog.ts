@@ -0,0 +1,39 @@
+/**
+ * Script to snapshot the card catalog into a local file
+ * Run with: npm run export-catalog -- data/cards.json
+ *
+ * Reads from the configured card source (Google Sheet by default) and writes
+ * JSON or CSV depending on the file extension. Point CARD_SOURCE/CARD_SOURCE_PATH
+ * at the snapshot to pin a reviewed catalog.
+ */
+
+// Load environment variables from .env.local
+import * as dotenv from 'dotenv';
+import * as fs from 'fs';
+import * as path from 'path';
+
+dotenv.config({ path: path.join(process.cwd(), '.env.local') });
+
+import { getCardSource, serializeCatalog } from '../lib/cardSources';
+
+async function main() {
+  const outputPath = process.argv[2] || path.join('data', 'cards.json');
+  const fullPath = path.isAbsolute(outputPath) ? outputPath : path.join(process.cwd(), outputPath);
+
+  try {
+    const source = getCardSource();
+    console.log(`Reading catalog from ${source.description}...`);
+    const rows = await source.load();
+
+    const contents = serializeCatalog(rows, fullPath, source.description);
+
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, contents);
+    console.log(`✅ Wrote ${rows.length} cards to ${fullPath}`);
+  } catch (error) {
+    console.error('❌ Error exporting catalog:', error);
+    process.exit(1);
+  }
+}
+
+main();
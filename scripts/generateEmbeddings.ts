@@ -1,6 +1,7 @@
 /**
  * Script to generate and save embeddings for all credit cards
- * Run with: npm run generate-embeddings
+ * Only added or changed cards are re-embedded; pass --full to re-embed everything
+ * Run with: npm run generate-embeddings [-- --full]
  */
 
 // Load environment variables from .env.local
@@ -9,13 +10,28 @@ import * as path from 'path';
 
 dotenv.config({ path: path.join(process.cwd(), '.env.local') });
 
-import { generateEmbeddings } from '../lib/embeddings';
+import { refreshEmbeddings } from '../lib/embeddings';
+
+function printCards(label: string, names: string[]) {
+  console.log(`${label}: ${names.length}`);
+  names.forEach(name => console.log(`  - ${name}`));
+}
 
 async function main() {
   try {
-    console.log('Starting embeddings generation...');
-    const store = await generateEmbeddings();
-    console.log(`✅ Successfully generated embeddings for ${store.embeddings.length} cards`);
+    const full = process.argv.includes('--full');
+    console.log(`Starting embeddings ${full ? 'full rebuild' : 'refresh'}...`);
+    const { store, report } = await refreshEmbeddings({ full });
+
+    if (report.modelChanged) {
+      console.log(`Model changed: ${report.previousModel} -> ${report.model} (all cards re-embedded)`);
+    }
+    printCards('Added', report.added);
+    printCards('Updated', report.updated);
+    printCards('Removed', report.removed);
+    console.log(`Unchanged: ${report.unchanged}`);
+
+    console.log(`✅ Embedded ${report.embedded} cards, ${store.embeddings.length} cards in index (model: ${report.model})`);
     console.log(`Generated at: ${store.generatedAt}`);
   } catch (error) {
     console.error('❌ Error generating embeddings:', error);
@@ -24,4 +40,3 @@ async function main() {
 }
 
 main();
-
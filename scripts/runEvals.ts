@@ -0,0 +1,92 @@
+/**
+ * Script to replay the golden query set through generateRecommendations
+ * Run with: npm run eval [-- --golden evals/golden-set.json --report evals/report.json --record]
+ *
+ * Runs offline by default: cards come from the pinned evals/catalog.json and
+ * model calls are replayed from evals/fixtures.json. Pass --record to call
+ * OpenAI and refresh the fixtures. Replay is strict: a missing fixtures file
+ * or an unrecorded model call fails the run instead of falling back to stand-in
+ * answers. The report is written as stable, sorted JSON and compared with the
+ * previous report at the same path.
+ */
+
+// Load environment variables from .env.local
+import * as dotenv from 'dotenv';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { EvalCaseResult, EvalReport } from '../lib/evals';
+
+dotenv.config({ path: path.join(process.cwd(), '.env.local') });
+
+function getArg(name: string, fallback: string): string {
+  const index = process.argv.indexOf(name);
+  return index !== -1 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+}
+
+const goldenPath = path.resolve(getArg('--golden', path.join('evals', 'golden-set.json')));
+const reportPath = path.resolve(getArg('--report', path.join('evals', 'report.json')));
+
+// Pin the catalog and model calls before the lib modules read their env
+process.env.CARD_SOURCE = 'json';
+process.env.CARD_SOURCE_PATH = process.env.EVAL_CATALOG_PATH || path.join('evals', 'catalog.json');
+const record = process.argv.includes('--record');
+process.env.LLM_PROVIDER = record ? 'record' : 'replay';
+process.env.LLM_FIXTURES_PATH = process.env.EVAL_FIXTURES_PATH || path.join('evals', 'fixtures.json');
+process.env.LLM_REPLAY_STRICT = 'true';
+// Keep the eval index apart from the app's data/embeddings.json
+process.env.EMBEDDINGS_PATH = path.join('data', 'eval-embeddings.json');
+
+async function main() {
+  if (!record && !fs.existsSync(process.env.LLM_FIXTURES_PATH!)) {
+    console.error(`❌ No fixtures at ${process.env.LLM_FIXTURES_PATH}. Record them first with: npm run eval -- --record`);
+    process.exit(1);
+  }
+
+  const { generateRecommendations } = await import('../lib/rag');
+  const { getCreditCards } = await import('../lib/data');
+  const {
+    buildEvalReport,
+    diffEvalReports,
+    erroredCase,
+    evaluateCase,
+    formatEvalReport,
+    parseGoldenSet,
+  } = await import('../lib/evals');
+
+  try {
+    const goldenSet = parseGoldenSet(JSON.parse(fs.readFileSync(goldenPath, 'utf-8')));
+    const catalog = await getCreditCards(true);
+    console.log(`Running ${goldenSet.cases.length} golden cases (v${goldenSet.version}) against ${catalog.length} cards with the ${process.env.LLM_PROVIDER} provider...\n`);
+
+    const results: EvalCaseResult[] = [];
+    for (const testCase of goldenSet.cases) {
+      try {
+        const history = [...(testCase.conversationHistory || []), { role: 'user' as const, content: testCase.query }];
+        const response = await generateRecommendations(testCase.query, undefined, history);
+        results.push(evaluateCase(testCase, response, catalog));
+      } catch (error) {
+        results.push(erroredCase(testCase, error));
+      }
+    }
+
+    const report = buildEvalReport(goldenSet, results);
+    const previous: EvalReport | null = fs.existsSync(reportPath)
+      ? JSON.parse(fs.readFileSync(reportPath, 'utf-8'))
+      : null;
+
+    console.log(`\n${formatEvalReport(report, previous ? diffEvalReports(previous, report) : undefined)}`);
+
+    fs.mkdirSync(path.dirname(reportPath), { recursive: true });
+    fs.writeFileSync(reportPath, `${JSON.stringify(report, null, 2)}\n`);
+    console.log(`\nWrote report to ${reportPath}`);
+
+    if (report.failed > 0) {
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('❌ Error running evals:', error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -1,4 +1,4 @@
-import { generateRecommendations } from '../lib/rag';
+import { generateRecommendations, isTopCard } from '../lib/rag';
 import { getCreditCards } from '../lib/data';
 import { loadEmbeddings } from '../lib/embeddings';
 
@@ -10,35 +10,6 @@ import { loadEmbeddings } from '../lib/embeddings';
  * 3. That generateRecommendations includes at least one top_card card
  */
 
-// Helper function to check if a card is a top card (same logic as in rag.ts)
-function isTopCard(card: any): boolean {
-  const possibleColumnNames = ['top_card', 'topCard', 'Top Card', 'Top_Card', 'top card', 'TOP_CARD'];
-  
-  let topCardValue = null;
-  let foundColumnName = null;
-  
-  for (const colName of possibleColumnNames) {
-    if (card[colName] !== undefined && card[colName] !== null) {
-      topCardValue = card[colName];
-      foundColumnName = colName;
-      break;
-    }
-  }
-  
-  if (topCardValue === null || topCardValue === undefined) {
-    return false;
-  }
-  
-  const normalizedValue = String(topCardValue).trim().toLowerCase();
-  const isTop = normalizedValue === '1' || 
-                normalizedValue === '1.0' || 
-                normalizedValue === 'true' ||
-                topCardValue === 1 ||
-                topCardValue === true;
-  
-  return isTop;
-}
-
 async function testTopCardFunctionality() {
   console.log('🧪 Testing top_card functionality...\n');
   
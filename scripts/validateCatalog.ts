@@ -0,0 +1,50 @@
+/**
+ * Script to print the card catalog validation report
+ * Run with: npm run validate-catalog [-- --json]
+ *
+ * Lists rows that were skipped (missing name or URL) and values that could not
+ * be parsed into the typed card schema (annual fee, intro APR, rewards, network, top_card).
+ */
+
+// Load environment variables from .env.local
+import * as dotenv from 'dotenv';
+import * as path from 'path';
+
+dotenv.config({ path: path.join(process.cwd(), '.env.local') });
+
+import { getCreditCards, getCatalogValidationReport } from '../lib/data';
+
+async function main() {
+  try {
+    await getCreditCards(true);
+    const report = getCatalogValidationReport();
+    if (!report) {
+      throw new Error('No validation report was produced');
+    }
+
+    if (process.argv.includes('--json')) {
+      console.log(JSON.stringify(report, null, 2));
+      return;
+    }
+
+    console.log(`\nCatalog: ${report.source}`);
+    console.log(`Rows: ${report.totalRows}, valid cards: ${report.validCards}, skipped: ${report.skippedRows}`);
+
+    if (report.issues.length === 0) {
+      console.log('✅ No issues found');
+      return;
+    }
+
+    for (const issue of report.issues) {
+      const icon = issue.severity === 'error' ? '❌' : '⚠️ ';
+      const card = issue.cardName ? ` ${issue.cardName}` : '';
+      const value = issue.value ? ` ("${issue.value.substring(0, 60)}")` : '';
+      console.log(`${icon} Row ${issue.row}${card} - ${issue.field}${value}: ${issue.message}`);
+    }
+  } catch (error) {
+    console.error('❌ Error validating catalog:', error);
+    process.exit(1);
+  }
+}
+
+main();
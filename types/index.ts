@@ -1,11 +1,60 @@
 /**
- * Credit card data structure from Google Sheets
+ * Spending categories with parsed reward multipliers
  */
-export interface CreditCard {
+export type RewardCategory = 'dining' | 'groceries' | 'gas' | 'travel' | 'streaming' | 'online_shopping' | 'other';
+
+export type RewardMultipliers = Partial<Record<RewardCategory, number>>;
+
+export type CardNetwork = 'Visa' | 'Mastercard' | 'American Express' | 'Discover';
+
+/**
+ * Typed fields derived from the raw sheet columns by lib/cardSchema.ts
+ * null means the value was missing or could not be parsed (see the validation report)
+ */
+export interface CreditCardSchemaFields {
+  annual_fee_amount: number | null; // Ongoing annual fee in dollars
+  has_annual_fee: boolean | null; // From annual_fee_score when present, otherwise annual_fee_amount > 0
+  intro_apr_months: number | null; // Length of the 0% intro APR period
+  reward_multipliers: RewardMultipliers; // e.g. { dining: 3, other: 1 }
+  reward_unit: 'x' | '%' | null; // Whether multipliers are points/miles (x) or cash back (%)
+  network: CardNetwork | null;
+  issuer: string | null;
+  top_card: boolean;
+}
+
+/**
+ * Credit card data structure from the card source
+ * Raw sheet columns are kept alongside the typed schema fields
+ */
+export interface CreditCard extends CreditCardSchemaFields {
   id: string;
   credit_card_name: string;
   url_application: string;
-  [key: string]: string | number; // Allow other attributes
+  [key: string]: unknown; // Allow other attributes
+}
+
+/**
+ * A malformed or missing value found while validating a catalog row
+ */
+export interface CardValidationIssue {
+  row: number; // 1-based data row (excluding the header)
+  cardName?: string;
+  field: string;
+  value: string;
+  message: string;
+  severity: 'error' | 'warning'; // error: row skipped; warning: value set to null
+}
+
+/**
+ * Per-row validation report for the last catalog load
+ */
+export interface CatalogValidationReport {
+  source: string;
+  generatedAt: string;
+  totalRows: number;
+  validCards: number;
+  skippedRows: number;
+  issues: CardValidationIssue[];
 }
 
 /**
@@ -15,6 +64,7 @@ export interface CardEmbedding {
   cardId: string;
   embedding: number[];
   card: CreditCard;
+  contentHash?: string; // Hash of cardToText(card) at embedding time
 }
 
 /**
@@ -24,6 +74,21 @@ export interface EmbeddingsStore {
   cards: CreditCard[];
   embeddings: CardEmbedding[];
   generatedAt: string;
+  model?: string; // Embedding model; stores written before this field used text-embedding-3-small
+}
+
+/**
+ * What changed during an embeddings refresh
+ */
+export interface EmbeddingsRefreshReport {
+  model: string;
+  previousModel: string | null; // null when there was no previous store
+  modelChanged: boolean; // Forces every card to be re-embedded
+  added: string[]; // Card names
+  updated: string[];
+  removed: string[];
+  unchanged: number;
+  embedded: number; // Cards sent to the embedding model
 }
 
 /**
@@ -31,6 +96,7 @@ export interface EmbeddingsStore {
  */
 export interface Recommendation {
   credit_card_name: string;
+  card_id?: string; // Catalog ID; the card's page is /cards/[card_id]
   apply_url: string;
   reason: string;
   intro_offer?: string;
@@ -41,6 +107,7 @@ export interface Recommendation {
   perks?: string;
   card_summary?: string; // Summary text displayed at the top of the expandable box
   card_highlights?: string; // Highlights formatted as checkmarks in the body
+  estimated_value?: CardValueEstimate; // Set when the request includes a spend profile
 }
 
 /**
@@ -51,6 +118,9 @@ export interface RecommendationsResponse {
   summary?: string; // Conversational summary of recommendations
   rawModelAnswer?: string;
   title?: string; // Short 2-5 word description of what the recommendations are for
+  wallet?: WalletPlan; // Set for "which cards should I carry together" questions
+  sessionId?: string; // Session the turn was recorded in (send it back with the next request)
+  privacyNotice?: PrivacyNotice; // Set when personal data was removed from the message before it reached the LLM
 
   // NEW: Debugging metadata for browser console logging
   metadata?: {
@@ -58,9 +128,205 @@ export interface RecommendationsResponse {
     stepName: string; // Human-readable step name
     usedWebSearch: boolean; // Whether web search was used
     reason?: string; // Additional context about the decision
+    routing?: { intent: QueryIntent; source: RouteSource }; // How lib/intentRouter.ts classified the question
+    latencyMs?: Record<string, number>; // Milliseconds per stage (routing, retrieval, generation) plus total
+    didYouMean?: string[]; // Card names to suggest when a card name was ambiguous
+    verification?: VerificationReport; // Claims checked against the catalog by lib/claimVerifier.ts
+    lint?: LintReport; // Output QA findings from lib/outputLint.ts
+    cache?: ResponseCacheInfo; // Set when the answer came from lib/responseCache.ts
+    degraded?: boolean; // The LLM was unavailable; cards came from catalog search without generation
+    debug?: PipelineDebugTrace; // Only when the request set debug: true and PIPELINE_DEBUG allows it
+    usage?: UsageSummary; // Tokens and cost of the LLM calls made for this answer (lib/usage.ts)
   };
 }
 
+/**
+ * Token counts and cost for a group of LLM calls
+ */
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+// ok: under budget; downgrade: past LLM_DAILY_BUDGET_USD, chat calls use LLM_BUDGET_MODEL;
+// exceeded: past LLM_DAILY_HARD_LIMIT_USD, chat calls fail and recommendations use the degraded path
+export type BudgetState = 'ok' | 'downgrade' | 'exceeded';
+
+/**
+ * Usage of one request, by pipeline step and by model
+ */
+export interface UsageSummary extends UsageTotals {
+  byStep: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+  budget?: BudgetState; // Set when the budget guard changed how calls were made
+}
+
+/**
+ * Usage of one day (UTC), by pipeline step and by model
+ */
+export interface DailyUsageReport extends UsageSummary {
+  date: string; // YYYY-MM-DD
+  rows: Array<UsageTotals & { step: string; model: string }>;
+}
+
+/**
+ * Cards left before and after one filter in lib/filters.ts applyFilters
+ */
+export interface FilterPass {
+  filter: string; // CardFilters field, e.g. "annualFee"
+  value: string;
+  before: number;
+  after: number;
+}
+
+// no_fee_candidates: removed from the candidates for a no-fee question; not_a_candidate: the model picked a card
+// that wasn't offered (only possible when there were no candidates to validate against)
+export type DroppedCardStage =
+  | 'no_fee_candidates'
+  | 'not_a_candidate'
+  | 'duplicate_cobranded'
+  | 'top_card_replacement';
+
+/**
+ * Decision trace for one recommendations pipeline run, for the developer panel
+ */
+export interface PipelineDebugTrace {
+  routing?: {
+    intent: QueryIntent;
+    source: RouteSource;
+    reason?: string;
+    cardNames: string[];
+    previousCardIndices: number[];
+  };
+  filters?: Record<string, unknown>; // CardFilters extracted by the router
+  filterPasses: FilterPass[];
+  filteredCardCount?: number; // Cards left for vector search; missing when no filters applied
+  webSearchNeeded?: boolean; // Verdict of the web search check when no catalog cards matched
+  retrieval: Array<{ credit_card_name: string; similarity: number; top_card: boolean }>; // findSimilarCards results, in rank order
+  injectedCards: Array<{ credit_card_name: string; stage: 'candidates' | 'recommendations'; reason: string }>;
+  droppedCards: Array<{ credit_card_name: string; stage: DroppedCardStage; reason: string }>;
+  prompt?: { model: string; messages: Array<{ role: string; content: string }> };
+}
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * One problem an output QA rule found in a response
+ */
+export interface LintIssue {
+  rule: string; // Rule ID, e.g. "concatenated-card-name"
+  severity: LintSeverity;
+  message: string;
+  fixed: boolean; // Whether the rule's fixer repaired it
+  examples?: string[]; // Snippets of the offending output
+}
+
+export interface LintReport {
+  errors: number;
+  warnings: number;
+  fixed: number;
+  issues: LintIssue[];
+}
+
+/**
+ * How a cached answer matched the question: the same normalized text, or a near-duplicate by embedding
+ */
+export type ResponseCacheMatch = 'exact' | 'semantic';
+
+export interface ResponseCacheInfo {
+  match: ResponseCacheMatch;
+  similarity: number; // 1 for exact matches
+  cachedQuery: string; // Question the answer was generated for
+  cachedAt: string;
+}
+
+export type ClaimKind = 'card_name' | 'url' | 'annual_fee' | 'dollar_amount' | 'percentage' | 'multiplier' | 'bonus_amount';
+
+// verified: matches the catalog; corrected: replaced with the catalog value; flagged: not supported by the catalog
+export type ClaimStatus = 'verified' | 'corrected' | 'flagged';
+
+/**
+ * One fact from a generated answer, checked against the catalog row of the card it is about
+ */
+export interface ClaimCheck {
+  kind: ClaimKind;
+  source: string; // Where the claim appeared, e.g. "summary" or "recommendations[0].annual_fee"
+  card: string | null; // Catalog name of the card the claim was checked against
+  claim: string; // The claim as generated
+  status: ClaimStatus;
+  expected?: string; // Catalog value, for corrected and flagged claims
+}
+
+export interface VerificationReport {
+  checked: number;
+  verified: number;
+  corrected: number;
+  flagged: number;
+  claims: ClaimCheck[];
+}
+
+/**
+ * What a question asks for, as decided by lib/intentRouter.ts
+ */
+export type QueryIntent =
+  | 'training'
+  | 'off_topic'
+  | 'general_attribute'
+  | 'previous_cards'
+  | 'specific_card'
+  | 'wallet'
+  | 'recommendations';
+
+// rules: deterministic fast path, llm: one structured model call, fallback: the model call failed
+export type RouteSource = 'rules' | 'llm' | 'fallback';
+
+/**
+ * Pipeline step announced while a request is being processed.
+ * Matches the step/stepName pair reported in RecommendationsResponse.metadata.
+ */
+export interface PipelineStep {
+  step: number;
+  stepName: string;
+}
+
+/**
+ * Callbacks for parts of a response as the pipeline produces them, before the
+ * final answer is verified and linted
+ */
+export interface PipelineProgressHandlers {
+  onStep?: (step: PipelineStep) => void;
+  onTitle?: (title: string) => void;
+  onRecommendation?: (recommendation: Recommendation, index: number) => void;
+  onSummary?: (delta: string) => void;
+}
+
+/**
+ * Server-Sent Event emitted by the streaming variant of /api/recommendations
+ */
+export type RecommendationStreamEvent =
+  | { type: 'step'; step: number; stepName: string }
+  | { type: 'title'; title: string }
+  | { type: 'recommendation'; index: number; recommendation: Recommendation }
+  | { type: 'summary'; delta: string; replace?: boolean } // replace: delta is the whole summary, replacing what was streamed
+  | { type: 'done'; response: RecommendationsResponse }
+  | { type: 'error'; error: string };
+
+/**
+ * Kinds of personal data lib/pii.ts removes from user text
+ */
+export type PIIType = 'card_number' | 'ssn' | 'phone' | 'email' | 'account_number';
+
+/**
+ * Tells the user which kinds of personal data were replaced with placeholders
+ */
+export interface PrivacyNotice {
+  redacted: PIIType[];
+  message: string; // Ready to show in the chat UI
+}
+
 /**
  * Conversation message structure
  */
@@ -69,12 +335,164 @@ export interface ConversationMessage {
   content: string;
 }
 
+/**
+ * A message stored in a server-side session
+ */
+export interface SessionMessage extends ConversationMessage {
+  createdAt: string;
+  recommendations?: Recommendation[]; // Cards shown with an assistant message
+}
+
+/**
+ * Server-side conversation state, keyed by session ID
+ */
+export interface ConversationSession {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string; // Sliding TTL, renewed on every turn
+  messages: SessionMessage[]; // Recent messages; older ones are folded into `summary`
+  summary?: string; // Summary of messages trimmed from the history
+  previousRecommendations: Recommendation[]; // Most recent cards shown to the user
+}
+
 /**
  * API request structure
  */
 export interface RecommendationsRequest {
   message: string;
-  conversationHistory?: ConversationMessage[]; // Optional conversation history
-  previousRecommendations?: Recommendation[]; // Previous cards that were shown to the user
+  sessionId?: string; // Server-side session holding history and previous cards; a new one is created if missing or expired
+  /** @deprecated Ignored by /api/recommendations - history is read from the session */
+  conversationHistory?: ConversationMessage[];
+  /** @deprecated Ignored by /api/recommendations - previous cards are read from the session */
+  previousRecommendations?: Recommendation[];
+  spendProfile?: SpendProfile; // Monthly spend by category, used to rank cards by value
+  debug?: boolean; // Return the pipeline decision trace in metadata.debug (see PIPELINE_DEBUG)
 }
 
+/**
+ * Spend categories users can enter (catalog reward categories map onto these)
+ */
+export type SpendCategory = 'dining' | 'groceries' | 'gas' | 'travel' | 'other';
+
+/**
+ * Monthly spend in dollars by category
+ */
+export type SpendProfile = Partial<Record<SpendCategory, number>>;
+
+/**
+ * Expected dollar value of a card for a spend profile
+ */
+export interface CardValueEstimate {
+  annual_rewards: number; // Rewards earned on a year of spend
+  annual_fee: number;
+  welcome_bonus: number; // Dollar value of the intro offer, 0 if unknown
+  first_year: number; // Rewards + welcome bonus - first-year fee
+  ongoing: number; // Rewards - annual fee, every year after the first
+  rewards_by_category: Record<SpendCategory, number>;
+  explanation: string; // One-sentence breakdown shown next to the reason
+}
+
+/**
+ * A card in an optimized wallet and the categories it should be used for
+ */
+export interface WalletCard {
+  credit_card_name: string;
+  apply_url: string;
+  annual_fee: number;
+  categories: SpendCategory[];
+}
+
+/**
+ * Which wallet card to use for a spend category
+ */
+export interface WalletAssignment {
+  category: SpendCategory;
+  credit_card_name: string;
+  rate: string | null; // e.g. "3x" or "4%"; null when the card's base rate applies
+  annual_rewards: number;
+}
+
+/**
+ * Best combination of cards for a spend profile
+ */
+export interface WalletPlan {
+  cards: WalletCard[];
+  assignments: WalletAssignment[];
+  annual_rewards: number;
+  total_annual_fee: number;
+  ongoing: number; // Rewards - fees, per year
+  first_year: number; // Including welcome bonuses and first-year fee waivers
+  constraints: { maxCards: number; maxTotalFee: number | null };
+  assumedSpendProfile: boolean; // True when a typical profile was used because none was given
+  spendProfile: SpendProfile;
+  combinationsEvaluated: number;
+}
+
+
+/**
+ * One attribute of a card comparison, with a value per compared card
+ */
+export interface ComparisonRow {
+  key: string;
+  label: string;
+  values: (string | null)[]; // Same order as CardComparison.cards; null when the card has no data
+  bestIndices?: number[]; // Cards with the best value, for attributes that can be ranked
+}
+
+/**
+ * Side-by-side comparison of 2-4 cards (/api/compare)
+ */
+export interface CardComparison {
+  cards: { id: string; credit_card_name: string; apply_url: string }[];
+  rows: ComparisonRow[];
+  verdict: string; // Narrative summary of which card suits whom
+  unresolved: string[]; // Requested names that didn't match a card
+  didYouMean?: Record<string, string[]>; // Suggestions for unresolved names, keyed by requested name
+  privacyNotice?: PrivacyNotice; // Set when personal data was removed from the message
+}
+
+/**
+ * /api/compare request: explicit card names, or a message to extract them from
+ */
+export interface CompareRequest {
+  cardNames?: string[];
+  message?: string;
+}
+
+/**
+ * Annual fee ranges used to facet and filter the catalog
+ */
+export type FeeBand = 'no-fee' | 'up-to-100' | '101-400' | 'over-400' | 'unknown';
+
+export type CardSortField = 'relevance' | 'annual_fee' | 'rewards_rate' | 'top_card' | 'name';
+
+/**
+ * One facet value and how many matching cards have it
+ */
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface CatalogFacets {
+  issuer: FacetCount[];
+  network: FacetCount[];
+  card_type: FacetCount[];
+  target_consumer: FacetCount[];
+  fee_band: FacetCount[];
+}
+
+/**
+ * A page of the card catalog (/api/cards)
+ */
+export interface CardListResponse {
+  cards: CreditCard[];
+  total: number; // Cards matching the search and filters, across all pages
+  page: number; // 1-based
+  pageSize: number;
+  totalPages: number;
+  sort: CardSortField;
+  order: 'asc' | 'desc';
+  facets: CatalogFacets; // Counted over the matching cards
+}